@@ -0,0 +1,154 @@
+/* EquityMap service worker: app shell, datasets and DC map tiles offline. */
+
+const VERSION = "v1";
+const SHELL_CACHE = `eq-shell-${VERSION}`;
+const DATA_CACHE = `eq-data-${VERSION}`;
+const TILE_CACHE = `eq-tiles-${VERSION}`;
+const CACHES = [SHELL_CACHE, DATA_CACHE, TILE_CACHE];
+
+const SHELL_URLS = ["/", "/index.html", "/manifest.webmanifest", "/icon.svg"];
+const DATA_URLS = [
+  "/DC_Active_SNAP_Retailers_2026.csv",
+  "/Primary_Care_Facilities.csv",
+  "/ACS_5-Year_Economic_Characteristics_of_DC_Census_Tracts.csv",
+  "/DC_Address_Points.csv",
+  "/DC_Wards.geojson",
+  "/DC_Zip_Codes.geojson",
+  "/gtfs/stops.txt",
+  "/gtfs/routes.txt",
+  "/gtfs/trips.txt",
+  "/gtfs/stop_times.txt",
+];
+
+const TILE_HOST = /^[a-d]\.basemaps\.cartocdn\.com$/;
+// Runtime tiles beyond the DC precache are kept, but only up to this many.
+const MAX_TILES = 3000;
+
+/** Leaflet spreads tiles over a-d subdomains; cache them under one key. */
+const tileKey = (url) => {
+  const u = new URL(url);
+  u.hostname = u.hostname.replace(/^[a-d]\./, "a.");
+  return u.toString();
+};
+
+/** Hashed JS/CSS referenced by index.html, so the shell boots offline. */
+const shellAssets = async () => {
+  const res = await fetch("/index.html", { cache: "no-cache" });
+  const html = await res.text();
+  const assets = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map(
+    (m) => m[1]
+  );
+  return [...new Set(assets)];
+};
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const shell = await caches.open(SHELL_CACHE);
+      await shell.addAll([...SHELL_URLS, ...(await shellAssets())]);
+      const data = await caches.open(DATA_CACHE);
+      await data.addAll(DATA_URLS);
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names.filter((n) => !CACHES.includes(n)).map((n) => caches.delete(n))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+const networkFirst = async (request, cacheName, fallbackKey) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const res = await fetch(request);
+    if (res.ok) await cache.put(fallbackKey || request, res.clone());
+    return res;
+  } catch (err) {
+    const cached = await cache.match(fallbackKey || request);
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+const cacheFirst = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const res = await fetch(request);
+  if (res.ok) await cache.put(request, res.clone());
+  return res;
+};
+
+const trimTiles = async () => {
+  const cache = await caches.open(TILE_CACHE);
+  const keys = await cache.keys();
+  const excess = keys.length - MAX_TILES;
+  // Keys come back in insertion order, so the oldest go first.
+  for (let i = 0; i < excess; i++) await cache.delete(keys[i]);
+};
+
+const tile = async (url) => {
+  const key = tileKey(url);
+  const cache = await caches.open(TILE_CACHE);
+  const cached = await cache.match(key);
+  if (cached) return cached;
+  // CORS, not no-cors: opaque responses count as megabytes against quota.
+  const res = await fetch(key, { mode: "cors" });
+  if (res.ok) {
+    await cache.put(key, res.clone());
+    if (Math.random() < 0.02) trimTiles();
+  }
+  return res;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  if (TILE_HOST.test(url.hostname)) {
+    event.respondWith(tile(request.url));
+    return;
+  }
+  if (url.origin !== self.location.origin) return;
+  // API responses change as submissions are reviewed; never serve them stale.
+  if (url.pathname.startsWith("/api/")) return;
+
+  if (request.mode === "navigate") {
+    // Every route is the same SPA shell.
+    event.respondWith(networkFirst(request, SHELL_CACHE, "/index.html"));
+  } else if (/\.(csv|geojson)$|^\/gtfs\//.test(url.pathname)) {
+    event.respondWith(networkFirst(request, DATA_CACHE));
+  } else {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  }
+});
+
+/** The page sends the tile URLs covering DC for the active basemap. */
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== "precache-tiles") return;
+  const urls = event.data.urls || [];
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(TILE_CACHE);
+      for (const url of urls) {
+        const key = tileKey(url);
+        if (await cache.match(key)) continue;
+        try {
+          const res = await fetch(key, { mode: "cors" });
+          if (res.ok) await cache.put(key, res);
+        } catch {
+          return; // Offline or blocked; try again on the next visit.
+        }
+      }
+    })()
+  );
+});
@@ -0,0 +1,40 @@
+// Builds public/DC_Address_Points.csv from a DC Master Address Repository
+// "Address Points" CSV export (opendata.dc.gov), keeping only active
+// addresses and the four columns the local geocoder reads.
+//
+//   node scripts/build-address-index.mjs Address_Points.csv [out.csv]
+import { readFileSync, writeFileSync } from "node:fs";
+import Papa from "papaparse";
+
+const [input, output = "public/DC_Address_Points.csv"] = process.argv.slice(2);
+if (!input) {
+  console.error("usage: node scripts/build-address-index.mjs <Address_Points.csv> [out.csv]");
+  process.exit(1);
+}
+
+const { data } = Papa.parse(readFileSync(input, "utf8").replace(/^\uFEFF/, ""), {
+  header: true,
+  skipEmptyLines: true,
+});
+
+const seen = new Set();
+const rows = [];
+for (const row of data) {
+  const status = (row.STATUS || "ACTIVE").trim().toUpperCase();
+  const address = (row.FULLADDRESS || "").trim();
+  const lat = parseFloat(row.LATITUDE);
+  const lng = parseFloat(row.LONGITUDE);
+  if (status !== "ACTIVE" || !address || !Number.isFinite(lat) || !Number.isFinite(lng)) continue;
+  const zip = (row.ZIPCODE || "").trim();
+  const key = `${address}|${zip}`;
+  if (seen.has(key)) continue;
+  seen.add(key);
+  rows.push({ FULLADDRESS: address, ZIPCODE: zip, LATITUDE: lat.toFixed(6), LONGITUDE: lng.toFixed(6) });
+}
+
+if (rows.length === 0) {
+  console.error(`${input}: no rows with FULLADDRESS, LATITUDE and LONGITUDE`);
+  process.exit(1);
+}
+writeFileSync(output, Papa.unparse(rows, { columns: ["FULLADDRESS", "ZIPCODE", "LATITUDE", "LONGITUDE"] }) + "\n");
+console.log(`Wrote ${rows.length} addresses to ${output}`);
@@ -0,0 +1,142 @@
+// Replaces public/gtfs/ with WMATA's published rail and bus GTFS-static
+// feeds, slimmed to what src/lib/transit.ts reads: the stops in and around
+// DC, the routes that stop there, and one trip per route listing its stops.
+//
+//   WMATA_API_KEY=... node scripts/fetch-wmata-gtfs.mjs
+//   node scripts/fetch-wmata-gtfs.mjs rail-gtfs-static.zip bus-gtfs-static.zip
+//
+// Keys are free at https://developer.wmata.com. Without one, pass the two
+// zips downloaded from there instead.
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { inflateRawSync } from "node:zlib";
+import Papa from "papaparse";
+
+const FEEDS = {
+  rail: "https://api.wmata.com/gtfs/rail-gtfs-static.zip",
+  bus: "https://api.wmata.com/gtfs/bus-gtfs-static.zip",
+};
+const OUT_DIR = "public/gtfs";
+
+// DC plus about a mile around it, so pins near the line still see the
+// closest stop across it.
+const BOUNDS = { south: 38.78, north: 39.01, west: -77.14, east: -76.89 };
+
+/** The files in a zip archive, by name. Stored and deflated entries only. */
+const unzip = (buf) => {
+  let eocd = buf.length - 22;
+  while (eocd >= 0 && buf.readUInt32LE(eocd) !== 0x06054b50) eocd--;
+  if (eocd < 0) throw new Error("not a zip file");
+  const files = new Map();
+  let p = buf.readUInt32LE(eocd + 16);
+  for (let n = buf.readUInt16LE(eocd + 10); n > 0; n--) {
+    const method = buf.readUInt16LE(p + 10);
+    const size = buf.readUInt32LE(p + 20);
+    const nameLen = buf.readUInt16LE(p + 28);
+    const local = buf.readUInt32LE(p + 42);
+    const name = buf.toString("utf8", p + 46, p + 46 + nameLen).replace(/^.*\//, "");
+    p += 46 + nameLen + buf.readUInt16LE(p + 30) + buf.readUInt16LE(p + 32);
+
+    const start = local + 30 + buf.readUInt16LE(local + 26) + buf.readUInt16LE(local + 28);
+    const data = buf.subarray(start, start + size);
+    if (method === 0) files.set(name, data);
+    else if (method === 8) files.set(name, inflateRawSync(data));
+    else throw new Error(`${name}: unsupported compression method ${method}`);
+  }
+  return files;
+};
+
+const readZip = async (kind, path) => {
+  if (path) return readFileSync(path);
+  const key = process.env.WMATA_API_KEY;
+  if (!key) {
+    console.error("Set WMATA_API_KEY or pass the rail and bus zip files.");
+    process.exit(1);
+  }
+  const res = await fetch(FEEDS[kind], { headers: { api_key: key } });
+  if (!res.ok) throw new Error(`${FEEDS[kind]}: HTTP ${res.status}`);
+  return Buffer.from(await res.arrayBuffer());
+};
+
+const table = (files, name, step) => {
+  const file = files.get(name);
+  if (!file) throw new Error(`feed has no ${name}`);
+  Papa.parse(file.toString("utf8").replace(/^\uFEFF/, ""), {
+    header: true,
+    skipEmptyLines: true,
+    step: ({ data }) => step(data),
+  });
+};
+
+const out = { stops: [], routes: [], trips: [], stopTimes: [] };
+
+const addFeed = (kind, files) => {
+  // Ids are prefixed so the two feeds can't collide.
+  const id = (value) => (value ? `${kind}_${value}` : "");
+
+  const stops = new Map();
+  table(files, "stops.txt", (s) => stops.set(s.stop_id, s));
+  const inBounds = (s) => {
+    const lat = parseFloat(s.stop_lat);
+    const lng = parseFloat(s.stop_lon);
+    return lat >= BOUNDS.south && lat <= BOUNDS.north && lng >= BOUNDS.west && lng <= BOUNDS.east;
+  };
+  // A platform counts by its station's location.
+  const boardAt = (stopId) => {
+    const stop = stops.get(stopId);
+    return (stop?.parent_station && stops.get(stop.parent_station)) || stop;
+  };
+
+  const tripRoute = new Map();
+  table(files, "trips.txt", (t) => tripRoute.set(t.trip_id, t.route_id));
+
+  const served = new Map();
+  table(files, "stop_times.txt", (st) => {
+    const route = tripRoute.get(st.trip_id);
+    const stop = boardAt(st.stop_id);
+    if (!route || !stop || !inBounds(stop)) return;
+    if (!served.has(route)) served.set(route, new Set());
+    served.get(route).add(stop.stop_id);
+  });
+
+  const kept = new Set([...served.values()].flatMap((ids) => [...ids]));
+  for (const s of stops.values()) {
+    if (!kept.has(s.stop_id)) continue;
+    out.stops.push({
+      stop_id: id(s.stop_id),
+      stop_name: s.stop_name,
+      stop_lat: s.stop_lat,
+      stop_lon: s.stop_lon,
+      location_type: s.location_type || "0",
+      parent_station: "",
+    });
+  }
+  table(files, "routes.txt", (r) => {
+    if (!served.has(r.route_id)) return;
+    out.routes.push({
+      route_id: id(r.route_id),
+      route_short_name: r.route_short_name,
+      route_long_name: r.route_long_name,
+      route_type: r.route_type,
+    });
+  });
+  for (const [route, ids] of served) {
+    out.trips.push({ route_id: id(route), trip_id: id(route) });
+    let seq = 0;
+    for (const stopId of ids) {
+      out.stopTimes.push({ trip_id: id(route), stop_id: id(stopId), stop_sequence: ++seq });
+    }
+  }
+  console.log(`${kind}: ${kept.size} stops, ${served.size} routes`);
+};
+
+const [railZip, busZip] = process.argv.slice(2);
+addFeed("rail", unzip(await readZip("rail", railZip)));
+addFeed("bus", unzip(await readZip("bus", busZip)));
+
+mkdirSync(OUT_DIR, { recursive: true });
+const write = (name, rows) => writeFileSync(`${OUT_DIR}/${name}`, Papa.unparse(rows) + "\n");
+write("stops.txt", out.stops);
+write("routes.txt", out.routes);
+write("trips.txt", out.trips);
+write("stop_times.txt", out.stopTimes);
+console.log(`Wrote ${OUT_DIR}/`);
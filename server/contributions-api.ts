@@ -0,0 +1,473 @@
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Plugin } from "vite";
+import {
+  ADMIN_API,
+  CONTRIBUTIONS_API,
+  parseReport,
+  parseReviewDecision,
+  parseSubmission,
+  REPORT_REVIEW_STATUS,
+  REPORTS_API,
+  REVIEW_STATUS,
+  summarizeReports,
+  type AuditEntry,
+  type Contribution,
+  type ContributionInput,
+  type ContributionStatus,
+  type EvidenceUpload,
+  type PublicContribution,
+  type Report,
+  type ReportInput,
+  type ReportStatus,
+  type ReviewDecision,
+  type StoredEvidence,
+} from "../src/lib/contributions/schema";
+
+// Room for three scaled-down photos, base64-encoded.
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const AUDIT_LIMIT = 200;
+const STATUSES: ContributionStatus[] = ["pending", "approved", "rejected", "merged"];
+const REPORT_STATUSES: ReportStatus[] = ["pending", "confirmed", "dismissed"];
+const EVIDENCE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+/** A JSON array in a file, replaced via a rename so a crash never leaves half a file. */
+const jsonList = <T>(file: string) => ({
+  read: async (): Promise<T[]> => {
+    try {
+      return JSON.parse(await fs.readFile(file, "utf8"));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw err;
+    }
+  },
+  write: async (list: T[]) => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(list, null, 2));
+    await fs.rename(tmp, file);
+  },
+});
+
+type Failure = { error: string; status: number };
+
+export interface ContributionStoreFiles {
+  /** Review decisions, one JSON object per line. */
+  auditFile?: string;
+  /** Problem reports on existing pins. */
+  reportsFile?: string;
+}
+
+/**
+ * Submissions and problem reports kept in JSON files, and review decisions
+ * appended to a JSON-lines audit log next to them. Writes go through one
+ * queue so two requests can't interleave a read-modify-write. Photos are
+ * written to an evidence/ folder rather than into the JSON.
+ */
+export const createContributionStore = (
+  file: string,
+  {
+    auditFile = path.join(path.dirname(file), "review-audit.jsonl"),
+    reportsFile = path.join(path.dirname(file), "reports.json"),
+  }: ContributionStoreFiles = {}
+) => {
+  let queue: Promise<unknown> = Promise.resolve();
+  const evidenceDir = path.join(path.dirname(file), "evidence");
+  const submissions = jsonList<Contribution>(file);
+  const reports = jsonList<Report>(reportsFile);
+  const read = submissions.read;
+
+  /** Runs `run` in the queue; a returned `list` replaces the stored one. */
+  const change = <L, T>(
+    store: ReturnType<typeof jsonList<L>>,
+    run: (list: L[]) => { list?: L[]; result: T; audit?: AuditEntry }
+  ) => {
+    const next = queue.then(async () => {
+      const { list, result, audit } = run(await store.read());
+      if (list) await store.write(list);
+      if (audit) await fs.appendFile(auditFile, `${JSON.stringify(audit)}\n`);
+      return result;
+    });
+    queue = next.catch(() => {});
+    return next;
+  };
+
+  const saveEvidence = async (id: string, uploads: EvidenceUpload[]) => {
+    await fs.mkdir(evidenceDir, { recursive: true });
+    return Promise.all(
+      uploads.map(async ({ kind, dataUrl }, i): Promise<StoredEvidence> => {
+        const [, mime, data] = dataUrl.match(/^data:([^;]+);base64,(.*)$/)!;
+        const name = `${id}-${i}.${EVIDENCE_EXTENSIONS[mime]}`;
+        await fs.writeFile(path.join(evidenceDir, name), Buffer.from(data, "base64"));
+        return { kind, file: name, mime };
+      })
+    );
+  };
+
+  return {
+    list: read,
+    add: async ({ evidence, ...input }: ContributionInput, now = new Date()) => {
+      const id = randomUUID();
+      const stored = evidence?.length ? await saveEvidence(id, evidence) : undefined;
+      return change(submissions, (list) => {
+        const contribution: Contribution = {
+          ...input,
+          ...(stored && { evidence: stored }),
+          id,
+          status: "pending",
+          submittedAt: now.toISOString(),
+        };
+        return { list: [...list, contribution], result: contribution };
+      });
+    },
+    /** The nth photo of a submission, or null. */
+    evidence: async (id: string, n: number) => {
+      const item = (await read()).find((c) => c.id === id)?.evidence?.[n];
+      if (!item) return null;
+      return { mime: item.mime, data: await fs.readFile(path.join(evidenceDir, item.file)) };
+    },
+    /** Records a decision on a pending submission, or says why it can't. */
+    review: (id: string, decision: ReviewDecision, now = new Date()) =>
+      change<Contribution, Contribution | Failure>(submissions, (list) => {
+        const current = list.find((c) => c.id === id);
+        if (!current) return { result: { error: "No such submission.", status: 404 } };
+        if (current.status !== "pending") {
+          return {
+            result: { error: `This submission was already ${current.status}.`, status: 409 },
+          };
+        }
+        const at = now.toISOString();
+        const reviewed: Contribution = {
+          ...current,
+          status: REVIEW_STATUS[decision.action],
+          reviewedAt: at,
+          reviewer: decision.reviewer,
+          reviewNote: decision.note,
+          ...(decision.mergedInto && { mergedInto: decision.mergedInto }),
+        };
+        return {
+          list: list.map((c) => (c.id === id ? reviewed : c)),
+          result: reviewed,
+          audit: { ...decision, at, contributionId: id, previousStatus: current.status },
+        };
+      }),
+    listReports: reports.read,
+    addReport: (input: ReportInput, reporter?: string, now = new Date()) =>
+      change(reports, (list) => {
+        const report: Report = {
+          ...input,
+          ...(reporter && { reporter }),
+          id: randomUUID(),
+          status: "pending",
+          submittedAt: now.toISOString(),
+        };
+        return { list: [...list, report], result: report };
+      }),
+    /** Confirms or dismisses a pending report. */
+    reviewReport: (id: string, decision: ReviewDecision, now = new Date()) =>
+      change<Report, Report | Failure>(reports, (list) => {
+        const status = REPORT_REVIEW_STATUS[decision.action];
+        if (!status) {
+          return { result: { error: "Reports can only be confirmed or dismissed.", status: 400 } };
+        }
+        const current = list.find((r) => r.id === id);
+        if (!current) return { result: { error: "No such report.", status: 404 } };
+        if (current.status !== "pending") {
+          return {
+            result: { error: `This report was already ${current.status}.`, status: 409 },
+          };
+        }
+        const at = now.toISOString();
+        const reviewed: Report = {
+          ...current,
+          status,
+          reviewedAt: at,
+          reviewer: decision.reviewer,
+          reviewNote: decision.note,
+        };
+        return {
+          list: list.map((r) => (r.id === id ? reviewed : r)),
+          result: reviewed,
+          audit: { ...decision, at, reportId: id, previousStatus: current.status },
+        };
+      }),
+    /** Newest first. */
+    auditLog: async (limit = AUDIT_LIMIT): Promise<AuditEntry[]> => {
+      try {
+        const lines = (await fs.readFile(auditFile, "utf8")).split("\n").filter(Boolean);
+        return lines.slice(-limit).reverse().map((line) => JSON.parse(line));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw err;
+      }
+    },
+  };
+};
+
+export type ContributionStore = ReturnType<typeof createContributionStore>;
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+
+const readJson = async (req: IncomingMessage): Promise<unknown> => {
+  try {
+    return JSON.parse(await readBody(req));
+  } catch {
+    return undefined;
+  }
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.setHeader("Cache-Control", "no-store");
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Who sent a request, as far as the server can tell: a keyed hash of the
+ * client's address, so repeat reports can be told apart without storing IPs.
+ */
+const reporterKey = (req: IncomingMessage, secret = "") =>
+  createHmac("sha256", `eq-reporter:${secret}`)
+    .update(req.socket?.remoteAddress ?? "unknown")
+    .digest("hex")
+    .slice(0, 16);
+
+export interface RateLimit {
+  /** Submissions and reports one sender may post per window. */
+  max: number;
+  windowMs: number;
+}
+
+const DEFAULT_RATE_LIMIT: RateLimit = { max: 10, windowMs: 60 * 60 * 1000 };
+
+// Past this many tracked senders, forget the ones with nothing recent.
+const RATE_LIMIT_SWEEP = 10_000;
+
+/**
+ * Counts public posts per sender in memory. Returns how many milliseconds
+ * the sender has to wait, or 0 after recording an allowed post.
+ */
+const rateLimiter = ({ max, windowMs }: RateLimit) => {
+  const sent = new Map<string, number[]>();
+  return (sender: string, now = Date.now()) => {
+    if (sent.size > RATE_LIMIT_SWEEP) {
+      for (const [key, times] of sent) {
+        if (times.every((t) => now - t >= windowMs)) sent.delete(key);
+      }
+    }
+    const recent = (sent.get(sender) ?? []).filter((t) => now - t < windowMs);
+    if (recent.length >= max) {
+      sent.set(sender, recent);
+      return recent[0] + windowMs - now;
+    }
+    sent.set(sender, [...recent, now]);
+    return 0;
+  };
+};
+
+/** What the public map gets: only what a pin shows. See PublicContribution. */
+const publicView = (c: Contribution): PublicContribution => ({
+  id: c.id,
+  status: c.status,
+  type: c.type,
+  name: c.name,
+  category: c.category,
+  address: c.address,
+  lat: c.lat,
+  lng: c.lng,
+  hours: c.hours,
+  programs: c.programs,
+  languages: c.languages,
+  contact: { phone: c.contact?.phone, website: c.contact?.website },
+  reviewedAt: c.reviewedAt,
+  mergedInto: c.mergedInto,
+});
+
+const isAdmin = (req: IncomingMessage, token: string) => {
+  const given = Buffer.from(req.headers.authorization?.replace(/^Bearer\s+/i, "") ?? "");
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+export interface ContributionsApiOptions {
+  /** Bearer token for the review endpoints; they're disabled without one. */
+  adminToken?: string;
+  /** Per-sender cap on POSTs to the public endpoints; 10 an hour by default. */
+  rateLimit?: RateLimit;
+}
+
+/**
+ * Connect-style handler for the contributions API:
+ *   GET  /api/contributions                    approved and merged submissions, for the map
+ *   POST /api/contributions                    a new submission, pending review
+ *   GET  /api/reports                          per-pin report status, for the map
+ *   POST /api/reports                          a problem report on a pin
+ *   GET  /api/admin/reports?status=            reports to review (default pending)
+ *   POST /api/admin/reports/:id/review         confirm (approve) or dismiss (reject)
+ *   GET  /api/admin/contributions?status=      the review queue (default pending)
+ *   GET  /api/admin/contributions/:id/evidence/:n   a submission's photo
+ *   POST /api/admin/contributions/:id/review   approve, reject or merge
+ *   GET  /api/admin/audit                      recent review decisions
+ */
+export const contributionsApi =
+  (
+    store: ContributionStore,
+    { adminToken, rateLimit = DEFAULT_RATE_LIMIT }: ContributionsApiOptions = {}
+  ) => {
+    const wait = rateLimiter(rateLimit);
+    /** Answers 429 and returns true when the sender is over the limit. */
+    const limited = (req: IncomingMessage, res: ServerResponse) => {
+      const ms = wait(reporterKey(req, adminToken));
+      if (ms === 0) return false;
+      res.setHeader("Retry-After", String(Math.ceil(ms / 1000)));
+      sendJson(res, 429, { error: "Too many submissions from your network. Try again later." });
+      return true;
+    };
+
+    return async (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const { pathname } = url;
+
+      try {
+        if (pathname === CONTRIBUTIONS_API) {
+          if (req.method === "GET") {
+            // Merged submissions add their details to the pin they were merged into.
+            const shown = (await store.list()).filter(
+              (c) => c.status === "approved" || c.status === "merged"
+            );
+            return sendJson(res, 200, { contributions: shown.map(publicView) });
+          }
+          if (req.method === "POST") {
+            if (limited(req, res)) return;
+            const body = await readJson(req);
+            if (body === undefined) {
+              return sendJson(res, 400, { error: "Send the submission as JSON." });
+            }
+            const input = parseSubmission(body);
+            if ("error" in input) return sendJson(res, 400, input);
+            const saved = await store.add(input);
+            return sendJson(res, 201, { id: saved.id, status: saved.status });
+          }
+          res.setHeader("Allow", "GET, POST");
+          return sendJson(res, 405, { error: "Method not allowed." });
+        }
+
+        if (pathname === REPORTS_API) {
+          if (req.method === "GET") {
+            return sendJson(res, 200, { pins: summarizeReports(await store.listReports()) });
+          }
+          if (req.method === "POST") {
+            if (limited(req, res)) return;
+            const body = await readJson(req);
+            if (body === undefined) {
+              return sendJson(res, 400, { error: "Send the report as JSON." });
+            }
+            const input = parseReport(body);
+            if ("error" in input) return sendJson(res, 400, input);
+            const saved = await store.addReport(input, reporterKey(req, adminToken));
+            return sendJson(res, 201, { id: saved.id, status: saved.status });
+          }
+          res.setHeader("Allow", "GET, POST");
+          return sendJson(res, 405, { error: "Method not allowed." });
+        }
+
+        if (!pathname.startsWith(`${ADMIN_API}/`)) return next();
+        if (!adminToken) {
+          return sendJson(res, 503, { error: "Review is turned off. Set ADMIN_TOKEN on the server." });
+        }
+        if (!isAdmin(req, adminToken)) {
+          return sendJson(res, 401, { error: "That admin token isn't right." });
+        }
+
+        if (pathname === `${ADMIN_API}/contributions` && req.method === "GET") {
+          const status = url.searchParams.get("status") || "pending";
+          if (!STATUSES.includes(status as ContributionStatus)) {
+            return sendJson(res, 400, { error: `Unknown status "${status}".` });
+          }
+          const list = (await store.list()).filter((c) => c.status === status);
+          return sendJson(res, 200, { contributions: list });
+        }
+        const photo = pathname.match(
+          new RegExp(`^${ADMIN_API}/contributions/([\\w-]+)/evidence/(\\d+)$`)
+        );
+        if (photo && req.method === "GET") {
+          const found = await store.evidence(photo[1], Number(photo[2]));
+          if (!found) return sendJson(res, 404, { error: "No such photo." });
+          res.statusCode = 200;
+          res.setHeader("Content-Type", found.mime);
+          res.setHeader("Cache-Control", "no-store");
+          return res.end(found.data);
+        }
+        const review = pathname.match(new RegExp(`^${ADMIN_API}/contributions/([\\w-]+)/review$`));
+        if (review && req.method === "POST") {
+          const decision = parseReviewDecision(await readJson(req));
+          if ("error" in decision) return sendJson(res, 400, decision);
+          const result = await store.review(review[1], decision);
+          if ("error" in result) return sendJson(res, result.status, { error: result.error });
+          return sendJson(res, 200, { contribution: result });
+        }
+        if (pathname === `${ADMIN_API}/reports` && req.method === "GET") {
+          const status = url.searchParams.get("status") || "pending";
+          if (!REPORT_STATUSES.includes(status as ReportStatus)) {
+            return sendJson(res, 400, { error: `Unknown status "${status}".` });
+          }
+          const list = (await store.listReports()).filter((r) => r.status === status);
+          return sendJson(res, 200, { reports: list });
+        }
+        const reportReview = pathname.match(new RegExp(`^${ADMIN_API}/reports/([\\w-]+)/review$`));
+        if (reportReview && req.method === "POST") {
+          const decision = parseReviewDecision(await readJson(req));
+          if ("error" in decision) return sendJson(res, 400, decision);
+          const result = await store.reviewReport(reportReview[1], decision);
+          if ("error" in result) return sendJson(res, result.status, { error: result.error });
+          return sendJson(res, 200, { report: result });
+        }
+        if (pathname === `${ADMIN_API}/audit` && req.method === "GET") {
+          return sendJson(res, 200, { entries: await store.auditLog() });
+        }
+        return sendJson(res, 404, { error: "Not found." });
+      } catch (err) {
+        console.error("Contributions API failed:", err);
+        return sendJson(res, 500, { error: "Something went wrong on the server. Try again later." });
+      }
+    };
+  };
+
+/** Serves the API from `vite` and `vite preview`. */
+export const contributionsPlugin = ({
+  file = "data/contributions.json",
+  adminToken,
+}: { file?: string; adminToken?: string } = {}): Plugin => {
+  const api = contributionsApi(createContributionStore(path.resolve(file)), { adminToken });
+  return {
+    name: "equitymap-contributions",
+    configureServer: (server) => {
+      server.middlewares.use(api);
+    },
+    configurePreviewServer: (server) => {
+      server.middlewares.use(api);
+    },
+  };
+};
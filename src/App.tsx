@@ -7,6 +7,7 @@ import { ThemeProvider } from "@/hooks/theme-context";
 import { LangProvider } from "@/hooks/lang-context";
 import Landing from "./pages/Landing";
 import Index from "./pages/Index";
+import AdminReview from "./pages/AdminReview";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -22,6 +23,7 @@ const App = () => (
           <Routes>
             <Route path="/" element={<Landing />} />
             <Route path="/map" element={<Index />} />
+            <Route path="/admin/review" element={<AdminReview />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
@@ -212,6 +212,17 @@ const AIChatBot = ({ fabOffset = false }: { fabOffset?: boolean }) => {
   };
 
   const sendToAI = async (text: string) => {
+    // No connection: answer from the curated responses instead of failing.
+    if (!navigator.onLine) {
+      setMessages((prev) => [
+        ...prev,
+        {
+          role: "assistant",
+          content: `${t("offline.note")}\n\n${getFallbackResponse(text)}`,
+        },
+      ]);
+      return;
+    }
     setLoading(true);
     try {
       const chat = getOrCreateChat();
@@ -225,12 +236,15 @@ const AIChatBot = ({ fabOffset = false }: { fabOffset?: boolean }) => {
       chatRef.current = null;
       const raw = err instanceof Error ? err.message : "";
       const isQuota = raw.includes("429") || raw.toLowerCase().includes("quota");
+      const isNetwork = raw.includes("Failed to fetch") || !navigator.onLine;
       setMessages((prev) => [
         ...prev,
         {
           role: "assistant",
           content: isQuota
             ? getFallbackResponse(text)
+            : isNetwork
+            ? `${t("offline.note")}\n\n${getFallbackResponse(text)}`
             : `Error: ${raw}`,
         },
       ]);
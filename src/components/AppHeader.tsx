@@ -1,41 +1,64 @@
-import { ChevronDown, ChevronUp, Search, LocateFixed, Loader2, X, Sun, Moon, Globe } from "lucide-react";
+import { ChevronDown, ChevronUp, Search, LocateFixed, Loader2, X, Sun, Moon, Globe, MapPin, Building2, Map as MapIcon, Landmark, Hash, Home, Star } from "lucide-react";
 import { useState, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
 import { useThemeContext } from "@/hooks/theme-context";
 import { useLang, LANGUAGES } from "@/hooks/lang-context";
+import { geocode as geocodeAddress } from "@/lib/geocoding";
+import { useSearchSuggestions } from "@/hooks/use-search-suggestions";
+import { useFavorites } from "@/hooks/use-favorites";
+import MyPlacesPanel from "@/components/MyPlacesPanel";
+import type { ResourcePin } from "@/lib/resources";
+import type { Suggestion, SuggestionKind } from "@/lib/search-suggestions";
+import type { SearchLocation } from "@/lib/url-state";
+
+const SUGGESTION_ICONS: Record<SuggestionKind, typeof MapPin> = {
+  resource: Building2,
+  address: MapPin,
+  neighborhood: MapIcon,
+  ward: Landmark,
+  zip: Hash,
+};
 
 interface AppHeaderProps {
+  /** Loaded resources, searchable by name. */
+  pins?: ResourcePin[];
   onSearchResult?: (lat: number, lng: number, label: string) => void;
+  /** A resource picked from the suggestions. */
+  onSelectPin?: (pinId: string) => void;
   onClearSearch?: () => void;
   hasActiveSearch?: boolean;
+  /** The active search, which can be saved as home or work. */
+  searchLocation?: SearchLocation | null;
 }
 
-const AppHeader = ({ onSearchResult, onClearSearch, hasActiveSearch }: AppHeaderProps) => {
+const AppHeader = ({ pins = [], onSearchResult, onSelectPin, onClearSearch, hasActiveSearch, searchLocation }: AppHeaderProps) => {
   const navigate = useNavigate();
   const { isDark, toggle: toggleTheme } = useThemeContext();
   const { lang, setLang, t } = useLang();
   const [aboutOpen, setAboutOpen] = useState(false);
   const [langOpen, setLangOpen] = useState(false);
+  const [placesOpen, setPlacesOpen] = useState(false);
+  const { favorites } = useFavorites();
+  const home = favorites.places.home;
   const [query, setQuery] = useState("");
   const [searching, setSearching] = useState(false);
   const [locating, setLocating] = useState(false);
   const [searchError, setSearchError] = useState("");
+  const [suggestOpen, setSuggestOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  const suggestions = useSearchSuggestions(query, pins);
+  const showSuggestions = suggestOpen && query.trim().length >= 2 && suggestions.length > 0;
 
   const geocode = useCallback(async (address: string) => {
     setSearching(true);
     setSearchError("");
     try {
-      const encoded = encodeURIComponent(address + ", Washington, DC");
-      const resp = await fetch(
-        `https://nominatim.openstreetmap.org/search?format=json&q=${encoded}&limit=1&countrycodes=us`
-      );
-      const results = await resp.json();
-      if (!results.length) {
+      const [result] = await geocodeAddress(address, { limit: 1 });
+      if (!result) {
         setSearchError("No results found.");
         return;
       }
-      const { lat, lon, display_name } = results[0];
-      onSearchResult?.(parseFloat(lat), parseFloat(lon), display_name.split(",").slice(0, 2).join(","));
+      onSearchResult?.(result.lat, result.lng, result.label);
     } catch {
       setSearchError("Search failed.");
     } finally {
@@ -63,6 +86,54 @@ const AppHeader = ({ onSearchResult, onClearSearch, hasActiveSearch }: AppHeader
     );
   }, [onSearchResult]);
 
+  const pickSuggestion = (s: Suggestion) => {
+    setSuggestOpen(false);
+    setHighlighted(-1);
+    setSearchError("");
+    setQuery(s.label);
+    if (s.pinId && onSelectPin) {
+      onSelectPin(s.pinId);
+    } else {
+      onSearchResult?.(s.lat, s.lng, s.label);
+    }
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) {
+      if (e.key === "ArrowDown" && suggestions.length > 0) {
+        setSuggestOpen(true);
+        setHighlighted(0);
+        e.preventDefault();
+      }
+      return;
+    }
+    if (e.key === "ArrowDown") {
+      setHighlighted((i) => (i + 1) % suggestions.length);
+      e.preventDefault();
+    } else if (e.key === "ArrowUp") {
+      setHighlighted((i) => (i <= 0 ? suggestions.length - 1 : i - 1));
+      e.preventDefault();
+    } else if (e.key === "Enter" && highlighted >= 0) {
+      pickSuggestion(suggestions[highlighted]);
+      e.preventDefault();
+    } else if (e.key === "Escape") {
+      setSuggestOpen(false);
+      setHighlighted(-1);
+    }
+  };
+
+  const goTo = (loc: SearchLocation) => {
+    setSearchError("");
+    onSearchResult?.(loc.lat, loc.lng, loc.label);
+  };
+
+  // A starred place that has dropped out of the data is still shown by location.
+  const openStarred = (pinId: string) => {
+    const saved = favorites.pins.find((p) => p.id === pinId);
+    if (onSelectPin && pins.some((p) => p.id === pinId)) onSelectPin(pinId);
+    else if (saved) onSearchResult?.(saved.lat, saved.lng, saved.label);
+  };
+
   const handleClear = () => {
     setQuery("");
     setSearchError("");
@@ -87,6 +158,7 @@ const AppHeader = ({ onSearchResult, onClearSearch, hasActiveSearch }: AppHeader
           <form
             onSubmit={(e) => {
               e.preventDefault();
+              setSuggestOpen(false);
               if (query.trim()) geocode(query.trim());
             }}
             className="flex-1 flex gap-1.5 min-w-0"
@@ -96,10 +168,65 @@ const AppHeader = ({ onSearchResult, onClearSearch, hasActiveSearch }: AppHeader
               <input
                 type="text"
                 value={query}
-                onChange={(e) => setQuery(e.target.value)}
+                onChange={(e) => {
+                  setQuery(e.target.value);
+                  setSuggestOpen(true);
+                  setHighlighted(-1);
+                }}
+                onKeyDown={handleSearchKeyDown}
+                onFocus={() => setSuggestOpen(true)}
+                onBlur={() => setSuggestOpen(false)}
                 placeholder={t("search.placeholder")}
+                role="combobox"
+                aria-expanded={showSuggestions}
+                aria-controls="search-suggestions"
+                aria-autocomplete="list"
+                aria-activedescendant={
+                  showSuggestions && highlighted >= 0
+                    ? `suggestion-${highlighted}`
+                    : undefined
+                }
                 className="w-full pl-8 pr-3 py-2 text-xs bg-secondary/80 rounded-lg border border-border/50 text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-primary/40"
               />
+              {showSuggestions && (
+                <ul
+                  id="search-suggestions"
+                  role="listbox"
+                  className="absolute left-0 right-0 top-full mt-1 glass-strong rounded-xl shadow-xl border border-border/50 py-1 z-50 max-h-80 overflow-y-auto"
+                >
+                  {suggestions.map((s, i) => {
+                    const Icon = SUGGESTION_ICONS[s.kind];
+                    return (
+                      <li
+                        key={s.id}
+                        id={`suggestion-${i}`}
+                        role="option"
+                        aria-selected={i === highlighted}
+                        // mousedown, not click: fires before the input's blur closes the list
+                        onMouseDown={(e) => {
+                          e.preventDefault();
+                          pickSuggestion(s);
+                        }}
+                        onMouseEnter={() => setHighlighted(i)}
+                        className={`flex items-center gap-2 px-3 py-2 cursor-pointer ${
+                          i === highlighted ? "bg-secondary" : ""
+                        }`}
+                      >
+                        <Icon className="w-3.5 h-3.5 text-muted-foreground flex-shrink-0" />
+                        <div className="min-w-0">
+                          <p className="text-xs text-foreground truncate">{s.label}</p>
+                          {s.detail && (
+                            <p className="text-[10px] text-muted-foreground truncate">{s.detail}</p>
+                          )}
+                        </div>
+                        <span className="ml-auto text-[9px] uppercase tracking-wide text-muted-foreground flex-shrink-0">
+                          {s.kind}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
             </div>
             <button
               type="submit"
@@ -133,6 +260,37 @@ const AppHeader = ({ onSearchResult, onClearSearch, hasActiveSearch }: AppHeader
                 <LocateFixed className="w-3.5 h-3.5 text-primary" />
               )}
             </button>
+            {home && (
+              <button
+                onClick={() => goTo(home)}
+                className="p-2 rounded-lg hover:bg-secondary transition-colors"
+                title={`Search from home (${home.label})`}
+              >
+                <Home className="w-3.5 h-3.5 text-primary" />
+              </button>
+            )}
+            <div className="relative">
+              <button
+                onClick={() => setPlacesOpen(!placesOpen)}
+                className="p-2 rounded-lg hover:bg-secondary transition-colors flex items-center gap-1"
+                title="My places"
+              >
+                <Star className={`w-3.5 h-3.5 ${favorites.pins.length > 0 ? "text-yellow-500 fill-yellow-500" : "text-muted-foreground"}`} />
+                {favorites.pins.length > 0 && (
+                  <span className="text-[10px] font-medium text-muted-foreground">{favorites.pins.length}</span>
+                )}
+              </button>
+              {placesOpen && (
+                <div className="absolute right-0 top-full mt-1 z-50">
+                  <MyPlacesPanel
+                    searchLocation={searchLocation}
+                    onGoTo={(loc) => { goTo(loc); setPlacesOpen(false); }}
+                    onSelectPin={(id) => { openStarred(id); setPlacesOpen(false); }}
+                    onClose={() => setPlacesOpen(false)}
+                  />
+                </div>
+              )}
+            </div>
             <div className="relative">
               <button
                 onClick={() => setLangOpen(!langOpen)}
@@ -218,6 +376,10 @@ const AppHeader = ({ onSearchResult, onClearSearch, hasActiveSearch }: AppHeader
           <div className="w-3 h-3 rounded-full bg-pin-health" />
           <span className="text-[11px] text-foreground font-medium">{t("legend.health")}</span>
         </div>
+        <div className="flex items-center gap-2">
+          <div className="w-3 h-3 rounded-full bg-pin-community" />
+          <span className="text-[11px] text-foreground font-medium">{t("legend.community")}</span>
+        </div>
       </div>
     </>
   );
@@ -0,0 +1,111 @@
+import { BarChart3, Stethoscope, X } from "lucide-react";
+import type { AreaStats } from "@/lib/area-stats";
+import type { ResourcePin, ResourceType } from "@/lib/resources";
+
+const ROWS: { type: ResourceType; label: string; dot: string }[] = [
+  { type: "food", label: "SNAP retailers", dot: "bg-pin-food" },
+  { type: "health", label: "Health centers", dot: "bg-pin-health" },
+  { type: "community", label: "Community", dot: "bg-pin-community" },
+];
+
+interface AreaStatsCardProps {
+  stats: AreaStats;
+  onClose: () => void;
+  onSelectPin: (pin: ResourcePin) => void;
+}
+
+const AreaStatsCard = ({ stats, onClose, onSelectPin }: AreaStatsCardProps) => {
+  const { area, counts, perThousand, population, nearestMedicaid } = stats;
+
+  return (
+    <div className="glass-strong rounded-2xl p-4 w-64 space-y-3 shadow-xl">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <BarChart3 className="w-4 h-4 text-primary" />
+          <div>
+            <h2 className="text-sm font-display font-bold text-foreground">
+              {area.name}
+              {area.approximate && (
+                <span className="ml-1.5 align-middle text-[9px] font-semibold px-1.5 py-0.5 rounded-full bg-amber-500/15 text-amber-700 dark:text-amber-400 border border-amber-500/30">
+                  Approximate
+                </span>
+              )}
+            </h2>
+            <p className="text-[10px] text-muted-foreground">
+              {population > 0
+                ? `${population.toLocaleString()} residents`
+                : "No census population"}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-lg hover:bg-secondary transition-colors"
+        >
+          <X className="w-4 h-4 text-muted-foreground" />
+        </button>
+      </div>
+
+      <table className="w-full text-[11px]">
+        <thead>
+          <tr className="text-[10px] text-muted-foreground">
+            <th className="text-left font-medium pb-1">Resource</th>
+            <th className="text-right font-medium pb-1">Count</th>
+            <th className="text-right font-medium pb-1">Per 1,000</th>
+          </tr>
+        </thead>
+        <tbody>
+          {ROWS.map(({ type, label, dot }) => (
+            <tr key={type}>
+              <td className="py-0.5">
+                <span className="flex items-center gap-1.5 text-foreground">
+                  <span className={`w-2 h-2 rounded-full ${dot}`} />
+                  {label}
+                </span>
+              </td>
+              <td className="py-0.5 text-right font-semibold text-foreground">
+                {counts[type]}
+              </td>
+              <td className="py-0.5 text-right text-muted-foreground">
+                {perThousand[type] === null ? "—" : perThousand[type].toFixed(2)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="pt-2 border-t border-border/50">
+        <p className="text-[11px] font-semibold text-foreground mb-1 flex items-center gap-1.5">
+          <Stethoscope className="w-3 h-3 text-primary" />
+          Nearest clinic accepting Medicaid
+        </p>
+        {nearestMedicaid ? (
+          <button
+            onClick={() => onSelectPin(nearestMedicaid.pin)}
+            className="w-full text-left rounded-lg px-2 py-1.5 hover:bg-secondary/60 transition-colors"
+          >
+            <p className="text-xs font-medium text-foreground truncate">
+              {nearestMedicaid.pin.label}
+            </p>
+            <p className="text-[10px] text-muted-foreground">
+              {nearestMedicaid.inArea
+                ? "In this area"
+                : `${nearestMedicaid.distance.toFixed(1)} mi from the area's center`}
+            </p>
+          </button>
+        ) : (
+          <p className="text-[10px] text-muted-foreground">None listed.</p>
+        )}
+      </div>
+
+      <p className="text-[9px] text-muted-foreground leading-snug">
+        Resources and ACS 5-Year population are both counted within the
+        area's lines: places inside them and tracts centered inside them.
+        {area.approximate &&
+          " The area's lines are estimated, so population and per-1,000 figures are approximate too."}
+      </p>
+    </div>
+  );
+};
+
+export default AreaStatsCard;
@@ -0,0 +1,48 @@
+import { Map as MapIcon } from "lucide-react";
+import { BOUNDARY_LAYERS, type BoundaryLayerId } from "@/lib/boundaries";
+
+interface BoundaryControlProps {
+  layer: BoundaryLayerId | null;
+  onLayerChange: (layer: BoundaryLayerId | null) => void;
+  /** The loaded lines are estimates rather than official boundaries. */
+  approximate?: boolean;
+}
+
+const BoundaryControl = ({ layer, onLayerChange, approximate = false }: BoundaryControlProps) => (
+  <div className="glass rounded-xl px-3 py-2.5 space-y-2 w-56">
+    <div className="flex items-center gap-2">
+      <MapIcon className="w-3.5 h-3.5 text-primary" />
+      <span className="text-[11px] font-semibold text-foreground">
+        Area boundaries
+      </span>
+    </div>
+    <div className="flex gap-1">
+      {[{ id: null, label: "Off" }, ...BOUNDARY_LAYERS].map((opt) => (
+        <button
+          key={opt.id ?? "off"}
+          onClick={() => onLayerChange(opt.id)}
+          className={`flex-1 text-[10px] py-1 rounded-md transition-colors ${
+            layer === opt.id
+              ? "bg-primary/20 text-foreground font-semibold"
+              : "bg-secondary/50 text-muted-foreground hover:bg-secondary"
+          }`}
+        >
+          {opt.label}
+        </button>
+      ))}
+    </div>
+    {layer && (
+      <p className="text-[9px] text-muted-foreground leading-snug">
+        Click an area for resource counts and coverage.
+      </p>
+    )}
+    {layer && approximate && (
+      <p className="text-[9px] leading-snug text-amber-700 dark:text-amber-400">
+        Approximate lines (dashed), estimated from the resource data rather
+        than official DC GIS boundaries. Edges can be off by a few blocks.
+      </p>
+    )}
+  </div>
+);
+
+export default BoundaryControl;
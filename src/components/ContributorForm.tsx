@@ -1,15 +1,420 @@
-import { useState, useCallback } from "react";
-import { Plus, X, MapPin, Tag, ShieldCheck, CheckCircle, Loader2 } from "lucide-react";
+import { useState, useCallback, useRef } from "react";
+import { useForm, useFormContext } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { MapContainer, TileLayer, CircleMarker, useMapEvents } from "react-leaflet";
+import "leaflet/dist/leaflet.css";
+import {
+  Plus, X, MapPin, Tag, ShieldCheck, CheckCircle, Loader2, Clock, HandHeart, Phone, Camera, Receipt,
+} from "lucide-react";
 import RhythmCaptcha from "./RhythmCaptcha";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { geocode, isInDC } from "@/lib/geocoding";
+import { DAY_NAMES } from "@/lib/hours";
+import {
+  CATEGORIES,
+  CONTRIBUTION_FORM_DEFAULTS,
+  contributionFormSchema,
+  LANGUAGES,
+  MAX_EVIDENCE,
+  PROGRAMS,
+  scalePhoto,
+  STEP_FIELDS,
+  submitContribution,
+  toContributionInput,
+  type BenefitType,
+  type CaptchaScore,
+  type ContributionFormValues,
+  type EvidenceKind,
+  type Program,
+} from "@/lib/contributions";
 
-type Step = 1 | 2 | 3 | 4;
-type BenefitType = "food" | "health" | "community";
+type Step = 1 | 2 | 3 | 4 | 5 | 6 | 7;
+
+/** The last step with a form on it; after it comes the thank-you screen. */
+const LAST_STEP = 6;
 
 const BENEFIT_OPTIONS: { value: BenefitType; label: string; emoji: string; color: string }[] = [
   { value: "food", label: "Food / SNAP", emoji: "🍎", color: "bg-pin-food" },
   { value: "health", label: "Healthcare / Medicaid", emoji: "🏥", color: "bg-pin-health" },
+  { value: "community", label: "Community / Other", emoji: "🤝", color: "bg-pin-community" },
 ];
 
+const TILE_LIGHT = "https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png";
+const DC_CENTER = { lat: 38.9072, lng: -77.0369 };
+
+const ClickToMove = ({ onMove }: { onMove: (spot: { lat: number; lng: number }) => void }) => {
+  useMapEvents({ click: (e) => onMove({ lat: e.latlng.lat, lng: e.latlng.lng }) });
+  return null;
+};
+
+/** Small map for placing the pin by hand when the address only matched a street or area. */
+const SpotPicker = ({
+  spot,
+  zoom,
+  onMove,
+}: {
+  spot: { lat: number; lng: number };
+  zoom: number;
+  onMove: (spot: { lat: number; lng: number }) => void;
+}) => (
+  <MapContainer
+    center={[spot.lat, spot.lng]}
+    zoom={zoom}
+    className="h-48 w-full rounded-xl overflow-hidden border border-border"
+    attributionControl={false}
+  >
+    <TileLayer url={TILE_LIGHT} />
+    <ClickToMove onMove={onMove} />
+    <CircleMarker
+      center={[spot.lat, spot.lng]}
+      radius={8}
+      pathOptions={{ color: "#0066ff", fillColor: "#0066ff", fillOpacity: 0.6 }}
+    />
+  </MapContainer>
+);
+
+const INPUT_CLASS =
+  "w-full bg-secondary rounded-xl px-4 py-3 text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-primary";
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-lg text-xs transition-colors border ${
+    active
+      ? "bg-primary/15 border-primary/40 text-foreground font-semibold"
+      : "bg-secondary/50 border-transparent text-muted-foreground hover:bg-secondary"
+  }`;
+
+const toggle = <T,>(list: T[], value: T) =>
+  list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+const StepTitle = ({ icon: Icon, children }: { icon: typeof MapPin; children: string }) => (
+  <div className="flex items-center gap-2 text-muted-foreground">
+    <Icon className="w-4 h-4" />
+    <span className="text-sm font-medium">{children}</span>
+  </div>
+);
+
+const StepButtons = ({ onBack, onNext }: { onBack: () => void; onNext: () => void }) => (
+  <div className="flex gap-2">
+    <button
+      type="button"
+      onClick={onBack}
+      className="px-4 py-3 rounded-xl bg-secondary text-foreground font-medium text-sm hover:bg-secondary/80 transition-colors"
+    >
+      Back
+    </button>
+    <button
+      type="button"
+      onClick={onNext}
+      className="flex-1 py-3 rounded-xl bg-primary text-primary-foreground font-medium text-sm hover:bg-accent transition-colors"
+    >
+      Next
+    </button>
+  </div>
+);
+
+const AboutStep = () => {
+  const form = useFormContext<ContributionFormValues>();
+  const type = form.watch("type");
+  return (
+    <div className="space-y-3">
+      <FormField
+        control={form.control}
+        name="type"
+        render={({ field }) => (
+          <FormItem className="space-y-2">
+            <FormLabel className="text-xs">Kind of resource</FormLabel>
+            {BENEFIT_OPTIONS.map(opt => (
+              <button
+                key={opt.value}
+                type="button"
+                onClick={() => {
+                  if (field.value !== opt.value) form.setValue("category", "");
+                  field.onChange(opt.value);
+                }}
+                className={`w-full flex items-center gap-3 px-4 py-2.5 rounded-xl text-sm transition-all border ${
+                  field.value === opt.value
+                    ? "bg-primary/15 border-primary/40 text-foreground"
+                    : "bg-secondary/50 border-transparent text-muted-foreground hover:bg-secondary"
+                }`}
+              >
+                <span className="text-lg">{opt.emoji}</span>
+                <span className="font-medium">{opt.label}</span>
+                <div className={`w-2.5 h-2.5 rounded-full ${opt.color} ml-auto`} />
+              </button>
+            ))}
+            <FormMessage className="text-xs" />
+          </FormItem>
+        )}
+      />
+      {type && (
+        <FormField
+          control={form.control}
+          name="category"
+          render={({ field }) => (
+            <FormItem className="space-y-2">
+              <FormLabel className="text-xs">Category</FormLabel>
+              <div className="flex flex-wrap gap-1.5">
+                {CATEGORIES[type].map(cat => (
+                  <button
+                    key={cat.value}
+                    type="button"
+                    onClick={() => field.onChange(cat.value)}
+                    className={chipClass(field.value === cat.value)}
+                  >
+                    {cat.label}
+                  </button>
+                ))}
+              </div>
+              <FormMessage className="text-xs" />
+            </FormItem>
+          )}
+        />
+      )}
+      <FormField
+        control={form.control}
+        name="name"
+        render={({ field }) => (
+          <FormItem className="space-y-2">
+            <FormLabel className="text-xs">Name</FormLabel>
+            <FormControl>
+              <input {...field} placeholder="e.g. Anacostia Community Pantry" className={INPUT_CLASS} />
+            </FormControl>
+            <FormMessage className="text-xs" />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+};
+
+const HoursStep = () => {
+  const form = useFormContext<ContributionFormValues>();
+  const known = form.watch("hoursKnown");
+  const hours = form.watch("hours");
+  const { errors } = form.formState;
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm text-foreground">
+        <input type="checkbox" {...form.register("hoursKnown")} />
+        I know when it's open
+      </label>
+      {known && (
+        <div className="space-y-1.5">
+          {DAY_NAMES.map((day, i) => (
+            <div key={day}>
+              <div className="flex items-center gap-2 text-xs">
+                <span className="w-9 text-muted-foreground">{day.slice(0, 3)}</span>
+                {hours[i].closed ? (
+                  <span className="flex-1 text-muted-foreground">Closed</span>
+                ) : (
+                  <>
+                    <input
+                      type="time"
+                      aria-label={`${day} opens`}
+                      {...form.register(`hours.${i}.open`)}
+                      className="flex-1 min-w-0 bg-secondary rounded-lg px-2 py-1.5 text-foreground"
+                    />
+                    <span className="text-muted-foreground">–</span>
+                    <input
+                      type="time"
+                      aria-label={`${day} closes`}
+                      {...form.register(`hours.${i}.close`)}
+                      className="flex-1 min-w-0 bg-secondary rounded-lg px-2 py-1.5 text-foreground"
+                    />
+                  </>
+                )}
+                <label className="flex items-center gap-1 text-muted-foreground">
+                  <input type="checkbox" {...form.register(`hours.${i}.closed`)} />
+                  Closed
+                </label>
+              </div>
+              {errors.hours?.[i]?.open && (
+                <p className="text-xs text-destructive pl-11">{errors.hours[i].open.message}</p>
+              )}
+            </div>
+          ))}
+          {errors.hours?.message && (
+            <p className="text-xs text-destructive">{errors.hours.message}</p>
+          )}
+        </div>
+      )}
+      {!known && (
+        <p className="text-xs text-muted-foreground">
+          That's fine. Reviewers can add hours later.
+        </p>
+      )}
+    </div>
+  );
+};
+
+const ServicesStep = () => {
+  const form = useFormContext<ContributionFormValues>();
+  return (
+    <div className="space-y-3">
+      <FormField
+        control={form.control}
+        name="programs"
+        render={({ field }) => (
+          <FormItem className="space-y-2">
+            <FormLabel className="text-xs">Programs accepted</FormLabel>
+            <div className="flex flex-wrap gap-1.5">
+              {(Object.keys(PROGRAMS) as Program[]).map(p => (
+                <button
+                  key={p}
+                  type="button"
+                  onClick={() => field.onChange(toggle(field.value, p))}
+                  className={chipClass(field.value.includes(p))}
+                >
+                  {PROGRAMS[p]}
+                </button>
+              ))}
+            </div>
+            <FormMessage className="text-xs" />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="languages"
+        render={({ field }) => (
+          <FormItem className="space-y-2">
+            <FormLabel className="text-xs">Languages spoken by staff</FormLabel>
+            <div className="flex flex-wrap gap-1.5">
+              {Object.entries(LANGUAGES).map(([code, label]) => (
+                <button
+                  key={code}
+                  type="button"
+                  onClick={() => field.onChange(toggle(field.value, code))}
+                  className={chipClass(field.value.includes(code))}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <FormMessage className="text-xs" />
+          </FormItem>
+        )}
+      />
+      <p className="text-xs text-muted-foreground">Skip anything you're not sure about.</p>
+    </div>
+  );
+};
+
+const EVIDENCE_LABELS: Record<EvidenceKind, string> = {
+  photo: "Photo",
+  receipt: "Receipt",
+};
+
+const ContactStep = () => {
+  const form = useFormContext<ContributionFormValues>();
+  const evidence = form.watch("evidence");
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [pendingKind, setPendingKind] = useState<EvidenceKind>("photo");
+  const [photoError, setPhotoError] = useState("");
+
+  const pick = (kind: EvidenceKind) => {
+    setPendingKind(kind);
+    fileInput.current?.click();
+  };
+
+  const attach = async (file: File) => {
+    setPhotoError("");
+    try {
+      const dataUrl = await scalePhoto(file);
+      form.setValue("evidence", [...evidence, { kind: pendingKind, dataUrl, name: file.name }], {
+        shouldValidate: true,
+      });
+    } catch (err) {
+      setPhotoError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {(
+        [
+          ["phone", "Phone", "(202) 555-0123", "tel"],
+          ["website", "Website", "example.org", "url"],
+          ["email", "Email", "info@example.org", "email"],
+        ] as const
+      ).map(([name, label, placeholder, type]) => (
+        <FormField
+          key={name}
+          control={form.control}
+          name={name}
+          render={({ field }) => (
+            <FormItem className="space-y-1.5">
+              <FormLabel className="text-xs">{label} (optional)</FormLabel>
+              <FormControl>
+                <input {...field} type={type} placeholder={placeholder} className={INPUT_CLASS} />
+              </FormControl>
+              <FormMessage className="text-xs" />
+            </FormItem>
+          )}
+        />
+      ))}
+
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-foreground">Evidence (optional)</p>
+        <p className="text-[11px] text-muted-foreground">
+          A photo of the entrance or sign, or a receipt showing EBT/WIC was accepted, helps
+          reviewers. Only reviewers see these. Cover card numbers and names on receipts.
+        </p>
+        {evidence.length > 0 && (
+          <div className="flex gap-2">
+            {evidence.map((item, i) => (
+              <div key={i} className="relative">
+                <img
+                  src={item.dataUrl}
+                  alt={`${EVIDENCE_LABELS[item.kind]}: ${item.name}`}
+                  className="w-16 h-16 rounded-lg object-cover border border-border"
+                />
+                <span className="absolute bottom-0 inset-x-0 text-[9px] text-center bg-background/80 rounded-b-lg">
+                  {EVIDENCE_LABELS[item.kind]}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => form.setValue("evidence", evidence.filter((_, j) => j !== i))}
+                  className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-secondary border border-border flex items-center justify-center"
+                  aria-label={`Remove ${item.name}`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        {evidence.length < MAX_EVIDENCE && (
+          <div className="flex gap-2">
+            <button type="button" onClick={() => pick("photo")} className={`${chipClass(false)} flex items-center gap-1.5`}>
+              <Camera className="w-3.5 h-3.5" /> Add photo
+            </button>
+            <button type="button" onClick={() => pick("receipt")} className={`${chipClass(false)} flex items-center gap-1.5`}>
+              <Receipt className="w-3.5 h-3.5" /> Add receipt
+            </button>
+          </div>
+        )}
+        <input
+          ref={fileInput}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) attach(file);
+          }}
+        />
+        {(photoError || form.formState.errors.evidence?.message) && (
+          <p className="text-xs text-destructive">
+            {photoError || form.formState.errors.evidence?.message}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
 const ContributorForm = ({ fabOffset = false }: { fabOffset?: boolean }) => {
   const [open, setOpen] = useState(false);
   const [step, setStep] = useState<Step>(1);
@@ -17,10 +422,18 @@ const ContributorForm = ({ fabOffset = false }: { fabOffset?: boolean }) => {
   const [addressValid, setAddressValid] = useState(false);
   const [validating, setValidating] = useState(false);
   const [addressError, setAddressError] = useState("");
-  const [benefitType, setBenefitType] = useState<BenefitType | null>(null);
+  const [coords, setCoords] = useState<{ lat: number; lng: number } | null>(null);
+  /** Where the pin goes when the address couldn't be placed exactly; the user confirms it. */
+  const [roughSpot, setRoughSpot] = useState<{ lat: number; lng: number; zoom: number } | null>(null);
+  const form = useForm<ContributionFormValues>({
+    resolver: zodResolver(contributionFormSchema),
+    defaultValues: CONTRIBUTION_FORM_DEFAULTS,
+  });
   const [captchaPassed, setCaptchaPassed] = useState(false);
+  const [captchaScore, setCaptchaScore] = useState<CaptchaScore | null>(null);
   const [verifying, setVerifying] = useState(false);
   const [verified, setVerified] = useState(false);
+  const [submitError, setSubmitError] = useState("");
 
   const reset = () => {
     setStep(1);
@@ -28,10 +441,14 @@ const ContributorForm = ({ fabOffset = false }: { fabOffset?: boolean }) => {
     setAddressValid(false);
     setValidating(false);
     setAddressError("");
-    setBenefitType(null);
+    setCoords(null);
+    setRoughSpot(null);
+    form.reset(CONTRIBUTION_FORM_DEFAULTS);
     setCaptchaPassed(false);
+    setCaptchaScore(null);
     setVerifying(false);
     setVerified(false);
+    setSubmitError("");
   };
 
   const validateAddress = useCallback(async () => {
@@ -44,35 +461,23 @@ const ContributorForm = ({ fabOffset = false }: { fabOffset?: boolean }) => {
     setValidating(true);
     setAddressError("");
     try {
-      const encoded = encodeURIComponent(addr + ", Washington, DC");
-      const resp = await fetch(
-        `https://nominatim.openstreetmap.org/search?format=json&q=${encoded}&limit=1&countrycodes=us&addressdetails=1`
-      );
-      const results = await resp.json();
-      if (!results.length) {
-        setAddressError("We couldn't find that address. Please enter a valid D.C. address.");
-        return;
-      }
-      const r = results[0];
-      const lat = parseFloat(r.lat);
-      const lon = parseFloat(r.lon);
-      const displayName: string = r.display_name || "";
-      const inDC =
-        lat >= 38.79 && lat <= 38.996 && lon >= -77.12 && lon <= -76.91;
-      const nameMatchesDC =
-        displayName.includes("Washington") ||
-        displayName.includes("District of Columbia");
-      const hasStreetInfo =
-        r.address?.road || r.address?.house_number || r.type === "house";
-
-      if (inDC && nameMatchesDC && hasStreetInfo) {
+      const [r] = await geocode(addr, { limit: 1 });
+      if (r && !isInDC(r.lat, r.lng)) {
+        setAddressError("That address doesn't appear to be in Washington, D.C.");
+      } else if (r && (r.precision === "address" || r.precision === "interpolated")) {
         setAddressValid(true);
-        setLocation(displayName.split(",").slice(0, 3).join(",").trim());
+        setLocation(r.label);
+        setCoords({ lat: r.lat, lng: r.lng });
         setStep(2);
-      } else if (!inDC || !nameMatchesDC) {
-        setAddressError("That address doesn't appear to be in Washington, D.C.");
       } else {
-        setAddressError("Please enter a specific street address, not just a city or area name.");
+        // Only the street or area is known (or nothing): storing that as the
+        // place's location would be wrong, so ask where exactly it is.
+        setRoughSpot(r ? { lat: r.lat, lng: r.lng, zoom: 16 } : { ...DC_CENTER, zoom: 12 });
+        setAddressError(
+          r
+            ? "We found the street but not the exact building. Tap the map where the place is."
+            : "We couldn't find that address. Tap the map where the place is."
+        );
       }
     } catch {
       setAddressError("Validation failed. Check your connection.");
@@ -81,13 +486,41 @@ const ContributorForm = ({ fabOffset = false }: { fabOffset?: boolean }) => {
     }
   }, [location]);
 
-  const handleSubmit = () => {
+  const confirmSpot = () => {
+    if (!roughSpot) return;
+    if (!isInDC(roughSpot.lat, roughSpot.lng)) {
+      setAddressError("That spot isn't in Washington, D.C.");
+      return;
+    }
+    setAddressValid(true);
+    setCoords({ lat: roughSpot.lat, lng: roughSpot.lng });
+    setAddressError("");
+    setStep(2);
+  };
+
+  const next = async (fields: (keyof ContributionFormValues)[], to: Step) => {
+    if (await form.trigger(fields)) setStep(to);
+  };
+
+  const submit = async (values: ContributionFormValues) => {
+    if (!coords) return;
     setVerifying(true);
-    setTimeout(() => {
-      setVerifying(false);
+    setSubmitError("");
+    try {
+      await submitContribution(
+        toContributionInput(values, { address: location, ...coords }, captchaScore)
+      );
       setVerified(true);
-      setStep(4);
-    }, 2000);
+      setStep(7);
+    } catch (err) {
+      setSubmitError(
+        navigator.onLine
+          ? (err as Error).message
+          : "You're offline. Try submitting again once you're connected."
+      );
+    } finally {
+      setVerifying(false);
+    }
   };
 
   return (
@@ -107,7 +540,7 @@ const ContributorForm = ({ fabOffset = false }: { fabOffset?: boolean }) => {
       {open && (
         <div className="fixed inset-0 z-50 flex items-end md:items-center justify-center">
           <div className="absolute inset-0 bg-background/60 backdrop-blur-sm" onClick={() => setOpen(false)} />
-          <div className="relative w-full max-w-md glass-strong rounded-t-2xl md:rounded-2xl p-6 space-y-5 mx-4 mb-0 md:mb-0">
+          <div className="relative w-full max-w-md max-h-[90vh] overflow-y-auto glass-strong rounded-t-2xl md:rounded-2xl p-6 space-y-5 mx-4 mb-0 md:mb-0">
             {/* Header */}
             <div className="flex items-center justify-between">
               <h2 className="text-lg font-display font-bold text-foreground">Add a Resource</h2>
@@ -118,7 +551,7 @@ const ContributorForm = ({ fabOffset = false }: { fabOffset?: boolean }) => {
 
             {/* Progress */}
             <div className="flex gap-1">
-              {[1, 2, 3].map(s => (
+              {Array.from({ length: LAST_STEP }, (_, i) => i + 1).map(s => (
                 <div
                   key={s}
                   className={`h-1 flex-1 rounded-full transition-colors ${
@@ -141,6 +574,7 @@ const ContributorForm = ({ fabOffset = false }: { fabOffset?: boolean }) => {
                     setLocation(e.target.value);
                     setAddressValid(false);
                     setAddressError("");
+                    setRoughSpot(null);
                   }}
                   placeholder="Enter a valid D.C. address..."
                   className="w-full bg-secondary rounded-xl px-4 py-3 text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-primary"
@@ -148,6 +582,24 @@ const ContributorForm = ({ fabOffset = false }: { fabOffset?: boolean }) => {
                 {addressError && (
                   <p className="text-xs text-destructive">{addressError}</p>
                 )}
+                {roughSpot && (
+                  <>
+                    <SpotPicker
+                      spot={roughSpot}
+                      zoom={roughSpot.zoom}
+                      onMove={(spot) => {
+                        setRoughSpot({ ...spot, zoom: roughSpot.zoom });
+                        setAddressError("");
+                      }}
+                    />
+                    <button
+                      onClick={confirmSpot}
+                      className="w-full py-3 rounded-xl bg-primary text-primary-foreground font-medium text-sm hover:bg-accent transition-colors"
+                    >
+                      Use This Spot
+                    </button>
+                  </>
+                )}
                 <button
                   onClick={validateAddress}
                   disabled={!location.trim() || validating}
@@ -165,63 +617,75 @@ const ContributorForm = ({ fabOffset = false }: { fabOffset?: boolean }) => {
               </div>
             )}
 
-            {/* Step 2: Benefit Type */}
-            {step === 2 && (
-              <div className="space-y-4">
-                <div className="flex items-center gap-2 text-muted-foreground">
-                  <Tag className="w-4 h-4" />
-                  <span className="text-sm font-medium">Step 2: Select Benefit Type</span>
-                </div>
-                {addressValid && (
-                  <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-pin-food/10 border border-pin-food/20">
-                    <CheckCircle className="w-3.5 h-3.5 text-pin-food flex-shrink-0" />
-                    <p className="text-[11px] text-foreground truncate">{location}</p>
+            <Form {...form}>
+              <form onSubmit={e => e.preventDefault()} className="contents">
+                {/* Step 2: About */}
+                {step === 2 && (
+                  <div className="space-y-4">
+                    <StepTitle icon={Tag}>Step 2: About the Resource</StepTitle>
+                    {addressValid && (
+                      <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-pin-food/10 border border-pin-food/20">
+                        <CheckCircle className="w-3.5 h-3.5 text-pin-food flex-shrink-0" />
+                        <p className="text-[11px] text-foreground truncate">{location}</p>
+                      </div>
+                    )}
+                    <AboutStep />
+                    <StepButtons onBack={() => setStep(1)} onNext={() => next(STEP_FIELDS.about, 3)} />
                   </div>
                 )}
-                <div className="space-y-2">
-                  {BENEFIT_OPTIONS.map(opt => (
-                    <button
-                      key={opt.value}
-                      onClick={() => setBenefitType(opt.value)}
-                      className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl text-sm transition-all border ${
-                        benefitType === opt.value
-                          ? "bg-primary/15 border-primary/40 text-foreground"
-                          : "bg-secondary/50 border-transparent text-muted-foreground hover:bg-secondary"
-                      }`}
-                    >
-                      <span className="text-lg">{opt.emoji}</span>
-                      <span className="font-medium">{opt.label}</span>
-                      <div className={`w-2.5 h-2.5 rounded-full ${opt.color} ml-auto`} />
-                    </button>
-                  ))}
-                </div>
-                <button
-                  onClick={() => benefitType && setStep(3)}
-                  disabled={!benefitType}
-                  className="w-full py-3 rounded-xl bg-primary text-primary-foreground font-medium text-sm hover:bg-accent transition-colors disabled:opacity-50"
-                >
-                  Next
-                </button>
-              </div>
-            )}
 
-            {/* Step 3: Captcha Verification */}
-            {step === 3 && !verifying && !verified && (
+                {/* Step 3: Hours */}
+                {step === 3 && (
+                  <div className="space-y-4">
+                    <StepTitle icon={Clock}>Step 3: Opening Hours</StepTitle>
+                    <HoursStep />
+                    <StepButtons onBack={() => setStep(2)} onNext={() => next(STEP_FIELDS.hours, 4)} />
+                  </div>
+                )}
+
+                {/* Step 4: Programs and languages */}
+                {step === 4 && (
+                  <div className="space-y-4">
+                    <StepTitle icon={HandHeart}>Step 4: Programs & Languages</StepTitle>
+                    <ServicesStep />
+                    <StepButtons onBack={() => setStep(3)} onNext={() => next(STEP_FIELDS.services, 5)} />
+                  </div>
+                )}
+
+                {/* Step 5: Contact and evidence */}
+                {step === 5 && (
+                  <div className="space-y-4">
+                    <StepTitle icon={Phone}>Step 5: Contact & Photos</StepTitle>
+                    <ContactStep />
+                    <StepButtons onBack={() => setStep(4)} onNext={() => next(STEP_FIELDS.contact, 6)} />
+                  </div>
+                )}
+              </form>
+            </Form>
+
+            {/* Step 6: Captcha Verification */}
+            {step === 6 && !verifying && !verified && (
               <div className="space-y-4">
-                <div className="flex items-center gap-2 text-muted-foreground">
-                  <ShieldCheck className="w-4 h-4" />
-                  <span className="text-sm font-medium">Step 3: Verify You're Human</span>
-                </div>
+                <StepTitle icon={ShieldCheck}>Step 6: Verify You're Human</StepTitle>
 
                 <div
                   id="captcha-container"
                   className="border border-border rounded-xl bg-secondary/30"
                 >
-                  <RhythmCaptcha onResult={(isHuman) => setCaptchaPassed(isHuman)} />
+                  <RhythmCaptcha
+                    onResult={(isHuman, score) => {
+                      setCaptchaPassed(isHuman);
+                      setCaptchaScore(score);
+                    }}
+                  />
                 </div>
 
+                {submitError && (
+                  <p className="text-xs text-destructive">{submitError}</p>
+                )}
+
                 <button
-                  onClick={handleSubmit}
+                  onClick={form.handleSubmit(submit)}
                   disabled={!captchaPassed}
                   className="w-full py-3 rounded-xl bg-primary text-primary-foreground font-medium text-sm hover:bg-accent transition-colors disabled:opacity-50"
                 >
@@ -231,7 +695,7 @@ const ContributorForm = ({ fabOffset = false }: { fabOffset?: boolean }) => {
             )}
 
             {/* Verifying animation */}
-            {step === 3 && verifying && (
+            {step === 6 && verifying && (
               <div className="py-8 text-center space-y-4">
                 <div className="relative w-16 h-16 mx-auto">
                   <div className="absolute inset-0 rounded-full border-2 border-primary/30" />
@@ -248,7 +712,7 @@ const ContributorForm = ({ fabOffset = false }: { fabOffset?: boolean }) => {
             )}
 
             {/* Step 4: Success */}
-            {step === 4 && verified && (
+            {step === 7 && verified && (
               <div className="py-8 text-center space-y-4">
                 <div className="w-16 h-16 mx-auto rounded-full bg-pin-food/20 flex items-center justify-center">
                   <CheckCircle className="w-8 h-8 text-pin-food" />
@@ -0,0 +1,145 @@
+import { useMemo, useState } from "react";
+import { AlertTriangle, ArrowDown, ChevronUp } from "lucide-react";
+import {
+  DESERT_RAMP,
+  desertColor,
+  formatNearest,
+  type DesertScore,
+} from "@/lib/benefit-desert";
+
+type SortKey = "index" | "need" | "food" | "health";
+
+const SORT_OPTIONS: { key: SortKey; label: string }[] = [
+  { key: "index", label: "Index" },
+  { key: "need", label: "Need" },
+  { key: "food", label: "Food" },
+  { key: "health", label: "Health" },
+];
+
+const sortValue = (s: DesertScore, key: SortKey) => {
+  if (key === "index") return s.index;
+  if (key === "need") return s.need;
+  return s.nearest[key];
+};
+
+// Highest first. Compared rather than subtracted so tracts with no resource
+// of the type (Infinity) sort first instead of scrambling the order.
+const byValueDesc = (key: SortKey) => (a: DesertScore, b: DesertScore) => {
+  const x = sortValue(a, key);
+  const y = sortValue(b, key);
+  return x === y ? 0 : x < y ? 1 : -1;
+};
+
+interface DesertPanelProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  scores: DesertScore[];
+  onSelect: (score: DesertScore) => void;
+}
+
+const DesertPanel = ({
+  enabled,
+  onEnabledChange,
+  scores,
+  onSelect,
+}: DesertPanelProps) => {
+  const [sortKey, setSortKey] = useState<SortKey>("index");
+
+  const sorted = useMemo(
+    () =>
+      [...scores]
+        .sort(byValueDesc(sortKey))
+        .slice(0, 15),
+    [scores, sortKey]
+  );
+
+  return (
+    <div className="glass rounded-xl px-3 py-2.5 space-y-2 w-56">
+      <button
+        onClick={() => onEnabledChange(!enabled)}
+        className="w-full flex items-center justify-between gap-2"
+      >
+        <div className="flex items-center gap-2">
+          <AlertTriangle className="w-3.5 h-3.5 text-primary" />
+          <span className="text-[11px] font-semibold text-foreground">
+            Benefit deserts
+          </span>
+        </div>
+        <ChevronUp
+          className={`w-3.5 h-3.5 text-muted-foreground transition-transform ${
+            enabled ? "" : "rotate-180"
+          }`}
+        />
+      </button>
+
+      {enabled && (
+        <>
+          <div className="flex h-1.5 rounded-full overflow-hidden">
+            {DESERT_RAMP.map((c) => (
+              <div key={c} className="flex-1" style={{ backgroundColor: c }} />
+            ))}
+          </div>
+          <div className="flex justify-between text-[9px] text-muted-foreground">
+            <span>Well served</span>
+            <span>Worst served</span>
+          </div>
+
+          <div className="flex gap-1">
+            {SORT_OPTIONS.map((opt) => (
+              <button
+                key={opt.key}
+                onClick={() => setSortKey(opt.key)}
+                className={`flex-1 text-[10px] py-1 rounded-md flex items-center justify-center gap-0.5 transition-colors ${
+                  sortKey === opt.key
+                    ? "bg-primary/20 text-foreground font-semibold"
+                    : "bg-secondary/50 text-muted-foreground hover:bg-secondary"
+                }`}
+              >
+                {opt.label}
+                {sortKey === opt.key && <ArrowDown className="w-2.5 h-2.5" />}
+              </button>
+            ))}
+          </div>
+
+          <div className="max-h-64 overflow-y-auto -mx-1">
+            {sorted.map((s) => (
+              <button
+                key={s.tract.id}
+                onClick={() => onSelect(s)}
+                className="w-full flex items-center gap-2 px-1 py-1.5 rounded-md hover:bg-secondary/60 transition-colors text-left"
+              >
+                <div
+                  className="w-6 h-6 rounded-md flex-shrink-0 flex items-center justify-center text-[10px] font-bold text-foreground"
+                  style={{ backgroundColor: desertColor(s.index) }}
+                >
+                  {s.index}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-[11px] font-medium text-foreground truncate">
+                    {s.tract.name}
+                  </p>
+                  <p className="text-[10px] text-muted-foreground truncate">
+                    Food {formatNearest(s.nearest.food)} · Health{" "}
+                    {formatNearest(s.nearest.health)}
+                  </p>
+                </div>
+              </button>
+            ))}
+            {sorted.length === 0 && (
+              <p className="text-[10px] text-muted-foreground text-center py-3">
+                No tracts scored.
+              </p>
+            )}
+          </div>
+          <p className="text-[9px] text-muted-foreground leading-snug">
+            Need (poverty, SNAP receipt) × distance to the nearest resource of
+            each type, using the current filters. Tracts are circles at their
+            internal points, not their boundaries.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DesertPanel;
@@ -0,0 +1,65 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { EXPORT_FORMATS, type ExportFormat } from "@/lib/resource-export";
+
+interface ExportControlProps {
+  /** Resources matching the active filters. */
+  count: number;
+  /** Of those, how many are in the visible map area. */
+  visibleCount: number;
+  onExport: (format: ExportFormat, visibleOnly: boolean) => void;
+}
+
+const ExportControl = ({ count, visibleCount, onExport }: ExportControlProps) => {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [visibleOnly, setVisibleOnly] = useState(false);
+  const total = visibleOnly ? visibleCount : count;
+
+  return (
+    <div className="glass rounded-xl px-3 py-2.5 space-y-2 w-56">
+      <div className="flex items-center gap-2">
+        <Download className="w-3.5 h-3.5 text-primary" />
+        <span className="text-[11px] font-semibold text-foreground">
+          Export data
+        </span>
+      </div>
+      <div className="flex gap-1">
+        {EXPORT_FORMATS.map((f) => (
+          <button
+            key={f.id}
+            onClick={() => setFormat(f.id)}
+            className={`flex-1 text-[10px] py-1 rounded-md transition-colors ${
+              format === f.id
+                ? "bg-primary/20 text-foreground font-semibold"
+                : "bg-secondary/50 text-muted-foreground hover:bg-secondary"
+            }`}
+          >
+            {f.label}
+          </button>
+        ))}
+      </div>
+      <label className="flex items-center gap-2 text-[10px] text-muted-foreground cursor-pointer">
+        <input
+          type="checkbox"
+          checked={visibleOnly}
+          onChange={(e) => setVisibleOnly(e.target.checked)}
+          className="accent-primary"
+        />
+        Only the visible map area
+      </label>
+      <button
+        onClick={() => onExport(format, visibleOnly)}
+        disabled={total === 0}
+        className="w-full text-[11px] font-semibold py-1.5 rounded-lg bg-primary text-primary-foreground hover:bg-accent transition-colors disabled:opacity-50"
+      >
+        Download {total} resource{total === 1 ? "" : "s"}
+      </button>
+      <p className="text-[9px] text-muted-foreground leading-snug">
+        Uses the active filters. Each file names its source datasets and
+        when they were loaded.
+      </p>
+    </div>
+  );
+};
+
+export default ExportControl;
@@ -1,20 +1,87 @@
-import { useState } from "react";
-import { Filter, X, ChevronUp } from "lucide-react";
-
-const FILTERS = [
-  { id: "Accepts EBT", label: "Accepts EBT", icon: "💳" },
-  { id: "Accepts Medicaid", label: "Accepts Medicaid", icon: "🏥" },
-  { id: "Walk-ins OK", label: "Walk-ins OK", icon: "🚶" },
-];
+import { useMemo, useState } from "react";
+import { Filter, X, ChevronUp, ChevronDown, Clock, Stethoscope, Store, TrainFront } from "lucide-react";
+import { useLang } from "@/hooks/lang-context";
+import { DAY_NAMES, matchesOpenFilter, weekPosition, type OpenFilter } from "@/lib/hours";
+import {
+  countOptions,
+  groupMode,
+  type FilterGroup,
+  type FilterMode,
+  type GroupModes,
+} from "@/lib/filters";
+import type { ResourcePin } from "@/lib/resources";
+import {
+  matchesTransitFilter,
+  STOP_KIND_KEYS,
+  TRANSIT_FILTER_MINUTES,
+  type TransitFilter,
+} from "@/lib/transit";
 
 interface FilterSheetProps {
+  pins: ResourcePin[];
+  filterGroups: FilterGroup[];
   activeFilters: string[];
   onFiltersChange: (filters: string[]) => void;
+  groupModes: GroupModes;
+  onGroupModesChange: (modes: GroupModes) => void;
+  openFilter: OpenFilter | null;
+  onOpenFilterChange: (filter: OpenFilter | null) => void;
+  transitFilter: TransitFilter | null;
+  onTransitFilterChange: (filter: TransitFilter | null) => void;
   onOpenChange?: (open: boolean) => void;
 }
 
-const FilterSheet = ({ activeFilters, onFiltersChange, onOpenChange }: FilterSheetProps) => {
+// Short groups stay expanded; long option lists collapse behind their header.
+const ALWAYS_OPEN = ["type", "access"];
+
+const toTimeValue = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+// DAY_NAMES runs Monday first; 1 Jan 2024 was a Monday.
+const weekdayName = (day: number, lang: string) =>
+  new Date(2024, 0, 1 + day).toLocaleDateString(lang, { weekday: "long" });
+
+const FilterSheet = ({
+  pins,
+  filterGroups,
+  activeFilters,
+  onFiltersChange,
+  groupModes,
+  onGroupModesChange,
+  openFilter,
+  onOpenFilterChange,
+  transitFilter,
+  onTransitFilterChange,
+  onOpenChange,
+}: FilterSheetProps) => {
+  const { lang, t } = useLang();
   const [open, setOpen] = useState(false);
+  const [expandedGroup, setExpandedGroup] = useState<string | null>(null);
+  const activeCount =
+    activeFilters.length + (openFilter ? 1 : 0) + (transitFilter ? 1 : 0);
+
+  // Counts respect the hours and transit filters too, so a chip never
+  // promises hidden pins.
+  const counts = useMemo(() => {
+    if (!open) return {};
+    let base = pins;
+    if (openFilter) {
+      base = base.filter((p) => matchesOpenFilter(p.hours, openFilter, new Date()));
+    }
+    if (transitFilter) {
+      base = base.filter((p) => matchesTransitFilter(p, transitFilter));
+    }
+    return countOptions(base, filterGroups, activeFilters, groupModes);
+  }, [open, pins, filterGroups, activeFilters, groupModes, openFilter, transitFilter]);
+
+  // The bundled feed may only cover one kind of stop.
+  const stopKinds = useMemo(
+    () => ({
+      rail: pins.some((p) => p.transit?.rail),
+      bus: pins.some((p) => p.transit?.bus),
+    }),
+    [pins]
+  );
 
   const toggleOpen = () => {
     const next = !open;
@@ -30,6 +97,124 @@ const FilterSheet = ({ activeFilters, onFiltersChange, onOpenChange }: FilterShe
     );
   };
 
+  const setMode = (groupId: string, mode: FilterMode) => {
+    onGroupModesChange({ ...groupModes, [groupId]: mode });
+  };
+
+  const renderOptions = (group: FilterGroup) => (
+    <div className="flex flex-wrap gap-1.5">
+      {group.options.map((o) => {
+        const active = activeFilters.includes(o.id);
+        const count = counts[o.id] ?? 0;
+        return (
+          <button
+            key={o.id}
+            onClick={() => toggle(o.id)}
+            disabled={!active && count === 0}
+            className={`text-[11px] px-2.5 py-1 rounded-full transition-all border flex items-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed ${
+              active
+                ? "bg-primary/20 text-foreground border-primary/40"
+                : "bg-secondary/50 text-muted-foreground border-transparent hover:bg-secondary"
+            }`}
+          >
+            {o.icon && <span>{o.icon}</span>}
+            <span className="font-medium">{o.label}</span>
+            <span className="text-[10px] opacity-70">{count}</span>
+            {active && <X className="w-3 h-3" />}
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  const renderModeToggle = (group: FilterGroup) => {
+    if (group.facet) return null;
+    const mode = groupMode(group, groupModes);
+    return (
+      <div className="flex rounded-md bg-secondary/60 p-0.5 text-[10px]">
+        {(["or", "and"] as const).map((m) => (
+          <button
+            key={m}
+            onClick={(e) => {
+              e.stopPropagation();
+              setMode(group.id, m);
+            }}
+            title={t(m === "or" ? "filter.anyTitle" : "filter.allTitle")}
+            className={`px-1.5 py-0.5 rounded transition-colors ${
+              mode === m
+                ? "bg-primary text-primary-foreground font-semibold"
+                : "text-muted-foreground hover:text-foreground"
+            }`}
+          >
+            {t(m === "or" ? "filter.any" : "filter.all")}
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  const selectedIn = (group: FilterGroup) =>
+    group.options.filter((o) => activeFilters.includes(o.id)).length;
+
+  const renderCollapsible = (group: FilterGroup) => {
+    const selected = selectedIn(group);
+    const expanded = expandedGroup === group.id;
+    return (
+      <div key={group.id} className="rounded-lg bg-secondary/30">
+        <div className="flex items-center justify-between gap-2 px-3 py-2">
+          <button
+            onClick={() => setExpandedGroup(expanded ? null : group.id)}
+            className="flex-1 flex items-center justify-between text-xs font-medium text-foreground"
+          >
+            <span>
+              {group.label}
+              {selected > 0 && (
+                <span className="ml-1.5 text-[10px] px-1.5 py-0.5 rounded-full bg-primary text-primary-foreground font-semibold">
+                  {selected}
+                </span>
+              )}
+            </span>
+            <ChevronDown
+              className={`w-3.5 h-3.5 text-muted-foreground transition-transform ${
+                expanded ? "rotate-180" : ""
+              }`}
+            />
+          </button>
+          {renderModeToggle(group)}
+        </div>
+        {expanded && <div className="px-3 pb-3">{renderOptions(group)}</div>}
+      </div>
+    );
+  };
+
+  const mainGroups = filterGroups.filter((g) => ALWAYS_OPEN.includes(g.id));
+  const storeGroup = filterGroups.find((g) => g.id === "storeType");
+  const facilityGroups = filterGroups.filter((g) => g.id.startsWith("facility-"));
+
+  const selectOpenMode = (mode: OpenFilter["mode"]) => {
+    if (openFilter?.mode === mode) {
+      onOpenFilterChange(null);
+    } else if (mode === "now") {
+      onOpenFilterChange({ mode: "now" });
+    } else {
+      onOpenFilterChange({ mode: "at", ...weekPosition(new Date()) });
+    }
+  };
+
+  const selectTransitKind = (kind: TransitFilter["kind"]) => {
+    onTransitFilterChange(
+      transitFilter?.kind === kind
+        ? null
+        : { kind, minutes: transitFilter?.minutes ?? 10 }
+    );
+  };
+
+  const clearAll = () => {
+    onFiltersChange([]);
+    onOpenFilterChange(null);
+    onTransitFilterChange(null);
+  };
+
   return (
     <div className="fixed bottom-0 left-0 right-0 z-30 md:left-auto md:right-4 md:bottom-4 md:w-80">
       {/* Toggle bar */}
@@ -39,10 +224,10 @@ const FilterSheet = ({ activeFilters, onFiltersChange, onOpenChange }: FilterShe
       >
         <div className="flex items-center gap-2">
           <Filter className="w-4 h-4 text-accent" />
-          <span className="text-sm font-medium text-foreground">Filters</span>
-          {activeFilters.length > 0 && (
+          <span className="text-sm font-medium text-foreground">{t("filters")}</span>
+          {activeCount > 0 && (
             <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-primary text-primary-foreground font-semibold">
-              {activeFilters.length}
+              {activeCount}
             </span>
           )}
         </div>
@@ -51,27 +236,150 @@ const FilterSheet = ({ activeFilters, onFiltersChange, onOpenChange }: FilterShe
 
       {/* Filter options */}
       {open && (
-        <div className="glass-strong border-t-0 rounded-b-none md:rounded-b-xl p-4 space-y-2">
-          {FILTERS.map(f => (
-            <button
-              key={f.id}
-              onClick={() => toggle(f.id)}
-              className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm transition-all ${
-                activeFilters.includes(f.id)
-                  ? "bg-primary/20 text-foreground border border-primary/40"
-                  : "bg-secondary/50 text-muted-foreground border border-transparent hover:bg-secondary"
-              }`}
-            >
-              <span>{f.icon}</span>
-              <span className="font-medium">{f.label}</span>
-              {activeFilters.includes(f.id) && (
-                <X className="w-3 h-3 ml-auto" />
-              )}
-            </button>
+        <div className="glass-strong border-t-0 rounded-b-none md:rounded-b-xl p-4 space-y-3 max-h-[60vh] overflow-y-auto">
+          {mainGroups.map((group) => (
+            <div key={group.id} className="space-y-1.5">
+              <div className="flex items-center justify-between">
+                <p className="text-[11px] font-semibold text-muted-foreground">
+                  {group.label}
+                </p>
+                {renderModeToggle(group)}
+              </div>
+              {renderOptions(group)}
+            </div>
           ))}
-          {activeFilters.length > 0 && (
+
+          {storeGroup && storeGroup.options.length > 0 && (
+            <div className="pt-2 space-y-1.5">
+              <p className="text-[11px] font-semibold text-muted-foreground flex items-center gap-1.5">
+                <Store className="w-3 h-3" />
+                Food retailers
+              </p>
+              {renderCollapsible(storeGroup)}
+            </div>
+          )}
+
+          {/* Health facility attributes */}
+          <div className="pt-2 space-y-1.5">
+            <p className="text-[11px] font-semibold text-muted-foreground flex items-center gap-1.5">
+              <Stethoscope className="w-3 h-3" />
+              Health facilities
+            </p>
+            {facilityGroups.map(renderCollapsible)}
+          </div>
+
+          <p className="text-[10px] text-muted-foreground">
+            {t("filter.combine")}
+          </p>
+
+          {/* Opening hours */}
+          <div className="pt-2 space-y-2">
+            <p className="text-[11px] font-semibold text-muted-foreground flex items-center gap-1.5">
+              <Clock className="w-3 h-3" />
+              {t("sheet.hours")}
+            </p>
+            <div className="flex gap-2">
+              {(["now", "at"] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => selectOpenMode(mode)}
+                  className={`flex-1 px-3 py-2 rounded-lg text-xs font-medium transition-all ${
+                    openFilter?.mode === mode
+                      ? "bg-primary/20 text-foreground border border-primary/40"
+                      : "bg-secondary/50 text-muted-foreground border border-transparent hover:bg-secondary"
+                  }`}
+                >
+                  {t(mode === "now" ? "hours.openNow" : "hours.openAt")}
+                </button>
+              ))}
+            </div>
+            {openFilter?.mode === "at" && (
+              <div className="flex gap-2">
+                <select
+                  value={openFilter.day}
+                  onChange={(e) =>
+                    onOpenFilterChange({ ...openFilter, day: Number(e.target.value) })
+                  }
+                  className="flex-1 text-xs bg-secondary/80 rounded-lg border border-border/50 px-2 py-2 text-foreground focus:outline-none focus:ring-1 focus:ring-primary/40"
+                >
+                  {DAY_NAMES.map((name, i) => (
+                    <option key={name} value={i}>
+                      {weekdayName(i, lang)}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="time"
+                  value={toTimeValue(openFilter.minutes)}
+                  onChange={(e) => {
+                    const [h, m] = e.target.value.split(":").map(Number);
+                    if (!isNaN(h) && !isNaN(m)) {
+                      onOpenFilterChange({ ...openFilter, minutes: h * 60 + m });
+                    }
+                  }}
+                  className="flex-1 text-xs bg-secondary/80 rounded-lg border border-border/50 px-2 py-2 text-foreground focus:outline-none focus:ring-1 focus:ring-primary/40"
+                />
+              </div>
+            )}
+            {openFilter && (
+              <p className="text-[10px] text-muted-foreground">
+                {t("hours.publishedOnly")}
+              </p>
+            )}
+          </div>
+
+          {/* Walking distance to transit */}
+          {(stopKinds.rail || stopKinds.bus) && (
+            <div className="pt-2 space-y-2">
+              <p className="text-[11px] font-semibold text-muted-foreground flex items-center gap-1.5">
+                <TrainFront className="w-3 h-3" />
+                {t("transit.near")}
+              </p>
+              <div className="flex gap-2">
+                {(["any", "rail", "bus"] as const).map((kind) => (
+                  <button
+                    key={kind}
+                    onClick={() => selectTransitKind(kind)}
+                    disabled={kind !== "any" && !stopKinds[kind]}
+                    className={`flex-1 px-3 py-2 rounded-lg text-xs font-medium transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                      transitFilter?.kind === kind
+                        ? "bg-primary/20 text-foreground border border-primary/40"
+                        : "bg-secondary/50 text-muted-foreground border border-transparent hover:bg-secondary"
+                    }`}
+                  >
+                    {t(kind === "any" ? "transit.any" : STOP_KIND_KEYS[kind])}
+                  </button>
+                ))}
+              </div>
+              {transitFilter && (
+                <>
+                  <select
+                    value={transitFilter.minutes}
+                    onChange={(e) =>
+                      onTransitFilterChange({
+                        ...transitFilter,
+                        minutes: Number(e.target.value),
+                      })
+                    }
+                    className="w-full text-xs bg-secondary/80 rounded-lg border border-border/50 px-2 py-2 text-foreground focus:outline-none focus:ring-1 focus:ring-primary/40"
+                  >
+                    {TRANSIT_FILTER_MINUTES.map((m) => (
+                      <option key={m} value={m}>
+                        {t("transit.within").replace("{n}", String(m))}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-[10px] text-muted-foreground">
+                    {t("transit.estimate")}
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+
+          {activeCount > 0 && (
             <button
-              onClick={() => onFiltersChange([])}
+              onClick={clearAll}
               className="w-full text-xs text-muted-foreground hover:text-foreground py-1 transition-colors"
             >
               Clear all filters
@@ -0,0 +1,38 @@
+import { BadgeCheck, Clock, Sparkles } from "lucide-react";
+import { useLang } from "@/hooks/lang-context";
+import { formatSourceDate, pinFreshness } from "@/lib/freshness";
+import type { ResourcePin } from "@/lib/resources";
+
+const BADGE = "inline-flex items-center gap-1 text-[10px] px-2 py-0.5 rounded-full font-semibold border";
+
+/** When the pin's source last confirmed it; nothing when the source gives no date. */
+const FreshnessBadges = ({ pin, now }: { pin: ResourcePin; now?: Date }) => {
+  const { t, lang } = useLang();
+  const { verified, stale, newlyAuthorized } = pinFreshness(pin, now);
+  if (!verified && !newlyAuthorized) return null;
+  return (
+    <div className="flex flex-wrap gap-1">
+      {newlyAuthorized && (
+        <span className={`${BADGE} bg-pin-food/15 text-pin-food border-pin-food/30`}>
+          <Sparkles className="w-3 h-3" />
+          {t("freshness.new")}
+        </span>
+      )}
+      {verified && (
+        <span
+          className={`${BADGE} ${
+            stale
+              ? "bg-amber-500/15 text-amber-700 dark:text-amber-400 border-amber-500/30"
+              : "bg-secondary text-muted-foreground border-border"
+          }`}
+          title={verified}
+        >
+          {stale ? <Clock className="w-3 h-3" /> : <BadgeCheck className="w-3 h-3" />}
+          {t(stale ? "freshness.stale" : "freshness.verified")} {formatSourceDate(verified, lang)}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default FreshnessBadges;
@@ -0,0 +1,108 @@
+import { Flame } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import { useLang } from "@/hooks/lang-context";
+import type { ResourceType } from "@/lib/resources";
+
+export interface HeatmapSettings {
+  enabled: boolean;
+  radius: number;
+  blur: number;
+  layers: ResourceType[];
+}
+
+const LAYER_OPTIONS: { type: ResourceType; labelKey: string; color: string }[] = [
+  { type: "food", labelKey: "legend.food", color: "bg-pin-food" },
+  { type: "health", labelKey: "legend.health", color: "bg-pin-health" },
+];
+
+interface HeatmapControlProps {
+  settings: HeatmapSettings;
+  onChange: (settings: HeatmapSettings) => void;
+}
+
+const HeatmapControl = ({ settings, onChange }: HeatmapControlProps) => {
+  const { t } = useLang();
+  const update = (patch: Partial<HeatmapSettings>) =>
+    onChange({ ...settings, ...patch });
+
+  const toggleLayer = (type: ResourceType) =>
+    update({
+      layers: settings.layers.includes(type)
+        ? settings.layers.filter((l) => l !== type)
+        : [...settings.layers, type],
+    });
+
+  return (
+    <div className="glass rounded-xl px-3 py-2.5 space-y-2 w-56">
+      <button
+        onClick={() => update({ enabled: !settings.enabled })}
+        className="w-full flex items-center justify-between gap-2"
+      >
+        <div className="flex items-center gap-2">
+          <Flame className="w-3.5 h-3.5 text-primary" />
+          <span className="text-[11px] font-semibold text-foreground">
+            {t("heatmap.title")}
+          </span>
+        </div>
+        <span
+          className={`text-[10px] px-1.5 py-0.5 rounded-full font-semibold ${
+            settings.enabled
+              ? "bg-primary text-primary-foreground"
+              : "bg-secondary text-muted-foreground"
+          }`}
+        >
+          {t(settings.enabled ? "layer.on" : "layer.off")}
+        </span>
+      </button>
+
+      {settings.enabled && (
+        <>
+          <div className="flex gap-1">
+            {LAYER_OPTIONS.map((opt) => (
+              <button
+                key={opt.type}
+                onClick={() => toggleLayer(opt.type)}
+                className={`flex-1 text-[10px] py-1 rounded-md flex items-center justify-center gap-1.5 transition-colors ${
+                  settings.layers.includes(opt.type)
+                    ? "bg-primary/20 text-foreground font-semibold"
+                    : "bg-secondary/50 text-muted-foreground hover:bg-secondary"
+                }`}
+              >
+                <span className={`w-2 h-2 rounded-full ${opt.color}`} />
+                {t(opt.labelKey)}
+              </button>
+            ))}
+          </div>
+          <div className="space-y-1.5">
+            <div className="flex justify-between text-[10px] text-muted-foreground">
+              <span>{t("heatmap.radius")}</span>
+              <span>{settings.radius}px</span>
+            </div>
+            <Slider
+              min={10}
+              max={50}
+              step={1}
+              value={[settings.radius]}
+              onValueChange={([radius]) => update({ radius })}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <div className="flex justify-between text-[10px] text-muted-foreground">
+              <span>{t("heatmap.blur")}</span>
+              <span>{settings.blur}px</span>
+            </div>
+            <Slider
+              min={5}
+              max={40}
+              step={1}
+              value={[settings.blur]}
+              onValueChange={([blur]) => update({ blur })}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HeatmapControl;
@@ -0,0 +1,36 @@
+import { useEffect } from "react";
+import { useMap } from "react-leaflet";
+import L from "leaflet";
+import "leaflet.heat";
+
+interface HeatmapLayerProps {
+  points: Array<[number, number, number]>;
+  radius: number;
+  blur: number;
+  gradient: Record<number, string>;
+}
+
+// Imperative wrapper: react-leaflet has no heat layer, so add/remove it by hand.
+const HeatmapLayer = ({ points, radius, blur, gradient }: HeatmapLayerProps) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (points.length === 0) return;
+    const layer = L.heatLayer(points, {
+      radius,
+      blur,
+      gradient,
+      max: 1,
+      minOpacity: 0.3,
+      maxZoom: 15,
+    });
+    layer.addTo(map);
+    return () => {
+      map.removeLayer(layer);
+    };
+  }, [map, points, radius, blur, gradient]);
+
+  return null;
+};
+
+export default HeatmapLayer;
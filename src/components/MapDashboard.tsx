@@ -1,11 +1,14 @@
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import {
   MapContainer,
   TileLayer,
   CircleMarker,
+  Circle,
+  Polygon,
   Popup,
   Marker,
   useMap,
+  useMapEvents,
 } from "react-leaflet";
 import {
   Navigation,
@@ -14,12 +17,95 @@ import {
   X,
   BookOpen,
   MapPin,
+  Link2,
+  CloudOff,
+  Database,
+  Footprints,
+  Bus,
+  Timer,
+  TrainFront,
+  Star,
+  Printer,
+  Flag,
 } from "lucide-react";
-import Papa from "papaparse";
 import L from "leaflet";
 import { toast } from "sonner";
 import { useThemeContext } from "@/hooks/theme-context";
 import { useLang } from "@/hooks/lang-context";
+import {
+  ACS_INDICATORS,
+  quantileBreaks,
+  colorFor,
+  type AcsTract,
+  type AcsIndicatorKey,
+} from "@/lib/acs";
+import {
+  haversine,
+  type ResourcePin,
+  type ResourceType,
+} from "@/lib/resources";
+import {
+  scoreBenefitDeserts,
+  desertColor,
+  formatNearest,
+  type DesertScore,
+} from "@/lib/benefit-desert";
+import { computeAreaStats } from "@/lib/area-stats";
+import { leafletPositions, type BoundaryLayerId } from "@/lib/boundaries";
+import { applyFilters, type FilterGroup, type GroupModes } from "@/lib/filters";
+import type { MapView, SearchLocation } from "@/lib/url-state";
+import {
+  matchesOpenFilter,
+  openStatus,
+  formatDuration,
+  type OpenFilter,
+} from "@/lib/hours";
+import {
+  matchesTransitFilter,
+  STOP_KIND_KEYS,
+  type TransitFilter,
+  type TransitStop,
+} from "@/lib/transit";
+import { useNow } from "@/hooks/use-now";
+import { useOnline } from "@/hooks/use-online";
+import { useBoundaries } from "@/hooks/use-boundaries";
+import { useFavorites } from "@/hooks/use-favorites";
+import { toggleFavorite } from "@/lib/favorites";
+import { isVerified } from "@/lib/freshness";
+import { useIsochrones, useTravelTimes } from "@/hooks/use-routing";
+import {
+  formatTravelTime,
+  isEstimated,
+  ISOCHRONE_MINUTES,
+  travelTimes,
+  type TravelMode,
+} from "@/lib/routing";
+import { printResourceSheet } from "@/lib/resource-sheet";
+import type { SourceProvenance } from "@/lib/data-sources";
+import {
+  exportResources,
+  pinsInBounds,
+  type ExportBounds,
+  type ExportFormat,
+} from "@/lib/resource-export";
+import { DC_BOUNDS, OFFLINE_TILE_ZOOMS, precacheTiles, tileUrls } from "@/lib/offline";
+import {
+  FACILITY_ATTRIBUTES,
+  FACILITY_GROUPS,
+  hasAttribute,
+} from "@/lib/health-facility";
+import AreaStatsCard from "./AreaStatsCard";
+import BoundaryControl from "./BoundaryControl";
+import NeedLayerControl from "./NeedLayerControl";
+import TransitControl from "./TransitControl";
+import ExportControl from "./ExportControl";
+import DesertPanel from "./DesertPanel";
+import HeatmapLayer from "./HeatmapLayer";
+import MarkerClusterGroup from "./MarkerClusterGroup";
+import HeatmapControl, { type HeatmapSettings } from "./HeatmapControl";
+import ReportProblemForm from "./ReportProblemForm";
+import ReportWarning from "./ReportWarning";
+import FreshnessBadges from "./FreshnessBadges";
 import "leaflet/dist/leaflet.css";
 
 // Custom user-location marker icon
@@ -30,68 +116,81 @@ const USER_ICON = L.divIcon({
   iconAnchor: [10, 10],
 });
 
-interface ResourcePin {
-  id: string;
-  type: "food" | "health";
-  label: string;
-  lat: number;
-  lng: number;
-  detail: string;
-  address: string;
-  tags: string[];
-  storeType: string;
-  extra?: {
-    phone?: string;
-    services?: string;
-    hours?: string;
-    languages?: string;
-    insurance?: string;
-    walkIn?: string;
-    webUrl?: string;
-  };
-}
+// WMATA's bus feed has thousands of stops; canvas draws them far faster than SVG.
+const BUS_STOP_RENDERER = L.canvas();
 
 interface MapDashboardProps {
+  pins: ResourcePin[];
+  tracts: AcsTract[];
+  stops: TransitStop[];
+  /** The datasets the pins were loaded from, named in exports. */
+  sources?: SourceProvenance[];
+  loading: boolean;
+  /** When the shown data was fetched from the server. */
+  dataAsOf?: Date | null;
+  /** Showing the saved offline copy instead of a fresh load. */
+  fromSnapshot?: boolean;
+  filterGroups: FilterGroup[];
   activeFilters: string[];
-  searchLocation?: { lat: number; lng: number; label: string } | null;
+  groupModes: GroupModes;
+  openFilter?: OpenFilter | null;
+  transitFilter?: TransitFilter | null;
+  selectedPinId?: string | null;
+  onSelectedPinChange?: (id: string | null) => void;
+  /** Starting center/zoom, e.g. from a shared link; otherwise DC at city zoom. */
+  initialView?: MapView | null;
+  onViewChange?: (view: MapView) => void;
+  /** Fly to this pin; a new object each time so repeat picks still fly. */
+  focusPin?: { id: string } | null;
+  searchLocation?: SearchLocation | null;
   onClearSearch?: () => void;
 }
 
 const DC_CENTER: [number, number] = [38.9072, -77.0369];
 const DEFAULT_ZOOM = 12;
 const NEARBY_ZOOM = 14;
+const PIN_ZOOM = 16;
 const NEARBY_COUNT = 8;
+// Straight-line nearest candidates that get real travel times; enough that
+// a place across the river can't crowd out one a short walk away.
+const NEARBY_CANDIDATES = 30;
+// 10 min darkest, 30 min lightest.
+const ISOCHRONE_OPACITY = [0.22, 0.14, 0.08];
 
-// --- Haversine distance (miles) ---
-const haversine = (
-  lat1: number,
-  lng1: number,
-  lat2: number,
-  lng2: number
-): number => {
-  const R = 3958.8;
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLng = ((lng2 - lng1) * Math.PI) / 180;
-  const a =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos((lat1 * Math.PI) / 180) *
-      Math.cos((lat2 * Math.PI) / 180) *
-      Math.sin(dLng / 2) ** 2;
-  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-};
+interface FlyTarget {
+  center: [number, number];
+  zoom: number;
+}
 
 // --- Map controller (handles flyTo) ---
-const MapController = ({
-  center,
-  zoom,
-}: {
-  center: [number, number] | null;
-  zoom: number;
-}) => {
+const MapController = ({ target }: { target: FlyTarget | null }) => {
   const map = useMap();
   useEffect(() => {
-    if (center) map.flyTo(center, zoom, { duration: 1.2 });
-  }, [center, zoom, map]);
+    if (target) map.flyTo(target.center, target.zoom, { duration: 1.2 });
+  }, [target, map]);
+  return null;
+};
+
+// --- Reports the map's center and zoom after every pan or zoom ---
+const ViewTracker = ({ onChange }: { onChange: (view: MapView) => void }) => {
+  const map = useMapEvents({
+    moveend: () => {
+      const { lat, lng } = map.getCenter();
+      onChange({ center: [lat, lng], zoom: map.getZoom() });
+    },
+  });
+  return null;
+};
+
+// --- Reports the visible bounds, on load and after every pan or zoom ---
+const boundsOf = (map: L.Map): ExportBounds => {
+  const b = map.getBounds();
+  return { south: b.getSouth(), west: b.getWest(), north: b.getNorth(), east: b.getEast() };
+};
+
+const BoundsTracker = ({ onChange }: { onChange: (bounds: ExportBounds) => void }) => {
+  const map = useMapEvents({ moveend: () => onChange(boundsOf(map)) });
+  useEffect(() => onChange(boundsOf(map)), [map, onChange]);
   return null;
 };
 
@@ -169,171 +268,225 @@ const HEALTH_EDUCATION = {
   tip: "Even without insurance, you can receive care. Ask about sliding-scale fees and enrollment assistance for Medicaid or DC Health Link.",
 };
 
+const COMMUNITY_EDUCATION = {
+  title: "Community-Reported Resource",
+  body: "A community member added this place and an EquityMap admin reviewed it before it appeared on the map. It isn't from an official dataset, so details may be less complete.",
+  tip: "Call or stop by to confirm what's offered and who can use it before you rely on it.",
+};
+
 const getEducation = (pin: ResourcePin) => {
+  if (pin.contributionId) return COMMUNITY_EDUCATION;
   if (pin.type === "health") return HEALTH_EDUCATION;
   return FOOD_EDUCATION[pin.storeType] || FOOD_DEFAULT;
 };
 
-// --- CSV parsers ---
-const parseSnapCsv = async (): Promise<ResourcePin[]> => {
-  const res = await fetch("/DC_Active_SNAP_Retailers_2026.csv");
-  const text = await res.text();
-  const { data } = Papa.parse(text, { header: true, skipEmptyLines: true });
-
-  return (data as Record<string, string>[])
-    .map((row, i) => ({
-      id: `snap-${i}`,
-      type: "food" as const,
-      label: (row["Store Name"] || "SNAP Retailer").trim(),
-      lat: parseFloat(row["Latitude"]),
-      lng: parseFloat(row["Longitude"]),
-      detail: `${(row["Store Type"] || "").trim()} — ${(row["Street Number"] || "").trim()} ${(row["Street Name"] || "").trim()}`,
-      address: `${(row["Street Number"] || "").trim()} ${(row["Street Name"] || "").trim()}, Washington, DC ${(row["Zip Code"] || "").trim()}`,
-      tags: ["Accepts EBT"],
-      storeType: (row["Store Type"] || "").trim(),
-    }))
-    .filter((p) => !isNaN(p.lat) && !isNaN(p.lng));
+const MARKER_COLORS: Record<ResourceType, string> = {
+  food: "#22c55e",
+  health: "#ef4444",
+  community: "#0066ff",
+};
+
+declare module "leaflet" {
+  interface CircleMarkerOptions {
+    /** The resource type of a map pin, read back by the cluster icon. */
+    pinType?: ResourceType;
+  }
+  interface LeafletEventHandlerFnMap {
+    clusterclick?: (e: LeafletEvent & { layer: MarkerCluster }) => void;
+  }
+}
+
+// Count bubble split by the health/community/food mix of the pins it contains.
+const createClusterIcon = (cluster: L.MarkerCluster) => {
+  const markers = cluster.getAllChildMarkers() as unknown as L.CircleMarker[];
+  const share = (type: ResourceType) =>
+    Math.round(
+      (markers.filter((m) => m.options.pinType === type).length / markers.length) * 360
+    );
+  const healthDeg = share("health");
+  const communityDeg = healthDeg + share("community");
+  const count = markers.length;
+  const size = count < 10 ? 32 : count < 50 ? 40 : 48;
+  return L.divIcon({
+    className: "",
+    html: `<div style="width:${size}px;height:${size}px;border-radius:50%;padding:4px;background:conic-gradient(${MARKER_COLORS.health} 0deg ${healthDeg}deg, ${MARKER_COLORS.community} ${healthDeg}deg ${communityDeg}deg, ${MARKER_COLORS.food} ${communityDeg}deg 360deg);box-shadow:0 2px 8px rgba(0,0,0,.25)"><div style="width:100%;height:100%;border-radius:50%;background:#fff;display:flex;align-items:center;justify-content:center;font:600 12px/1 system-ui,sans-serif;color:#111827">${count}</div></div>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
 };
 
-const parseHealthCsv = async (): Promise<ResourcePin[]> => {
-  const res = await fetch("/Primary_Care_Facilities.csv");
-  const text = await res.text();
-  const { data } = Papa.parse(text, { header: true, skipEmptyLines: true });
-
-  return (data as Record<string, string>[])
-    .map((row, i) => {
-      const xMerc = parseFloat(row["X"]);
-      const yMerc = parseFloat(row["Y"]);
-      const lng = (xMerc / 20037508.34) * 180;
-      let lat = (yMerc / 20037508.34) * 180;
-      lat =
-        (180 / Math.PI) *
-        (2 * Math.atan(Math.exp((lat * Math.PI) / 180)) - Math.PI / 2);
-
-      const name = (row["DCGISPrimaryCarePtNAME"] || "Health Center").trim();
-      const addr = (row["DCGISPrimaryCarePtADDRESS"] || "").trim();
-      const ward = row["DCGISPrimaryCarePtWARD"] || "";
-      const facility = (
-        row["DCGISPrimaryCarePtFACILITY_SETTING"] || ""
-      ).trim();
-
-      const yes = (val: string | undefined) =>
-        (val || "").toLowerCase().includes("yes");
-      const clean = (val: string | undefined) =>
-        (val || "").trim() || undefined;
-
-      const tags: string[] = [];
-      if (yes(row["DCGISPrimaryCarePtMEDICAID"])) tags.push("Accepts Medicaid");
-      if (yes(row["DCGISPrimaryCarePtWALKIN_UNSCHEDULED"]))
-        tags.push("Walk-ins OK");
-
-      const days = [
-        "MONDAY",
-        "TUESDAY",
-        "WEDNESDAY",
-        "THURSDAY",
-        "FRIDAY",
-        "SATURDAY",
-        "SUNDAY",
-      ];
-      const dayAbbr = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
-      const hours = days
-        .map((d, idx) => {
-          const h = clean(row[`DCGISPRIMARY_CARE_INFOHOURS_${d}`]);
-          return h ? `${dayAbbr[idx]}: ${h}` : null;
-        })
-        .filter(Boolean)
-        .join(" | ");
-
-      const langs: string[] = [];
-      if (yes(row["DCGISPRIMARY_CARE_INFOENGLISH"])) langs.push("English");
-      if (yes(row["DCGISPRIMARY_CARE_INFOSPANISH"])) langs.push("Spanish");
-      if (yes(row["DCGISPRIMARY_CARE_INFOFRENCH"])) langs.push("French");
-      if (yes(row["DCGISPRIMARY_CARE_INFOAMHARIC"])) langs.push("Amharic");
-      if (yes(row["DCGISPRIMARY_CARE_INFOCHINESE_TRADITIONAL"]))
-        langs.push("Chinese");
-      if (yes(row["DCGISPRIMARY_CARE_INFOKOREAN"])) langs.push("Korean");
-      if (yes(row["DCGISPRIMARY_CARE_INFOASL"])) langs.push("ASL");
-
-      return {
-        id: `health-${i}`,
-        type: "health" as const,
-        label: name,
-        lat,
-        lng,
-        detail: `${addr}${ward ? ` — Ward ${ward}` : ""}`,
-        address: `${addr}, Washington, DC`,
-        tags,
-        storeType: facility,
-        extra: {
-          phone: clean(row["DCGISPrimaryCarePtPHONE"]),
-          services: clean(
-            row["DCGISPRIMARY_CARE_INFOMEDICAL_SERVICES_AVAILABLE"]
-          ),
-          hours: hours || undefined,
-          languages: langs.length > 0 ? langs.join(", ") : undefined,
-          insurance: clean(row["DCGISPrimaryCarePtINSURANCE_ACCEPTED"]),
-          walkIn: clean(row["DCGISPrimaryCarePtWALKIN_UNSCHEDULED"]),
-          webUrl: clean(row["DCGISPrimaryCarePtWEB_URL"]),
-        },
-      };
-    })
-    .filter((p) => !isNaN(p.lat) && !isNaN(p.lng));
+// Small clusters fan out in place; big ones zoom in first so the spider
+// doesn't sprawl across the city.
+const SPIDERFY_MAX = 12;
+
+// --- Clustered resource pins ---
+const PinClusters = ({ children }: { children: React.ReactNode }) => {
+  const map = useMap();
+  const eventHandlers = useMemo<L.LeafletEventHandlerFnMap>(
+    () => ({
+      clusterclick: ({ layer: cluster }) => {
+        if (cluster.getChildCount() <= SPIDERFY_MAX || map.getZoom() >= 16) {
+          cluster.spiderfy();
+        } else {
+          cluster.zoomToBounds({ padding: [40, 40] });
+        }
+      },
+    }),
+    [map]
+  );
+  return (
+    <MarkerClusterGroup
+      chunkedLoading
+      showCoverageOnHover={false}
+      spiderfyOnMaxZoom
+      zoomToBoundsOnClick={false}
+      maxClusterRadius={45}
+      iconCreateFunction={createClusterIcon}
+      eventHandlers={eventHandlers}
+    >
+      {children}
+    </MarkerClusterGroup>
+  );
 };
 
-const MARKER_COLORS = {
-  food: "#22c55e",
-  health: "#ef4444",
+// Health sites are far sparser than SNAP retailers, so each one counts for
+// more; otherwise the health surface would barely register.
+const HEAT_WEIGHTS: Record<ResourceType, number> = {
+  food: 0.35,
+  health: 1,
+  community: 1,
+};
+
+const HEAT_GRADIENTS: Record<ResourceType, Record<number, string>> = {
+  food: { 0.2: "#bbf7d0", 0.5: "#4ade80", 0.8: "#16a34a", 1: "#14532d" },
+  health: { 0.2: "#fecaca", 0.5: "#f87171", 0.8: "#dc2626", 1: "#7f1d1d" },
+  community: { 0.2: "#bfdbfe", 0.5: "#60a5fa", 0.8: "#2563eb", 1: "#1e3a8a" },
+};
+
+const DEFAULT_HEATMAP: HeatmapSettings = {
+  enabled: false,
+  radius: 25,
+  blur: 18,
+  layers: ["food", "health"],
 };
 
 // --- Main component ---
 const TILE_LIGHT = "https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png";
 const TILE_DARK = "https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png";
 
-const MapDashboard = ({ activeFilters, searchLocation, onClearSearch }: MapDashboardProps) => {
+const MapDashboard = ({
+  pins,
+  tracts,
+  stops,
+  sources = [],
+  loading,
+  dataAsOf,
+  fromSnapshot,
+  filterGroups,
+  activeFilters,
+  groupModes,
+  openFilter,
+  transitFilter,
+  selectedPinId,
+  onSelectedPinChange,
+  initialView,
+  onViewChange,
+  focusPin,
+  searchLocation,
+  onClearSearch,
+}: MapDashboardProps) => {
   const { isDark } = useThemeContext();
-  const { t } = useLang();
-  const [pins, setPins] = useState<ResourcePin[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [detailPin, setDetailPin] = useState<ResourcePin | null>(null);
-  const [flyTarget, setFlyTarget] = useState<[number, number] | null>(null);
+  const { t, lang } = useLang();
+  const { update: updateFavorites, isFavorite } = useFavorites();
+  const now = useNow();
+  const online = useOnline();
+  // Links and favorites may name a record that has since been merged.
+  const detailPin = useMemo(
+    () =>
+      pins.find(
+        (p) =>
+          p.id === selectedPinId || p.mergedFrom?.some((m) => m.id === selectedPinId)
+      ) ?? null,
+    [pins, selectedPinId]
+  );
+  const detailSources = useMemo(() => {
+    if (!detailPin?.mergedFrom) return [];
+    const ids = [detailPin.source, ...detailPin.mergedFrom.map((m) => m.source)];
+    // Snapshots saved before pins named their source have none to show.
+    return [...new Set(ids)]
+      .filter(Boolean)
+      .map((id) => sources.find((s) => s.id === id)?.label ?? id);
+  }, [detailPin, sources]);
+  const setDetailPin = (pin: ResourcePin | null) =>
+    onSelectedPinChange?.(pin?.id ?? null);
+  // A shared link already carries the view; don't fly away from it on load.
+  const skipInitialFly = useRef(!!initialView);
+  const [flyTarget, setFlyTarget] = useState<FlyTarget | null>(null);
+  const [needLayerOn, setNeedLayerOn] = useState(false);
+  const [indicatorKey, setIndicatorKey] =
+    useState<AcsIndicatorKey>("povertyRate");
+  const [desertOn, setDesertOn] = useState(false);
+  const [heatmap, setHeatmap] = useState<HeatmapSettings>(DEFAULT_HEATMAP);
+  const [boundaryLayer, setBoundaryLayer] = useState<BoundaryLayerId | null>(null);
+  const [selectedAreaId, setSelectedAreaId] = useState<string | null>(null);
+  const areas = useBoundaries(boundaryLayer);
+  const [travelMode, setTravelMode] = useState<TravelMode>("walk");
+  const [isochronesOn, setIsochronesOn] = useState(false);
+  const [stopsOn, setStopsOn] = useState(false);
+  const [mapBounds, setMapBounds] = useState<ExportBounds | null>(null);
+  const [reportOpen, setReportOpen] = useState(false);
+  // A report is about one pin; don't carry the form over to the next one.
+  useEffect(() => setReportOpen(false), [selectedPinId]);
 
+  // Keep DC's tiles for the active basemap available offline.
   useEffect(() => {
-    const load = async () => {
-      try {
-        const [snap, health] = await Promise.all([
-          parseSnapCsv(),
-          parseHealthCsv(),
-        ]);
-        const all = [...snap, ...health];
-        setPins(all);
-        toast.success(`${all.length} resources loaded across D.C.`, {
-          description: "SNAP retailers & healthcare facilities",
-          duration: 3000,
-        });
-      } catch (err) {
-        console.error("Failed to load CSV data:", err);
-      } finally {
-        setLoading(false);
-      }
-    };
-    load();
-  }, []);
+    precacheTiles(
+      tileUrls(isDark ? TILE_DARK : TILE_LIGHT, DC_BOUNDS, OFFLINE_TILE_ZOOMS, L.Browser.retina)
+    );
+  }, [isDark]);
 
   useEffect(() => {
+    if (skipInitialFly.current) {
+      skipInitialFly.current = false;
+      return;
+    }
     if (searchLocation) {
-      setFlyTarget([searchLocation.lat, searchLocation.lng]);
+      setFlyTarget({
+        center: [searchLocation.lat, searchLocation.lng],
+        zoom: NEARBY_ZOOM,
+      });
     } else {
-      setFlyTarget(DC_CENTER);
+      setFlyTarget({ center: DC_CENTER, zoom: DEFAULT_ZOOM });
     }
   }, [searchLocation]);
 
-  const filteredPins =
-    activeFilters.length === 0
-      ? pins
-      : pins.filter((p) => p.tags.some((t) => activeFilters.includes(t)));
+  // A place picked from search: fly to it once it's loaded.
+  useEffect(() => {
+    const pin = focusPin && pins.find((p) => p.id === focusPin.id);
+    if (pin) setFlyTarget({ center: [pin.lat, pin.lng], zoom: PIN_ZOOM });
+  }, [focusPin, pins]);
 
-  const nearbyPins = useMemo(() => {
+  // Only "Open now" depends on the clock; don't refilter every minute otherwise.
+  const openClock = openFilter?.mode === "now" ? now : null;
+  const filteredPins = useMemo(() => {
+    let result = applyFilters(pins, filterGroups, activeFilters, groupModes);
+    if (openFilter) {
+      result = result.filter((p) =>
+        matchesOpenFilter(p.hours, openFilter, openClock ?? new Date())
+      );
+    }
+    if (transitFilter) {
+      result = result.filter((p) => matchesTransitFilter(p, transitFilter));
+    }
+    return result;
+  }, [pins, filterGroups, activeFilters, groupModes, openFilter, openClock, transitFilter]);
+  // Only records their source confirmed recently count as verified.
+  const verifiedCount = useMemo(
+    () => filteredPins.filter((p) => isVerified(p, now)).length,
+    [filteredPins, now]
+  );
+
+  const nearbyCandidates = useMemo(() => {
     if (!searchLocation) return [];
     return [...filteredPins]
       .map((p) => ({
@@ -341,10 +494,159 @@ const MapDashboard = ({ activeFilters, searchLocation, onClearSearch }: MapDashb
         distance: haversine(searchLocation.lat, searchLocation.lng, p.lat, p.lng),
       }))
       .sort((a, b) => a.distance - b.distance)
-      .slice(0, NEARBY_COUNT);
+      .slice(0, NEARBY_CANDIDATES);
   }, [searchLocation, filteredPins]);
 
+  const travel = useTravelTimes(searchLocation, nearbyCandidates, travelMode);
+  const isochrones = useIsochrones(searchLocation, travelMode, isochronesOn);
+  const contours = isochrones?.contours ?? [];
+
+  // Ranked by travel time once it's known; straight-line distance until then.
+  const nearbyPins = useMemo(() => {
+    const withTimes = nearbyCandidates.map((p) => ({
+      ...p,
+      duration: travel?.times.get(p.id) ?? null,
+    }));
+    if (travel) {
+      withTimes.sort(
+        (a, b) => (a.duration ?? Infinity) - (b.duration ?? Infinity) || a.distance - b.distance
+      );
+    }
+    return withTimes.slice(0, NEARBY_COUNT);
+  }, [nearbyCandidates, travel]);
+
+  const indicator =
+    ACS_INDICATORS.find((i) => i.key === indicatorKey) || ACS_INDICATORS[0];
+  const breaks = useMemo(
+    () => quantileBreaks(tracts, indicatorKey),
+    [tracts, indicatorKey]
+  );
+
+  const heatPoints = useMemo(() => {
+    const byType = {} as Record<ResourceType, Array<[number, number, number]>>;
+    for (const type of heatmap.layers) {
+      byType[type] = filteredPins
+        .filter((p) => p.type === type)
+        .map((p) => [p.lat, p.lng, HEAT_WEIGHTS[type]]);
+    }
+    return byType;
+  }, [filteredPins, heatmap.layers]);
+
+  const desertScores = useMemo(
+    () => (desertOn ? scoreBenefitDeserts(tracts, filteredPins) : []),
+    [desertOn, tracts, filteredPins]
+  );
+
+  // The need and desert layers draw the same tract circles, so only one shows at a time.
+  const toggleNeedLayer = (on: boolean) => {
+    setNeedLayerOn(on);
+    if (on) setDesertOn(false);
+  };
+  const toggleDesert = (on: boolean) => {
+    setDesertOn(on);
+    if (on) setNeedLayerOn(false);
+  };
+
+  const changeBoundaryLayer = (layer: BoundaryLayerId | null) => {
+    setBoundaryLayer(layer);
+    setSelectedAreaId(null);
+  };
+
+  // Counts cover every loaded resource, not just the filtered ones.
+  const areaStats = useMemo(() => {
+    const area = areas.find((a) => a.id === selectedAreaId);
+    return area ? computeAreaStats(area, pins, tracts) : null;
+  }, [areas, selectedAreaId, pins, tracts]);
+
+  const focusTract = (score: DesertScore) => {
+    setFlyTarget({
+      center: [score.tract.lat, score.tract.lng],
+      zoom: searchLocation ? NEARBY_ZOOM : DEFAULT_ZOOM,
+    });
+  };
+
+  // From the searched location, in the mode the nearby list is ranked by.
+  const directionsUrl = (pin: ResourcePin) => {
+    const params = new URLSearchParams({
+      api: "1",
+      destination: `${pin.lat},${pin.lng}`,
+    });
+    if (searchLocation) {
+      params.set("origin", `${searchLocation.lat},${searchLocation.lng}`);
+      params.set("travelmode", travelMode === "walk" ? "walking" : "transit");
+    }
+    return `https://www.google.com/maps/dir/?${params}`;
+  };
+
+  // The URL already mirrors the view (filters, search, selected pin).
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success(t("share.copied"), {
+        description: t("share.copiedNote"),
+        duration: 2500,
+      });
+    } catch {
+      toast.error(t("share.copyFailed"));
+    }
+  };
+
+  // The nearby list as a one-page sheet; the browser's print dialog also saves it as PDF.
+  const printSheet = async () => {
+    const win = window.open("", "_blank");
+    if (!win) {
+      toast.error("Allow pop-ups for this site to print the resource sheet.");
+      return;
+    }
+    try {
+      const walk =
+        travelMode === "walk" && travel
+          ? nearbyPins.map((p) => p.duration)
+          : (await travelTimes(searchLocation, nearbyPins, "walk")).seconds;
+      await printResourceSheet(
+        win,
+        {
+          location: searchLocation,
+          entries: nearbyPins.map((pin, i) => ({
+            pin,
+            distance: pin.distance,
+            walkSeconds: walk[i],
+          })),
+          link: window.location.href,
+          lang,
+          generatedAt: new Date(),
+        },
+        t
+      );
+    } catch (err) {
+      console.error("Resource sheet failed:", err);
+      win.close();
+      toast.error("Couldn't prepare the resource sheet.");
+    }
+  };
+
+  const visiblePins = useMemo(
+    () => (mapBounds ? pinsInBounds(filteredPins, mapBounds) : filteredPins),
+    [filteredPins, mapBounds]
+  );
+
+  const downloadExport = (format: ExportFormat, visibleOnly: boolean) => {
+    const file = exportResources(format, visibleOnly ? visiblePins : filteredPins, {
+      sources,
+      exportedAt: new Date(),
+      view: window.location.href,
+      bounds: visibleOnly ? mapBounds : null,
+    });
+    const url = URL.createObjectURL(new Blob([file.text], { type: file.mime }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = file.filename;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   const education = detailPin ? getEducation(detailPin) : null;
+  const detailStatus = detailPin ? openStatus(detailPin.hours, now) : null;
 
   return (
     <div className="relative w-full h-full overflow-hidden">
@@ -360,8 +662,8 @@ const MapDashboard = ({ activeFilters, searchLocation, onClearSearch }: MapDashb
       )}
 
       <MapContainer
-        center={DC_CENTER}
-        zoom={DEFAULT_ZOOM}
+        center={initialView?.center ?? DC_CENTER}
+        zoom={initialView?.zoom ?? DEFAULT_ZOOM}
         className="w-full h-full z-0"
         zoomControl={false}
         attributionControl={false}
@@ -372,10 +674,149 @@ const MapDashboard = ({ activeFilters, searchLocation, onClearSearch }: MapDashb
           attribution='&copy; <a href="https://carto.com/">CARTO</a>'
         />
 
-        <MapController
-          center={flyTarget}
-          zoom={searchLocation ? NEARBY_ZOOM : DEFAULT_ZOOM}
-        />
+        <MapController target={flyTarget} />
+        {onViewChange && <ViewTracker onChange={onViewChange} />}
+        <BoundsTracker onChange={setMapBounds} />
+
+        {/* Ward / ZIP overlay, under the tract layers so their popups still open */}
+        {areas.map((area) => (
+          <Polygon
+            key={area.id}
+            positions={leafletPositions(area)}
+            pathOptions={{
+              color: "#0043a8",
+              weight: area.id === selectedAreaId ? 3 : 1.5,
+              fillColor: "#0043a8",
+              fillOpacity: area.id === selectedAreaId ? 0.15 : 0.04,
+              // Dashed while the lines are estimates, not official boundaries.
+              dashArray: area.approximate ? "6 4" : undefined,
+            }}
+            eventHandlers={{ click: () => setSelectedAreaId(area.id) }}
+          />
+        ))}
+
+        {/* ACS need as a point-symbol layer. The CSV carries no tract
+            polygons, so each tract is a circle at its internal point with
+            the tract's land area; this is not a choropleth. */}
+        {needLayerOn &&
+          tracts.map((tract) => (
+            <Circle
+              key={tract.id}
+              center={[tract.lat, tract.lng]}
+              radius={Math.sqrt(tract.landArea / Math.PI) || 150}
+              pathOptions={{
+                fillColor: colorFor(tract[indicatorKey], breaks, indicator),
+                color: "#fff",
+                weight: 1,
+                fillOpacity: 0.55,
+              }}
+            >
+              <Popup>
+                <div className="min-w-[180px] space-y-1 py-1">
+                  <p className="font-semibold text-sm text-foreground">
+                    {tract.name}
+                  </p>
+                  {ACS_INDICATORS.map((ind) => (
+                    <p
+                      key={ind.key}
+                      className={`text-xs ${
+                        ind.key === indicatorKey
+                          ? "text-foreground font-semibold"
+                          : "text-muted-foreground"
+                      }`}
+                    >
+                      {ind.label}:{" "}
+                      {tract[ind.key] === null ? "—" : ind.format(tract[ind.key])}
+                    </p>
+                  ))}
+                </div>
+              </Popup>
+            </Circle>
+          ))}
+
+        {/* Benefit-desert index, drawn with the same tract circles */}
+        {desertOn &&
+          desertScores.map((score) => (
+            <Circle
+              key={score.tract.id}
+              center={[score.tract.lat, score.tract.lng]}
+              radius={Math.sqrt(score.tract.landArea / Math.PI) || 150}
+              pathOptions={{
+                fillColor: desertColor(score.index),
+                color: "#fff",
+                weight: 1,
+                fillOpacity: 0.6,
+              }}
+            >
+              <Popup>
+                <div className="min-w-[180px] space-y-1 py-1">
+                  <p className="font-semibold text-sm text-foreground">
+                    {score.tract.name}
+                  </p>
+                  <p className="text-xs text-foreground font-semibold">
+                    Desert index {score.index} · #{score.rank} of{" "}
+                    {desertScores.length}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Need percentile: {Math.round(score.need * 100)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Nearest food: {formatNearest(score.nearest.food)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Nearest health: {formatNearest(score.nearest.health)}
+                  </p>
+                </div>
+              </Popup>
+            </Circle>
+          ))}
+
+        {/* Travel-time rings around the searched location, largest first */}
+        {searchLocation &&
+          [...contours]
+            .sort((a, b) => b.minutes - a.minutes)
+            .map((c) => (
+              <Polygon
+                key={c.minutes}
+                positions={c.ring}
+                interactive={false}
+                pathOptions={{
+                  color: "#6366f1",
+                  weight: 1,
+                  fillColor: "#6366f1",
+                  fillOpacity:
+                    ISOCHRONE_OPACITY[ISOCHRONE_MINUTES.indexOf(c.minutes)] ?? 0.1,
+                }}
+              />
+            ))}
+
+        {/* Transit stops, under the resource markers */}
+        {stopsOn &&
+          stops.map((stop) => (
+            <CircleMarker
+              key={stop.id}
+              center={[stop.lat, stop.lng]}
+              radius={stop.kind === "rail" ? 6 : 3}
+              pathOptions={{
+                fillColor: stop.kind === "rail" ? "#111827" : "#6b7280",
+                color: "#fff",
+                weight: stop.kind === "rail" ? 2 : 1,
+                fillOpacity: 0.9,
+                renderer: stop.kind === "bus" ? BUS_STOP_RENDERER : undefined,
+              }}
+            >
+              <Popup>
+                <div className="min-w-[160px] space-y-1 py-1">
+                  <p className="font-semibold text-sm text-foreground">
+                    {stop.name}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {t(STOP_KIND_KEYS[stop.kind])} · {stop.routes.join(", ")}
+                  </p>
+                </div>
+              </Popup>
+            </CircleMarker>
+          ))}
 
         {/* User location marker */}
         {searchLocation && (
@@ -391,71 +832,181 @@ const MapDashboard = ({ activeFilters, searchLocation, onClearSearch }: MapDashb
           </Marker>
         )}
 
-        {filteredPins.map((pin) => (
-          <CircleMarker
-            key={pin.id}
-            center={[pin.lat, pin.lng]}
-            radius={7}
-            pathOptions={{
-              fillColor: MARKER_COLORS[pin.type],
-              color: "#fff",
-              weight: 2,
-              fillOpacity: 0.9,
-            }}
-          >
-            <Popup>
-              <div className="min-w-[200px] space-y-2 py-1">
-                <div className="flex items-center gap-2">
-                  <div
-                    className="w-3 h-3 rounded-full flex-shrink-0"
-                    style={{ backgroundColor: MARKER_COLORS[pin.type] }}
-                  />
-                  <p className="font-semibold text-sm text-foreground leading-tight">
-                    {pin.label}
-                  </p>
-                </div>
-                <p className="text-xs text-muted-foreground">{pin.detail}</p>
-                <div className="flex flex-wrap gap-1">
-                  {pin.tags.map((tag) => (
-                    <span
-                      key={tag}
-                      className="text-[10px] px-2 py-0.5 rounded-full bg-primary/10 text-foreground border border-primary/20 font-medium"
-                    >
-                      {tag}
-                    </span>
-                  ))}
-                </div>
-                <div className="flex gap-2 pt-1">
-                  <a
-                    href={`https://www.google.com/maps/dir/?api=1&destination=${pin.lat},${pin.lng}`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="flex-1 text-[11px] font-semibold py-2 rounded-lg bg-primary text-primary-foreground hover:bg-accent transition-colors flex items-center justify-center gap-1"
-                  >
-                    <Navigation className="w-3 h-3" />
-                    {t("directions")}
-                  </a>
-                  <button
-                    onClick={() => setDetailPin(pin)}
-                    className="flex-1 text-[11px] font-semibold py-2 rounded-lg bg-secondary text-secondary-foreground hover:bg-muted transition-colors flex items-center justify-center gap-1 border border-border"
-                  >
-                    <FileText className="w-3 h-3" />
-                    {t("details")}
-                  </button>
-                </div>
-              </div>
-            </Popup>
-          </CircleMarker>
-        ))}
+        {heatmap.enabled &&
+          heatmap.layers.map((type) => (
+            <HeatmapLayer
+              key={type}
+              points={heatPoints[type] || []}
+              radius={heatmap.radius}
+              blur={heatmap.blur}
+              gradient={HEAT_GRADIENTS[type]}
+            />
+          ))}
+
+        {!heatmap.enabled && (
+          <PinClusters>
+            {filteredPins.map((pin) => (
+              <CircleMarker
+                key={pin.id}
+                center={[pin.lat, pin.lng]}
+                pinType={pin.type}
+                radius={7}
+                pathOptions={{
+                  fillColor: MARKER_COLORS[pin.type],
+                  color: "#fff",
+                  weight: 2,
+                  fillOpacity: 0.9,
+                }}
+              >
+                <Popup>
+                  <div className="min-w-[200px] space-y-2 py-1">
+                    <div className="flex items-center gap-2">
+                      <div
+                        className="w-3 h-3 rounded-full flex-shrink-0"
+                        style={{ backgroundColor: MARKER_COLORS[pin.type] }}
+                      />
+                      <p className="font-semibold text-sm text-foreground leading-tight">
+                        {pin.label}
+                      </p>
+                    </div>
+                    {pin.contributionId && (
+                      <span className="inline-block text-[10px] px-2 py-0.5 rounded-full bg-pin-community/15 text-pin-community border border-pin-community/30 font-semibold">
+                        {t("community.reported")}
+                      </span>
+                    )}
+                    <ReportWarning reports={pin.reports} />
+                    <FreshnessBadges pin={pin} now={now} />
+                    <p className="text-xs text-muted-foreground">{pin.detail}</p>
+                    <div className="flex flex-wrap gap-1">
+                      {pin.tags.map((tag) => (
+                        <span
+                          key={tag}
+                          className="text-[10px] px-2 py-0.5 rounded-full bg-primary/10 text-foreground border border-primary/20 font-medium"
+                        >
+                          {tag}
+                        </span>
+                      ))}
+                    </div>
+                    <div className="flex gap-2 pt-1">
+                      <a
+                        href={directionsUrl(pin)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex-1 text-[11px] font-semibold py-2 rounded-lg bg-primary text-primary-foreground hover:bg-accent transition-colors flex items-center justify-center gap-1"
+                      >
+                        <Navigation className="w-3 h-3" />
+                        {t("directions")}
+                      </a>
+                      <button
+                        onClick={() => setDetailPin(pin)}
+                        className="flex-1 text-[11px] font-semibold py-2 rounded-lg bg-secondary text-secondary-foreground hover:bg-muted transition-colors flex items-center justify-center gap-1 border border-border"
+                      >
+                        <FileText className="w-3 h-3" />
+                        {t("details")}
+                      </button>
+                      <button
+                        onClick={() => updateFavorites((f) => toggleFavorite(f, pin))}
+                        title={isFavorite(pin.id) ? "Remove from My places" : "Save to My places"}
+                        className="px-2.5 py-2 rounded-lg bg-secondary text-secondary-foreground hover:bg-muted transition-colors border border-border"
+                      >
+                        <Star
+                          className={`w-3 h-3 ${isFavorite(pin.id) ? "text-yellow-500 fill-yellow-500" : ""}`}
+                        />
+                      </button>
+                    </div>
+                  </div>
+                </Popup>
+              </CircleMarker>
+            ))}
+          </PinClusters>
+        )}
       </MapContainer>
 
-      {/* Pin count badge */}
+      {/* Census layer controls */}
+      {!loading && tracts.length > 0 && (
+        <div className="absolute top-16 right-3 z-10 flex flex-col gap-2">
+          <NeedLayerControl
+            enabled={needLayerOn}
+            onEnabledChange={toggleNeedLayer}
+            indicator={indicator}
+            onIndicatorChange={setIndicatorKey}
+            breaks={breaks}
+          />
+          <DesertPanel
+            enabled={desertOn}
+            onEnabledChange={toggleDesert}
+            scores={desertScores}
+            onSelect={focusTract}
+          />
+          <HeatmapControl settings={heatmap} onChange={setHeatmap} />
+          <BoundaryControl
+            layer={boundaryLayer}
+            onLayerChange={changeBoundaryLayer}
+            approximate={areas.some((a) => a.approximate)}
+          />
+          {stops.length > 0 && (
+            <TransitControl enabled={stopsOn} onEnabledChange={setStopsOn} stops={stops} />
+          )}
+          <ExportControl
+            count={filteredPins.length}
+            visibleCount={visiblePins.length}
+            onExport={downloadExport}
+          />
+        </div>
+      )}
+
+      {/* Stats for the clicked ward or ZIP, below the header legend */}
+      {areaStats && (
+        <div className="absolute top-48 left-3 z-10">
+          <AreaStatsCard
+            stats={areaStats}
+            onClose={() => setSelectedAreaId(null)}
+            onSelectPin={(pin) => {
+              setFlyTarget({ center: [pin.lat, pin.lng], zoom: PIN_ZOOM });
+              setDetailPin(pin);
+            }}
+          />
+        </div>
+      )}
+
+      {/* Pin count and data age */}
       {!loading && !searchLocation && (
-        <div className="absolute bottom-4 left-4 z-10 glass rounded-xl px-3 py-2 flex items-center gap-2">
-          <ShieldCheck className="w-3.5 h-3.5 text-primary" />
-          <span className="text-xs font-medium text-foreground">
-            {filteredPins.length} {t("verified")}
-          </span>
+        <div className="absolute bottom-4 left-4 z-10 glass rounded-xl px-3 py-2 space-y-1">
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="w-3.5 h-3.5 text-primary" />
+            <span className="text-xs font-medium text-foreground">
+              {verifiedCount} {t("verified")}
+            </span>
+          </div>
+          {verifiedCount < filteredPins.length && (
+            <div className="text-[10px] text-muted-foreground">
+              {filteredPins.length - verifiedCount} {t("freshness.unverified")}
+            </div>
+          )}
+          {dataAsOf && (
+            <div
+              className={`flex items-center gap-1.5 text-[10px] font-medium ${
+                online ? "text-muted-foreground" : "text-foreground"
+              }`}
+              title={`${t("data.fetched")} ${dataAsOf.toLocaleString(lang)}`}
+            >
+              {online ? (
+                <Database className="w-3 h-3" />
+              ) : (
+                <CloudOff className="w-3 h-3 text-destructive" />
+              )}
+              {!online && `${t("offline.badge")} · `}
+              {t(fromSnapshot ? "data.saved" : "data.live").replace(
+                "{time}",
+                now.getTime() - dataAsOf.getTime() < 60_000
+                  ? t("data.justNow")
+                  : t("data.ago").replace(
+                      "{time}",
+                      formatDuration(now.getTime() - dataAsOf.getTime())
+                    )
+              )}
+            </div>
+          )}
         </div>
       )}
 
@@ -474,20 +1025,73 @@ const MapDashboard = ({ activeFilters, searchLocation, onClearSearch }: MapDashb
                 </p>
               </div>
             </div>
-            <button
-              onClick={onClearSearch}
-              className="p-1.5 rounded-lg hover:bg-secondary transition-colors"
-            >
-              <X className="w-4 h-4 text-muted-foreground" />
-            </button>
+            <div className="flex items-center gap-1">
+              {(
+                [
+                  { mode: "walk", labelKey: "travel.walk", Icon: Footprints },
+                  { mode: "transit", labelKey: "travel.transit", Icon: Bus },
+                ] as const
+              ).map(({ mode, labelKey, Icon }) => (
+                <button
+                  key={mode}
+                  onClick={() => setTravelMode(mode)}
+                  className={`text-[10px] px-2 py-1 rounded-md flex items-center gap-1 transition-colors ${
+                    travelMode === mode
+                      ? "bg-primary/20 text-foreground font-semibold"
+                      : "bg-secondary/50 text-muted-foreground hover:bg-secondary"
+                  }`}
+                >
+                  <Icon className="w-3 h-3" />
+                  {t(labelKey)}
+                </button>
+              ))}
+              <button
+                onClick={() => setIsochronesOn(!isochronesOn)}
+                title={t("travel.showAreas").replace("{n}", ISOCHRONE_MINUTES.join("/"))}
+                className={`text-[10px] px-2 py-1 rounded-md flex items-center gap-1 transition-colors ${
+                  isochronesOn
+                    ? "bg-primary/20 text-foreground font-semibold"
+                    : "bg-secondary/50 text-muted-foreground hover:bg-secondary"
+                }`}
+              >
+                <Timer className="w-3 h-3" />
+                {t("travel.minutes").replace("{n}", ISOCHRONE_MINUTES.join("/"))}
+              </button>
+              <button
+                onClick={printSheet}
+                title={t("sheet.export")}
+                className="text-[10px] px-2 py-1 rounded-md flex items-center gap-1 transition-colors bg-secondary/50 text-muted-foreground hover:bg-secondary"
+              >
+                <Printer className="w-3 h-3" />
+                {t("sheet.export")}
+              </button>
+              <button
+                onClick={onClearSearch}
+                className="p-1.5 rounded-lg hover:bg-secondary transition-colors"
+              >
+                <X className="w-4 h-4 text-muted-foreground" />
+              </button>
+            </div>
           </div>
+          {travel && isEstimated(travel.provider) ? (
+            <p className="px-4 pt-1.5 text-[10px] text-muted-foreground">
+              {t("travel.estimated")}
+            </p>
+          ) : (
+            isochrones &&
+            isEstimated(isochrones.provider) && (
+              <p className="px-4 pt-1.5 text-[10px] text-muted-foreground">
+                {t("travel.areasEstimated")}
+              </p>
+            )
+          )}
 
           <div className="flex-1 overflow-y-auto">
             {nearbyPins.map((pin) => (
               <button
                 key={pin.id}
                 onClick={() => {
-                  setFlyTarget([pin.lat, pin.lng]);
+                  setFlyTarget({ center: [pin.lat, pin.lng], zoom: NEARBY_ZOOM });
                   setDetailPin(pin);
                 }}
                 className="w-full flex items-center gap-3 px-4 py-3 hover:bg-secondary/60 transition-colors text-left border-b border-border/20 last:border-b-0"
@@ -506,12 +1110,17 @@ const MapDashboard = ({ activeFilters, searchLocation, onClearSearch }: MapDashb
                 </div>
                 <div className="flex-shrink-0 text-right">
                   <p className="text-xs font-semibold text-primary">
+                    {pin.duration === null
+                      ? "…"
+                      : `${formatTravelTime(pin.duration)} ${t(
+                          travelMode === "walk" ? "travel.walkTime" : "travel.tripTime"
+                        )}`}
+                  </p>
+                  <p className="text-[10px] text-muted-foreground">
                     {pin.distance < 0.1
                       ? `${Math.round(pin.distance * 5280)} ft`
-                      : `${pin.distance.toFixed(1)} mi`}
-                  </p>
-                  <p className="text-[10px] text-muted-foreground capitalize">
-                    {pin.type === "food" ? "Food" : "Health"}
+                      : `${pin.distance.toFixed(1)} mi`}{" "}
+                    · <span className="capitalize">{pin.type}</span>
                   </p>
                 </div>
               </button>
@@ -532,7 +1141,7 @@ const MapDashboard = ({ activeFilters, searchLocation, onClearSearch }: MapDashb
             className="absolute inset-0 bg-background/60 backdrop-blur-sm"
             onClick={() => setDetailPin(null)}
           />
-          <div className="relative glass-strong rounded-2xl p-6 max-w-md w-full space-y-4 shadow-xl">
+          <div className="relative glass-strong rounded-2xl p-6 max-w-md w-full max-h-[85vh] overflow-y-auto space-y-4 shadow-xl">
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
                 <BookOpen className="w-4 h-4 text-primary" />
@@ -556,7 +1165,41 @@ const MapDashboard = ({ activeFilters, searchLocation, onClearSearch }: MapDashb
               <span className="text-xs font-medium text-foreground">
                 {detailPin.label}
               </span>
+              {detailPin.contributionId && (
+                <span className="text-[10px] px-2 py-0.5 rounded-full bg-pin-community/15 text-pin-community border border-pin-community/30 font-semibold">
+                  {t("community.reported")}
+                </span>
+              )}
             </div>
+            <ReportWarning reports={detailPin.reports} />
+            <FreshnessBadges pin={detailPin} now={now} />
+            {detailSources.length > 1 && (
+              <p className="text-[11px] text-muted-foreground">
+                {t("merged.listedIn")}: {detailSources.join(" · ")}
+              </p>
+            )}
+
+            {detailStatus && (
+              <div className="flex items-center gap-2">
+                <span
+                  className={`text-[10px] px-2 py-0.5 rounded-full font-semibold border ${
+                    detailStatus.open
+                      ? "bg-pin-food/15 text-pin-food border-pin-food/30"
+                      : "bg-destructive/10 text-destructive border-destructive/30"
+                  }`}
+                >
+                  {t(detailStatus.open ? "hours.openNow" : "hours.closed")}
+                </span>
+                {detailStatus.nextChange && (
+                  <span className="text-[11px] text-muted-foreground">
+                    {t(detailStatus.open ? "hours.closesIn" : "hours.opensIn").replace(
+                      "{time}",
+                      formatDuration(detailStatus.nextChange.getTime() - now.getTime())
+                    )}
+                  </span>
+                )}
+              </div>
+            )}
 
             <p className="text-xs text-muted-foreground leading-relaxed">
               {education.body}
@@ -635,6 +1278,44 @@ const MapDashboard = ({ activeFilters, searchLocation, onClearSearch }: MapDashb
               </div>
             )}
 
+            {detailPin.facility && (
+              <div className="space-y-2 pt-2 border-t border-border/50">
+                {FACILITY_GROUPS.map((group) => {
+                  const offered = FACILITY_ATTRIBUTES.filter(
+                    (a) =>
+                      a.group === group.id &&
+                      hasAttribute(detailPin.facility, a.key)
+                  );
+                  if (offered.length === 0) return null;
+                  return (
+                    <div key={group.id}>
+                      <p className="text-[11px] font-semibold text-foreground mb-1">
+                        {group.label}
+                      </p>
+                      <div className="flex flex-wrap gap-1">
+                        {offered.map((a) => (
+                          <span
+                            key={a.key}
+                            className="text-[10px] px-2 py-0.5 rounded-full bg-primary/10 text-foreground border border-primary/20 font-medium"
+                          >
+                            {a.label}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+                {detailPin.facility.limitedAccess && (
+                  <p className="text-[11px] text-muted-foreground">
+                    <span className="font-semibold text-foreground">
+                      Eligibility:
+                    </span>{" "}
+                    {detailPin.facility.limitedAccess}
+                  </p>
+                )}
+              </div>
+            )}
+
             <div className="bg-primary/5 border border-primary/15 rounded-xl p-3">
               <p className="text-[11px] font-semibold text-primary mb-1">Tip</p>
               <p className="text-xs text-muted-foreground leading-relaxed">
@@ -646,15 +1327,55 @@ const MapDashboard = ({ activeFilters, searchLocation, onClearSearch }: MapDashb
               {detailPin.address}
             </p>
 
+            {detailPin.transit && (
+              <div className="space-y-1">
+                {(["rail", "bus"] as const).map((kind) => {
+                  const stop = detailPin.transit[kind];
+                  if (!stop) return null;
+                  const Icon = kind === "rail" ? TrainFront : Bus;
+                  return (
+                    <p
+                      key={kind}
+                      className="text-[11px] text-muted-foreground flex items-center gap-1.5"
+                    >
+                      <Icon className="w-3 h-3 text-primary flex-shrink-0" />
+                      <span>
+                        <span className="font-semibold text-foreground">
+                          {t(STOP_KIND_KEYS[kind])}:
+                        </span>{" "}
+                        {stop.name} · {formatTravelTime(stop.walkSeconds)} {t("transit.walk")}
+                      </span>
+                    </p>
+                  );
+                })}
+              </div>
+            )}
+
             <div className="flex gap-2 pt-1">
               <a
-                href={`https://www.google.com/maps/dir/?api=1&destination=${detailPin.lat},${detailPin.lng}`}
+                href={directionsUrl(detailPin)}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="flex-1 text-xs font-semibold py-2.5 rounded-lg bg-primary text-primary-foreground hover:bg-accent transition-colors text-center"
               >
                 {t("get.directions")}
               </a>
+              <button
+                onClick={copyLink}
+                title="Copy a link to this view"
+                className="px-3 text-xs font-semibold py-2.5 rounded-lg bg-secondary text-secondary-foreground hover:bg-muted transition-colors border border-border"
+              >
+                <Link2 className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => updateFavorites((f) => toggleFavorite(f, detailPin))}
+                title={isFavorite(detailPin.id) ? "Remove from My places" : "Save to My places"}
+                className="px-3 text-xs font-semibold py-2.5 rounded-lg bg-secondary text-secondary-foreground hover:bg-muted transition-colors border border-border"
+              >
+                <Star
+                  className={`w-3.5 h-3.5 ${isFavorite(detailPin.id) ? "text-yellow-500 fill-yellow-500" : ""}`}
+                />
+              </button>
               <button
                 onClick={() => setDetailPin(null)}
                 className="flex-1 text-xs font-semibold py-2.5 rounded-lg bg-secondary text-secondary-foreground hover:bg-muted transition-colors border border-border"
@@ -662,9 +1383,20 @@ const MapDashboard = ({ activeFilters, searchLocation, onClearSearch }: MapDashb
                 {t("close")}
               </button>
             </div>
+            <button
+              onClick={() => setReportOpen(true)}
+              className="w-full flex items-center justify-center gap-1.5 text-[11px] text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <Flag className="w-3 h-3" />
+              {t("report.action")}
+            </button>
           </div>
         </div>
       )}
+
+      {reportOpen && detailPin && (
+        <ReportProblemForm pin={detailPin} onClose={() => setReportOpen(false)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,32 @@
+import {
+  createElementObject,
+  createLayerComponent,
+  extendContext,
+  type LayerProps,
+} from "@react-leaflet/core";
+import L from "leaflet";
+import "leaflet.markercluster";
+import "leaflet.markercluster/dist/MarkerCluster.css";
+
+export interface MarkerClusterGroupProps
+  extends LayerProps,
+    L.MarkerClusterGroupOptions {
+  children?: React.ReactNode;
+}
+
+// react-leaflet has no cluster layer; this registers the group as the layer
+// container so child CircleMarkers (and their Popups) are added to it.
+const MarkerClusterGroup = createLayerComponent<
+  L.MarkerClusterGroup,
+  MarkerClusterGroupProps
+>(
+  function createMarkerClusterGroup({ children: _c, ...options }, ctx) {
+    const group = new L.MarkerClusterGroup(options);
+    return createElementObject(
+      group,
+      extendContext(ctx, { layerContainer: group })
+    );
+  }
+);
+
+export default MarkerClusterGroup;
@@ -0,0 +1,206 @@
+import { useRef } from "react";
+import { Briefcase, Download, Home, Star, Upload, X } from "lucide-react";
+import { toast } from "sonner";
+import { useFavorites } from "@/hooks/use-favorites";
+import {
+  exportFavorites,
+  mergeFavorites,
+  parseFavoritesFile,
+  removeFavorite,
+  SAVED_PLACE_LABELS,
+  setSavedPlace,
+  type SavedPlaceKind,
+} from "@/lib/favorites";
+import type { SearchLocation } from "@/lib/url-state";
+
+const PLACE_ICONS: Record<SavedPlaceKind, typeof Home> = {
+  home: Home,
+  work: Briefcase,
+};
+
+const TYPE_DOTS = {
+  food: "bg-pin-food",
+  health: "bg-pin-health",
+  community: "bg-pin-community",
+};
+
+interface MyPlacesPanelProps {
+  /** The active search, offered as the location to save. */
+  searchLocation?: SearchLocation | null;
+  onGoTo: (location: SearchLocation) => void;
+  onSelectPin: (pinId: string) => void;
+  onClose: () => void;
+}
+
+const MyPlacesPanel = ({
+  searchLocation,
+  onGoTo,
+  onSelectPin,
+  onClose,
+}: MyPlacesPanelProps) => {
+  const { favorites, update } = useFavorites();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const download = () => {
+    const blob = new Blob([exportFavorites(favorites)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `equitymap-places-${new Date().toISOString().slice(0, 10)}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importFile = async (file: File) => {
+    const result = parseFavoritesFile(await file.text());
+    if ("error" in result) {
+      toast.error("Couldn't import places", { description: result.error });
+      return;
+    }
+    const before = favorites.pins.length;
+    const merged = mergeFavorites(favorites, result);
+    update(() => merged);
+    toast.success("Places imported", {
+      description: `${merged.pins.length - before} new starred place(s).`,
+      duration: 3000,
+    });
+  };
+
+  return (
+    <div className="glass-strong rounded-xl shadow-xl border border-border/50 p-3 w-72 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Star className="w-3.5 h-3.5 text-primary" />
+          <span className="text-sm font-display font-semibold text-foreground">
+            My places
+          </span>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-lg hover:bg-secondary transition-colors"
+          aria-label="Close"
+        >
+          <X className="w-3.5 h-3.5 text-muted-foreground" />
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        {(["home", "work"] as const).map((kind) => {
+          const Icon = PLACE_ICONS[kind];
+          const place = favorites.places[kind];
+          return (
+            <div key={kind} className="flex items-center gap-2 rounded-lg bg-secondary/30 px-2 py-1.5">
+              <Icon className="w-3.5 h-3.5 text-primary flex-shrink-0" />
+              {place ? (
+                <>
+                  <button
+                    onClick={() => onGoTo(place)}
+                    className="flex-1 min-w-0 text-left"
+                    title={`Search from ${place.label}`}
+                  >
+                    <p className="text-[11px] font-semibold text-foreground">
+                      {SAVED_PLACE_LABELS[kind]}
+                    </p>
+                    <p className="text-[10px] text-muted-foreground truncate">
+                      {place.label}
+                    </p>
+                  </button>
+                  <button
+                    onClick={() => update((f) => setSavedPlace(f, kind, null))}
+                    className="p-1 rounded hover:bg-secondary transition-colors"
+                    title={`Forget ${SAVED_PLACE_LABELS[kind].toLowerCase()}`}
+                  >
+                    <X className="w-3 h-3 text-muted-foreground" />
+                  </button>
+                </>
+              ) : (
+                <>
+                  <span className="flex-1 text-[11px] font-semibold text-foreground">
+                    {SAVED_PLACE_LABELS[kind]}
+                  </span>
+                  <button
+                    onClick={() => update((f) => setSavedPlace(f, kind, searchLocation))}
+                    disabled={!searchLocation}
+                    title={searchLocation ? undefined : "Search an address first"}
+                    className="text-[10px] px-2 py-1 rounded-md bg-secondary/50 text-muted-foreground hover:bg-secondary transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    Save current search
+                  </button>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-[11px] font-semibold text-muted-foreground">
+          Starred ({favorites.pins.length})
+        </p>
+        <div className="max-h-56 overflow-y-auto -mx-1">
+          {favorites.pins.map((pin) => (
+            <div
+              key={pin.id}
+              className="flex items-center gap-2 px-1 py-1.5 rounded-md hover:bg-secondary/60 transition-colors"
+            >
+              <div className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${TYPE_DOTS[pin.type]}`} />
+              <button
+                onClick={() => onSelectPin(pin.id)}
+                className="flex-1 min-w-0 text-left"
+              >
+                <p className="text-[11px] font-medium text-foreground truncate">
+                  {pin.label}
+                </p>
+                <p className="text-[10px] text-muted-foreground truncate">
+                  {pin.address}
+                </p>
+              </button>
+              <button
+                onClick={() => update((f) => removeFavorite(f, pin.id))}
+                className="p-1 rounded hover:bg-secondary transition-colors"
+                title="Unstar"
+              >
+                <Star className="w-3 h-3 text-yellow-500 fill-yellow-500" />
+              </button>
+            </div>
+          ))}
+          {favorites.pins.length === 0 && (
+            <p className="text-[10px] text-muted-foreground px-1 py-2">
+              Star a place from its popup or details to keep it here.
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex gap-2 pt-2 border-t border-border/50">
+        <button
+          onClick={download}
+          className="flex-1 text-[11px] font-semibold py-1.5 rounded-lg bg-secondary text-secondary-foreground hover:bg-muted transition-colors border border-border flex items-center justify-center gap-1"
+        >
+          <Download className="w-3 h-3" />
+          Export
+        </button>
+        <button
+          onClick={() => fileInput.current?.click()}
+          className="flex-1 text-[11px] font-semibold py-1.5 rounded-lg bg-secondary text-secondary-foreground hover:bg-muted transition-colors border border-border flex items-center justify-center gap-1"
+        >
+          <Upload className="w-3 h-3" />
+          Import
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default MyPlacesPanel;
@@ -0,0 +1,97 @@
+import { Layers } from "lucide-react";
+import {
+  ACS_INDICATORS,
+  NEED_RAMP,
+  type AcsIndicator,
+  type AcsIndicatorKey,
+} from "@/lib/acs";
+
+interface NeedLayerControlProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  indicator: AcsIndicator;
+  onIndicatorChange: (key: AcsIndicatorKey) => void;
+  breaks: number[];
+}
+
+const NeedLayerControl = ({
+  enabled,
+  onEnabledChange,
+  indicator,
+  onIndicatorChange,
+  breaks,
+}: NeedLayerControlProps) => {
+  // Class c covers (breaks[c - 1], breaks[c]]; list entries least → most need.
+  const classes = breaks.map((hi, c) => ({
+    color: NEED_RAMP[indicator.higherIsNeed ? c : NEED_RAMP.length - 1 - c],
+    label:
+      c === 0
+        ? `≤ ${indicator.format(hi)}`
+        : `${indicator.format(breaks[c - 1])} – ${indicator.format(hi)}`,
+  }));
+  const legend = indicator.higherIsNeed ? classes : [...classes].reverse();
+
+  return (
+    <div className="glass rounded-xl px-3 py-2.5 space-y-2 w-56">
+      <button
+        onClick={() => onEnabledChange(!enabled)}
+        className="w-full flex items-center justify-between gap-2"
+      >
+        <div className="flex items-center gap-2">
+          <Layers className="w-3.5 h-3.5 text-primary" />
+          <span className="text-[11px] font-semibold text-foreground">
+            Census need layer
+          </span>
+        </div>
+        <span
+          className={`text-[10px] px-1.5 py-0.5 rounded-full font-semibold ${
+            enabled
+              ? "bg-primary text-primary-foreground"
+              : "bg-secondary text-muted-foreground"
+          }`}
+        >
+          {enabled ? "On" : "Off"}
+        </span>
+      </button>
+
+      {enabled && (
+        <>
+          <select
+            value={indicator.key}
+            onChange={(e) => onIndicatorChange(e.target.value as AcsIndicatorKey)}
+            className="w-full text-[11px] bg-secondary/80 rounded-lg border border-border/50 px-2 py-1.5 text-foreground focus:outline-none focus:ring-1 focus:ring-primary/40"
+          >
+            {ACS_INDICATORS.map((ind) => (
+              <option key={ind.key} value={ind.key}>
+                {ind.label}
+              </option>
+            ))}
+          </select>
+
+          <div className="space-y-1">
+            {legend.map(({ color, label }) => (
+              <div key={color} className="flex items-center gap-2">
+                <div
+                  className="w-3 h-3 rounded-sm flex-shrink-0"
+                  style={{ backgroundColor: color }}
+                />
+                <span className="text-[10px] text-muted-foreground">{label}</span>
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 rounded-sm flex-shrink-0 bg-gray-400" />
+              <span className="text-[10px] text-muted-foreground">No data</span>
+            </div>
+          </div>
+          <p className="text-[9px] text-muted-foreground leading-snug">
+            ACS 5-Year ({indicator.source}). Darker = greater need. Each tract is
+            a circle at its internal point with the tract's land area, not its
+            boundary, so the gaps between circles aren't missing data.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default NeedLayerControl;
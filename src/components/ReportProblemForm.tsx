@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { CheckCircle, Flag, Loader2, ShieldCheck, X } from "lucide-react";
+import RhythmCaptcha from "./RhythmCaptcha";
+import {
+  MAX_REPORT_DETAILS,
+  REPORT_REASONS,
+  submitReport,
+  type CaptchaScore,
+  type ReportReason,
+} from "@/lib/contributions";
+import type { ResourcePin } from "@/lib/resources";
+
+interface ReportProblemFormProps {
+  pin: ResourcePin;
+  onClose: () => void;
+}
+
+/**
+ * Lets a resident flag a pin as closed, moved or wrong. Reports go through
+ * the same captcha and review queue as new submissions; the map only warns
+ * once several closure reports are pending or a reviewer confirms one.
+ */
+const ReportProblemForm = ({ pin, onClose }: ReportProblemFormProps) => {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState("");
+  const [captchaPassed, setCaptchaPassed] = useState(false);
+  const [captchaScore, setCaptchaScore] = useState<CaptchaScore | null>(null);
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState("");
+
+  const send = async () => {
+    if (!reason) return;
+    setSending(true);
+    setError("");
+    try {
+      await submitReport({
+        pinId: pin.id,
+        pinLabel: pin.label,
+        pinAddress: pin.address,
+        reason,
+        details: details.trim(),
+        ...(captchaScore && { captcha: captchaScore }),
+      });
+      setSent(true);
+    } catch (err) {
+      setError(
+        navigator.onLine
+          ? (err as Error).message
+          : "You're offline. Try again once you're connected."
+      );
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-end md:items-center justify-center">
+      <div className="absolute inset-0 bg-background/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative w-full max-w-md max-h-[90vh] overflow-y-auto glass-strong rounded-t-2xl md:rounded-2xl p-6 space-y-4 mx-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-display font-bold text-foreground">Report a Problem</h2>
+          <button onClick={onClose} className="p-1 rounded-lg hover:bg-secondary">
+            <X className="w-5 h-5 text-muted-foreground" />
+          </button>
+        </div>
+
+        {sent ? (
+          <div className="py-6 text-center space-y-4">
+            <div className="w-16 h-16 mx-auto rounded-full bg-pin-food/20 flex items-center justify-center">
+              <CheckCircle className="w-8 h-8 text-pin-food" />
+            </div>
+            <div>
+              <p className="text-sm font-display font-semibold text-foreground">Thanks for letting us know</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                A reviewer will check this report. If others report the same, the map warns
+                people in the meantime.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="w-full py-3 rounded-xl bg-primary text-primary-foreground font-medium text-sm hover:bg-accent transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        ) : (
+          <>
+            <div>
+              <p className="text-sm font-medium text-foreground">{pin.label}</p>
+              {pin.address && <p className="text-xs text-muted-foreground">{pin.address}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <Flag className="w-4 h-4" />
+                <span className="text-sm font-medium">What's wrong?</span>
+              </div>
+              {(Object.keys(REPORT_REASONS) as ReportReason[]).map((r) => (
+                <button
+                  key={r}
+                  onClick={() => setReason(r)}
+                  className={`w-full text-left px-4 py-2.5 rounded-xl text-sm transition-all border ${
+                    reason === r
+                      ? "bg-primary/15 border-primary/40 text-foreground"
+                      : "bg-secondary/50 border-transparent text-muted-foreground hover:bg-secondary"
+                  }`}
+                >
+                  {REPORT_REASONS[r]}
+                </button>
+              ))}
+            </div>
+
+            <textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value.slice(0, MAX_REPORT_DETAILS))}
+              placeholder={
+                reason === "moved"
+                  ? "Where did it move to? (optional)"
+                  : "Anything else reviewers should know? (optional)"
+              }
+              rows={2}
+              className="w-full bg-secondary rounded-xl px-4 py-3 text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-primary"
+            />
+
+            {reason && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <ShieldCheck className="w-4 h-4" />
+                  <span className="text-sm font-medium">Verify You're Human</span>
+                </div>
+                <div className="border border-border rounded-xl bg-secondary/30">
+                  <RhythmCaptcha
+                    onResult={(isHuman, score) => {
+                      setCaptchaPassed(isHuman);
+                      setCaptchaScore(score);
+                    }}
+                  />
+                </div>
+              </div>
+            )}
+
+            {error && <p className="text-xs text-destructive">{error}</p>}
+
+            <button
+              onClick={send}
+              disabled={!reason || !captchaPassed || sending}
+              className="w-full py-3 rounded-xl bg-primary text-primary-foreground font-medium text-sm hover:bg-accent transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {sending && <Loader2 className="w-4 h-4 animate-spin" />}
+              Send Report
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReportProblemForm;
@@ -0,0 +1,34 @@
+import { AlertTriangle } from "lucide-react";
+import { useLang } from "@/hooks/lang-context";
+import { CLOSURE_REASONS, REPORT_REASONS, type PinReportStatus } from "@/lib/contributions";
+
+/** Badges for problems residents reported on a pin; nothing when there are none. */
+const ReportWarning = ({ reports }: { reports?: PinReportStatus }) => {
+  const { t } = useLang();
+  if (!reports) return null;
+  const closed = reports.confirmed.some((r) => CLOSURE_REASONS.includes(r));
+  const others = reports.confirmed.filter((r) => !CLOSURE_REASONS.includes(r));
+  return (
+    <div className="space-y-1">
+      {(closed || reports.possiblyClosed) && (
+        <span
+          className={`inline-flex items-center gap-1 text-[10px] px-2 py-0.5 rounded-full font-semibold border ${
+            closed
+              ? "bg-destructive/10 text-destructive border-destructive/30"
+              : "bg-amber-500/15 text-amber-700 dark:text-amber-400 border-amber-500/30"
+          }`}
+        >
+          <AlertTriangle className="w-3 h-3" />
+          {t(closed ? "report.confirmedClosed" : "report.possiblyClosed")}
+        </span>
+      )}
+      {others.length > 0 && (
+        <p className="text-[11px] text-muted-foreground">
+          {t("report.confirmed")}: {others.map((r) => REPORT_REASONS[r]).join("; ")}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ReportWarning;
@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef, useCallback } from "react";
+import type { CaptchaScore } from "@/lib/contributions";
 
 // ─── AI Behavioral Analysis Engine ───────────────────────────────────────────
 class BehaviorAnalyzer {
@@ -181,7 +182,8 @@ const CIRCLE_POSITIONS = [
 const TOTAL_CIRCLES = 5;
 
 export interface RhythmCaptchaProps {
-  onResult?: (isHuman: boolean) => void;
+  /** The score lets reviewers weigh borderline submissions. */
+  onResult?: (isHuman: boolean, score: CaptchaScore) => void;
 }
 
 export default function RhythmCaptcha({ onResult }: RhythmCaptchaProps) {
@@ -248,7 +250,7 @@ export default function RhythmCaptcha({ onResult }: RhythmCaptchaProps) {
   useEffect(() => {
     if (phase === "result" && result && !hasReported) {
       if (onResult) {
-        onResult(result.isHuman);
+        onResult(result.isHuman, { total: result.total, signals: result.scores });
       }
       setHasReported(true);
     }
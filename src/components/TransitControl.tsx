@@ -0,0 +1,59 @@
+import { TrainFront } from "lucide-react";
+import { useLang } from "@/hooks/lang-context";
+import type { TransitStop } from "@/lib/transit";
+
+interface TransitControlProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  stops: TransitStop[];
+}
+
+const TransitControl = ({ enabled, onEnabledChange, stops }: TransitControlProps) => {
+  const { t } = useLang();
+  const rail = stops.filter((s) => s.kind === "rail").length;
+  const bus = stops.length - rail;
+
+  return (
+    <div className="glass rounded-xl px-3 py-2.5 space-y-2 w-56">
+      <button
+        onClick={() => onEnabledChange(!enabled)}
+        className="w-full flex items-center justify-between gap-2"
+      >
+        <div className="flex items-center gap-2">
+          <TrainFront className="w-3.5 h-3.5 text-primary" />
+          <span className="text-[11px] font-semibold text-foreground">
+            {t("transit.stops")}
+          </span>
+        </div>
+        <span
+          className={`text-[10px] px-1.5 py-0.5 rounded-full font-semibold ${
+            enabled
+              ? "bg-primary text-primary-foreground"
+              : "bg-secondary text-muted-foreground"
+          }`}
+        >
+          {t(enabled ? "layer.on" : "layer.off")}
+        </span>
+      </button>
+
+      {enabled && (
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 rounded-full flex-shrink-0 bg-gray-900 border-2 border-white" />
+            <span className="text-[10px] text-muted-foreground">
+              {t("transit.metrorail")} ({rail})
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-2 h-2 mx-0.5 rounded-full flex-shrink-0 bg-gray-500" />
+            <span className="text-[10px] text-muted-foreground">
+              {t("transit.bus")} ({bus})
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TransitControl;
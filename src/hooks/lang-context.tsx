@@ -39,6 +39,17 @@ const translations: Record<LangCode, Record<string, string>> = {
     "verified": "verified resources",
     "legend.food": "Food / SNAP",
     "legend.health": "Healthcare",
+    "legend.community": "Community",
+    "community.reported": "Community-reported",
+    "report.action": "Report a problem",
+    "report.possiblyClosed": "Reported possibly closed",
+    "report.confirmedClosed": "Closed, confirmed by reviewers",
+    "report.confirmed": "Reviewers confirmed",
+    "merged.listedIn": "Listed in",
+    "freshness.verified": "Last verified",
+    "freshness.stale": "Not verified since",
+    "freshness.new": "Newly authorized",
+    "freshness.unverified": "not recently verified",
     "about.title": "About EquityMap",
     "about.body": "EquityMap helps D.C. residents navigate \"Benefit Deserts\" inspired by the 2026 federal budget changes. Using AI and verified public data, EquityMap connects communities with food assistance, healthcare, and essential resources — because everyone deserves equitable access.",
     "filters": "Filters",
@@ -46,6 +57,60 @@ const translations: Record<LangCode, Record<string, string>> = {
     "details": "Details",
     "close": "Close",
     "get.directions": "Get Directions",
+    "sheet.export": "Print / PDF",
+    "sheet.title": "Resources near",
+    "sheet.generated": "Generated",
+    "sheet.phone": "Phone",
+    "sheet.hours": "Hours",
+    "sheet.languages": "Languages",
+    "sheet.walk": "min walk",
+    "sheet.start": "Starting point",
+    "sheet.scan": "Scan to open this map with directions and the latest details.",
+    "sheet.note": "Walk times are estimates. Call ahead to confirm hours and eligibility.",
+    "sheet.none": "No resources found nearby with current filters.",
+    "layer.on": "On",
+    "layer.off": "Off",
+    "transit.stops": "Metro & bus stops",
+    "transit.rail": "Metro",
+    "transit.bus": "Bus",
+    "transit.metrorail": "Metrorail",
+    "transit.near": "Near transit",
+    "transit.any": "Any stop",
+    "transit.within": "Within a {n}-minute walk",
+    "transit.estimate": "Estimated walk to the nearest stop.",
+    "transit.walk": "walk",
+    "heatmap.title": "Density heatmap",
+    "heatmap.radius": "Radius",
+    "heatmap.blur": "Blur",
+    "travel.walk": "Walk",
+    "travel.transit": "Transit",
+    "travel.showAreas": "Show {n}-minute travel areas",
+    "travel.minutes": "{n} min",
+    "travel.walkTime": "walk",
+    "travel.tripTime": "trip",
+    "travel.estimated": "Travel times are estimates: the usual detours, and river crossings only at bridges.",
+    "travel.areasEstimated": "Travel areas are estimates: the routing server couldn't draw them.",
+    "offline.note": "You're offline, so here's saved guidance. The eligibility screener and the map still work.",
+    "offline.badge": "Offline",
+    "data.fetched": "Data fetched",
+    "data.live": "Data from {time}",
+    "data.saved": "Saved data from {time}",
+    "data.justNow": "just now",
+    "data.ago": "{time} ago",
+    "hours.openNow": "Open now",
+    "hours.openAt": "Open at…",
+    "hours.closed": "Closed",
+    "hours.closesIn": "Closes in {time}",
+    "hours.opensIn": "Opens in {time}",
+    "hours.publishedOnly": "Only shows places with published hours.",
+    "share.copied": "Link copied",
+    "share.copiedNote": "Opens this map view with the same filters and place.",
+    "share.copyFailed": "Couldn't copy the link. Copy it from the address bar instead.",
+    "filter.any": "Any",
+    "filter.all": "All",
+    "filter.anyTitle": "Match any selected option",
+    "filter.allTitle": "Match every selected option",
+    "filter.combine": "Sections combine with AND. Within a section, \"Any\" matches one selected option and \"All\" requires every one.",
   },
   es: {
     "hero.title.1": "Navega los recursos de D.C.",
@@ -74,6 +139,17 @@ const translations: Record<LangCode, Record<string, string>> = {
     "verified": "recursos verificados",
     "legend.food": "Alimentos / SNAP",
     "legend.health": "Salud",
+    "legend.community": "Comunidad",
+    "community.reported": "Reportado por la comunidad",
+    "report.action": "Reportar un problema",
+    "report.possiblyClosed": "Reportado como posiblemente cerrado",
+    "report.confirmedClosed": "Cerrado, confirmado por revisores",
+    "report.confirmed": "Confirmado por revisores",
+    "merged.listedIn": "Aparece en",
+    "freshness.verified": "Verificado",
+    "freshness.stale": "Sin verificar desde",
+    "freshness.new": "Autorizado recientemente",
+    "freshness.unverified": "sin verificación reciente",
     "about.title": "Sobre EquityMap",
     "about.body": "EquityMap ayuda a los residentes de D.C. a navegar los \"Desiertos de Beneficios\" inspirados por los cambios presupuestarios de 2026. Usando IA y datos públicos verificados, conecta a las comunidades con recursos esenciales.",
     "filters": "Filtros",
@@ -81,6 +157,60 @@ const translations: Record<LangCode, Record<string, string>> = {
     "details": "Detalles",
     "close": "Cerrar",
     "get.directions": "Obtener Direcciones",
+    "sheet.export": "Imprimir / PDF",
+    "sheet.title": "Recursos cerca de",
+    "sheet.generated": "Generado",
+    "sheet.phone": "Teléfono",
+    "sheet.hours": "Horario",
+    "sheet.languages": "Idiomas",
+    "sheet.walk": "min a pie",
+    "sheet.start": "Punto de partida",
+    "sheet.scan": "Escanee para abrir este mapa con indicaciones y la información más reciente.",
+    "sheet.note": "Los tiempos a pie son aproximados. Llame antes para confirmar el horario y los requisitos.",
+    "sheet.none": "No se encontraron recursos cercanos con los filtros actuales.",
+    "layer.on": "Activada",
+    "layer.off": "Desactivada",
+    "transit.stops": "Paradas de Metro y autobús",
+    "transit.rail": "Metro",
+    "transit.bus": "Autobús",
+    "transit.metrorail": "Metrorail",
+    "transit.near": "Cerca del transporte público",
+    "transit.any": "Cualquier parada",
+    "transit.within": "A {n} minutos a pie o menos",
+    "transit.estimate": "Caminata estimada hasta la parada más cercana.",
+    "transit.walk": "a pie",
+    "heatmap.title": "Mapa de calor de densidad",
+    "heatmap.radius": "Radio",
+    "heatmap.blur": "Difuminado",
+    "travel.walk": "A pie",
+    "travel.transit": "Transporte",
+    "travel.showAreas": "Mostrar áreas a {n} minutos",
+    "travel.minutes": "{n} min",
+    "travel.walkTime": "a pie",
+    "travel.tripTime": "de viaje",
+    "travel.estimated": "Los tiempos de viaje son estimados: incluyen los desvíos habituales y cruzan los ríos solo por los puentes.",
+    "travel.areasEstimated": "Las áreas de viaje son estimadas: el servidor de rutas no pudo trazarlas.",
+    "offline.note": "Estás sin conexión, así que aquí tienes orientación guardada. El evaluador de elegibilidad y el mapa siguen funcionando.",
+    "offline.badge": "Sin conexión",
+    "data.fetched": "Datos obtenidos",
+    "data.live": "Datos de {time}",
+    "data.saved": "Datos guardados de {time}",
+    "data.justNow": "ahora mismo",
+    "data.ago": "hace {time}",
+    "hours.openNow": "Abierto ahora",
+    "hours.openAt": "Abierto el…",
+    "hours.closed": "Cerrado",
+    "hours.closesIn": "Cierra en {time}",
+    "hours.opensIn": "Abre en {time}",
+    "hours.publishedOnly": "Solo muestra lugares con horario publicado.",
+    "share.copied": "Enlace copiado",
+    "share.copiedNote": "Abre esta vista del mapa con los mismos filtros y lugar.",
+    "share.copyFailed": "No se pudo copiar el enlace. Cópialo desde la barra de direcciones.",
+    "filter.any": "Cualquiera",
+    "filter.all": "Todas",
+    "filter.anyTitle": "Coincide con cualquier opción seleccionada",
+    "filter.allTitle": "Coincide con todas las opciones seleccionadas",
+    "filter.combine": "Las secciones se combinan con Y. Dentro de una sección, \"Cualquiera\" coincide con una opción seleccionada y \"Todas\" exige todas.",
   },
   fr: {
     "hero.title.1": "Naviguez les ressources de D.C.",
@@ -109,6 +239,17 @@ const translations: Record<LangCode, Record<string, string>> = {
     "verified": "ressources vérifiées",
     "legend.food": "Alimentation / SNAP",
     "legend.health": "Santé",
+    "legend.community": "Communauté",
+    "community.reported": "Signalé par la communauté",
+    "report.action": "Signaler un problème",
+    "report.possiblyClosed": "Signalé comme peut-être fermé",
+    "report.confirmedClosed": "Fermé, confirmé par les modérateurs",
+    "report.confirmed": "Confirmé par les modérateurs",
+    "merged.listedIn": "Répertorié dans",
+    "freshness.verified": "Vérifié",
+    "freshness.stale": "Non vérifié depuis",
+    "freshness.new": "Récemment autorisé",
+    "freshness.unverified": "non vérifiées récemment",
     "about.title": "À propos d'EquityMap",
     "about.body": "EquityMap aide les résidents de D.C. à naviguer les \"Déserts de Prestations\" inspirés par les changements budgétaires de 2026. En utilisant l'IA et des données publiques vérifiées, il connecte les communautés aux ressources essentielles.",
     "filters": "Filtres",
@@ -116,6 +257,60 @@ const translations: Record<LangCode, Record<string, string>> = {
     "details": "Détails",
     "close": "Fermer",
     "get.directions": "Obtenir l'Itinéraire",
+    "sheet.export": "Imprimer / PDF",
+    "sheet.title": "Ressources près de",
+    "sheet.generated": "Généré le",
+    "sheet.phone": "Téléphone",
+    "sheet.hours": "Horaires",
+    "sheet.languages": "Langues",
+    "sheet.walk": "min à pied",
+    "sheet.start": "Point de départ",
+    "sheet.scan": "Scannez pour ouvrir cette carte avec l'itinéraire et les informations à jour.",
+    "sheet.note": "Les temps de marche sont estimés. Appelez avant de vous déplacer pour confirmer les horaires et l'éligibilité.",
+    "sheet.none": "Aucune ressource à proximité avec les filtres actuels.",
+    "layer.on": "Activée",
+    "layer.off": "Désactivée",
+    "transit.stops": "Arrêts de métro et de bus",
+    "transit.rail": "Métro",
+    "transit.bus": "Bus",
+    "transit.metrorail": "Metrorail",
+    "transit.near": "Près des transports",
+    "transit.any": "Tout arrêt",
+    "transit.within": "À {n} minutes à pied au plus",
+    "transit.estimate": "Marche estimée jusqu'à l'arrêt le plus proche.",
+    "transit.walk": "à pied",
+    "heatmap.title": "Carte de chaleur de densité",
+    "heatmap.radius": "Rayon",
+    "heatmap.blur": "Flou",
+    "travel.walk": "À pied",
+    "travel.transit": "Transports",
+    "travel.showAreas": "Afficher les zones à {n} minutes",
+    "travel.minutes": "{n} min",
+    "travel.walkTime": "à pied",
+    "travel.tripTime": "de trajet",
+    "travel.estimated": "Les temps de trajet sont estimés : détours habituels, et traversée des rivières uniquement par les ponts.",
+    "travel.areasEstimated": "Les zones de trajet sont estimées : le serveur d'itinéraires n'a pas pu les tracer.",
+    "offline.note": "Vous êtes hors ligne : voici des conseils enregistrés. Le test d'éligibilité et la carte fonctionnent toujours.",
+    "offline.badge": "Hors ligne",
+    "data.fetched": "Données récupérées",
+    "data.live": "Données : {time}",
+    "data.saved": "Données enregistrées : {time}",
+    "data.justNow": "à l'instant",
+    "data.ago": "il y a {time}",
+    "hours.openNow": "Ouvert maintenant",
+    "hours.openAt": "Ouvert le…",
+    "hours.closed": "Fermé",
+    "hours.closesIn": "Ferme dans {time}",
+    "hours.opensIn": "Ouvre dans {time}",
+    "hours.publishedOnly": "N'affiche que les lieux dont les horaires sont publiés.",
+    "share.copied": "Lien copié",
+    "share.copiedNote": "Ouvre cette vue de la carte avec les mêmes filtres et le même lieu.",
+    "share.copyFailed": "Impossible de copier le lien. Copiez-le depuis la barre d'adresse.",
+    "filter.any": "Au moins une",
+    "filter.all": "Toutes",
+    "filter.anyTitle": "Correspond à au moins une option sélectionnée",
+    "filter.allTitle": "Correspond à toutes les options sélectionnées",
+    "filter.combine": "Les sections se combinent avec ET. Dans une section, « Au moins une » suffit d'une option sélectionnée et « Toutes » les exige toutes.",
   },
   am: {
     "hero.title.1": "የ D.C. ሀብቶችን ያስሱ",
@@ -144,6 +339,17 @@ const translations: Record<LangCode, Record<string, string>> = {
     "verified": "የተረጋገጡ ሀብቶች",
     "legend.food": "ምግብ / SNAP",
     "legend.health": "ጤና",
+    "legend.community": "ማህበረሰብ",
+    "community.reported": "በማህበረሰብ የተዘገበ",
+    "report.action": "ችግር ሪፖርት ያድርጉ",
+    "report.possiblyClosed": "ምናልባት ተዘግቷል ተብሎ ተዘግቧል",
+    "report.confirmedClosed": "ተዘግቷል፣ በገምጋሚዎች ተረጋግጧል",
+    "report.confirmed": "በገምጋሚዎች የተረጋገጠ",
+    "merged.listedIn": "የተዘረዘረው በ",
+    "freshness.verified": "መጨረሻ የተረጋገጠው",
+    "freshness.stale": "ከዚያ ወዲህ ያልተረጋገጠ",
+    "freshness.new": "አዲስ የተፈቀደ",
+    "freshness.unverified": "በቅርቡ ያልተረጋገጡ",
     "about.title": "ስለ EquityMap",
     "about.body": "EquityMap የ D.C. ነዋሪዎች በ2026 የበጀት ለውጦች የተፈጠሩ የጥቅም በረሃዎችን እንዲያስሱ ያግዛል።",
     "filters": "ማጣሪያዎች",
@@ -151,6 +357,60 @@ const translations: Record<LangCode, Record<string, string>> = {
     "details": "ዝርዝሮች",
     "close": "ዝጋ",
     "get.directions": "አቅጣጫ ያግኙ",
+    "sheet.export": "አትም / PDF",
+    "sheet.title": "በአቅራቢያ ያሉ አገልግሎቶች፦",
+    "sheet.generated": "የተዘጋጀበት",
+    "sheet.phone": "ስልክ",
+    "sheet.hours": "የሥራ ሰዓት",
+    "sheet.languages": "ቋንቋዎች",
+    "sheet.walk": "ደቂቃ በእግር",
+    "sheet.start": "መነሻ ቦታ",
+    "sheet.scan": "ይህን ካርታ ከአቅጣጫ እና ከአዲስ መረጃ ጋር ለመክፈት ይቃኙ።",
+    "sheet.note": "የእግር ጉዞ ጊዜዎች ግምታዊ ናቸው። የሥራ ሰዓትንና ብቁነትን ለማረጋገጥ አስቀድመው ይደውሉ።",
+    "sheet.none": "አሁን ባሉት ማጣሪያዎች በአቅራቢያ ምንም አገልግሎት አልተገኘም።",
+    "layer.on": "በርቷል",
+    "layer.off": "ጠፍቷል",
+    "transit.stops": "የሜትሮ እና የአውቶቡስ ፌርማታዎች",
+    "transit.rail": "ሜትሮ",
+    "transit.bus": "አውቶቡስ",
+    "transit.metrorail": "ሜትሮሬል",
+    "transit.near": "በትራንስፖርት አቅራቢያ",
+    "transit.any": "ማንኛውም ፌርማታ",
+    "transit.within": "በ{n} ደቂቃ የእግር መንገድ ውስጥ",
+    "transit.estimate": "እስከ ቅርብ ፌርማታ ያለው የእግር መንገድ ግምት።",
+    "transit.walk": "በእግር",
+    "heatmap.title": "የጥግግት ሙቀት ካርታ",
+    "heatmap.radius": "ራዲየስ",
+    "heatmap.blur": "ብዥታ",
+    "travel.walk": "በእግር",
+    "travel.transit": "ትራንስፖርት",
+    "travel.showAreas": "በ{n} ደቂቃ የሚደረስባቸውን ቦታዎች አሳይ",
+    "travel.minutes": "{n} ደቂቃ",
+    "travel.walkTime": "በእግር",
+    "travel.tripTime": "ጉዞ",
+    "travel.estimated": "የጉዞ ሰዓቶች ግምቶች ናቸው፦ የተለመዱ ዙሪያ መንገዶችን ያካትታሉ፣ ወንዞችንም በድልድዮች ብቻ ይሻገራሉ።",
+    "travel.areasEstimated": "የጉዞ ቦታዎቹ ግምቶች ናቸው፦ የመንገድ አገልጋዩ ሊስላቸው አልቻለም።",
+    "offline.note": "ከመስመር ውጭ ነዎት፣ ስለዚህ የተቀመጠ መመሪያ ይኸውና። የብቁነት መፈተሻው እና ካርታው አሁንም ይሰራሉ።",
+    "offline.badge": "ከመስመር ውጭ",
+    "data.fetched": "ውሂቡ የተገኘው",
+    "data.live": "ውሂብ ከ{time}",
+    "data.saved": "የተቀመጠ ውሂብ ከ{time}",
+    "data.justNow": "አሁን",
+    "data.ago": "{time} በፊት",
+    "hours.openNow": "አሁን ክፍት",
+    "hours.openAt": "ክፍት በ…",
+    "hours.closed": "ዝግ",
+    "hours.closesIn": "በ{time} ውስጥ ይዘጋል",
+    "hours.opensIn": "በ{time} ውስጥ ይከፈታል",
+    "hours.publishedOnly": "የታተመ የስራ ሰዓት ያላቸውን ቦታዎች ብቻ ያሳያል።",
+    "share.copied": "ሊንኩ ተቀድቷል",
+    "share.copiedNote": "ይህንን የካርታ እይታ በተመሳሳይ ማጣሪያዎች እና ቦታ ይከፍታል።",
+    "share.copyFailed": "ሊንኩን መቅዳት አልተቻለም። በምትኩ ከአድራሻ አሞሌው ይቅዱት።",
+    "filter.any": "ማንኛውም",
+    "filter.all": "ሁሉም",
+    "filter.anyTitle": "ከተመረጡት አማራጮች ማንኛውንም ያዛምዱ",
+    "filter.allTitle": "ሁሉንም የተመረጡ አማራጮች ያዛምዱ",
+    "filter.combine": "ክፍሎች በ«እና» ይጣመራሉ። በአንድ ክፍል ውስጥ «ማንኛውም» ከተመረጠ አንድ አማራጭ ጋር ይዛመዳል፣ «ሁሉም» ደግሞ ሁሉንም ይጠይቃል።",
   },
   zh: {
     "hero.title.1": "查找华盛顿特区资源",
@@ -179,6 +439,17 @@ const translations: Record<LangCode, Record<string, string>> = {
     "verified": "已验证资源",
     "legend.food": "食品 / SNAP",
     "legend.health": "医疗",
+    "legend.community": "社区",
+    "community.reported": "社区提供",
+    "report.action": "报告问题",
+    "report.possiblyClosed": "有人报告可能已关闭",
+    "report.confirmedClosed": "已关闭（审核确认）",
+    "report.confirmed": "审核已确认",
+    "merged.listedIn": "收录于",
+    "freshness.verified": "最近核实",
+    "freshness.stale": "自此未核实",
+    "freshness.new": "新近获批",
+    "freshness.unverified": "近期未核实",
     "about.title": "关于 EquityMap",
     "about.body": "EquityMap帮助特区居民了解2026年联邦预算变化带来的「福利沙漠」。使用AI和经过验证的公共数据，连接社区与基本资源。",
     "filters": "筛选",
@@ -186,6 +457,60 @@ const translations: Record<LangCode, Record<string, string>> = {
     "details": "详情",
     "close": "关闭",
     "get.directions": "获取路线",
+    "sheet.export": "打印 / PDF",
+    "sheet.title": "附近资源：",
+    "sheet.generated": "生成时间",
+    "sheet.phone": "电话",
+    "sheet.hours": "营业时间",
+    "sheet.languages": "语言",
+    "sheet.walk": "分钟步行",
+    "sheet.start": "出发地点",
+    "sheet.scan": "扫码打开此地图，查看路线和最新信息。",
+    "sheet.note": "步行时间为估算值。请提前致电确认营业时间和资格要求。",
+    "sheet.none": "按当前筛选条件，附近未找到资源。",
+    "layer.on": "开",
+    "layer.off": "关",
+    "transit.stops": "地铁和公交站",
+    "transit.rail": "地铁",
+    "transit.bus": "公交",
+    "transit.metrorail": "地铁 (Metrorail)",
+    "transit.near": "靠近公共交通",
+    "transit.any": "任意站点",
+    "transit.within": "步行 {n} 分钟以内",
+    "transit.estimate": "到最近站点的步行时间为估计值。",
+    "transit.walk": "步行",
+    "heatmap.title": "密度热力图",
+    "heatmap.radius": "半径",
+    "heatmap.blur": "模糊",
+    "travel.walk": "步行",
+    "travel.transit": "公共交通",
+    "travel.showAreas": "显示 {n} 分钟可达范围",
+    "travel.minutes": "{n} 分钟",
+    "travel.walkTime": "步行",
+    "travel.tripTime": "行程",
+    "travel.estimated": "出行时间为估计值：已计入常见绕行，过河只走桥梁。",
+    "travel.areasEstimated": "可达范围为估计值：路线服务器未能绘制。",
+    "offline.note": "您目前处于离线状态，以下是已保存的指导。资格筛查和地图仍可使用。",
+    "offline.badge": "离线",
+    "data.fetched": "数据获取于",
+    "data.live": "数据来自{time}",
+    "data.saved": "已保存的数据来自{time}",
+    "data.justNow": "刚刚",
+    "data.ago": "{time}前",
+    "hours.openNow": "正在营业",
+    "hours.openAt": "营业时间…",
+    "hours.closed": "已关闭",
+    "hours.closesIn": "{time}后关闭",
+    "hours.opensIn": "{time}后开放",
+    "hours.publishedOnly": "仅显示已公布营业时间的地点。",
+    "share.copied": "链接已复制",
+    "share.copiedNote": "以相同的筛选条件和地点打开此地图视图。",
+    "share.copyFailed": "无法复制链接。请从地址栏复制。",
+    "filter.any": "任一",
+    "filter.all": "全部",
+    "filter.anyTitle": "符合任一所选选项",
+    "filter.allTitle": "符合所有所选选项",
+    "filter.combine": "各部分之间以\"且\"组合。在同一部分内，\"任一\"符合一个所选选项即可，\"全部\"需要符合所有选项。",
   },
   ko: {
     "hero.title.1": "D.C. 자원을 탐색하세요",
@@ -214,6 +539,17 @@ const translations: Record<LangCode, Record<string, string>> = {
     "verified": "검증된 자원",
     "legend.food": "식품 / SNAP",
     "legend.health": "의료",
+    "legend.community": "커뮤니티",
+    "community.reported": "커뮤니티 제보",
+    "report.action": "문제 신고",
+    "report.possiblyClosed": "폐업 가능성 신고됨",
+    "report.confirmedClosed": "폐업 (검토자 확인)",
+    "report.confirmed": "검토자 확인",
+    "merged.listedIn": "등재된 목록",
+    "freshness.verified": "최근 확인",
+    "freshness.stale": "이후 미확인",
+    "freshness.new": "신규 승인",
+    "freshness.unverified": "최근 미확인",
     "about.title": "EquityMap 소개",
     "about.body": "EquityMap은 D.C. 주민들이 2026년 연방 예산 변경으로 인한 '혜택 사막'을 탐색하도록 돕습니다.",
     "filters": "필터",
@@ -221,6 +557,60 @@ const translations: Record<LangCode, Record<string, string>> = {
     "details": "상세",
     "close": "닫기",
     "get.directions": "길찾기",
+    "sheet.export": "인쇄 / PDF",
+    "sheet.title": "주변 자원:",
+    "sheet.generated": "작성일",
+    "sheet.phone": "전화",
+    "sheet.hours": "운영 시간",
+    "sheet.languages": "언어",
+    "sheet.walk": "분 도보",
+    "sheet.start": "출발 지점",
+    "sheet.scan": "스캔하면 길찾기와 최신 정보가 있는 이 지도가 열립니다.",
+    "sheet.note": "도보 시간은 추정치입니다. 방문 전 운영 시간과 자격 요건을 전화로 확인하세요.",
+    "sheet.none": "현재 필터로는 주변에 자원이 없습니다.",
+    "layer.on": "켜짐",
+    "layer.off": "꺼짐",
+    "transit.stops": "지하철 및 버스 정류장",
+    "transit.rail": "지하철",
+    "transit.bus": "버스",
+    "transit.metrorail": "메트로레일",
+    "transit.near": "대중교통 근처",
+    "transit.any": "모든 정류장",
+    "transit.within": "도보 {n}분 이내",
+    "transit.estimate": "가장 가까운 정류장까지의 예상 도보 시간입니다.",
+    "transit.walk": "도보",
+    "heatmap.title": "밀도 히트맵",
+    "heatmap.radius": "반경",
+    "heatmap.blur": "흐림",
+    "travel.walk": "도보",
+    "travel.transit": "대중교통",
+    "travel.showAreas": "{n}분 이동 범위 표시",
+    "travel.minutes": "{n}분",
+    "travel.walkTime": "도보",
+    "travel.tripTime": "이동",
+    "travel.estimated": "이동 시간은 추정치입니다: 일반적인 우회를 반영하며 강은 다리로만 건넙니다.",
+    "travel.areasEstimated": "이동 범위는 추정치입니다: 경로 서버가 그리지 못했습니다.",
+    "offline.note": "오프라인 상태이므로 저장된 안내를 보여 드립니다. 자격 확인과 지도는 계속 사용할 수 있습니다.",
+    "offline.badge": "오프라인",
+    "data.fetched": "데이터 가져온 시각",
+    "data.live": "{time} 데이터",
+    "data.saved": "{time} 저장된 데이터",
+    "data.justNow": "방금",
+    "data.ago": "{time} 전",
+    "hours.openNow": "지금 영업 중",
+    "hours.openAt": "영업 시간 지정…",
+    "hours.closed": "영업 종료",
+    "hours.closesIn": "{time} 후 종료",
+    "hours.opensIn": "{time} 후 영업 시작",
+    "hours.publishedOnly": "운영 시간이 공개된 장소만 표시합니다.",
+    "share.copied": "링크가 복사되었습니다",
+    "share.copiedNote": "같은 필터와 장소로 이 지도 화면을 엽니다.",
+    "share.copyFailed": "링크를 복사하지 못했습니다. 주소 표시줄에서 복사하세요.",
+    "filter.any": "하나 이상",
+    "filter.all": "모두",
+    "filter.anyTitle": "선택한 옵션 중 하나와 일치",
+    "filter.allTitle": "선택한 모든 옵션과 일치",
+    "filter.combine": "섹션끼리는 AND로 결합됩니다. 한 섹션 안에서 \"하나 이상\"은 선택한 옵션 하나와 일치하고 \"모두\"는 전부를 요구합니다.",
   },
 };
 
@@ -235,7 +625,8 @@ const LANG_NAMES: Record<LangCode, string> = {
 
 interface LangCtx {
   lang: LangCode;
-  setLang: (l: LangCode) => void;
+  /** Switches language and remembers it, unless `persist` is false. */
+  setLang: (l: LangCode, options?: { persist?: boolean }) => void;
   t: (key: string) => string;
   langName: string;
 }
@@ -253,9 +644,9 @@ export const LangProvider = ({ children }: { children: React.ReactNode }) => {
     return (localStorage.getItem("eq-lang") as LangCode) || "en";
   });
 
-  const setLang = useCallback((l: LangCode) => {
+  const setLang = useCallback((l: LangCode, { persist = true } = {}) => {
     setLangState(l);
-    localStorage.setItem("eq-lang", l);
+    if (persist) localStorage.setItem("eq-lang", l);
   }, []);
 
   const t = useCallback(
@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  BOUNDARY_LAYERS,
+  loadBoundaries,
+  type BoundaryArea,
+  type BoundaryLayerId,
+} from "@/lib/boundaries";
+
+const loaded = new Map<BoundaryLayerId, Promise<BoundaryArea[]>>();
+
+/** Areas for the chosen overlay, fetched the first time it's turned on. */
+export const useBoundaries = (layerId: BoundaryLayerId | null) => {
+  const [areas, setAreas] = useState<BoundaryArea[]>([]);
+
+  useEffect(() => {
+    const layer = BOUNDARY_LAYERS.find((l) => l.id === layerId);
+    if (!layer) {
+      setAreas([]);
+      return;
+    }
+    let cancelled = false;
+    if (!loaded.has(layer.id)) loaded.set(layer.id, loadBoundaries(layer));
+    loaded
+      .get(layer.id)
+      .then((result) => {
+        if (!cancelled) setAreas(result);
+      })
+      .catch((err) => {
+        loaded.delete(layer.id);
+        console.error(`Failed to load ${layer.label} boundaries:`, err);
+        if (!cancelled) toast.error(`Couldn't load ${layer.label.toLowerCase()}.`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [layerId]);
+
+  return areas;
+};
@@ -0,0 +1,50 @@
+import { useCallback, useSyncExternalStore } from "react";
+import {
+  EMPTY_FAVORITES,
+  FAVORITES_KEY,
+  isFavorite,
+  loadFavorites,
+  saveFavorites,
+  type Favorites,
+} from "@/lib/favorites";
+
+// One copy shared by every component, kept in step with localStorage and
+// with other tabs.
+let current: Favorites | null = null;
+const listeners = new Set<() => void>();
+
+const read = () => {
+  if (current === null) {
+    current = typeof window === "undefined" ? EMPTY_FAVORITES : loadFavorites();
+  }
+  return current;
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== FAVORITES_KEY) return;
+    current = loadFavorites();
+    listener();
+  };
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+};
+
+/** Starred resources and saved home/work, persisted in localStorage. */
+export const useFavorites = () => {
+  const favorites = useSyncExternalStore(subscribe, read, () => EMPTY_FAVORITES);
+
+  const update = useCallback((change: (f: Favorites) => Favorites) => {
+    current = change(read());
+    saveFavorites(current);
+    listeners.forEach((l) => l());
+  }, []);
+
+  const starred = useCallback((pinId: string) => isFavorite(favorites, pinId), [favorites]);
+
+  return { favorites, update, isFavorite: starred };
+};
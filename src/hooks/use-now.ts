@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+
+/** Current time, refreshed every `intervalMs` (default one minute). */
+export const useNow = (intervalMs = 60_000) => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(id);
+  }, [intervalMs]);
+
+  return now;
+};
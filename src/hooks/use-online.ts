@@ -0,0 +1,18 @@
+import { useEffect, useState } from "react";
+
+/** Tracks navigator.onLine; true means "probably connected", not guaranteed. */
+export const useOnline = () => {
+  const [online, setOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  return online;
+};
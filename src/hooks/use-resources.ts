@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { parseAcsCsv, type AcsTract } from "@/lib/acs";
+import {
+  applyReportStatus,
+  CONTRIBUTIONS_API,
+  loadCommunityPins,
+  loadReportStatus,
+} from "@/lib/contributions";
+import { loadAllSources, type SourceProvenance } from "@/lib/data-sources";
+import { resolveEntities } from "@/lib/entity-resolution";
+import { isCurrent, oldestLoad } from "@/lib/freshness";
+import { formatDuration } from "@/lib/hours";
+import { loadSnapshot, saveSnapshot } from "@/lib/offline";
+import type { ResourcePin } from "@/lib/resources";
+import { annotateTransit, loadTransitStops, type TransitStop } from "@/lib/transit";
+
+/**
+ * Loads every registered data source, approved community submissions, the
+ * ACS tracts and transit stops once per mount. Retailers whose SNAP
+ * authorization has ended are dropped, records of the same place across
+ * datasets are merged into one pin, and pins come back annotated
+ * with their nearest stops and any problem reports residents have made.
+ * Each successful load is saved to IndexedDB; when the network (and the
+ * service-worker cache) can't deliver, the last saved set is used instead.
+ */
+export const useResources = () => {
+  const [pins, setPins] = useState<ResourcePin[]>([]);
+  const [tracts, setTracts] = useState<AcsTract[]>([]);
+  const [stops, setStops] = useState<TransitStop[]>([]);
+  const [sources, setSources] = useState<SourceProvenance[]>([]);
+  const [loading, setLoading] = useState(true);
+  /** When the shown data was fetched from the server. */
+  const [dataAsOf, setDataAsOf] = useState<Date | null>(null);
+  /** True when showing the IndexedDB copy rather than a fresh load. */
+  const [fromSnapshot, setFromSnapshot] = useState(false);
+
+  useEffect(() => {
+    const restore = async () => {
+      const snapshot = await loadSnapshot().catch(() => null);
+      if (!snapshot) return false;
+      setPins(snapshot.pins);
+      setTracts(snapshot.tracts);
+      setStops(snapshot.stops ?? []);
+      setSources(snapshot.sources ?? []);
+      setDataAsOf(snapshot.dataAsOf);
+      setFromSnapshot(true);
+      toast("Showing saved resources", {
+        description: `You appear to be offline. Data is from ${formatDuration(
+          Date.now() - snapshot.dataAsOf.getTime()
+        )} ago.`,
+        duration: 4000,
+      });
+      return true;
+    };
+
+    const load = async () => {
+      try {
+        const [sources, acs, transitStops, community, reports] = await Promise.all([
+          loadAllSources(),
+          parseAcsCsv(),
+          // The map is still useful without transit, so don't fail the load.
+          loadTransitStops().catch((err) => {
+            console.warn("Could not load transit stops:", err);
+            return [] as TransitStop[];
+          }),
+          // Nor without community submissions, e.g. when no API is deployed.
+          loadCommunityPins().catch((err) => {
+            console.warn("Could not load community submissions:", err);
+            return null;
+          }),
+          loadReportStatus().catch((err) => {
+            console.warn("Could not load problem reports:", err);
+            return {};
+          }),
+        ]);
+        for (const { source, errors } of sources) {
+          if (errors.length > 0) {
+            console.warn(
+              `${source.label}: skipped ${errors.length} invalid row(s)`,
+              errors
+            );
+          }
+        }
+        const all = applyReportStatus(
+          annotateTransit(
+            resolveEntities(
+              [...sources.flatMap((r) => r.pins), ...(community?.pins ?? [])].filter((p) =>
+                isCurrent(p)
+              )
+            ),
+            transitStops
+          ),
+          reports
+        );
+        if (all.length === 0) throw new Error("No resources could be loaded");
+        const provenance: SourceProvenance[] = sources.map(({ source, loadedAt }) => ({
+          id: source.id,
+          label: source.label,
+          url: source.url,
+          loadedAt,
+        }));
+        if (community) {
+          provenance.push({
+            id: "community",
+            label: "Community submissions (reviewed)",
+            url: CONTRIBUTIONS_API,
+            loadedAt: community.loadedAt,
+          });
+        }
+        // Every dataset can fail while community pins still load.
+        const asOf = oldestLoad(provenance) ?? new Date();
+        setPins(all);
+        setTracts(acs);
+        setStops(transitStops);
+        setSources(provenance);
+        setDataAsOf(asOf);
+        saveSnapshot({
+          pins: all,
+          tracts: acs,
+          stops: transitStops,
+          sources: provenance,
+          dataAsOf: asOf,
+        }).catch((err) =>
+          console.warn("Could not save resources for offline use:", err)
+        );
+        toast.success(`${all.length} resources loaded across D.C.`, {
+          description: "SNAP retailers & healthcare facilities",
+          duration: 3000,
+        });
+      } catch (err) {
+        if (!(await restore())) {
+          console.error("Failed to load CSV data:", err);
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  return { pins, tracts, stops, sources, loading, dataAsOf, fromSnapshot };
+};
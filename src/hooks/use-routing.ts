@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState } from "react";
+import type { ResourcePin } from "@/lib/resources";
+import {
+  isochrones as fetchIsochrones,
+  travelTimes,
+  type Isochrones,
+  type LatLng,
+  type TravelMode,
+} from "@/lib/routing";
+
+/**
+ * Travel time in seconds from `origin` to each pin, keyed by pin id; null
+ * until the first answer arrives. Asked again only when the set of pin ids
+ * changes, not whenever the list is rebuilt (the open-now filter does that
+ * every minute).
+ */
+export const useTravelTimes = (
+  origin: LatLng | null,
+  pins: ResourcePin[],
+  mode: TravelMode
+) => {
+  const [result, setResult] = useState<{
+    times: Map<string, number>;
+    provider: string;
+  } | null>(null);
+
+  const latestPins = useRef(pins);
+  latestPins.current = pins;
+  const ids = pins.map((p) => p.id).join("\n");
+
+  useEffect(() => {
+    const asked = latestPins.current;
+    if (!origin || asked.length === 0) {
+      setResult(null);
+      return;
+    }
+    let cancelled = false;
+    travelTimes(origin, asked, mode).then(({ seconds, provider }) => {
+      if (cancelled) return;
+      setResult({
+        times: new Map(asked.map((p, i) => [p.id, seconds[i]])),
+        provider,
+      });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [origin, ids, mode]);
+
+  return result;
+};
+
+/**
+ * Isochrones around `origin` and the provider that drew them, fetched only
+ * while `enabled`; null until then.
+ */
+export const useIsochrones = (
+  origin: LatLng | null,
+  mode: TravelMode,
+  enabled: boolean
+) => {
+  const [result, setResult] = useState<Isochrones | null>(null);
+
+  useEffect(() => {
+    if (!origin || !enabled) {
+      setResult(null);
+      return;
+    }
+    let cancelled = false;
+    fetchIsochrones(origin, mode).then((isochrones) => {
+      if (!cancelled) setResult(isochrones);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [origin, mode, enabled]);
+
+  return result;
+};
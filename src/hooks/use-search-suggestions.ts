@@ -0,0 +1,42 @@
+import { useEffect, useMemo, useState } from "react";
+import { geocode, GEOCODING_PROVIDERS } from "@/lib/geocoding";
+import type { ResourcePin } from "@/lib/resources";
+import {
+  addressSuggestions,
+  rankSuggestions,
+  suggestLocal,
+  zipCenters,
+  type Suggestion,
+} from "@/lib/search-suggestions";
+
+// Typeahead never goes to the network, whatever the search fallback is.
+const OFFLINE_PROVIDERS = GEOCODING_PROVIDERS.filter((p) => p.offline);
+const DEBOUNCE_MS = 150;
+
+/** Suggestions for the search box, updated as the query changes. */
+export const useSearchSuggestions = (query: string, pins: ResourcePin[]) => {
+  const zips = useMemo(() => zipCenters(pins), [pins]);
+  const local = useMemo(() => suggestLocal(query, pins, zips), [query, pins, zips]);
+  const [addresses, setAddresses] = useState<Suggestion[]>([]);
+
+  useEffect(() => {
+    const q = query.trim();
+    // Addresses need a street name, not just a number or two letters.
+    if (q.length < 3 || !/[a-z]/i.test(q)) {
+      setAddresses([]);
+      return;
+    }
+    let cancelled = false;
+    const id = setTimeout(() => {
+      geocode(q, { limit: 4, providers: OFFLINE_PROVIDERS }).then((results) => {
+        if (!cancelled) setAddresses(addressSuggestions(results));
+      });
+    }, DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(id);
+    };
+  }, [query]);
+
+  return useMemo(() => rankSuggestions([...local, ...addresses]), [local, addresses]);
+};
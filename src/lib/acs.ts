@@ -0,0 +1,137 @@
+import Papa from "papaparse";
+
+export interface AcsTract {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  /** Land area in square meters (ALAND). */
+  landArea: number;
+  /** Civilian noninstitutionalized population (DP03_0095E). */
+  population: number;
+  medianIncome: number | null;
+  povertyRate: number | null;
+  unemploymentRate: number | null;
+  snapShare: number | null;
+}
+
+export type AcsIndicatorKey =
+  | "medianIncome"
+  | "povertyRate"
+  | "unemploymentRate"
+  | "snapShare";
+
+export interface AcsIndicator {
+  key: AcsIndicatorKey;
+  label: string;
+  source: string;
+  /** True when a higher value means greater need (drives color direction). */
+  higherIsNeed: boolean;
+  format: (value: number) => string;
+}
+
+const pct = (v: number) => `${v.toFixed(1)}%`;
+
+export const ACS_INDICATORS: AcsIndicator[] = [
+  {
+    key: "medianIncome",
+    label: "Median household income",
+    source: "DP03_0062E",
+    higherIsNeed: false,
+    format: (v) => `$${Math.round(v / 1000)}k`,
+  },
+  {
+    key: "povertyRate",
+    label: "Poverty rate (all people)",
+    source: "DP03_0128PE",
+    higherIsNeed: true,
+    format: pct,
+  },
+  {
+    key: "unemploymentRate",
+    label: "Unemployment rate",
+    source: "DP03_0009PE",
+    higherIsNeed: true,
+    format: pct,
+  },
+  {
+    key: "snapShare",
+    label: "Households receiving SNAP",
+    source: "DP03_0074E / DP03_0051E",
+    higherIsNeed: true,
+    format: pct,
+  },
+];
+
+// Light → dark; darker always means more need.
+export const NEED_RAMP = ["#fef3c7", "#fcd34d", "#f59e0b", "#d9480f", "#9a1b1b"];
+
+const num = (val: string | undefined): number | null => {
+  const n = parseFloat((val || "").trim());
+  // Census uses large negative sentinels (e.g. -666666666) for suppressed values.
+  return isNaN(n) || n < 0 ? null : n;
+};
+
+export const parseAcsCsv = async (): Promise<AcsTract[]> => {
+  const res = await fetch(
+    "/ACS_5-Year_Economic_Characteristics_of_DC_Census_Tracts.csv"
+  );
+  const text = await res.text();
+  const { data } = Papa.parse(text, { header: true, skipEmptyLines: true });
+
+  return (data as Record<string, string>[])
+    .map((row) => {
+      const households = num(row["DP03_0051E"]);
+      const snapHouseholds = num(row["DP03_0074E"]);
+      return {
+        id: (row["GEOID"] || row["TRACTCE"] || "").trim(),
+        name: `Tract ${(row["NAME"] || "").trim()}`,
+        lat: parseFloat(row["INTPTLAT"]),
+        lng: parseFloat(row["INTPTLON"]),
+        landArea: num(row["ALAND"]) ?? 0,
+        population: num(row["DP03_0095E"]) ?? 0,
+        medianIncome: num(row["DP03_0062E"]),
+        povertyRate: num(row["DP03_0128PE"]),
+        unemploymentRate: num(row["DP03_0009PE"]),
+        snapShare:
+          households && snapHouseholds !== null
+            ? (snapHouseholds / households) * 100
+            : null,
+      };
+    })
+    .filter((t) => t.id && !isNaN(t.lat) && !isNaN(t.lng));
+};
+
+/** Quantile class breaks (upper bounds) for the given indicator. */
+export const quantileBreaks = (
+  tracts: AcsTract[],
+  key: AcsIndicatorKey,
+  classes = NEED_RAMP.length
+): number[] => {
+  const values = tracts
+    .map((t) => t[key])
+    .filter((v): v is number => v !== null)
+    .sort((a, b) => a - b);
+  if (values.length === 0) return [];
+  return Array.from({ length: classes }, (_, i) => {
+    const idx = Math.min(
+      values.length - 1,
+      Math.ceil(((i + 1) / classes) * values.length) - 1
+    );
+    return values[idx];
+  });
+};
+
+/** Color for a value given breaks; null values get a neutral gray. */
+export const colorFor = (
+  value: number | null,
+  breaks: number[],
+  indicator: AcsIndicator
+): string => {
+  if (value === null || breaks.length === 0) return "#9ca3af";
+  let cls = breaks.findIndex((b) => value <= b);
+  if (cls === -1) cls = breaks.length - 1;
+  return indicator.higherIsNeed
+    ? NEED_RAMP[cls]
+    : NEED_RAMP[NEED_RAMP.length - 1 - cls];
+};
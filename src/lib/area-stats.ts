@@ -0,0 +1,59 @@
+import type { AcsTract } from "./acs";
+import { containsPoint, roughCenter, type BoundaryArea } from "./boundaries";
+import { hasAttribute } from "./health-facility";
+import { haversine, type ResourcePin, type ResourceType } from "./resources";
+
+const RESOURCE_TYPES: ResourceType[] = ["food", "health", "community"];
+
+export interface AreaStats {
+  area: BoundaryArea;
+  counts: Record<ResourceType, number>;
+  total: number;
+  /** ACS population of the tracts whose internal point falls in the area. */
+  population: number;
+  /** Resources per 1,000 residents; null when no tract falls in the area. */
+  perThousand: Record<ResourceType, number | null>;
+  /** Measured from the area's population center. */
+  nearestMedicaid: { pin: ResourcePin; distance: number; inArea: boolean } | null;
+}
+
+/**
+ * Resources and residents are both placed by the area's lines, so the
+ * per-1,000 figures compare like with like even where a source's published
+ * ward or ZIP disagrees with them.
+ */
+export const computeAreaStats = (
+  area: BoundaryArea,
+  pins: ResourcePin[],
+  tracts: AcsTract[]
+): AreaStats => {
+  const inside = pins.filter((p) => containsPoint(area, p.lat, p.lng));
+  const counts = { food: 0, health: 0, community: 0 } as Record<ResourceType, number>;
+  for (const p of inside) counts[p.type]++;
+
+  const areaTracts = tracts.filter((t) => containsPoint(area, t.lat, t.lng));
+  const population = areaTracts.reduce((s, t) => s + t.population, 0);
+  const perThousand = {} as Record<ResourceType, number | null>;
+  for (const type of RESOURCE_TYPES) {
+    perThousand[type] = population > 0 ? (counts[type] / population) * 1000 : null;
+  }
+
+  const center =
+    population > 0
+      ? {
+          lat: areaTracts.reduce((s, t) => s + t.lat * t.population, 0) / population,
+          lng: areaTracts.reduce((s, t) => s + t.lng * t.population, 0) / population,
+        }
+      : roughCenter(area);
+
+  let nearestMedicaid: AreaStats["nearestMedicaid"] = null;
+  for (const pin of pins) {
+    if (pin.type !== "health" || !hasAttribute(pin.facility, "medicaid")) continue;
+    const distance = haversine(center.lat, center.lng, pin.lat, pin.lng);
+    if (!nearestMedicaid || distance < nearestMedicaid.distance) {
+      nearestMedicaid = { pin, distance, inArea: inside.includes(pin) };
+    }
+  }
+
+  return { area, counts, total: inside.length, population, perThousand, nearestMedicaid };
+};
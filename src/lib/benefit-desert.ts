@@ -0,0 +1,110 @@
+import type { AcsTract } from "./acs";
+import { haversine, type ResourcePin, type ResourceType } from "./resources";
+
+export type DesertType = Extract<ResourceType, "food" | "health">;
+
+export const DESERT_TYPES: DesertType[] = ["food", "health"];
+
+export interface DesertScore {
+  tract: AcsTract;
+  /** 0–1 percentile-based need from poverty and SNAP-receipt share. */
+  need: number;
+  /** 0–1 percentile-based distance to the nearest resource of each type. */
+  accessGap: number;
+  /** Miles to the nearest pin of each type (Infinity when none loaded). */
+  nearest: Record<DesertType, number>;
+  /** Combined desert index, 0 (well served) – 100 (worst served). */
+  index: number;
+  rank: number;
+}
+
+/**
+ * Percentile rank (0–1) of every value within its own list; nulls stay null.
+ * Infinity, a distance with no resource loaded to measure to, always ranks 1
+ * and pushes every finite value below it.
+ */
+export const percentileRanks = (values: (number | null)[]): (number | null)[] => {
+  // Compared rather than subtracted: Infinity - Infinity is NaN.
+  const sorted = values
+    .filter((v): v is number => v !== null)
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return values.map((v) => {
+    if (v === null) return null;
+    if (!isFinite(v)) return 1;
+    if (sorted.length < 2) return 0;
+    // Average of first/last position so ties share a rank.
+    const lo = sorted.indexOf(v);
+    const hi = sorted.lastIndexOf(v);
+    return (lo + hi) / 2 / (sorted.length - 1);
+  });
+};
+
+const mean = (values: (number | null)[]): number | null => {
+  const present = values.filter((v): v is number => v !== null);
+  return present.length === 0
+    ? null
+    : present.reduce((a, b) => a + b, 0) / present.length;
+};
+
+const nearestDistance = (tract: AcsTract, pins: ResourcePin[]): number =>
+  pins.reduce(
+    (best, p) => Math.min(best, haversine(tract.lat, tract.lng, p.lat, p.lng)),
+    Infinity
+  );
+
+/**
+ * Scores every tract as a benefit desert: high need (poverty, SNAP receipt)
+ * combined with long distances to the nearest food and health resource.
+ * Need and access gap are both percentile ranks across tracts, combined with
+ * a geometric mean so a tract must score badly on both to rank high.
+ * When no pins of a type are loaded (or the filters hide them all), every
+ * tract has the worst gap for that type. Tracts with no need data are left out.
+ */
+export const scoreBenefitDeserts = (
+  tracts: AcsTract[],
+  pins: ResourcePin[]
+): DesertScore[] => {
+  const byType = Object.fromEntries(
+    DESERT_TYPES.map((type) => [type, pins.filter((p) => p.type === type)])
+  ) as Record<DesertType, ResourcePin[]>;
+
+  const povertyRanks = percentileRanks(tracts.map((t) => t.povertyRate));
+  const snapRanks = percentileRanks(tracts.map((t) => t.snapShare));
+  const nearest = tracts.map(
+    (t) =>
+      Object.fromEntries(
+        DESERT_TYPES.map((type) => [type, nearestDistance(t, byType[type])])
+      ) as Record<DesertType, number>
+  );
+  const distanceRanks = DESERT_TYPES.map((type) =>
+    percentileRanks(nearest.map((n) => n[type]))
+  );
+
+  const scored: DesertScore[] = [];
+  tracts.forEach((tract, i) => {
+    const need = mean([povertyRanks[i], snapRanks[i]]);
+    if (need === null) return;
+    const accessGap = mean(distanceRanks.map((ranks) => ranks[i])) ?? 0;
+    scored.push({
+      tract,
+      need,
+      accessGap,
+      nearest: nearest[i],
+      index: Math.round(Math.sqrt(need * accessGap) * 100),
+      rank: 0,
+    });
+  });
+
+  return scored
+    .sort((a, b) => b.index - a.index)
+    .map((s, i) => ({ ...s, rank: i + 1 }));
+};
+
+/** "0.4 mi", or "none nearby" when no resource of the type is loaded. */
+export const formatNearest = (miles: number) =>
+  isFinite(miles) ? `${miles.toFixed(1)} mi` : "none nearby";
+
+export const DESERT_RAMP = ["#dcfce7", "#fde68a", "#fb923c", "#dc2626", "#7f1d1d"];
+
+export const desertColor = (index: number): string =>
+  DESERT_RAMP[Math.min(DESERT_RAMP.length - 1, Math.floor(index / 20))];
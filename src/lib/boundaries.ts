@@ -0,0 +1,138 @@
+/**
+ * Ward and ZIP code areas for the boundary overlays.
+ *
+ * The bundled files are approximations, not DC GIS data: each part of DC
+ * was assigned to the nearest resource or neighborhood with a known ward or
+ * ZIP, and the collections are named "…_approximate" to say so. They use
+ * the `WARD` and `ZIPCODE` properties of DC GIS's "Wards from 2022" and
+ * "Zip Codes" exports, so the official downloads can replace them as-is;
+ * areas are only marked approximate while the file says it is.
+ */
+export type BoundaryLayerId = "ward" | "zip";
+
+export interface BoundaryLayer {
+  id: BoundaryLayerId;
+  label: string;
+  url: string;
+  /** Feature property holding the area's code. */
+  property: string;
+  name: (code: string) => string;
+}
+
+export const BOUNDARY_LAYERS: BoundaryLayer[] = [
+  {
+    id: "ward",
+    label: "Wards",
+    url: "/DC_Wards.geojson",
+    property: "WARD",
+    name: (code) => `Ward ${code}`,
+  },
+  {
+    id: "zip",
+    label: "ZIP codes",
+    url: "/DC_Zip_Codes.geojson",
+    property: "ZIPCODE",
+    name: (code) => `ZIP ${code}`,
+  },
+];
+
+/** [lng, lat], as in GeoJSON. */
+type Position = [number, number];
+/** Outer ring first, then holes. */
+type PolygonRings = Position[][];
+
+interface BoundaryFeature {
+  properties: Record<string, unknown> | null;
+  geometry:
+    | { type: "Polygon"; coordinates: PolygonRings }
+    | { type: "MultiPolygon"; coordinates: PolygonRings[] }
+    | null;
+}
+
+export interface BoundaryArea {
+  /** Unique across layers, e.g. "ward-7" or "zip-20019". */
+  id: string;
+  layer: BoundaryLayerId;
+  /** The ward number or ZIP code as text. */
+  code: string;
+  name: string;
+  polygons: PolygonRings[];
+  /** True when the file is an approximation rather than official lines. */
+  approximate: boolean;
+}
+
+/** Turns a GeoJSON FeatureCollection into areas; features without a code or polygon are skipped. */
+export const parseBoundaries = (
+  layer: BoundaryLayer,
+  collection: { name?: string; features?: BoundaryFeature[] }
+): BoundaryArea[] => {
+  const approximate = /approximate/i.test(collection.name ?? "");
+  return (collection.features ?? []).flatMap((f) => {
+    const code = String(f.properties?.[layer.property] ?? "").trim();
+    const geometry = f.geometry;
+    if (!code || !geometry) return [];
+    const polygons =
+      geometry.type === "Polygon"
+        ? [geometry.coordinates]
+        : geometry.type === "MultiPolygon"
+        ? geometry.coordinates
+        : [];
+    if (polygons.length === 0) return [];
+    return [
+      {
+        id: `${layer.id}-${code}`,
+        layer: layer.id,
+        code,
+        name: layer.name(code),
+        polygons,
+        approximate,
+      },
+    ];
+  });
+};
+
+export const loadBoundaries = async (
+  layer: BoundaryLayer
+): Promise<BoundaryArea[]> => {
+  const res = await fetch(layer.url);
+  if (!res.ok) throw new Error(`${layer.url}: HTTP ${res.status}`);
+  return parseBoundaries(layer, await res.json());
+};
+
+/** Even-odd ray cast, so holes and ring winding take care of themselves. */
+export const pointInRing = (lng: number, lat: number, ring: Position[]) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const containsPoint = (area: BoundaryArea, lat: number, lng: number) =>
+  area.polygons.some(
+    (rings) =>
+      pointInRing(lng, lat, rings[0]) &&
+      !rings.slice(1).some((hole) => pointInRing(lng, lat, hole))
+  );
+
+export const areaAt = (areas: BoundaryArea[], lat: number, lng: number) =>
+  areas.find((a) => containsPoint(a, lat, lng)) ?? null;
+
+/** Leaflet wants [lat, lng]; one entry per polygon, each a list of rings. */
+export const leafletPositions = (area: BoundaryArea) =>
+  area.polygons.map((rings) =>
+    rings.map((ring) => ring.map(([lng, lat]) => [lat, lng] as [number, number]))
+  );
+
+/** Mean of the outer rings' vertices; a fallback center for empty areas. */
+export const roughCenter = (area: BoundaryArea) => {
+  const points = area.polygons.flatMap((rings) => rings[0]);
+  return {
+    lat: points.reduce((s, p) => s + p[1], 0) / points.length,
+    lng: points.reduce((s, p) => s + p[0], 0) / points.length,
+  };
+};
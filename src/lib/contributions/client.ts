@@ -0,0 +1,238 @@
+import { haversine, type ResourcePin } from "../resources";
+import { DAY_NAMES, formatTime, type WeeklyHours } from "../hours";
+import {
+  ADMIN_API,
+  CATEGORIES,
+  CONTRIBUTIONS_API,
+  LANGUAGES,
+  PROGRAMS,
+  REPORTS_API,
+  type AuditEntry,
+  type BenefitType,
+  type Contribution,
+  type ContributionInput,
+  type ContributionStatus,
+  type DayHoursInput,
+  type Program,
+  type PinReportStatus,
+  type PublicContribution,
+  type Report,
+  type ReportInput,
+  type ReportStatus,
+  type ReviewDecision,
+} from "./schema";
+
+const COMMUNITY_LABELS: Record<BenefitType, string> = {
+  food: "Food resource",
+  health: "Health resource",
+  community: "Community resource",
+};
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+};
+
+// Programs as the tags the map's access filter and the datasets use, so a
+// community "takes WIC" and a SNAP listing add up on one merged pin.
+const PROGRAM_TAGS: Record<Program, string> = {
+  ebt: "Accepts EBT",
+  wic: "Accepts WIC",
+  medicaid: "Accepts Medicaid",
+  "dc-healthy-families": "Accepts DC Healthy Families",
+};
+
+/** The form's per-day times in the model the open-now filter uses. */
+export const toWeeklyHours = (days: DayHoursInput[]): WeeklyHours =>
+  days.map((day) => {
+    if (!day) return { kind: "closed" };
+    const open = toMinutes(day.open);
+    let close = toMinutes(day.close);
+    if (close <= open) close += 24 * 60;
+    return { kind: "intervals", intervals: [{ open, close }] };
+  });
+
+/** "Mon 9:00 AM–5:00 PM · Tue closed · …" */
+const describeHours = (days: DayHoursInput[]) =>
+  days
+    .map((day, i) => {
+      const name = DAY_NAMES[i].slice(0, 3);
+      if (!day) return `${name} closed`;
+      return `${name} ${formatTime(toMinutes(day.open))}–${formatTime(toMinutes(day.close))}`;
+    })
+    .join(" · ");
+
+/**
+ * An approved submission as a map pin. A merged one carries `sameAs`, so
+ * resolveEntities folds it into the pin the reviewer picked.
+ */
+export const contributionToPin = (c: PublicContribution): ResourcePin => {
+  const category = CATEGORIES[c.type].find((cat) => cat.value === c.category);
+  const programs = (c.programs ?? []).map((p) => PROGRAMS[p]);
+  const extra = {
+    phone: c.contact?.phone,
+    webUrl: c.contact?.website,
+    services: [category?.label, ...programs].filter(Boolean).join(", "),
+    hours: c.hours ? describeHours(c.hours) : undefined,
+    languages: (c.languages ?? []).map((l) => LANGUAGES[l]).join(", "),
+  };
+  return {
+    id: `community-${c.id}`,
+    source: "community",
+    type: c.type,
+    label: c.name || COMMUNITY_LABELS[c.type],
+    lat: c.lat,
+    lng: c.lng,
+    detail: "Reported by a community member and reviewed before it was added.",
+    address: c.address,
+    tags: ["Community-reported", ...(c.programs ?? []).map((p) => PROGRAM_TAGS[p])],
+    // Left blank so community categories don't join the SNAP store-type filter.
+    storeType: "",
+    contributionId: c.id,
+    // A reviewer checking the submission is its verification.
+    ...(c.reviewedAt && { dates: { verified: c.reviewedAt.slice(0, 10) } }),
+    ...(c.status === "merged" && c.mergedInto && { sameAs: c.mergedInto }),
+    ...(c.hours && { hours: toWeeklyHours(c.hours) }),
+    ...(Object.values(extra).some(Boolean) && { extra }),
+  };
+};
+
+/** Sends a submission; resolves to its id, or throws with the API's message. */
+export const submitContribution = async (input: ContributionInput) => {
+  const res = await fetch(CONTRIBUTIONS_API, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(body.error || `Submission failed (${res.status})`);
+  }
+  return body as { id: string; status: ContributionStatus };
+};
+
+/** Approved and merged submissions as pins, with when they were fetched. */
+export const loadCommunityPins = async () => {
+  const res = await fetch(CONTRIBUTIONS_API);
+  if (!res.ok) {
+    throw new Error(`Failed to fetch ${CONTRIBUTIONS_API}: ${res.status}`);
+  }
+  const { contributions } = (await res.json()) as { contributions: PublicContribution[] };
+  return {
+    pins: contributions
+      .filter((c) => c.status === "approved" || c.status === "merged")
+      .map(contributionToPin),
+    loadedAt: new Date(),
+  };
+};
+
+/** Sends a problem report on a pin; throws with the API's message. */
+export const submitReport = async (input: ReportInput) => {
+  const res = await fetch(REPORTS_API, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(body.error || `Report failed (${res.status})`);
+  }
+  return body as { id: string; status: ReportStatus };
+};
+
+/** Report status by pin id. */
+export const loadReportStatus = async () => {
+  const res = await fetch(REPORTS_API);
+  if (!res.ok) {
+    throw new Error(`Failed to fetch ${REPORTS_API}: ${res.status}`);
+  }
+  return ((await res.json()) as { pins: Record<string, PinReportStatus> }).pins;
+};
+
+/** Pins with their report status attached, where they have one. */
+export const applyReportStatus = (
+  pins: ResourcePin[],
+  status: Record<string, PinReportStatus>
+) => pins.map((pin) => (status[pin.id] ? { ...pin, reports: status[pin.id] } : pin));
+
+// --- Review (admin token required) ---
+
+const adminRequest = async <T>(token: string, url: string, init: RequestInit = {}) => {
+  const res = await fetch(url, {
+    ...init,
+    headers: {
+      ...init.headers,
+      Authorization: `Bearer ${token}`,
+      ...(init.body ? { "Content-Type": "application/json" } : {}),
+    },
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(body.error || `Request failed (${res.status})`);
+  return body as T;
+};
+
+export const fetchReviewQueue = async (token: string, status: ContributionStatus = "pending") =>
+  (
+    await adminRequest<{ contributions: Contribution[] }>(
+      token,
+      `${ADMIN_API}/contributions?status=${status}`
+    )
+  ).contributions;
+
+export const reviewContribution = async (
+  token: string,
+  id: string,
+  decision: ReviewDecision
+) =>
+  (
+    await adminRequest<{ contribution: Contribution }>(
+      token,
+      `${ADMIN_API}/contributions/${encodeURIComponent(id)}/review`,
+      { method: "POST", body: JSON.stringify(decision) }
+    )
+  ).contribution;
+
+/** A submission's nth photo as an object URL; revoke it when done. */
+export const fetchEvidence = async (token: string, id: string, n: number) => {
+  const res = await fetch(
+    `${ADMIN_API}/contributions/${encodeURIComponent(id)}/evidence/${n}`,
+    { headers: { Authorization: `Bearer ${token}` } }
+  );
+  if (!res.ok) throw new Error(`Couldn't load the photo (${res.status})`);
+  return URL.createObjectURL(await res.blob());
+};
+
+export const fetchReportQueue = async (token: string, status: ReportStatus = "pending") =>
+  (await adminRequest<{ reports: Report[] }>(token, `${ADMIN_API}/reports?status=${status}`))
+    .reports;
+
+export const reviewReport = async (token: string, id: string, decision: ReviewDecision) =>
+  (
+    await adminRequest<{ report: Report }>(
+      token,
+      `${ADMIN_API}/reports/${encodeURIComponent(id)}/review`,
+      { method: "POST", body: JSON.stringify(decision) }
+    )
+  ).report;
+
+export const fetchAuditLog = async (token: string) =>
+  (await adminRequest<{ entries: AuditEntry[] }>(token, `${ADMIN_API}/audit`)).entries;
+
+/** Search radii offered when looking for duplicates, in meters. */
+export const DUPLICATE_RADII = [25, 50, 100, 250];
+
+const METERS_PER_MILE = 1609.344;
+
+/** Pins within `radius` meters of the submission, nearest first. */
+export const duplicateCandidates = (
+  at: { lat: number; lng: number },
+  pins: ResourcePin[],
+  radius: number
+) =>
+  pins
+    .map((pin) => ({
+      pin,
+      meters: haversine(at.lat, at.lng, pin.lat, pin.lng) * METERS_PER_MILE,
+    }))
+    .filter((c) => c.meters <= radius)
+    .sort((a, b) => a.meters - b.meters);
@@ -0,0 +1,131 @@
+import { z } from "zod";
+import {
+  BENEFIT_TYPES,
+  CATEGORIES,
+  isEmail,
+  isPhone,
+  isWebsite,
+  MAX_EVIDENCE,
+  MAX_NAME_LENGTH,
+  PROGRAMS,
+  type BenefitType,
+  type CaptchaScore,
+  type ContributionInput,
+  type Program,
+  type ResourceCategory,
+} from "./schema";
+
+// Client-side validation for the contributor form's steps. The API checks
+// the same rules again in parseSubmission.
+
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/** Lets people type "example.org" without the scheme. */
+export const withScheme = (url: string) =>
+  url && !/^[a-z]+:\/\//i.test(url) ? `https://${url}` : url;
+
+const optional = (check: (v: string) => boolean, message: string) =>
+  z
+    .string()
+    .trim()
+    .refine((v) => !v || check(v), message);
+
+const dayHours = z.object({ closed: z.boolean(), open: z.string(), close: z.string() });
+
+export const contributionFormSchema = z
+  .object({
+    type: z.enum(BENEFIT_TYPES as [BenefitType, ...BenefitType[]], {
+      errorMap: () => ({ message: "Choose what kind of resource this is." }),
+    }),
+    name: z
+      .string()
+      .trim()
+      .min(2, "Enter the resource's name.")
+      .max(MAX_NAME_LENGTH, `Keep the name under ${MAX_NAME_LENGTH} characters.`),
+    category: z.string().min(1, "Choose a category."),
+    hoursKnown: z.boolean(),
+    hours: z.array(dayHours).length(7),
+    programs: z.array(z.enum(Object.keys(PROGRAMS) as [Program, ...Program[]])),
+    languages: z.array(z.string()),
+    phone: optional(isPhone, "Enter a 10-digit phone number."),
+    website: optional((v) => isWebsite(withScheme(v)), "Enter a website address like example.org."),
+    email: optional(isEmail, "Enter a valid email address."),
+    evidence: z
+      .array(z.object({ kind: z.enum(["photo", "receipt"]), dataUrl: z.string(), name: z.string() }))
+      .max(MAX_EVIDENCE, `Attach at most ${MAX_EVIDENCE} photos.`),
+  })
+  .superRefine((values, ctx) => {
+    if (values.category && !CATEGORIES[values.type].some((c) => c.value === values.category)) {
+      ctx.addIssue({ code: "custom", path: ["category"], message: "Choose a category." });
+    }
+    if (!values.hoursKnown) return;
+    values.hours.forEach((day, i) => {
+      if (!day.closed && !(TIME.test(day.open) && TIME.test(day.close))) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["hours", i, "open"],
+          message: "Enter both times, or mark the day closed.",
+        });
+      }
+    });
+    if (values.hours.every((day) => day.closed)) {
+      ctx.addIssue({ code: "custom", path: ["hours"], message: "Mark at least one day open." });
+    }
+  });
+
+export type ContributionFormValues = z.infer<typeof contributionFormSchema>;
+
+export const CONTRIBUTION_FORM_DEFAULTS: ContributionFormValues = {
+  type: undefined,
+  name: "",
+  category: "",
+  hoursKnown: false,
+  hours: Array.from({ length: 7 }, (_, i) => ({
+    closed: i >= 5,
+    open: "09:00",
+    close: "17:00",
+  })),
+  programs: [],
+  languages: [],
+  phone: "",
+  website: "",
+  email: "",
+  evidence: [],
+};
+
+/** The fields each form step owns, for validating one step at a time. */
+export const STEP_FIELDS = {
+  about: ["type", "name", "category"],
+  hours: ["hoursKnown", "hours"],
+  services: ["programs", "languages"],
+  contact: ["phone", "website", "email", "evidence"],
+} satisfies Record<string, (keyof ContributionFormValues)[]>;
+
+/** Combines the validated form with the geocoded address into an API body. */
+export const toContributionInput = (
+  values: ContributionFormValues,
+  place: { address: string; lat: number; lng: number },
+  captcha?: CaptchaScore | null
+): ContributionInput => {
+  const website = withScheme(values.website.trim());
+  return {
+    type: values.type,
+    name: values.name.trim(),
+    category: values.category as ResourceCategory,
+    ...place,
+    ...(values.hoursKnown && {
+      hours: values.hours.map((d) => (d.closed ? null : { open: d.open, close: d.close })),
+    }),
+    programs: values.programs,
+    languages: values.languages,
+    contact: {
+      ...(values.phone.trim() && { phone: values.phone.trim() }),
+      ...(website && { website }),
+      ...(values.email.trim() && { email: values.email.trim() }),
+    },
+    ...(values.evidence.length > 0 && {
+      evidence: values.evidence.map(({ kind, dataUrl }) => ({ kind, dataUrl })),
+    }),
+    ...(captcha && { captcha }),
+  };
+};
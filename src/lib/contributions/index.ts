@@ -0,0 +1,27 @@
+export * from "./schema";
+export {
+  applyReportStatus,
+  contributionToPin,
+  duplicateCandidates,
+  DUPLICATE_RADII,
+  fetchAuditLog,
+  fetchEvidence,
+  fetchReportQueue,
+  fetchReviewQueue,
+  loadCommunityPins,
+  loadReportStatus,
+  reviewContribution,
+  reviewReport,
+  submitContribution,
+  submitReport,
+  toWeeklyHours,
+} from "./client";
+export { scalePhoto } from "./photos";
+export {
+  CONTRIBUTION_FORM_DEFAULTS,
+  contributionFormSchema,
+  STEP_FIELDS,
+  toContributionInput,
+  withScheme,
+  type ContributionFormValues,
+} from "./form";
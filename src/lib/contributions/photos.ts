@@ -0,0 +1,38 @@
+import { MAX_EVIDENCE_BYTES } from "./schema";
+
+const MAX_SIDE = 1600;
+const JPEG_QUALITY = 0.82;
+
+const loadImage = (file: File) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("That file isn't an image we can read."));
+    };
+    img.src = url;
+  });
+
+/**
+ * Re-encodes a chosen photo as a JPEG data URL no larger than MAX_SIDE on
+ * its long edge. Phone photos are several megabytes; this keeps uploads
+ * small and drops EXIF data such as the camera's GPS position.
+ */
+export const scalePhoto = async (file: File): Promise<string> => {
+  const img = await loadImage(file);
+  const scale = Math.min(1, MAX_SIDE / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(img.naturalWidth * scale);
+  canvas.height = Math.round(img.naturalHeight * scale);
+  canvas.getContext("2d")!.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const dataUrl = canvas.toDataURL("image/jpeg", JPEG_QUALITY);
+  if (((dataUrl.length - dataUrl.indexOf(",") - 1) * 3) / 4 > MAX_EVIDENCE_BYTES) {
+    throw new Error("That photo is too large, even scaled down.");
+  }
+  return dataUrl;
+};
@@ -0,0 +1,494 @@
+// The contract between the contributor form and the API in server/. The
+// server imports this file directly, so it must not import anything else.
+
+export const CONTRIBUTIONS_API = "/api/contributions";
+export const REPORTS_API = "/api/reports";
+/** Review endpoints; these need the admin token. */
+export const ADMIN_API = "/api/admin";
+
+/** Same values as ResourceType. */
+export type BenefitType = "food" | "health" | "community";
+
+export const BENEFIT_TYPES: BenefitType[] = ["food", "health", "community"];
+
+export type ResourceCategory =
+  | "pantry"
+  | "grocery"
+  | "wic-vendor"
+  | "farmers-market"
+  | "meal-program"
+  | "free-clinic"
+  | "health-center"
+  | "pharmacy"
+  | "mental-health"
+  | "shelter"
+  | "community-center"
+  | "legal-aid"
+  | "other";
+
+/** The categories offered for each benefit type, with their display names. */
+export const CATEGORIES: Record<BenefitType, { value: ResourceCategory; label: string }[]> = {
+  food: [
+    { value: "pantry", label: "Food pantry" },
+    { value: "grocery", label: "Grocery store" },
+    { value: "wic-vendor", label: "WIC vendor" },
+    { value: "farmers-market", label: "Farmers market" },
+    { value: "meal-program", label: "Free meals" },
+  ],
+  health: [
+    { value: "free-clinic", label: "Free clinic" },
+    { value: "health-center", label: "Community health center" },
+    { value: "pharmacy", label: "Pharmacy" },
+    { value: "mental-health", label: "Mental health" },
+  ],
+  community: [
+    { value: "shelter", label: "Shelter" },
+    { value: "community-center", label: "Community center" },
+    { value: "legal-aid", label: "Legal aid" },
+    { value: "other", label: "Other" },
+  ],
+};
+
+export type Program = "ebt" | "wic" | "medicaid" | "dc-healthy-families";
+
+export const PROGRAMS: Record<Program, string> = {
+  ebt: "SNAP / EBT",
+  wic: "WIC",
+  medicaid: "Medicaid",
+  "dc-healthy-families": "DC Healthy Families",
+};
+
+/** Languages a contributor can say staff speak, by code. */
+export const LANGUAGES: Record<string, string> = {
+  en: "English",
+  es: "Spanish",
+  am: "Amharic",
+  zh: "Chinese",
+  ko: "Korean",
+  fr: "French",
+  vi: "Vietnamese",
+  asl: "ASL",
+};
+
+/**
+ * One day's hours as 24-hour "HH:MM" times, or null when closed. A close
+ * at or before the open runs past midnight.
+ */
+export type DayHoursInput = { open: string; close: string } | null;
+
+export interface ContributionContact {
+  phone?: string;
+  website?: string;
+  email?: string;
+}
+
+export type EvidenceKind = "photo" | "receipt";
+
+/** A photo as the form sends it. */
+export interface EvidenceUpload {
+  kind: EvidenceKind;
+  /** A base64 JPEG, PNG or WebP data URL. */
+  dataUrl: string;
+}
+
+/** A photo as stored: the server keeps the image in a file of its own. */
+export interface StoredEvidence {
+  kind: EvidenceKind;
+  file: string;
+  mime: string;
+}
+
+/** "merged" means it duplicated a resource already on the map. */
+export type ContributionStatus = "pending" | "approved" | "rejected" | "merged";
+
+/** Captcha totals at or above this count as human. */
+export const CAPTCHA_PASS = 55;
+
+/** The captcha's behavior analysis, as reported by the submitter's browser. */
+export interface CaptchaScore {
+  /** 0–100; the captcha passes at CAPTCHA_PASS. */
+  total: number;
+  /** Points per signal, e.g. timingHumanness. */
+  signals: Record<string, number>;
+}
+
+/** What the contributor form sends. */
+export interface ContributionInput {
+  type: BenefitType;
+  name: string;
+  category: ResourceCategory;
+  /** The geocoder's label for the validated address. */
+  address: string;
+  lat: number;
+  lng: number;
+  /** Seven days, Monday first; absent when the contributor doesn't know them. */
+  hours?: DayHoursInput[];
+  programs: Program[];
+  /** Codes from LANGUAGES. */
+  languages: string[];
+  contact: ContributionContact;
+  evidence?: EvidenceUpload[];
+  captcha?: CaptchaScore;
+}
+
+/**
+ * A stored submission. Ones sent before the form asked for a name and
+ * details may lack them.
+ */
+export interface Contribution extends Omit<ContributionInput, "evidence"> {
+  evidence?: StoredEvidence[];
+  id: string;
+  status: ContributionStatus;
+  /** ISO timestamps. */
+  submittedAt: string;
+  reviewedAt?: string;
+  reviewer?: string;
+  reviewNote?: string;
+  /** Id of the existing pin a merged submission duplicated. */
+  mergedInto?: string;
+}
+
+/**
+ * What the public GET returns for an approved or merged submission: only
+ * the fields its map pin shows. The submitter's evidence, captcha score and
+ * email and the reviewer's name and note stay server-side.
+ */
+export type PublicContribution = Pick<
+  Contribution,
+  | "id"
+  | "status"
+  | "type"
+  | "name"
+  | "category"
+  | "address"
+  | "lat"
+  | "lng"
+  | "hours"
+  | "programs"
+  | "languages"
+  | "reviewedAt"
+  | "mergedInto"
+> & { contact: Pick<ContributionContact, "phone" | "website"> };
+
+export type ReviewAction = "approve" | "reject" | "merge";
+
+export const REVIEW_STATUS: Record<ReviewAction, ContributionStatus> = {
+  approve: "approved",
+  reject: "rejected",
+  merge: "merged",
+};
+
+export interface ReviewDecision {
+  action: ReviewAction;
+  reviewer: string;
+  note: string;
+  /** Required for "merge". */
+  mergedInto?: string;
+}
+
+/** One line of the review audit log; names either a submission or a report. */
+export interface AuditEntry extends ReviewDecision {
+  /** ISO timestamp. */
+  at: string;
+  contributionId?: string;
+  reportId?: string;
+  previousStatus: ContributionStatus | ReportStatus;
+}
+
+// --- Problem reports on existing pins ---
+
+export type ReportReason = "closed" | "moved" | "no-ebt" | "wrong-hours" | "wrong-phone";
+
+export const REPORT_REASONS: Record<ReportReason, string> = {
+  closed: "Closed for good",
+  moved: "Moved to a different address",
+  "no-ebt": "No longer accepts EBT",
+  "wrong-hours": "Hours are wrong",
+  "wrong-phone": "Phone number is wrong",
+};
+
+/** Reasons that mean the pin may no longer be a place to go. */
+export const CLOSURE_REASONS: ReportReason[] = ["closed", "moved"];
+
+/** Pending closure reports a pin needs before the map warns about it. */
+export const REPORT_THRESHOLD = 2;
+
+/** "confirmed" and "dismissed" are a reviewer's approve and reject. */
+export type ReportStatus = "pending" | "confirmed" | "dismissed";
+
+export const REPORT_REVIEW_STATUS: Partial<Record<ReviewAction, ReportStatus>> = {
+  approve: "confirmed",
+  reject: "dismissed",
+};
+
+/** What the report form sends. */
+export interface ReportInput {
+  pinId: string;
+  /** The pin's name and address when reported, so reviewers needn't look it up. */
+  pinLabel: string;
+  pinAddress: string;
+  reason: ReportReason;
+  details: string;
+  captcha?: CaptchaScore;
+}
+
+export interface Report extends ReportInput {
+  id: string;
+  /**
+   * Set by the server from the sender's network address (hashed), so one
+   * person's repeated reports count once toward the closure warning.
+   */
+  reporter?: string;
+  status: ReportStatus;
+  /** ISO timestamps. */
+  submittedAt: string;
+  reviewedAt?: string;
+  reviewer?: string;
+  reviewNote?: string;
+}
+
+/** What the map shows for one pin; reporters' details stay private. */
+export interface PinReportStatus {
+  /** Enough pending closure reports to warn, until a reviewer decides. */
+  possiblyClosed: boolean;
+  /** Problems a reviewer has confirmed. */
+  confirmed: ReportReason[];
+}
+
+/** Per-pin status for the map, keyed by pin id. Pins with nothing to show are left out. */
+export const summarizeReports = (reports: Report[]): Record<string, PinReportStatus> => {
+  // Distinct reporters per pin; reports from before reporters were recorded count alone.
+  const pending = new Map<string, Set<string>>();
+  const confirmed = new Map<string, Set<ReportReason>>();
+  for (const r of reports) {
+    if (r.status === "pending" && CLOSURE_REASONS.includes(r.reason)) {
+      pending.set(r.pinId, (pending.get(r.pinId) ?? new Set()).add(r.reporter ?? r.id));
+    } else if (r.status === "confirmed") {
+      confirmed.set(r.pinId, (confirmed.get(r.pinId) ?? new Set()).add(r.reason));
+    }
+  }
+  const summary: Record<string, PinReportStatus> = {};
+  for (const pinId of new Set([...pending.keys(), ...confirmed.keys()])) {
+    const status = {
+      possiblyClosed: (pending.get(pinId)?.size ?? 0) >= REPORT_THRESHOLD,
+      confirmed: [...(confirmed.get(pinId) ?? [])],
+    };
+    if (status.possiblyClosed || status.confirmed.length > 0) summary[pinId] = status;
+  }
+  return summary;
+};
+
+export const MAX_NAME_LENGTH = 120;
+export const MAX_EVIDENCE = 3;
+/** Per image, after the form has scaled it down. */
+export const MAX_EVIDENCE_BYTES = 1024 * 1024;
+export const EVIDENCE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+const MAX_ADDRESS_LENGTH = 200;
+const MAX_CONTACT_LENGTH = 200;
+const MAX_NOTE_LENGTH = 1000;
+export const MAX_REPORT_DETAILS = 500;
+const MAX_CAPTCHA_SIGNALS = 10;
+
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+const PHONE = /^\+?[\d\s().-]+$/;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATA_URL = /^data:(image\/[a-z]+);base64,([A-Za-z0-9+/]+=*)$/;
+
+/** True for a plausible phone number: 10 digits, or 11 starting with 1. */
+export const isPhone = (value: string) => {
+  const digits = value.replace(/\D/g, "");
+  return (
+    PHONE.test(value) &&
+    (digits.length === 10 || (digits.length === 11 && digits.startsWith("1")))
+  );
+};
+
+export const isWebsite = (value: string) => {
+  try {
+    return /^https?:$/.test(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+export const isEmail = (value: string) => EMAIL.test(value);
+
+// DC_BOUNDS from offline.ts, repeated here to keep this file standalone.
+const inDC = (lat: number, lng: number) =>
+  lat >= 38.79 && lat <= 39.0 && lng >= -77.12 && lng <= -76.9;
+
+/** Keeps a well-formed captcha score and silently drops anything else. */
+const parseCaptcha = (value: unknown): CaptchaScore | null => {
+  const raw = value as CaptchaScore;
+  if (!raw || typeof raw.total !== "number" || raw.total < 0 || raw.total > 100) {
+    return null;
+  }
+  const signals = Object.entries(raw.signals ?? {})
+    .filter(([, v]) => typeof v === "number" && isFinite(v))
+    .slice(0, MAX_CAPTCHA_SIGNALS);
+  return { total: raw.total, signals: Object.fromEntries(signals) };
+};
+
+const failed = (value: unknown): value is { error: string } =>
+  typeof value === "object" && value !== null && "error" in value;
+
+const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+const parseHours = (value: unknown): DayHoursInput[] | { error: string } | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.length !== 7) {
+    return { error: "Give hours for all seven days, or leave them out." };
+  }
+  const days: DayHoursInput[] = [];
+  for (const day of value) {
+    if (day === null) {
+      days.push(null);
+      continue;
+    }
+    const { open, close } = (day ?? {}) as Record<string, unknown>;
+    if (typeof open !== "string" || typeof close !== "string" || !TIME.test(open) || !TIME.test(close)) {
+      return { error: "Enter opening and closing times for each open day." };
+    }
+    days.push({ open, close });
+  }
+  return days.every((d) => d === null) ? { error: "Mark at least one day open." } : days;
+};
+
+const parseContact = (value: unknown): ContributionContact | { error: string } => {
+  const raw = (value ?? {}) as Record<string, unknown>;
+  const phone = text(raw.phone);
+  const website = text(raw.website);
+  const email = text(raw.email);
+  if ([phone, website, email].some((v) => v.length > MAX_CONTACT_LENGTH)) {
+    return { error: "That contact detail is too long." };
+  }
+  if (phone && !isPhone(phone)) return { error: "Enter a 10-digit phone number." };
+  if (website && !isWebsite(website)) return { error: "Enter the full website address, starting with https://." };
+  if (email && !isEmail(email)) return { error: "Enter a valid email address." };
+  return {
+    ...(phone && { phone }),
+    ...(website && { website }),
+    ...(email && { email }),
+  };
+};
+
+const parseEvidence = (value: unknown): EvidenceUpload[] | { error: string } | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.length > MAX_EVIDENCE) {
+    return { error: `Attach at most ${MAX_EVIDENCE} photos.` };
+  }
+  const uploads: EvidenceUpload[] = [];
+  for (const item of value) {
+    const { kind, dataUrl } = (item ?? {}) as Record<string, unknown>;
+    const match = typeof dataUrl === "string" ? dataUrl.match(DATA_URL) : null;
+    if ((kind !== "photo" && kind !== "receipt") || !match || !EVIDENCE_TYPES.includes(match[1])) {
+      return { error: "Photos must be JPEG, PNG or WebP images." };
+    }
+    if ((match[2].length * 3) / 4 > MAX_EVIDENCE_BYTES) {
+      return { error: "One of the photos is too large." };
+    }
+    uploads.push({ kind, dataUrl: dataUrl as string });
+  }
+  return uploads.length > 0 ? uploads : undefined;
+};
+
+/**
+ * Checks a submission body. The form validates too, but the API can't
+ * trust it, so everything is checked again on the server.
+ */
+export const parseSubmission = (body: unknown): ContributionInput | { error: string } => {
+  const raw = (body ?? {}) as Record<string, unknown>;
+  if (!BENEFIT_TYPES.includes(raw.type as BenefitType)) {
+    return { error: "Choose what kind of resource this is." };
+  }
+  const type = raw.type as BenefitType;
+  const name = text(raw.name);
+  if (name.length < 2 || name.length > MAX_NAME_LENGTH) {
+    return { error: "Enter the resource's name." };
+  }
+  if (!CATEGORIES[type].some((c) => c.value === raw.category)) {
+    return { error: "Choose a category." };
+  }
+  const address = text(raw.address);
+  if (address.length < 5 || address.length > MAX_ADDRESS_LENGTH) {
+    return { error: "Enter the resource's street address." };
+  }
+  const { lat, lng } = raw;
+  if (typeof lat !== "number" || typeof lng !== "number" || !inDC(lat, lng)) {
+    return { error: "The address must be in Washington, D.C." };
+  }
+  const hours = parseHours(raw.hours);
+  if (failed(hours)) return hours;
+  const programs = Array.isArray(raw.programs) ? raw.programs : [];
+  if (!programs.every((p) => Object.keys(PROGRAMS).includes(p))) {
+    return { error: "Choose programs from the list." };
+  }
+  const languages = Array.isArray(raw.languages) ? raw.languages : [];
+  if (!languages.every((l) => Object.keys(LANGUAGES).includes(l))) {
+    return { error: "Choose languages from the list." };
+  }
+  const contact = parseContact(raw.contact);
+  if (failed(contact)) return contact;
+  const evidence = parseEvidence(raw.evidence);
+  if (failed(evidence)) return evidence;
+  const captcha = parseCaptcha(raw.captcha);
+  return {
+    type,
+    name,
+    category: raw.category as ResourceCategory,
+    address,
+    lat,
+    lng,
+    ...(hours && { hours }),
+    programs: [...new Set(programs as Program[])],
+    languages: [...new Set(languages as string[])],
+    contact,
+    ...(evidence && { evidence }),
+    ...(captcha && { captcha }),
+  };
+};
+
+export const parseReport = (body: unknown): ReportInput | { error: string } => {
+  const raw = (body ?? {}) as Record<string, unknown>;
+  const pinId = text(raw.pinId);
+  if (!pinId || pinId.length > MAX_CONTACT_LENGTH) return { error: "Say which resource this is about." };
+  if (!Object.keys(REPORT_REASONS).includes(raw.reason as string)) {
+    return { error: "Choose what's wrong." };
+  }
+  const details = text(raw.details);
+  if (details.length > MAX_REPORT_DETAILS) {
+    return { error: `Keep details under ${MAX_REPORT_DETAILS} characters.` };
+  }
+  // The captcha runs in the browser, so its score is a hint for reviewers,
+  // not a check; the API's per-sender limit is what slows a flood.
+  const captcha = parseCaptcha(raw.captcha);
+  return {
+    pinId,
+    pinLabel: text(raw.pinLabel).slice(0, MAX_NAME_LENGTH),
+    pinAddress: text(raw.pinAddress).slice(0, MAX_ADDRESS_LENGTH),
+    reason: raw.reason as ReportReason,
+    details,
+    ...(captcha && { captcha }),
+  };
+};
+
+export const parseReviewDecision = (body: unknown): ReviewDecision | { error: string } => {
+  const raw = (body ?? {}) as Record<string, unknown>;
+  if (!Object.keys(REVIEW_STATUS).includes(raw.action as string)) {
+    return { error: "Choose approve, reject or merge." };
+  }
+  const reviewer = text(raw.reviewer);
+  if (!reviewer) return { error: "Enter your name so the decision can be audited." };
+  const note = text(raw.note);
+  if (note.length > MAX_NOTE_LENGTH) {
+    return { error: `Keep notes under ${MAX_NOTE_LENGTH} characters.` };
+  }
+  const action = raw.action as ReviewAction;
+  if (action === "merge") {
+    if (typeof raw.mergedInto !== "string" || !raw.mergedInto) {
+      return { error: "Choose the resource this duplicates." };
+    }
+    return { action, reviewer, note, mergedInto: raw.mergedInto };
+  }
+  return { action, reviewer, note };
+};
@@ -0,0 +1,18 @@
+import type { DataSourceConfig } from "./types";
+
+// Datasets loaded onto the map. To add one, register an adapter for its
+// columns (see registry.ts) and list the file here.
+export const DATA_SOURCES: DataSourceConfig[] = [
+  {
+    id: "snap",
+    adapter: "usda-snap",
+    url: "/DC_Active_SNAP_Retailers_2026.csv",
+    label: "DC Active SNAP Retailers 2026 (USDA FNS)",
+  },
+  {
+    id: "health",
+    adapter: "dcgis-primary-care",
+    url: "/Primary_Care_Facilities.csv",
+    label: "Primary Care Facilities (DC GIS)",
+  },
+];
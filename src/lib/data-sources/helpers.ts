@@ -0,0 +1,13 @@
+import type { RawRow } from "./types";
+
+export const yes = (val: string | undefined) =>
+  (val || "").toLowerCase().includes("yes");
+
+export const clean = (val: string | undefined) =>
+  (val || "").trim() || undefined;
+
+/** Column reader for datasets whose headers share a common prefix. */
+export const prefixed =
+  (prefix: string) =>
+  (row: RawRow, column: string): string | undefined =>
+    row[`${prefix}${column}`];
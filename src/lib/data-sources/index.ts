@@ -0,0 +1,3 @@
+export * from "./types";
+export { DATA_SOURCES } from "./config";
+export { registerAdapter, loadDataSource, loadAllSources } from "./registry";
@@ -0,0 +1,192 @@
+import type { DataSourceAdapter, RawRow } from "./types";
+import { clean, prefixed, yes } from "./helpers";
+import { parseWeeklyHours } from "../hours";
+import { latestDate, parseSourceDate } from "../freshness";
+import type { FacilityAttributeKey, HealthFacility } from "../health-facility";
+
+// DC GIS joins two tables into this export, so columns come from two prefixes.
+const pt = prefixed("DCGISPrimaryCarePt");
+const info = prefixed("DCGISPRIMARY_CARE_INFO");
+
+const DAYS = [
+  "MONDAY",
+  "TUESDAY",
+  "WEDNESDAY",
+  "THURSDAY",
+  "FRIDAY",
+  "SATURDAY",
+  "SUNDAY",
+];
+const DAY_ABBR = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const LANGUAGE_COLUMNS: [string, string][] = [
+  ["ENGLISH", "English"],
+  ["SPANISH", "Spanish"],
+  ["FRENCH", "French"],
+  ["AMHARIC", "Amharic"],
+  ["CHINESE_TRADITIONAL", "Chinese"],
+  ["KOREAN", "Korean"],
+  ["ASL", "ASL"],
+];
+
+// Some columns name the service instead of saying "Yes" ("Family Planning",
+// "STI Testing", "Alliance"); count anything that isn't a refusal.
+const listed = (val: string | undefined) => {
+  const v = (val || "").trim();
+  return !!v && !/^(no\b|n\/a|none|please call|pending)/i.test(v);
+};
+
+type Matcher = (val: string | undefined) => boolean;
+
+// Which columns (either prefix) back each attribute; any match counts.
+const ATTRIBUTE_COLUMNS: Record<
+  FacilityAttributeKey,
+  { pt?: string[]; info?: string[]; match?: Matcher }
+> = {
+  slidingScale: {
+    pt: ["SLIDING_SCALE"],
+    match: (v) => yes(v) || /no fees/i.test(v || ""),
+  },
+  seesUninsured: { pt: ["SEE_PATIENTS_WHO_CANT_PAY"], info: ["ABILITY_TO_PAY"] },
+  publicInsurance: { pt: ["PUBLIC_INSURANCE"] },
+  medicaid: { pt: ["MEDICAID"] },
+  medicare: { pt: ["MEDICARE"] },
+  alliance: { info: ["INSURANCE_ALLIANCE"], match: listed },
+  privateInsurance: {
+    pt: ["PRIVATE_INSURANCE", "PRIVATE_EMPLOYER_INSURANCE"],
+    match: listed,
+  },
+  acceptsNewPatients: { info: ["ACCEPT_NEW_PT"] },
+  primaryCare: { info: ["PRIMARY_CARE"], match: listed },
+  pediatrics: { info: ["PEDIATRICS"] },
+  obstetrics: { info: ["OBSTETRICS"] },
+  reproductiveHealth: { info: ["REPRODUCTIVE_HEALTH"], match: listed },
+  dentistry: { info: ["DENTISTRY"] },
+  mentalHealth: { info: ["MENTAL_HEALTH"] },
+  psychiatry: { info: ["PSYCHIATRY"] },
+  pharmacy: { info: ["PHARMACY"] },
+  stiTesting: { info: ["STI_TEST_TREAT"], match: listed },
+  hivCare: { info: ["HIV_AIDS"] },
+  wic: { info: ["WIC"] },
+  nutritionEd: { info: ["HEALTH_NUTR_ED"] },
+  socialServices: { info: ["SOCIAL_SERVICES"], match: listed },
+  insuranceEnrollment: { info: ["INSURANCE_SCREEN"], match: listed },
+  childcare: { info: ["CHILDCARE"] },
+  cardiology: { info: ["CARDIOLOGY"] },
+  dermatology: { info: ["DERMATOLOGY"] },
+  endocrinology: { info: ["ENDOCRINOLOGY"] },
+  gastroenterology: { info: ["GASTROENTEROLOGY", "GASTRO_ENT"] },
+  infectiousDisease: { info: ["INFECTIOUS_DISEASE"] },
+  nephrology: { info: ["NEPHROLOGY"] },
+  neurology: { info: ["NEUROLOGY"] },
+  oncology: { info: ["ONCOLOGY"] },
+  ophthalmology: { info: ["OPTHALMOLOGY"] },
+  orthopedics: { info: ["ORTHOPEDIC"] },
+  podiatry: { info: ["PODIATRY"] },
+  pulmonary: { info: ["PULMONARY_MEDICINE"] },
+  rheumatology: { info: ["RHEUMATOLOGY"] },
+  urology: { info: ["UROLOGY"] },
+  generalSurgery: { info: ["GENERAL_SURGERY"] },
+  oralSurgery: { info: ["ORAL_SURGERY"] },
+  homeless: { info: ["HOMELESS"] },
+  hiv: { info: ["HIV"] },
+  lgbtq: { info: ["LBGT"] },
+  languageLimited: { info: ["LANGUAGE_LIMITED"] },
+  elderly: { info: ["ELDERLY"] },
+  childSpecialNeeds: { info: ["CHILD_SPECIAL_NEEDS"] },
+  physicallyDisabled: { info: ["PHYSICALLY_DISABLED"] },
+  intellectuallyDisabled: { info: ["INTEL_DISABLED"] },
+  mentalIllness: { info: ["MENTAL_ILLNESS"] },
+};
+
+const parseFacility = (row: RawRow): HealthFacility => {
+  const attributes: HealthFacility["attributes"] = {};
+  for (const [key, spec] of Object.entries(ATTRIBUTE_COLUMNS)) {
+    const match = spec.match ?? yes;
+    const values = [
+      ...(spec.pt ?? []).map((c) => pt(row, c)),
+      ...(spec.info ?? []).map((c) => info(row, c)),
+    ];
+    if (values.some(match)) attributes[key as FacilityAttributeKey] = true;
+  }
+  return {
+    attributes,
+    facilityType: clean(pt(row, "FACILITY_TYPE")),
+    practiceType: clean(pt(row, "PRACTICE_TYPE")),
+    limitedAccess: clean(pt(row, "LIMITED_ACCESS")),
+    otherPopulations: clean(info(row, "OTHER_SPECIAL_POP")),
+    otherLanguages: clean(info(row, "OTHER_LANGUAGE")),
+    eveningHours: clean(info(row, "EVENING_HOURS")),
+    hospitalAffiliation: clean(info(row, "HOSPITAL_AFFILIATION")),
+  };
+};
+
+// DC GIS "Primary Care Facilities" export.
+export const primaryCareAdapter: DataSourceAdapter = {
+  id: "dcgis-primary-care",
+  crs: "EPSG:3857",
+  coordinates: (row) => {
+    const x = parseFloat(row["X"]);
+    const y = parseFloat(row["Y"]);
+    return isNaN(x) || isNaN(y) ? null : [x, y];
+  },
+  recordKey: (row) => clean(pt(row, "GIS_ID")),
+  parseRow: (row) => {
+    const name = (pt(row, "NAME") || "Health Center").trim();
+    const addr = (pt(row, "ADDRESS") || "").trim();
+    const ward = pt(row, "WARD") || "";
+    const facility = (pt(row, "FACILITY_SETTING") || "").trim();
+
+    const tags: string[] = [];
+    if (yes(pt(row, "MEDICAID"))) tags.push("Accepts Medicaid");
+    if (yes(pt(row, "WALKIN_UNSCHEDULED"))) tags.push("Walk-ins OK");
+
+    const weekly = parseWeeklyHours(
+      DAYS.map((d) => info(row, `HOURS_${d}`))
+    );
+    const hours = DAYS.map((d, idx) => {
+      const h = clean(info(row, `HOURS_${d}`));
+      return h ? `${DAY_ABBR[idx]}: ${h}` : null;
+    })
+      .filter(Boolean)
+      .join(" | ");
+
+    // A few rows name the language instead of saying "Yes".
+    const langs = LANGUAGE_COLUMNS.filter(([col]) => listed(info(row, col))).map(
+      ([, label]) => label
+    );
+
+    return {
+      ok: true,
+      pin: {
+        type: "health",
+        label: name,
+        detail: `${addr}${ward ? ` — Ward ${ward}` : ""}`,
+        address: `${addr}, Washington, DC`,
+        tags,
+        storeType: facility,
+        ward: /^[1-8]$/.test(ward) ? Number(ward) : undefined,
+        zip: clean(pt(row, "ZIPCODE")),
+        hours: weekly ?? undefined,
+        facility: parseFacility(row),
+        // Either table may have been edited last; the later date is when the
+        // record was last looked at.
+        dates: {
+          verified: latestDate(
+            parseSourceDate(pt(row, "LAST_MODIFIED_DATE")),
+            parseSourceDate(info(row, "LAST_EDITED_DATE"))
+          ),
+        },
+        extra: {
+          phone: clean(pt(row, "PHONE")),
+          services: clean(info(row, "MEDICAL_SERVICES_AVAILABLE")),
+          hours: hours || undefined,
+          languages: langs.length > 0 ? langs.join(", ") : undefined,
+          insurance: clean(pt(row, "INSURANCE_ACCEPTED")),
+          walkIn: clean(pt(row, "WALKIN_UNSCHEDULED")),
+          webUrl: clean(pt(row, "WEB_URL")),
+        },
+      },
+    };
+  },
+};
@@ -0,0 +1,115 @@
+import Papa from "papaparse";
+import { toWgs84 } from "../projection";
+import type { ResourcePin } from "../resources";
+import { DATA_SOURCES } from "./config";
+import { primaryCareAdapter } from "./primary-care";
+import { snapAdapter } from "./snap";
+import type {
+  DataSourceAdapter,
+  DataSourceConfig,
+  DataSourceResult,
+  RawRow,
+  RowError,
+} from "./types";
+
+const adapters = new Map<string, DataSourceAdapter>();
+
+export const registerAdapter = (adapter: DataSourceAdapter) => {
+  adapters.set(adapter.id, adapter);
+};
+
+registerAdapter(snapAdapter);
+registerAdapter(primaryCareAdapter);
+
+// FNV-1a, base 36: short, and the same in every browser.
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  }
+  return (h >>> 0).toString(36);
+};
+
+export const loadDataSource = async (
+  source: DataSourceConfig
+): Promise<DataSourceResult> => {
+  const adapter = adapters.get(source.adapter);
+  if (!adapter) {
+    throw new Error(`No adapter registered for "${source.adapter}"`);
+  }
+
+  const res = await fetch(source.url);
+  if (!res.ok) {
+    throw new Error(`Failed to fetch ${source.url}: ${res.status}`);
+  }
+  const text = await res.text();
+  const { data } = Papa.parse(text, { header: true, skipEmptyLines: true });
+
+  const rows = data as RawRow[];
+  const listedAsOf = adapter.listedAsOf && (source.published ?? adapter.listedAsOf(rows));
+  const pins: ResourcePin[] = [];
+  const errors: RowError[] = [];
+  const seen = new Map<string, number>();
+  rows.forEach((row, i) => {
+    const coord = adapter.coordinates(row);
+    if (!coord) {
+      errors.push({ row: i, message: "Missing or invalid coordinates" });
+      return;
+    }
+    const { lat, lng } = toWgs84(coord, adapter.crs);
+    if (!isFinite(lat) || !isFinite(lng)) {
+      errors.push({
+        row: i,
+        message: `Coordinates out of range for ${adapter.crs}`,
+      });
+      return;
+    }
+
+    const result = adapter.parseRow(row);
+    if ("error" in result) {
+      errors.push({ row: i, message: result.error });
+    } else {
+      const { pin } = result;
+      // Ids outlive the file: favorites and shared links refer to them.
+      const key =
+        adapter.recordKey?.(row) ?? hash(`${pin.label}|${pin.address}`.toLowerCase());
+      const n = (seen.get(key) ?? 0) + 1;
+      seen.set(key, n);
+      pins.push({
+        id: `${source.id}-${key}${n > 1 ? `~${n}` : ""}`,
+        source: source.id,
+        ...pin,
+        ...(listedAsOf && { dates: { ...pin.dates, verified: listedAsOf } }),
+        lat,
+        lng,
+      });
+    }
+  });
+
+  // A response replayed from the offline cache keeps its original Date header,
+  // so loadedAt reflects when the file actually came from the server.
+  const served = Date.parse(res.headers.get("date") ?? "");
+  return {
+    source,
+    pins,
+    errors,
+    loadedAt: isNaN(served) ? new Date() : new Date(served),
+  };
+};
+
+/**
+ * Loads every enabled source. A source that fails entirely is logged and
+ * skipped so one bad file doesn't blank the map.
+ */
+export const loadAllSources = async (
+  sources: DataSourceConfig[] = DATA_SOURCES
+): Promise<DataSourceResult[]> => {
+  const settled = await Promise.allSettled(
+    sources.filter((s) => s.enabled !== false).map(loadDataSource)
+  );
+  return settled.flatMap((r) => {
+    if (r.status === "fulfilled") return [r.value];
+    console.error("Failed to load data source:", r.reason);
+    return [];
+  });
+};
@@ -0,0 +1,49 @@
+import { latestDate, parseSourceDate } from "../freshness";
+import { clean } from "./helpers";
+import type { DataSourceAdapter } from "./types";
+
+// USDA FNS "Active SNAP Retailers" export.
+export const snapAdapter: DataSourceAdapter = {
+  id: "usda-snap",
+  crs: "EPSG:4326",
+  coordinates: (row) => {
+    const lat = parseFloat(row["Latitude"]);
+    const lng = parseFloat(row["Longitude"]);
+    return isNaN(lat) || isNaN(lng) ? null : [lng, lat];
+  },
+  recordKey: (row) => clean(row["Record ID"]),
+  parseRow: (row) => {
+    const storeType = (row["Store Type"] || "").trim();
+    const number = (row["Street Number"] || "").trim();
+    const street = (row["Street Name"] || "").trim();
+    const zip = (row["Zip Code"] || "").trim();
+    // "Ward 7/8" and "Other" don't pin down a ward.
+    const ward = (row["Ward_Estimate"] || "").trim().match(/^Ward (\d)$/)?.[1];
+    return {
+      ok: true,
+      pin: {
+        type: "food",
+        label: (row["Store Name"] || "SNAP Retailer").trim(),
+        detail: `${storeType} — ${number} ${street}`,
+        address: `${number} ${street}, Washington, DC ${zip}`,
+        tags: ["Accepts EBT"],
+        storeType,
+        ward: ward ? Number(ward) : undefined,
+        zip: zip.slice(0, 5) || undefined,
+        // "Last verified" comes from listedAsOf; an authorization can be
+        // decades old for a retailer still on the list.
+        dates: {
+          authorized: parseSourceDate(row["Authorization Date"]),
+          ends: parseSourceDate(row["End Date"]),
+        },
+      },
+    };
+  },
+  // The extract carries no publication date, but it can't predate its
+  // newest authorization.
+  listedAsOf: (rows) =>
+    rows.reduce<string | undefined>(
+      (d, row) => latestDate(d, parseSourceDate(row["Authorization Date"])),
+      undefined
+    ),
+};
@@ -0,0 +1,72 @@
+import type { Coordinate, Crs } from "../projection";
+import type { ResourcePin } from "../resources";
+
+export type RawRow = Record<string, string>;
+
+/**
+ * A pin as produced by an adapter. The loader assigns the id from the
+ * adapter's record key and fills in lat/lng by projecting the adapter's
+ * coordinates.
+ */
+export type ParsedPin = Omit<ResourcePin, "id" | "source" | "lat" | "lng">;
+
+export type RowResult =
+  | { ok: true; pin: ParsedPin }
+  | { ok: false; error: string };
+
+export interface RowError {
+  /** Zero-based data row index (header excluded). */
+  row: number;
+  message: string;
+}
+
+/** Maps one raw CSV row of a known dataset to a ResourcePin. */
+export interface DataSourceAdapter {
+  id: string;
+  /** Coordinate reference system the dataset's coordinates are stored in. */
+  crs: Crs;
+  /** Reads the row's [x, y] in `crs` axis order, or null when missing. */
+  coordinates: (row: RawRow) => Coordinate | null;
+  parseRow: (row: RawRow) => RowResult;
+  /**
+   * The publisher's id for the record, which survives the file being
+   * reordered or refreshed. Without one, pins are keyed on name and address.
+   */
+  recordKey?: (row: RawRow) => string | undefined;
+  /**
+   * For lists that only carry records in force, like USDA's active
+   * retailers: the date the extract was current as of, read from its rows.
+   * Being on the list confirms every record as of that date.
+   */
+  listedAsOf?: (rows: RawRow[]) => string | undefined;
+}
+
+/** One dataset to load: which file, parsed by which adapter. */
+export interface DataSourceConfig {
+  /** Stable id; also the prefix of every pin id from this source. */
+  id: string;
+  adapter: string;
+  url: string;
+  label: string;
+  /**
+   * When the publisher released this extract, as "YYYY-MM-DD". Overrides
+   * the adapter's `listedAsOf` guess for active lists.
+   */
+  published?: string;
+  enabled?: boolean;
+}
+
+export interface DataSourceResult {
+  source: DataSourceConfig;
+  pins: ResourcePin[];
+  errors: RowError[];
+  loadedAt: Date;
+}
+
+/** Which dataset a set of pins came from and when; carried into exports. */
+export interface SourceProvenance {
+  id: string;
+  label: string;
+  url: string;
+  loadedAt: Date;
+}
@@ -0,0 +1,220 @@
+import { latestDate } from "./freshness";
+import { parseAddress } from "./geocoding/address";
+import { haversine, type ResourcePin } from "./resources";
+
+// The same place often appears more than once: a grocery in the SNAP list
+// and again as a community submission, or a clinic listed by two sources.
+// Records are compared pairwise within a few blocks of each other, scored
+// on name, address and distance, and matches are merged into one pin.
+
+/** Pairs scoring at least this are treated as the same place. */
+export const MATCH_THRESHOLD = 0.75;
+
+const METERS_PER_MILE = 1609.344;
+// Scores fall from 1 at NEAR_METERS to 0 at FAR_METERS.
+const NEAR_METERS = 25;
+const FAR_METERS = 200;
+// Candidate pairs come from grid cells about this wide (~220 m N–S).
+const CELL_DEGREES = 0.002;
+
+const WEIGHTS = { name: 0.5, address: 0.25, proximity: 0.25 };
+
+// Words that say nothing about which business it is.
+const NAME_NOISE = new Set(["inc", "llc", "corp", "co", "company", "the", "dba", "of"]);
+
+/**
+ * Lower-case words only: "14 & U Farmers Market  " → "14 and u farmers
+ * market", "SAFEWAY  1177" → "safeway", "7-eleven 22464e" → "7 eleven".
+ * Trailing store numbers are dropped so branches of a chain compare on
+ * name and address alone.
+ */
+export const normalizeName = (name: string) => {
+  const tokens = name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[̀-ͯ]/g, "")
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter((t) => t && !NAME_NOISE.has(t));
+  while (tokens.length > 1 && /^\d+[a-z]?$/.test(tokens[tokens.length - 1])) tokens.pop();
+  return tokens.join(" ");
+};
+
+const bigrams = (s: string) => {
+  const compact = s.replace(/ /g, "");
+  const grams: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) grams.push(compact.slice(i, i + 2));
+  return grams;
+};
+
+/** 0–1: bigram overlap, or 0.9 when one name's words all appear in the other. */
+export const nameSimilarity = (a: string, b: string) => {
+  const na = normalizeName(a);
+  const nb = normalizeName(b);
+  if (!na || !nb) return 0;
+  if (na === nb) return 1;
+  const [short, long] = na.length <= nb.length ? [na, nb] : [nb, na];
+  const longWords = new Set(long.split(" "));
+  const contained = short.length >= 3 && short.split(" ").every((w) => longWords.has(w));
+
+  const ga = bigrams(na);
+  const gb = bigrams(nb);
+  const counts = new Map<string, number>();
+  for (const g of ga) counts.set(g, (counts.get(g) ?? 0) + 1);
+  let shared = 0;
+  for (const g of gb) {
+    const n = counts.get(g) ?? 0;
+    if (n > 0) {
+      shared++;
+      counts.set(g, n - 1);
+    }
+  }
+  const dice = ga.length + gb.length > 0 ? (2 * shared) / (ga.length + gb.length) : 0;
+  return contained ? Math.max(dice, 0.9) : dice;
+};
+
+/** 1 for the same street address, 0.6 for a few doors away on the same street. */
+export const addressSimilarity = (a: string, b: string) => {
+  const pa = parseAddress(a);
+  const pb = parseAddress(b);
+  if (!pa.street || pa.street !== pb.street) return 0;
+  if (pa.quadrant && pb.quadrant && pa.quadrant !== pb.quadrant) return 0;
+  if (pa.number === null || pb.number === null) return 0;
+  if (pa.number === pb.number) return 1;
+  return Math.abs(pa.number - pb.number) <= 10 ? 0.6 : 0;
+};
+
+export interface MatchScore {
+  /** Weighted total, 0–1. */
+  score: number;
+  name: number;
+  address: number;
+  meters: number;
+}
+
+/**
+ * How likely two records are the same place. Names must be similar and
+ * either the addresses or the locations must agree, so two businesses
+ * sharing a building (Eastern Market's stalls, a Lidl under a Target)
+ * never match however close they are.
+ */
+export const scoreMatch = (a: ResourcePin, b: ResourcePin): MatchScore => {
+  const name = nameSimilarity(a.label, b.label);
+  const address = addressSimilarity(a.address, b.address);
+  const meters = haversine(a.lat, a.lng, b.lat, b.lng) * METERS_PER_MILE;
+  const proximity = Math.min(1, Math.max(0, (FAR_METERS - meters) / (FAR_METERS - NEAR_METERS)));
+  const plausible = name >= 0.6 && (address >= 0.6 || meters <= 100);
+  const score = plausible
+    ? WEIGHTS.name * name + WEIGHTS.address * address + WEIGHTS.proximity * proximity
+    : 0;
+  return { score, name, address, meters };
+};
+
+export interface Match {
+  a: string;
+  b: string;
+  score: MatchScore;
+}
+
+const cellKey = (x: number, y: number) => `${x}:${y}`;
+
+/** Scored pairs at or above `threshold`, best first. Only nearby pins are compared. */
+export const findMatches = (pins: ResourcePin[], threshold = MATCH_THRESHOLD): Match[] => {
+  const cells = new Map<string, ResourcePin[]>();
+  const cellOf = (p: ResourcePin) =>
+    [Math.floor(p.lat / CELL_DEGREES), Math.floor(p.lng / CELL_DEGREES)] as const;
+  for (const p of pins) {
+    const key = cellKey(...cellOf(p));
+    cells.set(key, [...(cells.get(key) ?? []), p]);
+  }
+
+  const matches: Match[] = [];
+  for (const a of pins) {
+    const [x, y] = cellOf(a);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (const b of cells.get(cellKey(x + dx, y + dy)) ?? []) {
+          // Each pair once.
+          if (b.id <= a.id) continue;
+          const score = scoreMatch(a, b);
+          if (score.score >= threshold) matches.push({ a: a.id, b: b.id, score });
+        }
+      }
+    }
+  }
+  return matches.sort((m, n) => n.score.score - m.score.score);
+};
+
+// Which record leads a merged pin: the richest source first.
+const SOURCE_PRIORITY = ["health", "snap", "community"];
+
+const priority = (pin: ResourcePin) => {
+  const i = SOURCE_PRIORITY.indexOf(pin.source);
+  return i === -1 ? SOURCE_PRIORITY.length : i;
+};
+
+// Tags that describe one record rather than the place.
+const RECORD_TAGS = new Set(["Community-reported"]);
+
+/**
+ * One pin for a group of records of the same place: the leading record's
+ * name, location and type, with every program tag and any details it
+ * lacks taken from the others.
+ */
+export const mergePins = (group: ResourcePin[]): ResourcePin => {
+  const [lead, ...rest] = [...group].sort((a, b) => priority(a) - priority(b));
+  if (rest.length === 0) return lead;
+  const tags = [...lead.tags];
+  for (const tag of rest.flatMap((p) => p.tags)) {
+    if (!RECORD_TAGS.has(tag) && !tags.includes(tag)) tags.push(tag);
+  }
+  const extra = { ...lead.extra };
+  for (const p of rest) {
+    for (const [key, value] of Object.entries(p.extra ?? {})) {
+      if (value && !extra[key as keyof typeof extra]) extra[key as keyof typeof extra] = value;
+    }
+  }
+  // Any member being confirmed recently confirms the place.
+  const verified = rest.reduce((d, p) => latestDate(d, p.dates?.verified), lead.dates?.verified);
+  const { sameAs, ...canonical } = lead;
+  return {
+    ...canonical,
+    tags,
+    ...(verified && { dates: { ...lead.dates, verified } }),
+    ward: lead.ward ?? rest.find((p) => p.ward !== undefined)?.ward,
+    zip: lead.zip ?? rest.find((p) => p.zip)?.zip,
+    hours: lead.hours ?? rest.find((p) => p.hours)?.hours,
+    facility: lead.facility ?? rest.find((p) => p.facility)?.facility,
+    ...(Object.keys(extra).length > 0 && { extra }),
+    mergedFrom: rest.map((p) => ({ id: p.id, label: p.label, source: p.source })),
+  };
+};
+
+/**
+ * Collapses records of the same place into one pin each. Pairs come from
+ * findMatches plus any `sameAs` link a reviewer made; matches chain, so
+ * A≈B and B≈C put all three together.
+ */
+export const resolveEntities = (pins: ResourcePin[], threshold = MATCH_THRESHOLD) => {
+  const ids = new Set(pins.map((p) => p.id));
+  const parent = new Map(pins.map((p) => [p.id, p.id]));
+  const find = (id: string): string => {
+    const up = parent.get(id)!;
+    if (up === id) return id;
+    const root = find(up);
+    parent.set(id, root);
+    return root;
+  };
+  const union = (a: string, b: string) => parent.set(find(a), find(b));
+
+  for (const { a, b } of findMatches(pins, threshold)) union(a, b);
+  for (const p of pins) if (p.sameAs && ids.has(p.sameAs)) union(p.id, p.sameAs);
+
+  const groups = new Map<string, ResourcePin[]>();
+  for (const p of pins) {
+    const root = find(p.id);
+    groups.set(root, [...(groups.get(root) ?? []), p]);
+  }
+  return [...groups.values()].map(mergePins);
+};
@@ -0,0 +1,175 @@
+import type { ResourcePin, ResourceType } from "./resources";
+import type { SearchLocation } from "./url-state";
+
+export type SavedPlaceKind = "home" | "work";
+
+export const SAVED_PLACE_LABELS: Record<SavedPlaceKind, string> = {
+  home: "Home",
+  work: "Work",
+};
+
+/**
+ * A starred resource. Name and location are copied in so the list still
+ * reads sensibly if the place drops out of a later dataset.
+ */
+export interface SavedPin {
+  id: string;
+  label: string;
+  type: ResourceType;
+  address: string;
+  lat: number;
+  lng: number;
+  /** ISO timestamp. */
+  savedAt: string;
+}
+
+export interface Favorites {
+  pins: SavedPin[];
+  places: Partial<Record<SavedPlaceKind, SearchLocation>>;
+}
+
+export const EMPTY_FAVORITES: Favorites = { pins: [], places: {} };
+
+export const FAVORITES_KEY = "eq-favorites";
+const EXPORT_FORMAT = "equitymap-places";
+const EXPORT_VERSION = 1;
+
+const RESOURCE_TYPES: ResourceType[] = ["food", "health", "community"];
+const PLACE_KINDS: SavedPlaceKind[] = ["home", "work"];
+
+const isCoord = (v: unknown, limit: number) =>
+  typeof v === "number" && isFinite(v) && Math.abs(v) <= limit;
+
+const validLocation = (v: unknown): SearchLocation | null => {
+  const loc = v as SearchLocation;
+  if (!loc || !isCoord(loc.lat, 90) || !isCoord(loc.lng, 180)) return null;
+  return { lat: loc.lat, lng: loc.lng, label: String(loc.label || "Saved place") };
+};
+
+const validPin = (v: unknown): SavedPin | null => {
+  const pin = v as SavedPin;
+  if (!pin || typeof pin.id !== "string" || !pin.id) return null;
+  if (!isCoord(pin.lat, 90) || !isCoord(pin.lng, 180)) return null;
+  return {
+    id: pin.id,
+    label: String(pin.label || pin.id),
+    type: RESOURCE_TYPES.includes(pin.type) ? pin.type : "community",
+    address: String(pin.address || ""),
+    lat: pin.lat,
+    lng: pin.lng,
+    savedAt: typeof pin.savedAt === "string" ? pin.savedAt : new Date().toISOString(),
+  };
+};
+
+/** Keeps whatever is usable; entries that don't parse are dropped. */
+const sanitize = (raw: { pins?: unknown; places?: unknown }): Favorites => {
+  const pins: SavedPin[] = [];
+  for (const entry of Array.isArray(raw.pins) ? raw.pins : []) {
+    const pin = validPin(entry);
+    if (pin && !pins.some((p) => p.id === pin.id)) pins.push(pin);
+  }
+  const places: Favorites["places"] = {};
+  const rawPlaces = (raw.places ?? {}) as Record<string, unknown>;
+  for (const kind of PLACE_KINDS) {
+    const loc = validLocation(rawPlaces[kind]);
+    if (loc) places[kind] = loc;
+  }
+  return { pins, places };
+};
+
+export const loadFavorites = (storage: Storage = localStorage): Favorites => {
+  try {
+    const text = storage.getItem(FAVORITES_KEY);
+    return text ? sanitize(JSON.parse(text)) : EMPTY_FAVORITES;
+  } catch {
+    return EMPTY_FAVORITES;
+  }
+};
+
+export const saveFavorites = (favorites: Favorites, storage: Storage = localStorage) => {
+  storage.setItem(FAVORITES_KEY, JSON.stringify(favorites));
+};
+
+export const isFavorite = (favorites: Favorites, pinId: string) =>
+  favorites.pins.some((p) => p.id === pinId);
+
+export const toggleFavorite = (
+  favorites: Favorites,
+  pin: ResourcePin,
+  now = new Date()
+): Favorites =>
+  isFavorite(favorites, pin.id)
+    ? { ...favorites, pins: favorites.pins.filter((p) => p.id !== pin.id) }
+    : {
+        ...favorites,
+        pins: [
+          ...favorites.pins,
+          {
+            id: pin.id,
+            label: pin.label,
+            type: pin.type,
+            address: pin.address,
+            lat: pin.lat,
+            lng: pin.lng,
+            savedAt: now.toISOString(),
+          },
+        ],
+      };
+
+export const removeFavorite = (favorites: Favorites, pinId: string): Favorites => ({
+  ...favorites,
+  pins: favorites.pins.filter((p) => p.id !== pinId),
+});
+
+export const setSavedPlace = (
+  favorites: Favorites,
+  kind: SavedPlaceKind,
+  location: SearchLocation | null
+): Favorites => {
+  const places = { ...favorites.places };
+  if (location) places[kind] = location;
+  else delete places[kind];
+  return { ...favorites, places };
+};
+
+export const exportFavorites = (favorites: Favorites, now = new Date()) =>
+  JSON.stringify(
+    {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exportedAt: now.toISOString(),
+      ...favorites,
+    },
+    null,
+    2
+  );
+
+/** Parses an exported file; anything that isn't one comes back as an error. */
+export const parseFavoritesFile = (text: string): Favorites | { error: string } => {
+  let raw: { format?: string; version?: number; pins?: unknown; places?: unknown };
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { error: "The file isn't valid JSON." };
+  }
+  if (raw?.format !== EXPORT_FORMAT) {
+    return { error: "This isn't an EquityMap places file." };
+  }
+  if (typeof raw.version !== "number" || raw.version > EXPORT_VERSION) {
+    return { error: "This file was made by a newer version of EquityMap." };
+  }
+  return sanitize(raw);
+};
+
+/**
+ * Adds imported places to the existing ones. Starred resources are merged
+ * by id; home and work are only filled in where none is saved, so an
+ * import never moves someone's own home.
+ */
+export const mergeFavorites = (current: Favorites, imported: Favorites): Favorites => {
+  const ids = new Set(current.pins.map((p) => p.id));
+  return {
+    pins: [...current.pins, ...imported.pins.filter((p) => !ids.has(p.id))],
+    places: { ...imported.places, ...current.places },
+  };
+};
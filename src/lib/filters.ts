@@ -0,0 +1,176 @@
+import {
+  FACILITY_ATTRIBUTES,
+  FACILITY_GROUPS,
+  facilityFilterId,
+  hasAttribute,
+} from "./health-facility";
+import type { ResourcePin, ResourceType } from "./resources";
+
+export type FilterMode = "and" | "or";
+
+export interface FilterOption {
+  id: string;
+  label: string;
+  icon?: string;
+  match: (pin: ResourcePin) => boolean;
+}
+
+export interface FilterGroup {
+  id: string;
+  label: string;
+  /** Default combination of selected options within the group. */
+  mode: FilterMode;
+  /** Options are mutually exclusive per pin (a facet), so only OR makes sense. */
+  facet?: boolean;
+  options: FilterOption[];
+}
+
+/** Per-group mode overrides chosen by the user. */
+export type GroupModes = Record<string, FilterMode>;
+
+const TYPE_OPTIONS: { type: ResourceType; label: string; icon: string }[] = [
+  { type: "food", label: "Food / SNAP", icon: "🍎" },
+  { type: "health", label: "Healthcare", icon: "🏥" },
+  { type: "community", label: "Community", icon: "🤝" },
+];
+
+const ACCESS_OPTIONS = [
+  { id: "Accepts EBT", label: "Accepts EBT", icon: "💳" },
+  { id: "Accepts WIC", label: "Accepts WIC", icon: "🍼" },
+  { id: "Accepts Medicaid", label: "Accepts Medicaid", icon: "🏥" },
+  { id: "Walk-ins OK", label: "Walk-ins OK", icon: "🚶" },
+];
+
+/**
+ * Builds the filter groups. Store types come from the loaded data so new
+ * SNAP categories show up without code changes. Groups are ANDed together;
+ * within a group, options combine by the group's mode.
+ */
+export const buildFilterGroups = (pins: ResourcePin[]): FilterGroup[] => {
+  const storeTypes = [
+    ...new Set(
+      pins.filter((p) => p.type === "food" && p.storeType).map((p) => p.storeType)
+    ),
+  ].sort();
+
+  return [
+    {
+      id: "type",
+      label: "Resource type",
+      mode: "or",
+      facet: true,
+      options: TYPE_OPTIONS.map(({ type, label, icon }) => ({
+        id: `type:${type}`,
+        label,
+        icon,
+        match: (p) => p.type === type,
+      })),
+    },
+    {
+      id: "access",
+      label: "Access",
+      mode: "and",
+      options: ACCESS_OPTIONS.map(({ id, label, icon }) => ({
+        id,
+        label,
+        icon,
+        match: (p) => p.tags.includes(id),
+      })),
+    },
+    {
+      id: "storeType",
+      label: "SNAP store type",
+      mode: "or",
+      facet: true,
+      options: storeTypes.map((storeType) => ({
+        id: `store:${storeType}`,
+        label: storeType,
+        match: (p) => p.type === "food" && p.storeType === storeType,
+      })),
+    },
+    ...FACILITY_GROUPS.map(
+      (group): FilterGroup => ({
+        id: `facility-${group.id}`,
+        label: group.label,
+        mode: "and",
+        options: FACILITY_ATTRIBUTES.filter((a) => a.group === group.id).map(
+          (a) => ({
+            id: facilityFilterId(a.key),
+            label: a.label,
+            match: (p) => hasAttribute(p.facility, a.key),
+          })
+        ),
+      })
+    ),
+  ];
+};
+
+export const groupMode = (group: FilterGroup, modes: GroupModes): FilterMode =>
+  group.facet ? "or" : modes[group.id] ?? group.mode;
+
+const matchesGroup = (
+  pin: ResourcePin,
+  options: FilterOption[],
+  mode: FilterMode
+) =>
+  options.length === 0 ||
+  (mode === "and"
+    ? options.every((o) => o.match(pin))
+    : options.some((o) => o.match(pin)));
+
+const selectedOptions = (group: FilterGroup, active: Set<string>) =>
+  group.options.filter((o) => active.has(o.id));
+
+export const applyFilters = (
+  pins: ResourcePin[],
+  groups: FilterGroup[],
+  activeIds: string[],
+  modes: GroupModes = {}
+): ResourcePin[] => {
+  const active = new Set(activeIds);
+  const selected = groups
+    .map((g) => ({ options: selectedOptions(g, active), mode: groupMode(g, modes) }))
+    .filter((g) => g.options.length > 0);
+  if (selected.length === 0) return pins;
+  return pins.filter((p) =>
+    selected.every((g) => matchesGroup(p, g.options, g.mode))
+  );
+};
+
+/**
+ * Live count for every option: how many pins would show for it given the
+ * other selections. In OR groups that is the option on its own (alongside
+ * the other groups); in AND groups it is the option added to the current
+ * selection.
+ */
+export const countOptions = (
+  pins: ResourcePin[],
+  groups: FilterGroup[],
+  activeIds: string[],
+  modes: GroupModes = {}
+): Record<string, number> => {
+  const active = new Set(activeIds);
+  const counts: Record<string, number> = {};
+
+  for (const group of groups) {
+    const mode = groupMode(group, modes);
+    const others = groups
+      .filter((g) => g !== group)
+      .map((g) => ({ options: selectedOptions(g, active), mode: groupMode(g, modes) }))
+      .filter((g) => g.options.length > 0);
+    const base = pins.filter((p) =>
+      others.every((g) => matchesGroup(p, g.options, g.mode))
+    );
+    const current = selectedOptions(group, active);
+
+    for (const option of group.options) {
+      const required =
+        mode === "and"
+          ? [...current.filter((o) => o !== option), option]
+          : [option];
+      counts[option.id] = base.filter((p) => required.every((o) => o.match(p)))
+        .length;
+    }
+  }
+  return counts;
+};
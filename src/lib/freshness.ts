@@ -0,0 +1,93 @@
+import type { ResourcePin } from "./resources";
+
+// How current each record is, going by the dates its source publishes
+// rather than when we fetched the file.
+
+/** Dates a record's source published about it, as "YYYY-MM-DD". */
+export interface SourceDates {
+  /** When the source last confirmed or edited the record. */
+  verified?: string;
+  /** Start of the retailer's current SNAP authorization. */
+  authorized?: string;
+  /** When that authorization ends or ended. */
+  ends?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * USDA reauthorizes SNAP retailers about every five years, so a record no
+ * source has confirmed for longer than that may well be out of date.
+ */
+export const STALE_AFTER_DAYS = 5 * 365;
+/** Authorizations this recent get a "newly authorized" badge. */
+export const NEW_WITHIN_DAYS = 90;
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/**
+ * Reads the date formats the datasets use into "YYYY-MM-DD": USDA's
+ * "9/4/2025", DC GIS's "2020/03/13 00:00:00+00" and ISO timestamps.
+ * Anything else, including blanks, is undefined.
+ */
+export const parseSourceDate = (text: string | undefined) => {
+  const value = (text || "").trim();
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const ymd = value.match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})/);
+  const [y, m, d] = us ? [us[3], us[1], us[2]] : ymd ? [ymd[1], ymd[2], ymd[3]] : [];
+  if (!y) return undefined;
+  const date = new Date(Date.UTC(Number(y), Number(m) - 1, Number(d)));
+  // Rejects 2/30 and the like, which Date would roll into March.
+  if (date.getUTCMonth() !== Number(m) - 1 || date.getUTCDate() !== Number(d)) return undefined;
+  return `${y}-${pad(Number(m))}-${pad(Number(d))}`;
+};
+
+/** The later of two "YYYY-MM-DD" dates; either may be missing. */
+export const latestDate = (a: string | undefined, b: string | undefined) =>
+  !a ? b : !b ? a : a > b ? a : b;
+
+/**
+ * When the oldest of the loaded sources was fetched, which is how current
+ * the map as a whole is; null when nothing loaded.
+ */
+export const oldestLoad = (sources: { loadedAt: Date }[]): Date | null =>
+  sources.length === 0
+    ? null
+    : new Date(Math.min(...sources.map((s) => s.loadedAt.getTime())));
+
+const daysSince = (date: string, now: Date) => (now.getTime() - Date.parse(date)) / DAY_MS;
+
+/** False once the source says the record's authorization has ended. */
+export const isCurrent = (pin: ResourcePin, now = new Date()) =>
+  !pin.dates?.ends || daysSince(pin.dates.ends, now) < 1;
+
+export interface Freshness {
+  /** "YYYY-MM-DD", or null when the source gives no date. */
+  verified: string | null;
+  stale: boolean;
+  newlyAuthorized: boolean;
+}
+
+export const pinFreshness = (pin: ResourcePin, now = new Date()): Freshness => {
+  const verified = pin.dates?.verified ?? null;
+  const authorized = pin.dates?.authorized;
+  return {
+    verified,
+    stale: !!verified && daysSince(verified, now) > STALE_AFTER_DAYS,
+    newlyAuthorized: !!authorized && daysSince(authorized, now) <= NEW_WITHIN_DAYS,
+  };
+};
+
+/** Dated within the stale window; undated records don't count as verified. */
+export const isVerified = (pin: ResourcePin, now = new Date()) => {
+  const { verified, stale } = pinFreshness(pin, now);
+  return !!verified && !stale;
+};
+
+/** "Mar 2020", in the reader's language. */
+export const formatSourceDate = (date: string, locale?: string) =>
+  new Date(date).toLocaleDateString(locale, {
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
@@ -0,0 +1,171 @@
+import {
+  formatAddress,
+  levenshtein,
+  parseAddress,
+  quadrantAt,
+  streetStem,
+  type Quadrant,
+} from "./address";
+import type { GeocodeResult } from "./types";
+
+export interface AddressRow {
+  address: string;
+  zip: string;
+  lat: number;
+  lng: number;
+}
+
+interface AddressPoint {
+  number: number | null;
+  quadrant: Quadrant;
+  zip: string | null;
+  lat: number;
+  lng: number;
+}
+
+export interface AddressIndex {
+  /** Normalized street name → every known point on it, any quadrant. */
+  streets: Map<string, AddressPoint[]>;
+  zips: Map<string, AddressPoint[]>;
+}
+
+export type IndexMatch = Omit<GeocodeResult, "provider">;
+
+export const buildAddressIndex = (rows: AddressRow[]): AddressIndex => {
+  const streets = new Map<string, AddressPoint[]>();
+  const zips = new Map<string, AddressPoint[]>();
+  for (const row of rows) {
+    if (!isFinite(row.lat) || !isFinite(row.lng)) continue;
+    const parsed = parseAddress(row.address);
+    if (!parsed.street) continue;
+    const point: AddressPoint = {
+      number: parsed.number,
+      quadrant: parsed.quadrant ?? quadrantAt(row.lat, row.lng),
+      zip: parsed.zip ?? (row.zip || null),
+      lat: row.lat,
+      lng: row.lng,
+    };
+    if (!streets.has(parsed.street)) streets.set(parsed.street, []);
+    streets.get(parsed.street).push(point);
+    if (point.zip) {
+      if (!zips.has(point.zip)) zips.set(point.zip, []);
+      zips.get(point.zip).push(point);
+    }
+  }
+  for (const points of streets.values()) {
+    points.sort((a, b) => (a.number ?? 0) - (b.number ?? 0));
+  }
+  return { streets, zips };
+};
+
+const centroid = (points: AddressPoint[]) => ({
+  lat: points.reduce((s, p) => s + p.lat, 0) / points.length,
+  lng: points.reduce((s, p) => s + p.lng, 0) / points.length,
+});
+
+/** How well an indexed street name matches the query's, 0 when it doesn't. */
+const streetScore = (query: string, candidate: string): number => {
+  if (candidate === query) return 1;
+  const stem = streetStem(candidate);
+  if (stem === query) return 0.9; // "Georgia" for "Georgia Ave"
+  if (stem === streetStem(query)) return 0.8; // "Georgia St" for "Georgia Ave"
+  if (query.length >= 3 && candidate.startsWith(query)) return 0.7; // typing "Penn"
+  const tolerance = query.length <= 6 ? 1 : 2;
+  const d = levenshtein(query, candidate);
+  return d <= tolerance ? 0.75 - 0.1 * d : 0;
+};
+
+/** Places a house number on a street from the known points around it. */
+const locate = (
+  number: number | null,
+  points: AddressPoint[]
+): Pick<IndexMatch, "lat" | "lng" | "precision"> & { weight: number } => {
+  const numbered = points.filter((p) => p.number !== null);
+  if (number === null || numbered.length === 0) {
+    return { ...centroid(points), precision: "street", weight: number === null ? 1 : 0.6 };
+  }
+  const exact = numbered.find((p) => p.number === number);
+  if (exact) return { lat: exact.lat, lng: exact.lng, precision: "address", weight: 1 };
+
+  const lower = [...numbered].reverse().find((p) => p.number < number);
+  const upper = numbered.find((p) => p.number > number);
+  if (lower && upper) {
+    const t = (number - lower.number) / (upper.number - lower.number);
+    return {
+      lat: lower.lat + t * (upper.lat - lower.lat),
+      lng: lower.lng + t * (upper.lng - lower.lng),
+      precision: "interpolated",
+      weight: 0.95,
+    };
+  }
+  // Off the end of what we know: DC blocks run 100 numbers, so within a
+  // couple of blocks the nearest point is still a fair guess.
+  const nearest = lower ?? upper;
+  return Math.abs(nearest.number - number) <= 200
+    ? { lat: nearest.lat, lng: nearest.lng, precision: "street", weight: 0.7 }
+    : { ...centroid(points), precision: "street", weight: 0.5 };
+};
+
+/**
+ * Looks an address up in the index. Without a quadrant every quadrant the
+ * street runs through is returned (ranked lower, since "H St" exists in
+ * both NE and NW); a quadrant the street doesn't have falls back to the
+ * ones it does.
+ */
+export const searchAddressIndex = (
+  index: AddressIndex,
+  query: string,
+  limit = 5
+): IndexMatch[] => {
+  const parsed = parseAddress(query);
+
+  if (!parsed.street) {
+    const points = parsed.zip ? index.zips.get(parsed.zip) : undefined;
+    if (!points) return [];
+    return [
+      {
+        ...centroid(points),
+        label: `ZIP ${parsed.zip}`,
+        precision: "zip",
+        quadrant: null,
+        zip: parsed.zip,
+        score: 1,
+      },
+    ];
+  }
+
+  const matches: IndexMatch[] = [];
+  for (const [street, points] of index.streets) {
+    const sScore = streetScore(parsed.street, street);
+    if (sScore === 0) continue;
+
+    const byQuadrant = new Map<Quadrant, AddressPoint[]>();
+    for (const p of points) {
+      if (!byQuadrant.has(p.quadrant)) byQuadrant.set(p.quadrant, []);
+      byQuadrant.get(p.quadrant).push(p);
+    }
+    const exactQuadrant = parsed.quadrant && byQuadrant.has(parsed.quadrant);
+
+    for (const [quadrant, qPoints] of byQuadrant) {
+      let qScore = 0.85; // quadrant not given
+      if (parsed.quadrant) {
+        if (quadrant === parsed.quadrant) qScore = 1;
+        else if (exactQuadrant) continue;
+        else qScore = 0.5;
+      }
+      const spot = locate(parsed.number, qPoints);
+      const zipBonus = parsed.zip && qPoints.some((p) => p.zip === parsed.zip) ? 1 : 0.95;
+      matches.push({
+        lat: spot.lat,
+        lng: spot.lng,
+        precision: spot.precision,
+        label: formatAddress(parsed.number, street, quadrant),
+        quadrant,
+        zip: parsed.zip ?? qPoints.find((p) => p.zip)?.zip ?? null,
+        score: sScore * qScore * spot.weight * zipBonus,
+      });
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+};
@@ -0,0 +1,175 @@
+export type Quadrant = "NW" | "NE" | "SE" | "SW";
+
+export interface ParsedAddress {
+  number: number | null;
+  /** Upper-case street name with standard USPS suffix, e.g. "GEORGIA AVE". */
+  street: string;
+  quadrant: Quadrant | null;
+  zip: string | null;
+}
+
+// Every spelling of a quadrant we've seen typed: "NW", "N.W.", "N W",
+// "Northwest", "North West", "north-west".
+const QUADRANT_WORDS: Record<string, Quadrant> = {
+  NW: "NW",
+  NORTHWEST: "NW",
+  NE: "NE",
+  NORTHEAST: "NE",
+  SE: "SE",
+  SOUTHEAST: "SE",
+  SW: "SW",
+  SOUTHWEST: "SW",
+};
+
+const SUFFIXES: Record<string, string> = {
+  STREET: "ST",
+  STR: "ST",
+  AVENUE: "AVE",
+  AV: "AVE",
+  ROAD: "RD",
+  PLACE: "PL",
+  BOULEVARD: "BLVD",
+  DRIVE: "DR",
+  TERRACE: "TER",
+  COURT: "CT",
+  CIRCLE: "CIR",
+  PARKWAY: "PKWY",
+  LANE: "LN",
+  HIGHWAY: "HWY",
+  SQUARE: "SQ",
+  ALLEY: "ALY",
+  WAY: "WAY",
+};
+
+const STREET_SUFFIXES = new Set(Object.values(SUFFIXES));
+
+const ORDINAL_WORDS: Record<string, string> = {
+  FIRST: "1ST",
+  SECOND: "2ND",
+  THIRD: "3RD",
+  FOURTH: "4TH",
+  FIFTH: "5TH",
+  SIXTH: "6TH",
+  SEVENTH: "7TH",
+  EIGHTH: "8TH",
+  NINTH: "9TH",
+  TENTH: "10TH",
+  ELEVENTH: "11TH",
+  TWELFTH: "12TH",
+};
+
+const ordinal = (n: number) => {
+  const teen = n % 100 >= 11 && n % 100 <= 13;
+  return `${n}${(!teen && ["TH", "ST", "ND", "RD"][n % 10]) || "TH"}`;
+};
+
+const CITY_WORDS = /\b(WASHINGTON|DISTRICT OF COLUMBIA|D ?C|USA|US)\b/g;
+const UNIT = /\b(SUITE|STE|UNIT|APT|FL|FLOOR|RM|ROOM|#)\s*\S+/g;
+
+/**
+ * Splits a free-text DC address into number, street, quadrant and ZIP.
+ * Tolerates the usual variations: "N.W." / "Northwest", missing quadrant,
+ * "Street" vs "St", "14 St" vs "14th St", city and unit suffixes.
+ */
+export const parseAddress = (text: string): ParsedAddress => {
+  let s = ` ${text.toUpperCase()} `;
+
+  const zipMatch = s.match(/\b(20[0-5]\d\d)(?:-\d{4})?\b/);
+  const zip = zipMatch ? zipMatch[1] : null;
+  if (zipMatch) s = s.replace(zipMatch[0], " ");
+
+  s = s
+    .replace(UNIT, " ")
+    .replace(/[.,]/g, " ")
+    .replace(/-/g, " ")
+    .replace(CITY_WORDS, " ")
+    // "N W", "NORTH WEST" → one token
+    .replace(/\b(N|NORTH|S|SOUTH)\s+(W|WEST|E|EAST)\b/g, (_, a, b) => `${a[0]}${b[0]}`)
+    .replace(/\s+/g, " ")
+    .trim();
+
+  let tokens = s.split(" ").filter(Boolean);
+
+  // The quadrant is normally last, but "NW 14th St" happens too.
+  let quadrant: Quadrant | null = null;
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    const q = QUADRANT_WORDS[tokens[i]];
+    if (q && (i === tokens.length - 1 || i === 0 || i === 1)) {
+      quadrant = q;
+      tokens = tokens.filter((_, j) => j !== i);
+      break;
+    }
+  }
+
+  let number: number | null = null;
+  const numMatch = tokens[0]?.match(/^(\d+)[A-Z]?$/);
+  // "14 St NW" is a street, not house 14 on "St".
+  const bareNumberedStreet =
+    tokens.length === 2 && (SUFFIXES[tokens[1]] || STREET_SUFFIXES.has(tokens[1]));
+  if (numMatch && tokens.length >= 2 && !bareNumberedStreet) {
+    number = parseInt(numMatch[1], 10);
+    tokens = tokens.slice(1);
+  }
+
+  const street = tokens
+    .map((t, i) => {
+      if (ORDINAL_WORDS[t]) return ORDINAL_WORDS[t];
+      if (/^\d+$/.test(t) && i < tokens.length - 1) return ordinal(parseInt(t, 10));
+      if (t === "MLK") return "MARTIN LUTHER KING";
+      if (i === tokens.length - 1 && SUFFIXES[t]) return SUFFIXES[t];
+      return t;
+    })
+    .join(" ")
+    .replace(/\bMARTIN LUTHER KING( JR)?\b/, "MARTIN LUTHER KING JR")
+    .replace(/\bSAINT\b/, "ST");
+
+  return { number, street, quadrant, zip };
+};
+
+/** Street name without its suffix, for queries like "Georgia NW". */
+export const streetStem = (street: string) => {
+  const tokens = street.split(" ");
+  return tokens.length > 1 && STREET_SUFFIXES.has(tokens[tokens.length - 1])
+    ? tokens.slice(0, -1).join(" ")
+    : street;
+};
+
+// The quadrants meet at the Capitol: North/South Capitol St and East
+// Capitol St / the Mall divide the city.
+const CAPITOL = { lat: 38.8899, lng: -77.0091 };
+
+/** Quadrant a point falls in, for index rows that leave it out. */
+export const quadrantAt = (lat: number, lng: number): Quadrant =>
+  `${lat >= CAPITOL.lat ? "N" : "S"}${lng >= CAPITOL.lng ? "E" : "W"}` as Quadrant;
+
+const titleWord = (w: string) =>
+  /^\d/.test(w) ? w.toLowerCase() : w[0] + w.slice(1).toLowerCase();
+
+/** "1600 Pennsylvania Ave NW" */
+export const formatAddress = (
+  number: number | null,
+  street: string,
+  quadrant: Quadrant | null
+) =>
+  [number, street.split(" ").map(titleWord).join(" "), quadrant]
+    .filter((p) => p !== null && p !== "")
+    .join(" ");
+
+/** Edit distance, for typo-tolerant street matching. */
+export const levenshtein = (a: string, b: string): number => {
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = prev[j];
+      prev[j] = Math.min(
+        prev[j] + 1,
+        prev[j - 1] + 1,
+        diag + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diag = tmp;
+    }
+  }
+  return prev[b.length];
+};
@@ -0,0 +1,56 @@
+import { localProvider } from "./local";
+import { nominatimProvider } from "./nominatim";
+import { parseAddress } from "./address";
+import type { GeocodePrecision, GeocodeResult, GeocodingProvider } from "./types";
+
+export * from "./types";
+export { parseAddress, formatAddress, type Quadrant } from "./address";
+export { ADDRESS_POINTS_URL } from "./local";
+
+/**
+ * Sending addresses to OpenStreetMap is opt-in: set
+ * VITE_GEOCODER_FALLBACK=nominatim to try it when the local index has
+ * nothing.
+ */
+const FALLBACK_ENABLED = import.meta.env.VITE_GEOCODER_FALLBACK === "nominatim";
+
+export const GEOCODING_PROVIDERS: GeocodingProvider[] = FALLBACK_ENABLED
+  ? [localProvider, nominatimProvider]
+  : [localProvider];
+
+// Matches below this are treated as misses so the next provider gets a turn.
+const MIN_SCORE = 0.3;
+
+const PINPOINTED = new Set<GeocodePrecision>(["address", "interpolated"]);
+
+/**
+ * Tries each provider in order and returns the first one's results. When
+ * the query has a house number, street and ZIP centroids only count if no
+ * later provider can place the address itself. Online providers are
+ * skipped while offline; a provider that throws is logged and skipped.
+ */
+export const geocode = async (
+  query: string,
+  { limit = 5, providers = GEOCODING_PROVIDERS } = {}
+): Promise<GeocodeResult[]> => {
+  const wantsAddress = parseAddress(query).number !== null;
+  let rough: GeocodeResult[] = [];
+  for (const provider of providers) {
+    if (!provider.offline && !navigator.onLine) continue;
+    try {
+      const results = (await provider.geocode(query, limit)).filter(
+        (r) => r.score >= MIN_SCORE
+      );
+      if (results.length === 0) continue;
+      if (!wantsAddress || results.some((r) => PINPOINTED.has(r.precision))) return results;
+      if (rough.length === 0) rough = results;
+    } catch (err) {
+      console.warn(`Geocoder "${provider.id}" failed:`, err);
+    }
+  }
+  return rough;
+};
+
+/** Rough DC bounding box check. */
+export const isInDC = (lat: number, lng: number) =>
+  lat >= 38.79 && lat <= 38.996 && lng >= -77.12 && lng <= -76.91;
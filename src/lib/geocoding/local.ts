@@ -0,0 +1,52 @@
+import Papa from "papaparse";
+import {
+  buildAddressIndex,
+  searchAddressIndex,
+  type AddressIndex,
+} from "./address-index";
+import type { GeocodingProvider } from "./types";
+
+/**
+ * Address points in the DC Master Address Repository's column layout
+ * (FULLADDRESS, ZIPCODE, LATITUDE, LONGITUDE). The bundled file is built
+ * from the app's own datasets; a full MAR "Address Points" export with the
+ * same columns can replace it as-is.
+ */
+export const ADDRESS_POINTS_URL = "/DC_Address_Points.csv";
+
+let indexPromise: Promise<AddressIndex> | null = null;
+
+const loadIndex = () => {
+  indexPromise ??= (async () => {
+    const res = await fetch(ADDRESS_POINTS_URL);
+    if (!res.ok) {
+      throw new Error(`Failed to fetch ${ADDRESS_POINTS_URL}: ${res.status}`);
+    }
+    const { data } = Papa.parse(await res.text(), {
+      header: true,
+      skipEmptyLines: true,
+    });
+    return buildAddressIndex(
+      (data as Record<string, string>[]).map((row) => ({
+        address: row["FULLADDRESS"] || "",
+        zip: (row["ZIPCODE"] || "").trim(),
+        lat: parseFloat(row["LATITUDE"]),
+        lng: parseFloat(row["LONGITUDE"]),
+      }))
+    );
+  })().catch((err) => {
+    indexPromise = null; // let the next search retry
+    throw err;
+  });
+  return indexPromise;
+};
+
+export const localProvider: GeocodingProvider = {
+  id: "dc-address-index",
+  offline: true,
+  geocode: async (query, limit) =>
+    searchAddressIndex(await loadIndex(), query, limit).map((m) => ({
+      ...m,
+      provider: "dc-address-index",
+    })),
+};
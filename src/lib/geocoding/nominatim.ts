@@ -0,0 +1,57 @@
+import type { GeocodeResult, GeocodingProvider } from "./types";
+
+const ENDPOINT = "https://nominatim.openstreetmap.org/search";
+// Nominatim's usage policy allows at most one request per second.
+const MIN_INTERVAL_MS = 1100;
+// left, top, right, bottom
+const DC_VIEWBOX = "-77.12,39.0,-76.9,38.79";
+
+let nextSlot = 0;
+
+const waitForSlot = async () => {
+  const now = Date.now();
+  const wait = Math.max(0, nextSlot - now);
+  nextSlot = Math.max(now, nextSlot) + MIN_INTERVAL_MS;
+  if (wait > 0) await new Promise((r) => setTimeout(r, wait));
+};
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  display_name: string;
+  importance?: number;
+  type?: string;
+  address?: { house_number?: string; road?: string; postcode?: string };
+}
+
+export const nominatimProvider: GeocodingProvider = {
+  id: "nominatim",
+  offline: false,
+  geocode: async (query, limit) => {
+    await waitForSlot();
+    const params = new URLSearchParams({
+      format: "json",
+      q: `${query}, Washington, DC`,
+      limit: String(limit),
+      countrycodes: "us",
+      addressdetails: "1",
+      viewbox: DC_VIEWBOX,
+      bounded: "1",
+    });
+    const res = await fetch(`${ENDPOINT}?${params}`);
+    if (!res.ok) throw new Error(`Nominatim search failed: ${res.status}`);
+    const places: NominatimPlace[] = await res.json();
+    return places.map(
+      (p): GeocodeResult => ({
+        lat: parseFloat(p.lat),
+        lng: parseFloat(p.lon),
+        label: p.display_name.split(",").slice(0, 2).join(",").trim(),
+        precision: p.address?.house_number ? "address" : "place",
+        quadrant: null,
+        zip: p.address?.postcode ?? null,
+        score: Math.min(1, p.importance ?? 0.5),
+        provider: "nominatim",
+      })
+    );
+  },
+};
@@ -0,0 +1,34 @@
+import type { Quadrant } from "./address";
+
+/**
+ * How exact a result is: a known address point, a house number placed
+ * between two known points, a street or ZIP centroid, or a place name from
+ * an external service.
+ */
+export type GeocodePrecision =
+  | "address"
+  | "interpolated"
+  | "street"
+  | "zip"
+  | "place";
+
+export interface GeocodeResult {
+  lat: number;
+  lng: number;
+  /** Display form, e.g. "1600 Pennsylvania Ave NW". */
+  label: string;
+  precision: GeocodePrecision;
+  quadrant: Quadrant | null;
+  zip: string | null;
+  /** 0–1, higher is a better match. */
+  score: number;
+  /** Id of the provider that produced the result. */
+  provider: string;
+}
+
+export interface GeocodingProvider {
+  id: string;
+  /** False when the provider needs the network. */
+  offline: boolean;
+  geocode(query: string, limit: number): Promise<GeocodeResult[]>;
+}
@@ -0,0 +1,97 @@
+export type FacilityAttributeGroup =
+  | "payment"
+  | "services"
+  | "specialty"
+  | "populations";
+
+export const FACILITY_GROUPS: { id: FacilityAttributeGroup; label: string }[] = [
+  { id: "payment", label: "Cost & insurance" },
+  { id: "services", label: "Services" },
+  { id: "specialty", label: "Specialty care" },
+  { id: "populations", label: "Populations served" },
+];
+
+export const FACILITY_ATTRIBUTES = [
+  // Cost & insurance
+  { key: "slidingScale", label: "Sliding-scale fees", group: "payment" },
+  { key: "seesUninsured", label: "Sees patients who can't pay", group: "payment" },
+  { key: "publicInsurance", label: "Public insurance", group: "payment" },
+  { key: "medicaid", label: "Medicaid", group: "payment" },
+  { key: "medicare", label: "Medicare", group: "payment" },
+  { key: "alliance", label: "DC Healthcare Alliance", group: "payment" },
+  { key: "privateInsurance", label: "Private insurance", group: "payment" },
+  { key: "acceptsNewPatients", label: "Accepting new patients", group: "payment" },
+  // Services
+  { key: "primaryCare", label: "Primary care", group: "services" },
+  { key: "pediatrics", label: "Pediatrics", group: "services" },
+  { key: "obstetrics", label: "Obstetrics", group: "services" },
+  { key: "reproductiveHealth", label: "Reproductive health", group: "services" },
+  { key: "dentistry", label: "Dentistry", group: "services" },
+  { key: "mentalHealth", label: "Mental health", group: "services" },
+  { key: "psychiatry", label: "Psychiatry", group: "services" },
+  { key: "pharmacy", label: "Pharmacy", group: "services" },
+  { key: "stiTesting", label: "STI testing & treatment", group: "services" },
+  { key: "hivCare", label: "HIV/AIDS care", group: "services" },
+  { key: "wic", label: "WIC", group: "services" },
+  { key: "nutritionEd", label: "Health & nutrition education", group: "services" },
+  { key: "socialServices", label: "Social services", group: "services" },
+  { key: "insuranceEnrollment", label: "Insurance enrollment help", group: "services" },
+  { key: "childcare", label: "Childcare", group: "services" },
+  // Specialty care
+  { key: "cardiology", label: "Cardiology", group: "specialty" },
+  { key: "dermatology", label: "Dermatology", group: "specialty" },
+  { key: "endocrinology", label: "Endocrinology", group: "specialty" },
+  { key: "gastroenterology", label: "Gastroenterology", group: "specialty" },
+  { key: "infectiousDisease", label: "Infectious disease", group: "specialty" },
+  { key: "nephrology", label: "Nephrology", group: "specialty" },
+  { key: "neurology", label: "Neurology", group: "specialty" },
+  { key: "oncology", label: "Oncology", group: "specialty" },
+  { key: "ophthalmology", label: "Ophthalmology", group: "specialty" },
+  { key: "orthopedics", label: "Orthopedics", group: "specialty" },
+  { key: "podiatry", label: "Podiatry", group: "specialty" },
+  { key: "pulmonary", label: "Pulmonary medicine", group: "specialty" },
+  { key: "rheumatology", label: "Rheumatology", group: "specialty" },
+  { key: "urology", label: "Urology", group: "specialty" },
+  { key: "generalSurgery", label: "General surgery", group: "specialty" },
+  { key: "oralSurgery", label: "Oral surgery", group: "specialty" },
+  // Populations served
+  { key: "homeless", label: "People experiencing homelessness", group: "populations" },
+  { key: "hiv", label: "People living with HIV", group: "populations" },
+  { key: "lgbtq", label: "LGBTQ+", group: "populations" },
+  { key: "languageLimited", label: "Limited English proficiency", group: "populations" },
+  { key: "elderly", label: "Older adults", group: "populations" },
+  { key: "childSpecialNeeds", label: "Children with special needs", group: "populations" },
+  { key: "physicallyDisabled", label: "Physical disabilities", group: "populations" },
+  { key: "intellectuallyDisabled", label: "Intellectual disabilities", group: "populations" },
+  { key: "mentalIllness", label: "Serious mental illness", group: "populations" },
+] as const satisfies readonly {
+  key: string;
+  label: string;
+  group: FacilityAttributeGroup;
+}[];
+
+export type FacilityAttributeKey = (typeof FACILITY_ATTRIBUTES)[number]["key"];
+
+/** Typed view of a primary-care facility's published attributes. */
+export interface HealthFacility {
+  /** Attributes the source marks as offered; absent keys are "not listed". */
+  attributes: Partial<Record<FacilityAttributeKey, boolean>>;
+  facilityType?: string;
+  practiceType?: string;
+  limitedAccess?: string;
+  otherPopulations?: string;
+  otherLanguages?: string;
+  eveningHours?: string;
+  hospitalAffiliation?: string;
+}
+
+/** Prefix for facility-attribute ids inside the map's active filter list. */
+export const FACILITY_FILTER_PREFIX = "facility:";
+
+export const facilityFilterId = (key: FacilityAttributeKey) =>
+  `${FACILITY_FILTER_PREFIX}${key}`;
+
+export const hasAttribute = (
+  facility: HealthFacility | undefined,
+  key: FacilityAttributeKey
+) => !!facility?.attributes[key];
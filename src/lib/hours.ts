@@ -0,0 +1,224 @@
+/** Minutes since midnight. `close` may exceed 1440 when a day runs past midnight. */
+export interface TimeInterval {
+  open: number;
+  close: number;
+}
+
+export type DayHours =
+  | { kind: "closed" }
+  | { kind: "open24" }
+  | { kind: "intervals"; intervals: TimeInterval[] }
+  | { kind: "unknown"; text: string };
+
+/** Seven entries, Monday first (matching the DC GIS column order). */
+export type WeeklyHours = DayHours[];
+
+export const DAY_NAMES = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+];
+
+const DAY_MINUTES = 24 * 60;
+const WEEK_MINUTES = 7 * DAY_MINUTES;
+
+const TIME = String.raw`(\d{1,2})(?::(\d{2}))?\s*([ap])\.?\s*m\.?|noon|midnight`;
+const RANGE = new RegExp(`(${TIME})\\s*(?:-|–|to)\\s*(${TIME})`, "gi");
+
+const toMinutes = (text: string): number | null => {
+  const t = text.trim().toLowerCase();
+  if (t === "noon") return 12 * 60;
+  if (t === "midnight") return 0;
+  const m = t.match(/^(\d{1,2})(?::(\d{2}))?\s*([ap])/);
+  if (!m) return null;
+  const hour = parseInt(m[1], 10);
+  const minute = m[2] ? parseInt(m[2], 10) : 0;
+  if (hour < 1 || hour > 12 || minute > 59) return null;
+  return ((hour % 12) + (m[3] === "p" ? 12 : 0)) * 60 + minute;
+};
+
+/** Sorts and merges overlapping intervals (the DC data repeats some ranges). */
+const mergeIntervals = (intervals: TimeInterval[]): TimeInterval[] =>
+  [...intervals]
+    .sort((a, b) => a.open - b.open)
+    .reduce<TimeInterval[]>((merged, next) => {
+      const last = merged[merged.length - 1];
+      if (last && next.open <= last.close) {
+        last.close = Math.max(last.close, next.close);
+      } else {
+        merged.push({ ...next });
+      }
+      return merged;
+    }, []);
+
+/**
+ * Parses one day's free-text hours, e.g. "8:30 AM - 12:30 PM 1:30PM - 5:30 PM",
+ * "9:00 AM -12:00 PM", "24 hours", "Closed". Blank text returns null so the
+ * caller can decide whether a blank day means closed or unknown.
+ */
+export const parseDayHours = (text: string | undefined): DayHours | null => {
+  const raw = (text || "").trim();
+  if (!raw) return null;
+  const lower = raw.toLowerCase();
+
+  if (/24\s*(hours|hrs|\/7)/.test(lower)) return { kind: "open24" };
+  if (/^closed\b/.test(lower)) return { kind: "closed" };
+
+  const intervals: TimeInterval[] = [];
+  for (const m of raw.matchAll(RANGE)) {
+    const open = toMinutes(m[1]);
+    let close = toMinutes(m[5]);
+    if (open === null || close === null) continue;
+    // "1:30 PM - 12:00 AM" closes at midnight; treat close <= open as next day.
+    if (close <= open) close += DAY_MINUTES;
+    intervals.push({ open, close });
+  }
+
+  return intervals.length > 0
+    ? { kind: "intervals", intervals: mergeIntervals(intervals) }
+    : { kind: "unknown", text: raw };
+};
+
+/**
+ * Builds a weekly model from seven per-day strings (Monday first). When at
+ * least one day is listed, blank days are read as closed; when none are, the
+ * result is null (hours unknown).
+ */
+export const parseWeeklyHours = (
+  days: (string | undefined)[]
+): WeeklyHours | null => {
+  const parsed = DAY_NAMES.map((_, i) => parseDayHours(days[i]));
+  if (parsed.every((d) => d === null)) return null;
+  return parsed.map((d) => d ?? { kind: "closed" });
+};
+
+/** Monday-first day index and minutes since midnight for a local Date. */
+export const weekPosition = (date: Date) => ({
+  day: (date.getDay() + 6) % 7,
+  minutes: date.getHours() * 60 + date.getMinutes(),
+});
+
+/** Open spans as minutes since Monday 00:00, wrapping past Sunday night. */
+const weeklySpans = (hours: WeeklyHours): TimeInterval[] =>
+  hours.flatMap((day, i) => {
+    const base = i * DAY_MINUTES;
+    if (day.kind === "open24") {
+      return [{ open: base, close: base + DAY_MINUTES }];
+    }
+    if (day.kind === "intervals") {
+      return day.intervals.map((iv) => ({
+        open: base + iv.open,
+        close: base + iv.close,
+      }));
+    }
+    return [];
+  });
+
+const isOpenAtMinute = (spans: TimeInterval[], minute: number) =>
+  spans.some(
+    (s) =>
+      (minute >= s.open && minute < s.close) ||
+      (minute + WEEK_MINUTES >= s.open && minute + WEEK_MINUTES < s.close)
+  );
+
+const hasUnknownDay = (hours: WeeklyHours) =>
+  hours.some((d) => d.kind === "unknown");
+
+/**
+ * Whether the place is open at the given Monday-first day and minute.
+ * Returns null when that can't be determined from the data.
+ */
+export const isOpenAt = (
+  hours: WeeklyHours | null | undefined,
+  day: number,
+  minutes: number
+): boolean | null => {
+  if (!hours) return null;
+  const spans = weeklySpans(hours);
+  const minute = day * DAY_MINUTES + minutes;
+  if (isOpenAtMinute(spans, minute)) return true;
+  // An unparseable day might cover this time (or spill over from yesterday).
+  const today = hours[day];
+  const yesterday = hours[(day + 6) % 7];
+  if (today.kind === "unknown" || yesterday.kind === "unknown") return null;
+  return false;
+};
+
+export const isOpenNow = (hours: WeeklyHours | null | undefined, now: Date) => {
+  const { day, minutes } = weekPosition(now);
+  return isOpenAt(hours, day, minutes);
+};
+
+export interface OpenStatus {
+  open: boolean;
+  /** When the status next flips, or null if it never does (24/7, never open). */
+  nextChange: Date | null;
+}
+
+/** Current open/closed state and the time of the next change. */
+export const openStatus = (
+  hours: WeeklyHours | null | undefined,
+  now: Date
+): OpenStatus | null => {
+  if (!hours || hasUnknownDay(hours)) return null;
+  const spans = weeklySpans(hours);
+  const { day, minutes } = weekPosition(now);
+  const start = day * DAY_MINUTES + minutes;
+  const open = isOpenAtMinute(spans, start);
+
+  // Status can only flip at a span boundary; check each one in order.
+  const boundaries = [
+    ...new Set(spans.flatMap((s) => [s.open, s.close])),
+  ].map((b) => b % WEEK_MINUTES);
+  let best: number | null = null;
+  for (const b of boundaries) {
+    const delta = (b - start + WEEK_MINUTES) % WEEK_MINUTES || WEEK_MINUTES;
+    if (isOpenAtMinute(spans, (start + delta) % WEEK_MINUTES) === open) {
+      continue;
+    }
+    if (best === null || delta < best) best = delta;
+  }
+
+  if (best === null) return { open, nextChange: null };
+  const next = new Date(now);
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + best);
+  return { open, nextChange: next };
+};
+
+/** "2h 15m", "40m" */
+export const formatDuration = (ms: number): string => {
+  const total = Math.max(0, Math.round(ms / 60000));
+  const h = Math.floor(total / 60);
+  const m = total % 60;
+  if (h >= 24) return `${Math.floor(h / 24)}d ${h % 24}h`;
+  return h > 0 ? `${h}h ${m}m` : `${m}m`;
+};
+
+export const formatTime = (minutes: number): string => {
+  const m = ((minutes % DAY_MINUTES) + DAY_MINUTES) % DAY_MINUTES;
+  const hour = Math.floor(m / 60);
+  const minute = m % 60;
+  const suffix = hour < 12 ? "AM" : "PM";
+  return `${hour % 12 || 12}:${String(minute).padStart(2, "0")} ${suffix}`;
+};
+
+/** "Open now" follows the clock; "Open at" pins a weekday and time. */
+export type OpenFilter =
+  | { mode: "now" }
+  | { mode: "at"; day: number; minutes: number };
+
+/** Keeps only places confirmed open for the filter; unknown hours fail. */
+export const matchesOpenFilter = (
+  hours: WeeklyHours | null | undefined,
+  filter: OpenFilter,
+  now: Date
+): boolean => {
+  const { day, minutes } =
+    filter.mode === "now" ? weekPosition(now) : filter;
+  return isOpenAt(hours, day, minutes) === true;
+};
@@ -0,0 +1,126 @@
+import type { AcsTract } from "./acs";
+import type { SourceProvenance } from "./data-sources";
+import type { ResourcePin } from "./resources";
+import type { TransitStop } from "./transit";
+
+/** Bounding box of the District with a small margin. */
+export const DC_BOUNDS = {
+  south: 38.79,
+  west: -77.12,
+  north: 39.0,
+  east: -76.9,
+};
+
+/** City overview down to street level; z15+ would be thousands of tiles. */
+export const OFFLINE_TILE_ZOOMS = [10, 11, 12, 13, 14];
+
+type Bounds = typeof DC_BOUNDS;
+
+const lngToTileX = (lng: number, zoom: number) =>
+  Math.floor(((lng + 180) / 360) * 2 ** zoom);
+
+const latToTileY = (lat: number, zoom: number) => {
+  const rad = (lat * Math.PI) / 180;
+  return Math.floor(
+    ((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** zoom
+  );
+};
+
+/** Slippy-map tile URLs covering `bounds`, with Leaflet's {s}/{r} filled in. */
+export const tileUrls = (
+  template: string,
+  bounds: Bounds,
+  zooms: number[],
+  retina = false
+): string[] => {
+  const urls: string[] = [];
+  for (const z of zooms) {
+    const [x0, x1] = [lngToTileX(bounds.west, z), lngToTileX(bounds.east, z)];
+    const [y0, y1] = [latToTileY(bounds.north, z), latToTileY(bounds.south, z)];
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) {
+        urls.push(
+          template
+            .replace("{s}", "a")
+            .replace("{z}", String(z))
+            .replace("{x}", String(x))
+            .replace("{y}", String(y))
+            .replace("{r}", retina ? "@2x" : "")
+        );
+      }
+    }
+  }
+  return urls;
+};
+
+/** Registers /sw.js in production builds; the dev server stays uncached. */
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((err) => {
+      console.warn("Service worker registration failed:", err);
+    });
+  });
+};
+
+/** Asks the service worker to fetch any of these tiles it doesn't have yet. */
+export const precacheTiles = (urls: string[]) => {
+  if (!("serviceWorker" in navigator)) return;
+  navigator.serviceWorker.ready
+    .then((reg) => reg.active?.postMessage({ type: "precache-tiles", urls }))
+    .catch(() => {});
+};
+
+// --- Last-known resources in IndexedDB ---
+
+export interface ResourceSnapshot {
+  pins: ResourcePin[];
+  tracts: AcsTract[];
+  /** Absent in snapshots saved before transit stops were loaded. */
+  stops?: TransitStop[];
+  /** Absent in snapshots saved before exports recorded their sources. */
+  sources?: SourceProvenance[];
+  /** When the underlying files were fetched from the server. */
+  dataAsOf: Date;
+}
+
+const DB_NAME = "equitymap";
+const STORE = "snapshots";
+const SNAPSHOT_KEY = "resources";
+
+const openDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const req = run(db.transaction(STORE, mode).objectStore(STORE));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const saveSnapshot = async (snapshot: ResourceSnapshot) => {
+  await withStore("readwrite", (store) => store.put(snapshot, SNAPSHOT_KEY));
+};
+
+export const loadSnapshot = async (): Promise<ResourceSnapshot | null> => {
+  if (typeof indexedDB === "undefined") return null;
+  return (
+    (await withStore<ResourceSnapshot | undefined>("readonly", (store) =>
+      store.get(SNAPSHOT_KEY)
+    )) ?? null
+  );
+};
@@ -0,0 +1,95 @@
+/**
+ * Named areas for search: DC's eight wards and well-known neighborhoods.
+ * Points are approximate centers, good enough to fly the map there; they are
+ * not boundaries.
+ */
+export interface NamedPlace {
+  id: string;
+  kind: "ward" | "neighborhood";
+  name: string;
+  lat: number;
+  lng: number;
+  /** Ward the place is mostly in, for neighborhoods. */
+  ward?: number;
+}
+
+const WARD_CENTERS: [number, number, number][] = [
+  [1, 38.9245, -77.0315],
+  [2, 38.9005, -77.0395],
+  [3, 38.9405, -77.0755],
+  [4, 38.9605, -77.0285],
+  [5, 38.9245, -76.9855],
+  [6, 38.8845, -77.0005],
+  [7, 38.8905, -76.9405],
+  [8, 38.8455, -76.9955],
+];
+
+export const WARDS: NamedPlace[] = WARD_CENTERS.map(([ward, lat, lng]) => ({
+  id: `ward-${ward}`,
+  kind: "ward",
+  name: `Ward ${ward}`,
+  lat,
+  lng,
+  ward,
+}));
+
+const NEIGHBORHOOD_CENTERS: [string, number, number, number][] = [
+  ["Adams Morgan", 1, 38.9216, -77.0425],
+  ["Columbia Heights", 1, 38.928, -77.032],
+  ["Mount Pleasant", 1, 38.931, -77.038],
+  ["U Street", 1, 38.917, -77.029],
+  ["Chinatown", 2, 38.9, -77.021],
+  ["Dupont Circle", 2, 38.9097, -77.0434],
+  ["Foggy Bottom", 2, 38.899, -77.05],
+  ["Georgetown", 2, 38.9097, -77.0654],
+  ["Logan Circle", 2, 38.9096, -77.0297],
+  ["Penn Quarter", 2, 38.896, -77.022],
+  ["Shaw", 1, 38.912, -77.022],
+  ["Cleveland Park", 3, 38.934, -77.058],
+  ["Friendship Heights", 3, 38.96, -77.086],
+  ["Glover Park", 3, 38.923, -77.075],
+  ["Palisades", 3, 38.925, -77.1],
+  ["Tenleytown", 3, 38.948, -77.08],
+  ["Woodley Park", 3, 38.925, -77.053],
+  ["Brightwood", 4, 38.962, -77.028],
+  ["Manor Park", 4, 38.96, -77.016],
+  ["Petworth", 4, 38.942, -77.025],
+  ["Shepherd Park", 4, 38.981, -77.03],
+  ["Takoma", 4, 38.974, -77.017],
+  ["Bloomingdale", 5, 38.916, -77.012],
+  ["Brookland", 5, 38.933, -76.993],
+  ["Eckington", 5, 38.913, -77.002],
+  ["Fort Lincoln", 5, 38.93, -76.95],
+  ["Fort Totten", 5, 38.952, -77.002],
+  ["Ivy City", 5, 38.915, -76.981],
+  ["Trinidad", 5, 38.905, -76.983],
+  ["Woodridge", 5, 38.93, -76.969],
+  ["Capitol Hill", 6, 38.888, -76.998],
+  ["Eastern Market", 6, 38.884, -76.996],
+  ["H Street Corridor", 6, 38.9, -76.99],
+  ["Navy Yard", 6, 38.876, -77.003],
+  ["NoMa", 6, 38.907, -77.003],
+  ["Southwest Waterfront", 6, 38.879, -77.023],
+  ["Benning", 7, 38.893, -76.947],
+  ["Deanwood", 7, 38.905, -76.933],
+  ["Fort Dupont", 7, 38.876, -76.949],
+  ["Hillcrest", 7, 38.86, -76.962],
+  ["Kenilworth", 7, 38.909, -76.941],
+  ["Marshall Heights", 7, 38.884, -76.928],
+  ["Anacostia", 8, 38.8627, -76.9853],
+  ["Barry Farm", 8, 38.857, -76.997],
+  ["Bellevue", 8, 38.827, -77.008],
+  ["Congress Heights", 8, 38.842, -76.996],
+  ["Washington Highlands", 8, 38.83, -76.999],
+];
+
+export const NEIGHBORHOODS: NamedPlace[] = NEIGHBORHOOD_CENTERS.map(
+  ([name, ward, lat, lng]) => ({
+    id: `hood-${name.toLowerCase().replace(/\s+/g, "-")}`,
+    kind: "neighborhood",
+    name,
+    lat,
+    lng,
+    ward,
+  })
+);
@@ -0,0 +1,125 @@
+export type Crs = "EPSG:4326" | "EPSG:3857" | "EPSG:26985";
+
+/** [x, y] in the CRS's own axis order: lng/lat for 4326, easting/northing otherwise. */
+export type Coordinate = [number, number];
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+const DEG = Math.PI / 180;
+
+// --- EPSG:3857 (Web Mercator, spherical) ---
+const MERCATOR_EXTENT = 20037508.34;
+
+const fromWebMercator = ([x, y]: Coordinate): LatLng => {
+  const lng = (x / MERCATOR_EXTENT) * 180;
+  const lat = (2 * Math.atan(Math.exp((y / MERCATOR_EXTENT) * Math.PI)) - Math.PI / 2) / DEG;
+  return { lat, lng };
+};
+
+const toWebMercator = ({ lat, lng }: LatLng): Coordinate => [
+  (lng / 180) * MERCATOR_EXTENT,
+  (Math.log(Math.tan(Math.PI / 4 + (lat * DEG) / 2)) / Math.PI) * MERCATOR_EXTENT,
+];
+
+// --- EPSG:26985 (NAD83 / Maryland State Plane, meters) ---
+// Lambert Conformal Conic 2SP on GRS80, per Snyder, "Map Projections — A
+// Working Manual" (USGS PP 1395), eqs. 15-1 to 15-11. NAD83 is treated as
+// WGS84; the difference is well under a meter in DC.
+const GRS80_A = 6378137;
+const GRS80_F = 1 / 298.257222101;
+const E = Math.sqrt(GRS80_F * (2 - GRS80_F));
+
+const MD_SPCS = {
+  lat1: 39.45 * DEG,
+  lat2: 38.3 * DEG,
+  lat0: (37 + 40 / 60) * DEG,
+  lng0: -77 * DEG,
+  x0: 400000,
+  y0: 0,
+};
+
+const lccM = (phi: number) =>
+  Math.cos(phi) / Math.sqrt(1 - (E * Math.sin(phi)) ** 2);
+
+const lccT = (phi: number) =>
+  Math.tan(Math.PI / 4 - phi / 2) /
+  ((1 - E * Math.sin(phi)) / (1 + E * Math.sin(phi))) ** (E / 2);
+
+const LCC = (() => {
+  const { lat1, lat2, lat0 } = MD_SPCS;
+  const m1 = lccM(lat1);
+  const m2 = lccM(lat2);
+  const t1 = lccT(lat1);
+  const n = (Math.log(m1) - Math.log(m2)) / (Math.log(t1) - Math.log(lccT(lat2)));
+  const F = m1 / (n * t1 ** n);
+  const rho0 = GRS80_A * F * lccT(lat0) ** n;
+  return { n, F, rho0 };
+})();
+
+const toMarylandStatePlane = ({ lat, lng }: LatLng): Coordinate => {
+  const { n, F, rho0 } = LCC;
+  const rho = GRS80_A * F * lccT(lat * DEG) ** n;
+  const theta = n * (lng * DEG - MD_SPCS.lng0);
+  return [
+    MD_SPCS.x0 + rho * Math.sin(theta),
+    MD_SPCS.y0 + rho0 - rho * Math.cos(theta),
+  ];
+};
+
+const fromMarylandStatePlane = ([x, y]: Coordinate): LatLng => {
+  const { n, F, rho0 } = LCC;
+  const dx = x - MD_SPCS.x0;
+  const dy = rho0 - (y - MD_SPCS.y0);
+  const rho = Math.sign(n) * Math.sqrt(dx * dx + dy * dy);
+  const t = (rho / (GRS80_A * F)) ** (1 / n);
+  const theta = Math.atan2(dx, dy);
+
+  // Latitude has no closed form; iterate (converges in a handful of steps).
+  let phi = Math.PI / 2 - 2 * Math.atan(t);
+  for (let i = 0; i < 10; i++) {
+    const es = E * Math.sin(phi);
+    const next =
+      Math.PI / 2 - 2 * Math.atan(t * ((1 - es) / (1 + es)) ** (E / 2));
+    if (Math.abs(next - phi) < 1e-12) {
+      phi = next;
+      break;
+    }
+    phi = next;
+  }
+
+  return { lat: phi / DEG, lng: (theta / n + MD_SPCS.lng0) / DEG };
+};
+
+const PROJECTIONS: Record<
+  Crs,
+  { inverse: (c: Coordinate) => LatLng; forward: (p: LatLng) => Coordinate }
+> = {
+  "EPSG:4326": {
+    inverse: ([lng, lat]) => ({ lat, lng }),
+    forward: ({ lat, lng }) => [lng, lat],
+  },
+  "EPSG:3857": { inverse: fromWebMercator, forward: toWebMercator },
+  "EPSG:26985": {
+    inverse: fromMarylandStatePlane,
+    forward: toMarylandStatePlane,
+  },
+};
+
+export const SUPPORTED_CRS = Object.keys(PROJECTIONS) as Crs[];
+
+/** Converts a coordinate in `crs` to WGS84 lat/lng. */
+export const toWgs84 = (coord: Coordinate, crs: Crs): LatLng => {
+  const projection = PROJECTIONS[crs];
+  if (!projection) throw new Error(`Unsupported CRS: ${crs}`);
+  return projection.inverse(coord);
+};
+
+/** Converts WGS84 lat/lng to a coordinate in `crs`. */
+export const fromWgs84 = (point: LatLng, crs: Crs): Coordinate => {
+  const projection = PROJECTIONS[crs];
+  if (!projection) throw new Error(`Unsupported CRS: ${crs}`);
+  return projection.forward(point);
+};
@@ -0,0 +1,225 @@
+import Papa from "papaparse";
+import type { SourceProvenance } from "./data-sources";
+import type { ResourcePin } from "./resources";
+
+export type ExportFormat = "csv" | "geojson" | "kml";
+
+export const EXPORT_FORMATS: {
+  id: ExportFormat;
+  label: string;
+  extension: string;
+  mime: string;
+}[] = [
+  { id: "csv", label: "CSV", extension: "csv", mime: "text/csv" },
+  { id: "geojson", label: "GeoJSON", extension: "geojson", mime: "application/geo+json" },
+  { id: "kml", label: "KML", extension: "kml", mime: "application/vnd.google-earth.kml+xml" },
+];
+
+export interface ExportBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+/** Where an export came from, written at the top of every file. */
+export interface ExportProvenance {
+  sources: SourceProvenance[];
+  exportedAt: Date;
+  /** Link to the map view (filters included) the export was taken from. */
+  view: string;
+  /** Set when the export was limited to the visible map area. */
+  bounds: ExportBounds | null;
+}
+
+const EXTRA_FIELDS = [
+  "phone",
+  "services",
+  "hours",
+  "languages",
+  "insurance",
+  "walkIn",
+  "webUrl",
+] as const;
+
+export const pinsInBounds = (pins: ResourcePin[], bounds: ExportBounds) =>
+  pins.filter(
+    (p) =>
+      p.lat >= bounds.south &&
+      p.lat <= bounds.north &&
+      p.lng >= bounds.west &&
+      p.lng <= bounds.east
+  );
+
+/**
+ * One flat record per pin for the tabular formats. Nested data (weekly
+ * hours, facility attributes) is left to GeoJSON; its text form is in
+ * `extra`.
+ */
+export const flattenPin = (pin: ResourcePin): Record<string, string> => ({
+  id: pin.id,
+  type: pin.type,
+  name: pin.label,
+  detail: pin.detail,
+  address: pin.address,
+  ward: pin.ward === undefined ? "" : String(pin.ward),
+  zip: pin.zip ?? "",
+  latitude: pin.lat.toFixed(6),
+  longitude: pin.lng.toFixed(6),
+  tags: pin.tags.join("; "),
+  store_type: pin.storeType,
+  merged_ids: pin.mergedFrom?.map((m) => m.id).join("; ") ?? "",
+  last_verified: pin.dates?.verified ?? "",
+  snap_authorized: pin.dates?.authorized ?? "",
+  ...Object.fromEntries(EXTRA_FIELDS.map((f) => [f, pin.extra?.[f] ?? ""])),
+  nearest_metro: pin.transit?.rail?.name ?? "",
+  nearest_metro_walk_min: pin.transit?.rail
+    ? String(Math.round(pin.transit.rail.walkSeconds / 60))
+    : "",
+  nearest_bus: pin.transit?.bus?.name ?? "",
+  nearest_bus_walk_min: pin.transit?.bus
+    ? String(Math.round(pin.transit.bus.walkSeconds / 60))
+    : "",
+});
+
+/** The provenance as "key: value" lines, shared by every format. */
+export const provenanceLines = (provenance: ExportProvenance, count: number) => [
+  `EquityMap export of ${count} resource(s)`,
+  `Exported: ${provenance.exportedAt.toISOString()}`,
+  ...provenance.sources.map(
+    (s) => `Source: ${s.label} (${s.url}), loaded ${s.loadedAt.toISOString()}`
+  ),
+  `Map view: ${provenance.view}`,
+  ...(provenance.bounds
+    ? [
+        `Limited to map area: ${[
+          provenance.bounds.south,
+          provenance.bounds.west,
+          provenance.bounds.north,
+          provenance.bounds.east,
+        ]
+          .map((n) => n.toFixed(5))
+          .join(", ")} (S, W, N, E)`,
+      ]
+    : []),
+];
+
+const EMPTY_PIN: ResourcePin = {
+  id: "",
+  source: "",
+  type: "community",
+  label: "",
+  lat: 0,
+  lng: 0,
+  detail: "",
+  address: "",
+  tags: [],
+  storeType: "",
+};
+
+const CSV_FIELDS = Object.keys(flattenPin(EMPTY_PIN));
+
+// Cells a spreadsheet would run as a formula. Papa's default pattern also
+// catches plain negative numbers, which would break every DC longitude.
+const FORMULA = /^(?:[=@\t\r]|[+-](?!\d+(?:\.\d+)?$))/;
+
+/**
+ * CSV with the provenance as leading "#" comment lines. Community
+ * submissions put user-typed text in it, so formula-like cells are
+ * prefixed with a quote.
+ */
+export const toCsv = (pins: ResourcePin[], provenance: ExportProvenance) => {
+  const header = provenanceLines(provenance, pins.length).map((l) => `# ${l}`);
+  const table = Papa.unparse(
+    {
+      fields: CSV_FIELDS,
+      data: pins.map(flattenPin).map((row) => CSV_FIELDS.map((f) => row[f])),
+    },
+    { escapeFormulae: FORMULA }
+  );
+  return [...header, table].join("\r\n");
+};
+
+/**
+ * A FeatureCollection with every pin field as properties; the provenance
+ * goes in a top-level "metadata" member, which GeoJSON readers ignore.
+ */
+export const toGeoJson = (pins: ResourcePin[], provenance: ExportProvenance) =>
+  JSON.stringify(
+    {
+      type: "FeatureCollection",
+      metadata: {
+        generator: "EquityMap",
+        exportedAt: provenance.exportedAt.toISOString(),
+        sources: provenance.sources.map((s) => ({
+          ...s,
+          loadedAt: s.loadedAt.toISOString(),
+        })),
+        view: provenance.view,
+        bounds: provenance.bounds,
+      },
+      features: pins.map(({ lat, lng, ...properties }) => ({
+        type: "Feature",
+        id: properties.id,
+        geometry: { type: "Point", coordinates: [lng, lat] },
+        properties,
+      })),
+    },
+    null,
+    2
+  );
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/** KML placemarks with the flat fields as ExtendedData. */
+export const toKml = (pins: ResourcePin[], provenance: ExportProvenance) => {
+  const placemarks = pins.map((pin) => {
+    const data = Object.entries(flattenPin(pin))
+      .filter(([, value]) => value !== "")
+      .map(([name, value]) => `<Data name="${escapeXml(name)}"><value>${escapeXml(value)}</value></Data>`)
+      .join("");
+    return [
+      "<Placemark>",
+      `<name>${escapeXml(pin.label)}</name>`,
+      `<description>${escapeXml(pin.address)}</description>`,
+      `<ExtendedData>${data}</ExtendedData>`,
+      `<Point><coordinates>${pin.lng},${pin.lat}</coordinates></Point>`,
+      "</Placemark>",
+    ].join("");
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "<Document>",
+    "<name>EquityMap resources</name>",
+    `<description>${escapeXml(provenanceLines(provenance, pins.length).join("\n"))}</description>`,
+    ...placemarks,
+    "</Document>",
+    "</kml>",
+  ].join("\n");
+};
+
+const WRITERS: Record<ExportFormat, typeof toCsv> = {
+  csv: toCsv,
+  geojson: toGeoJson,
+  kml: toKml,
+};
+
+/** The file for `format`, named after the export date. */
+export const exportResources = (
+  format: ExportFormat,
+  pins: ResourcePin[],
+  provenance: ExportProvenance
+) => {
+  const { extension, mime } = EXPORT_FORMATS.find((f) => f.id === format);
+  return {
+    filename: `equitymap-resources-${provenance.exportedAt.toISOString().slice(0, 10)}.${extension}`,
+    mime,
+    text: WRITERS[format](pins, provenance),
+  };
+};
@@ -0,0 +1,249 @@
+import QRCode from "qrcode";
+import type { ResourcePin } from "./resources";
+import type { SearchLocation } from "./url-state";
+
+/** One resource on the sheet, in the order it is listed. */
+export interface SheetEntry {
+  pin: ResourcePin;
+  /** Straight-line miles from the search location. */
+  distance: number;
+  /** Walking time, or null when no router could give one. */
+  walkSeconds: number | null;
+}
+
+export interface ResourceSheet {
+  location: SearchLocation;
+  entries: SheetEntry[];
+  /** Link back to the same map view, encoded in the QR code. */
+  link: string;
+  lang: string;
+  generatedAt: Date;
+}
+
+type Translate = (key: string) => string;
+
+// Light basemap tiles, the same ones the map precaches for offline use.
+const TILE_URL = "https://a.basemaps.cartocdn.com/light_all/{z}/{x}/{y}.png";
+const TILE_SIZE = 256;
+const MAP_WIDTH = 680;
+const MAP_HEIGHT = 260;
+const MAP_PADDING = 24;
+const MAX_ZOOM = 16;
+const MIN_ZOOM = 10;
+
+// Same colors as the live map's markers.
+const MARKER_COLORS = {
+  food: "#22c55e",
+  health: "#ef4444",
+  community: "#0066ff",
+};
+
+/** Web Mercator pixel position at `zoom`. */
+const worldPixel = (lat: number, lng: number, zoom: number) => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const rad = (lat * Math.PI) / 180;
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: ((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * scale,
+  };
+};
+
+/** Deepest zoom at which every point fits in the map around `center`. */
+export const fitZoom = (
+  center: { lat: number; lng: number },
+  points: { lat: number; lng: number }[],
+  width = MAP_WIDTH,
+  height = MAP_HEIGHT
+) => {
+  for (let zoom = MAX_ZOOM; zoom > MIN_ZOOM; zoom--) {
+    const c = worldPixel(center.lat, center.lng, zoom);
+    const fits = points.every((p) => {
+      const { x, y } = worldPixel(p.lat, p.lng, zoom);
+      return (
+        Math.abs(x - c.x) <= width / 2 - MAP_PADDING &&
+        Math.abs(y - c.y) <= height / 2 - MAP_PADDING
+      );
+    });
+    if (fits) return zoom;
+  }
+  return MIN_ZOOM;
+};
+
+/**
+ * A static map as positioned tiles and markers, in pixels from the map's
+ * top-left corner, so it prints without a live Leaflet instance.
+ */
+export const staticMap = (
+  center: { lat: number; lng: number },
+  points: { lat: number; lng: number }[],
+  width = MAP_WIDTH,
+  height = MAP_HEIGHT
+) => {
+  const zoom = fitZoom(center, points, width, height);
+  const c = worldPixel(center.lat, center.lng, zoom);
+  const left = c.x - width / 2;
+  const top = c.y - height / 2;
+
+  const tiles: { url: string; x: number; y: number }[] = [];
+  const count = 2 ** zoom;
+  for (let tx = Math.floor(left / TILE_SIZE); tx * TILE_SIZE < left + width; tx++) {
+    for (let ty = Math.floor(top / TILE_SIZE); ty * TILE_SIZE < top + height; ty++) {
+      if (ty < 0 || ty >= count) continue;
+      tiles.push({
+        url: TILE_URL.replace("{z}", String(zoom))
+          .replace("{x}", String(((tx % count) + count) % count))
+          .replace("{y}", String(ty)),
+        x: Math.round(tx * TILE_SIZE - left),
+        y: Math.round(ty * TILE_SIZE - top),
+      });
+    }
+  }
+
+  const place = (p: { lat: number; lng: number }) => {
+    const { x, y } = worldPixel(p.lat, p.lng, zoom);
+    return { x: Math.round(x - left), y: Math.round(y - top) };
+  };
+
+  return { zoom, width, height, tiles, origin: place(center), markers: points.map(place) };
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const formatDistance = (miles: number) =>
+  miles < 0.1 ? `${Math.round(miles * 5280)} ft` : `${miles.toFixed(1)} mi`;
+
+const STYLES = `
+  @page { size: letter; margin: 0.5in; }
+  * { box-sizing: border-box; }
+  body { font-family: system-ui, sans-serif; color: #111827; margin: 0; font-size: 11px; }
+  header { display: flex; justify-content: space-between; gap: 16px; align-items: flex-start; }
+  h1 { font-size: 18px; margin: 0 0 2px; }
+  .muted { color: #6b7280; }
+  .qr { width: 96px; text-align: center; font-size: 9px; color: #6b7280; }
+  .qr svg { width: 96px; height: 96px; display: block; }
+  .map { position: relative; overflow: hidden; border-radius: 8px; border: 1px solid #d1d5db; margin: 10px 0; }
+  .map img { position: absolute; width: 256px; height: 256px; }
+  .pin { position: absolute; width: 18px; height: 18px; margin: -9px 0 0 -9px; border-radius: 50%;
+    border: 2px solid #fff; color: #fff; font-size: 9px; font-weight: 700; line-height: 14px; text-align: center; }
+  .origin { position: absolute; width: 14px; height: 14px; margin: -7px 0 0 -7px; border-radius: 50%;
+    background: #0043a8; border: 3px solid #fff; box-shadow: 0 0 0 1px #0043a8; }
+  ol { list-style: none; padding: 0; margin: 0; }
+  li { display: flex; gap: 8px; padding: 6px 0; border-bottom: 1px solid #e5e7eb; break-inside: avoid; }
+  li .pin { position: static; margin: 0; flex-shrink: 0; }
+  li .body { flex: 1; min-width: 0; }
+  li .name { font-weight: 600; font-size: 12px; }
+  li .walk { flex-shrink: 0; text-align: right; font-weight: 600; }
+  footer { margin-top: 8px; font-size: 9px; color: #6b7280; }
+`;
+
+/** The sheet as a standalone HTML document; `qrSvg` is inlined as given. */
+export const renderResourceSheet = (
+  sheet: ResourceSheet,
+  t: Translate,
+  qrSvg: string
+) => {
+  const { location, entries } = sheet;
+  const map = staticMap(location, entries.map((e) => e.pin));
+
+  const tiles = map.tiles
+    .map((tile) => `<img src="${tile.url}" style="left:${tile.x}px;top:${tile.y}px" alt="">`)
+    .join("");
+  const markers = map.markers
+    .map(
+      (m, i) =>
+        `<div class="pin" style="left:${m.x}px;top:${m.y}px;background:${
+          MARKER_COLORS[entries[i].pin.type]
+        }">${i + 1}</div>`
+    )
+    .join("");
+
+  const rows = entries
+    .map(({ pin, distance, walkSeconds }, i) => {
+      const details = [
+        [t("sheet.phone"), pin.extra?.phone],
+        [t("sheet.hours"), pin.extra?.hours],
+        [t("sheet.languages"), pin.extra?.languages],
+      ]
+        .filter(([, value]) => value)
+        .map(([label, value]) => `<div><b>${escapeHtml(label)}:</b> ${escapeHtml(value)}</div>`)
+        .join("");
+      const walk =
+        walkSeconds !== null && isFinite(walkSeconds)
+          ? `${Math.max(1, Math.round(walkSeconds / 60))} ${escapeHtml(t("sheet.walk"))}`
+          : "";
+      return `<li>
+        <div class="pin" style="background:${MARKER_COLORS[pin.type]}">${i + 1}</div>
+        <div class="body">
+          <div class="name">${escapeHtml(pin.label)}</div>
+          <div class="muted">${escapeHtml(pin.address)}</div>
+          ${details}
+        </div>
+        <div class="walk">${walk}<div class="muted">${formatDistance(distance)}</div></div>
+      </li>`;
+    })
+    .join("");
+
+  const generated = sheet.generatedAt.toLocaleDateString(sheet.lang, {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(sheet.lang)}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${t("sheet.title")} ${location.label}`)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+  <div>
+    <h1>${escapeHtml(t("sheet.title"))} ${escapeHtml(location.label)}</h1>
+    <div class="muted">EquityMap · ${escapeHtml(t("sheet.generated"))} ${escapeHtml(generated)}</div>
+  </div>
+  <div class="qr">${qrSvg}${escapeHtml(t("sheet.scan"))}</div>
+</header>
+<div class="map" style="width:${map.width}px;height:${map.height}px">
+  ${tiles}${markers}
+  <div class="origin" style="left:${map.origin.x}px;top:${map.origin.y}px" title="${escapeHtml(
+    t("sheet.start")
+  )}"></div>
+</div>
+${entries.length > 0 ? `<ol>${rows}</ol>` : `<p>${escapeHtml(t("sheet.none"))}</p>`}
+<footer>${escapeHtml(t("sheet.note"))} © OpenStreetMap contributors © CARTO</footer>
+</body>
+</html>`;
+};
+
+/**
+ * Writes the sheet into `win` and opens the print dialog once the map tiles
+ * have loaded (or failed), so "Save as PDF" gets a finished page. The window
+ * is opened by the caller so popup blockers see the click.
+ */
+export const printResourceSheet = async (
+  win: Window,
+  sheet: ResourceSheet,
+  t: Translate
+) => {
+  const qrSvg = await QRCode.toString(sheet.link, { type: "svg", margin: 0 });
+  win.document.open();
+  win.document.write(renderResourceSheet(sheet, t, qrSvg));
+  win.document.close();
+  await Promise.all(
+    Array.from(win.document.images).map(
+      (img) =>
+        img.complete ||
+        new Promise((resolve) => {
+          img.onload = img.onerror = resolve;
+        })
+    )
+  );
+  win.focus();
+  win.print();
+};
@@ -0,0 +1,68 @@
+import type { PinReportStatus } from "./contributions/schema";
+import type { SourceDates } from "./freshness";
+import type { HealthFacility } from "./health-facility";
+import type { WeeklyHours } from "./hours";
+import type { TransitAccess } from "./transit";
+
+export type ResourceType = "food" | "health" | "community";
+
+export interface ResourcePin {
+  id: string;
+  /** Id of the data source the record came from: a registry source or "community". */
+  source: string;
+  type: ResourceType;
+  label: string;
+  lat: number;
+  lng: number;
+  detail: string;
+  address: string;
+  tags: string[];
+  storeType: string;
+  /** Council ward (1–8) as published by the source, when it gives one. */
+  ward?: number;
+  /** Five-digit ZIP code as published by the source. */
+  zip?: string;
+  /** Walk to the nearest Metro and bus stop, once transit data is loaded. */
+  transit?: TransitAccess;
+  /** Structured opening hours; absent when the source publishes none. */
+  hours?: WeeklyHours;
+  /** Set on pins from approved community submissions. */
+  contributionId?: string;
+  /** Id of the pin a reviewer merged this record into; see resolveEntities. */
+  sameAs?: string;
+  /** Other records of the same place folded into this pin. */
+  mergedFrom?: { id: string; label: string; source: string }[];
+  /** Residents' problem reports, once reviewed or numerous enough to show. */
+  reports?: PinReportStatus;
+  /** Verification and authorization dates, as the source publishes them. */
+  dates?: SourceDates;
+  /** Full attribute model for health facilities. */
+  facility?: HealthFacility;
+  extra?: {
+    phone?: string;
+    services?: string;
+    hours?: string;
+    languages?: string;
+    insurance?: string;
+    walkIn?: string;
+    webUrl?: string;
+  };
+}
+
+// --- Haversine distance (miles) ---
+export const haversine = (
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number
+): number => {
+  const R = 3958.8;
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLng = ((lng2 - lng1) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos((lat1 * Math.PI) / 180) *
+      Math.cos((lat2 * Math.PI) / 180) *
+      Math.sin(dLng / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
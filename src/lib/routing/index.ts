@@ -0,0 +1,97 @@
+import { sampleIsochrones } from "./isochrone";
+import { localRoutingProvider } from "./local";
+import { osrmProvider } from "./osrm";
+import type {
+  Isochrones,
+  LatLng,
+  RoutingProvider,
+  TravelMode,
+  TravelTimes,
+} from "./types";
+import { valhallaProvider } from "./valhalla";
+
+export * from "./types";
+export { ANACOSTIA_BRIDGES, isEastOfAnacostia } from "./local";
+export { sampleIsochrones } from "./isochrone";
+
+export const ISOCHRONE_MINUTES = [10, 20, 30];
+
+/**
+ * A self-hosted routing server is opt-in: set VITE_ROUTING_ENGINE to
+ * "osrm" or "valhalla" and VITE_ROUTING_URL to its base URL. The local
+ * estimate is always last in line.
+ */
+const remoteProvider = (): RoutingProvider | null => {
+  const url = (import.meta.env.VITE_ROUTING_URL || "").replace(/\/+$/, "");
+  if (!url) return null;
+  switch (import.meta.env.VITE_ROUTING_ENGINE) {
+    case "osrm":
+      return osrmProvider(url);
+    case "valhalla":
+      return valhallaProvider(url);
+    default:
+      return null;
+  }
+};
+
+const REMOTE = remoteProvider();
+
+export const ROUTING_PROVIDERS: RoutingProvider[] = REMOTE
+  ? [REMOTE, localRoutingProvider]
+  : [localRoutingProvider];
+
+const usable = (providers: RoutingProvider[]) =>
+  providers.filter((p) => p.offline || navigator.onLine);
+
+/**
+ * Travel times from the first provider that answers. Online providers
+ * are skipped while offline; one that throws is logged and skipped.
+ */
+export const travelTimes = async (
+  origin: LatLng,
+  destinations: LatLng[],
+  mode: TravelMode,
+  providers = ROUTING_PROVIDERS
+): Promise<TravelTimes> => {
+  for (const provider of usable(providers)) {
+    try {
+      const seconds = await provider.travelTimes(origin, destinations, mode);
+      return { seconds, provider: provider.id };
+    } catch (err) {
+      console.warn(`Routing provider "${provider.id}" failed:`, err);
+    }
+  }
+  return { seconds: destinations.map(() => Infinity), provider: "none" };
+};
+
+/** Contours for each of `minutes`, from the first provider that answers. */
+export const isochrones = async (
+  origin: LatLng,
+  mode: TravelMode,
+  minutes = ISOCHRONE_MINUTES,
+  providers = ROUTING_PROVIDERS
+): Promise<Isochrones> => {
+  for (const provider of usable(providers)) {
+    try {
+      const contours = provider.isochrones
+        ? await provider.isochrones(origin, minutes, mode)
+        : await sampleIsochrones(provider, origin, minutes, mode);
+      return { contours, provider: provider.id };
+    } catch (err) {
+      console.warn(`Routing provider "${provider.id}" failed:`, err);
+    }
+  }
+  return { contours: [], provider: "none" };
+};
+
+export const isEstimated = (providerId: string) =>
+  ROUTING_PROVIDERS.find((p) => p.id === providerId)?.estimated ?? true;
+
+/** "4 min", "1 h 5 min"; a dash when unreachable. */
+export const formatTravelTime = (seconds: number) => {
+  if (!isFinite(seconds)) return "—";
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  if (minutes < 60) return `${minutes} min`;
+  const rest = minutes % 60;
+  return `${Math.floor(minutes / 60)} h${rest ? ` ${rest} min` : ""}`;
+};
@@ -0,0 +1,58 @@
+import { WALK_SPEED_MPS } from "./local";
+import type { Isochrone, LatLng, RoutingProvider, TravelMode } from "./types";
+
+// 24 × 12 = 288 points: three OSRM tables per draw, about 150 m apart at
+// the edge of a 30-minute walk. Providers with native isochrones skip this.
+const BEARINGS = 24;
+const STEPS = 12;
+// Furthest a trip of the longest contour could plausibly reach, in m/s.
+const REACH_SPEED: Record<TravelMode, number> = {
+  walk: WALK_SPEED_MPS * 1.1,
+  transit: 6,
+};
+
+const offset = (origin: LatLng, bearing: number, meters: number): LatLng => ({
+  lat: origin.lat + (meters * Math.cos(bearing)) / 111_320,
+  lng:
+    origin.lng +
+    (meters * Math.sin(bearing)) /
+      (111_320 * Math.cos((origin.lat * Math.PI) / 180)),
+});
+
+/**
+ * Isochrones for providers that only answer travel-time queries: times
+ * are asked for points along rays out from the origin, and each contour
+ * follows the last point on each ray reached in time. A ray stops at its
+ * first miss, so land across a river isn't claimed just because a bridge
+ * further out brings it back within reach.
+ */
+export const sampleIsochrones = async (
+  provider: RoutingProvider,
+  origin: LatLng,
+  minutes: number[],
+  mode: TravelMode
+): Promise<Isochrone[]> => {
+  const reach = Math.max(...minutes) * 60 * REACH_SPEED[mode];
+  const points: LatLng[] = [];
+  for (let b = 0; b < BEARINGS; b++) {
+    const bearing = (2 * Math.PI * b) / BEARINGS;
+    for (let s = 1; s <= STEPS; s++) {
+      points.push(offset(origin, bearing, (reach * s) / STEPS));
+    }
+  }
+  const seconds = await provider.travelTimes(origin, points, mode);
+
+  return minutes.map((limit) => {
+    const ring: [number, number][] = [];
+    for (let b = 0; b < BEARINGS; b++) {
+      let last: LatLng = origin;
+      for (let s = 0; s < STEPS; s++) {
+        if (seconds[b * STEPS + s] > limit * 60) break;
+        last = points[b * STEPS + s];
+      }
+      ring.push([last.lat, last.lng]);
+    }
+    ring.push(ring[0]);
+    return { minutes: limit, ring };
+  });
+};
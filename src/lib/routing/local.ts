@@ -0,0 +1,84 @@
+import { pointInRing } from "../boundaries";
+import { haversine } from "../resources";
+import type { LatLng, RoutingProvider, TravelMode } from "./types";
+
+const METERS_PER_MILE = 1609.34;
+
+/** About 3 mph. */
+export const WALK_SPEED_MPS = 1.34;
+// DC's street grid plus diagonals: real walks run about a quarter longer
+// than the straight line.
+const DETOUR = 1.25;
+
+// Average bus/rail speed including stops, plus the walk to the stop and the
+// wait, for trips where riding beats walking.
+const TRANSIT_SPEED_MPS = 5;
+const TRANSIT_OVERHEAD_S = 10 * 60;
+
+/**
+ * Land east of the Anacostia (most of Wards 7 and 8), traced along the
+ * river from its mouth to the Maryland line and back round DC's border.
+ */
+const EAST_OF_ANACOSTIA: [number, number][] = [
+  [-77.022, 38.853],
+  [-77.012, 38.864],
+  [-77.0, 38.872],
+  [-76.99, 38.869],
+  [-76.978, 38.877],
+  [-76.969, 38.888],
+  [-76.963, 38.897],
+  [-76.955, 38.905],
+  [-76.947, 38.918],
+  [-76.941, 38.935],
+  [-76.9094, 38.893],
+  [-77.039, 38.7916],
+  [-77.038, 38.82],
+  [-77.03, 38.84],
+  [-77.022, 38.853],
+];
+
+/** Where people on foot or in a bus can cross the Anacostia. */
+export const ANACOSTIA_BRIDGES: { name: string; lat: number; lng: number }[] = [
+  { name: "Frederick Douglass Bridge", lat: 38.8665, lng: -77.0065 },
+  { name: "11th Street Bridges", lat: 38.8706, lng: -76.9885 },
+  { name: "Sousa Bridge", lat: 38.8779, lng: -76.9775 },
+  { name: "Whitney Young Bridge", lat: 38.8893, lng: -76.9685 },
+  { name: "Benning Road Bridge", lat: 38.8972, lng: -76.9625 },
+  { name: "New York Ave Bridge", lat: 38.9165, lng: -76.9495 },
+];
+
+export const isEastOfAnacostia = (p: LatLng) =>
+  pointInRing(p.lng, p.lat, EAST_OF_ANACOSTIA);
+
+/**
+ * Straight-line meters between two points. When they're on opposite banks
+ * of the Anacostia, the distance goes through the best bridge.
+ */
+export const crossingDistance = (a: LatLng, b: LatLng): number => {
+  const direct = (p: LatLng, q: LatLng) =>
+    haversine(p.lat, p.lng, q.lat, q.lng) * METERS_PER_MILE;
+  if (isEastOfAnacostia(a) === isEastOfAnacostia(b)) return direct(a, b);
+  return Math.min(
+    ...ANACOSTIA_BRIDGES.map((bridge) => direct(a, bridge) + direct(bridge, b))
+  );
+};
+
+export const estimateSeconds = (a: LatLng, b: LatLng, mode: TravelMode) => {
+  const meters = crossingDistance(a, b) * DETOUR;
+  const walk = meters / WALK_SPEED_MPS;
+  if (mode === "walk") return walk;
+  return Math.min(walk, TRANSIT_OVERHEAD_S + meters / TRANSIT_SPEED_MPS);
+};
+
+/**
+ * In-browser stand-in for a routing engine: no street network, but it
+ * knows the river only has a handful of crossings. Used when no OSRM or
+ * Valhalla server is configured, and as the offline fallback.
+ */
+export const localRoutingProvider: RoutingProvider = {
+  id: "local",
+  offline: true,
+  estimated: true,
+  travelTimes: async (origin, destinations, mode) =>
+    destinations.map((d) => estimateSeconds(origin, d, mode)),
+};
@@ -0,0 +1,51 @@
+import type { LatLng, RoutingProvider } from "./types";
+
+interface OsrmTable {
+  code: string;
+  message?: string;
+  durations?: (number | null)[][];
+}
+
+/** osrm-routed's default `--max-table-size`: coordinates per table request. */
+export const OSRM_MAX_TABLE_SIZE = 100;
+
+/**
+ * OSRM's table service. Destinations are split into requests of at most
+ * `maxTableSize` coordinates, origin included, sent one after another. OSRM has no transit
+ * profile, so transit queries throw and fall through to the next provider.
+ */
+export const osrmProvider = (
+  baseUrl: string,
+  maxTableSize = OSRM_MAX_TABLE_SIZE
+): RoutingProvider => {
+  const table = async (origin: LatLng, destinations: LatLng[]) => {
+    const coords = [origin, ...destinations]
+      .map((p) => `${p.lng.toFixed(6)},${p.lat.toFixed(6)}`)
+      .join(";");
+    const res = await fetch(
+      `${baseUrl}/table/v1/foot/${coords}?sources=0&annotations=duration`
+    );
+    if (!res.ok) throw new Error(`OSRM table failed: ${res.status}`);
+    const result: OsrmTable = await res.json();
+    if (result.code !== "Ok" || !result.durations) {
+      throw new Error(`OSRM table failed: ${result.message ?? result.code}`);
+    }
+    return result.durations[0].slice(1).map((d) => d ?? Infinity);
+  };
+
+  return {
+    id: "osrm",
+    offline: false,
+    estimated: false,
+    travelTimes: async (origin, destinations, mode) => {
+      if (mode !== "walk") throw new Error("OSRM has no transit profile");
+      // One table at a time, so a small self-hosted server isn't flooded.
+      const size = maxTableSize - 1;
+      const times: number[] = [];
+      for (let i = 0; i < destinations.length; i += size) {
+        times.push(...(await table(origin, destinations.slice(i, i + size))));
+      }
+      return times;
+    },
+  };
+};
@@ -0,0 +1,45 @@
+export type TravelMode = "walk" | "transit";
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+/** Area reachable within `minutes`, as a closed [lat, lng] ring. */
+export interface Isochrone {
+  minutes: number;
+  ring: [number, number][];
+}
+
+export interface TravelTimes {
+  /** Seconds to each destination, in order; Infinity when unreachable. */
+  seconds: number[];
+  /** Id of the provider that answered. */
+  provider: string;
+}
+
+export interface Isochrones {
+  contours: Isochrone[];
+  /** Id of the provider that answered; "none" when none did. */
+  provider: string;
+}
+
+export interface RoutingProvider {
+  id: string;
+  /** False when the provider needs the network. */
+  offline: boolean;
+  /** True when times are modelled rather than routed on a street network. */
+  estimated: boolean;
+  /** Seconds to each destination; Infinity when unreachable. */
+  travelTimes(
+    origin: LatLng,
+    destinations: LatLng[],
+    mode: TravelMode
+  ): Promise<number[]>;
+  /** Native isochrones; providers without them are sampled from travelTimes. */
+  isochrones?(
+    origin: LatLng,
+    minutes: number[],
+    mode: TravelMode
+  ): Promise<Isochrone[]>;
+}
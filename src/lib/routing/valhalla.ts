@@ -0,0 +1,62 @@
+import type { Isochrone, RoutingProvider, TravelMode } from "./types";
+
+// Multimodal routing needs transit tiles built from GTFS on the server.
+const COSTING: Record<TravelMode, string> = {
+  walk: "pedestrian",
+  transit: "multimodal",
+};
+
+interface ValhallaMatrix {
+  sources_to_targets: ({ time: number | null } | null)[][];
+}
+
+interface ValhallaIsochrones {
+  features: {
+    properties: { contour: number };
+    geometry: { type: string; coordinates: [number, number][] | [number, number][][] };
+  }[];
+}
+
+const post = async <T>(url: string, body: unknown): Promise<T> => {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) throw new Error(`Valhalla ${url} failed: ${res.status}`);
+  return res.json();
+};
+
+/** Valhalla's matrix and isochrone services. */
+export const valhallaProvider = (baseUrl: string): RoutingProvider => ({
+  id: "valhalla",
+  offline: false,
+  estimated: false,
+  travelTimes: async (origin, destinations, mode) => {
+    const matrix = await post<ValhallaMatrix>(`${baseUrl}/sources_to_targets`, {
+      sources: [{ lat: origin.lat, lon: origin.lng }],
+      targets: destinations.map((d) => ({ lat: d.lat, lon: d.lng })),
+      costing: COSTING[mode],
+    });
+    return matrix.sources_to_targets[0].map((c) => c?.time ?? Infinity);
+  },
+  isochrones: async (origin, minutes, mode) => {
+    const result = await post<ValhallaIsochrones>(`${baseUrl}/isochrone`, {
+      locations: [{ lat: origin.lat, lon: origin.lng }],
+      costing: COSTING[mode],
+      contours: minutes.map((time) => ({ time })),
+      polygons: true,
+    });
+    return result.features.map((f): Isochrone => {
+      // Polygon coordinates are rings; keep the outer one.
+      const coords =
+        f.geometry.type === "Polygon"
+          ? (f.geometry.coordinates as [number, number][][])[0]
+          : (f.geometry.coordinates as [number, number][]);
+      return {
+        minutes: f.properties.contour,
+        ring: coords.map(([lng, lat]) => [lat, lng]),
+      };
+    });
+  },
+});
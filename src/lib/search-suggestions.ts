@@ -0,0 +1,153 @@
+import type { GeocodeResult } from "./geocoding";
+import { NEIGHBORHOODS, WARDS, type NamedPlace } from "./places";
+import type { ResourcePin } from "./resources";
+
+export type SuggestionKind =
+  | "resource"
+  | "address"
+  | "neighborhood"
+  | "ward"
+  | "zip";
+
+export interface Suggestion {
+  id: string;
+  kind: SuggestionKind;
+  label: string;
+  detail?: string;
+  lat: number;
+  lng: number;
+  /** Set for resources: picking one opens its details. */
+  pinId?: string;
+  /** 0–1, for ordering across kinds. */
+  score: number;
+}
+
+// Ties go to the more specific kind.
+const KIND_ORDER: SuggestionKind[] = [
+  "resource",
+  "address",
+  "neighborhood",
+  "ward",
+  "zip",
+];
+
+const PER_KIND = 4;
+
+/** 1 for a prefix, 0.8 for a word start, 0.5 anywhere, else 0. */
+const textScore = (text: string, query: string): number => {
+  const t = text.toLowerCase();
+  if (t.startsWith(query)) return 1;
+  if (t.split(/[\s\-/&(]+/).some((w) => w.startsWith(query))) return 0.8;
+  return t.includes(query) ? 0.5 : 0;
+};
+
+const ZIP = /\b(20[0-5]\d\d)\b/;
+
+/** Center of every ZIP code that appears in the loaded pins' addresses. */
+export const zipCenters = (pins: ResourcePin[]) => {
+  const sums = new Map<string, { lat: number; lng: number; n: number }>();
+  for (const p of pins) {
+    const zip = p.address.match(ZIP)?.[1];
+    if (!zip) continue;
+    const s = sums.get(zip) ?? { lat: 0, lng: 0, n: 0 };
+    sums.set(zip, { lat: s.lat + p.lat, lng: s.lng + p.lng, n: s.n + 1 });
+  }
+  return new Map(
+    [...sums].map(([zip, s]) => [zip, { lat: s.lat / s.n, lng: s.lng / s.n, count: s.n }])
+  );
+};
+
+const placeSuggestion = (place: NamedPlace, score: number): Suggestion => ({
+  id: place.id,
+  kind: place.kind,
+  label: place.name,
+  detail: place.kind === "neighborhood" ? `Ward ${place.ward}` : undefined,
+  lat: place.lat,
+  lng: place.lng,
+  score,
+});
+
+const top = (items: Suggestion[]) =>
+  items.sort((a, b) => b.score - a.score).slice(0, PER_KIND);
+
+/** Everything that can be matched without a lookup: pins, areas and ZIPs. */
+export const suggestLocal = (
+  rawQuery: string,
+  pins: ResourcePin[],
+  zips: ReturnType<typeof zipCenters>
+): Suggestion[] => {
+  const query = rawQuery.trim().toLowerCase();
+  if (query.length < 2) return [];
+
+  const resources = top(
+    pins.flatMap((p) => {
+      const score = textScore(p.label, query);
+      return score > 0
+        ? [
+            {
+              id: `pin-${p.id}`,
+              kind: "resource" as const,
+              label: p.label,
+              detail: p.address.split(",")[0],
+              lat: p.lat,
+              lng: p.lng,
+              pinId: p.id,
+              score,
+            },
+          ]
+        : [];
+    })
+  );
+
+  const areas = (places: NamedPlace[]) =>
+    top(
+      places.flatMap((place) => {
+        const score = textScore(place.name, query);
+        return score > 0 ? [placeSuggestion(place, score)] : [];
+      })
+    );
+
+  const zipMatches = /^\d{2,5}$/.test(query)
+    ? top(
+        [...zips]
+          .filter(([zip]) => zip.startsWith(query))
+          .map(([zip, c]) => ({
+            id: `zip-${zip}`,
+            kind: "zip" as const,
+            label: zip,
+            detail: `${c.count} resources`,
+            lat: c.lat,
+            lng: c.lng,
+            score: zip === query ? 1 : 0.8,
+          }))
+      )
+    : [];
+
+  return [...resources, ...areas(NEIGHBORHOODS), ...areas(WARDS), ...zipMatches];
+};
+
+export const addressSuggestions = (results: GeocodeResult[]): Suggestion[] =>
+  results.map((r, i) => ({
+    id: `address-${i}-${r.label}`,
+    kind: "address",
+    label: r.label,
+    detail:
+      r.precision === "address"
+        ? r.zip ?? undefined
+        : r.precision === "interpolated"
+        ? "Approximate location"
+        : "Street",
+    lat: r.lat,
+    lng: r.lng,
+    score: r.score,
+  }));
+
+/** Merged, ordered list: best score first, specific kinds winning ties. */
+export const rankSuggestions = (suggestions: Suggestion[], limit = 10) =>
+  [...suggestions]
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind)
+    )
+    .slice(0, limit);
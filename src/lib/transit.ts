@@ -0,0 +1,179 @@
+import Papa from "papaparse";
+import type { ResourcePin } from "./resources";
+import { crossingDistance, estimateSeconds } from "./routing/local";
+
+export type StopKind = "rail" | "bus";
+
+export interface TransitStop {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  kind: StopKind;
+  /** Short names of the routes serving the stop, e.g. ["RD", "GR"]. */
+  routes: string[];
+}
+
+export interface NearestStop {
+  stopId: string;
+  name: string;
+  meters: number;
+  walkSeconds: number;
+}
+
+/** Walk to the closest stop of each kind, when the feed has that kind. */
+export type TransitAccess = Partial<Record<StopKind, NearestStop>>;
+
+export interface TransitFilter {
+  kind: StopKind | "any";
+  minutes: number;
+}
+
+export const TRANSIT_FILTER_MINUTES = [5, 10, 15];
+
+/** Translation keys for each kind of stop. */
+export const STOP_KIND_KEYS: Record<StopKind, string> = {
+  rail: "transit.rail",
+  bus: "transit.bus",
+};
+
+export const GTFS_BASE_URL = "/gtfs";
+
+type GtfsRow = Record<string, string>;
+
+export interface GtfsFeed {
+  stops: GtfsRow[];
+  routes: GtfsRow[];
+  trips: GtfsRow[];
+  stopTimes: GtfsRow[];
+}
+
+// GTFS route_type: 0 tram, 1 subway/metro, 2 rail. Everything else rides the road.
+const RAIL_ROUTE_TYPES = new Set(["0", "1", "2"]);
+
+/**
+ * Boarding locations from a GTFS-static feed. Platforms are folded into
+ * their parent station, so a Metro station with four platforms is one stop;
+ * entrances and other station nodes are dropped, as are stops no trip
+ * serves. A stop is "rail" when any rail route stops there.
+ */
+export const parseGtfs = (feed: GtfsFeed): TransitStop[] => {
+  const byId = new Map(feed.stops.map((s) => [s.stop_id, s]));
+  const boardAt = (stopId: string) => {
+    const stop = byId.get(stopId);
+    const parent = stop?.parent_station && byId.get(stop.parent_station);
+    return parent || stop;
+  };
+
+  const routes = new Map(feed.routes.map((r) => [r.route_id, r]));
+  const tripRoute = new Map(feed.trips.map((t) => [t.trip_id, routes.get(t.route_id)]));
+
+  const served = new Map<string, Map<string, GtfsRow>>();
+  for (const st of feed.stopTimes) {
+    const stop = boardAt(st.stop_id);
+    const route = tripRoute.get(st.trip_id);
+    if (!stop || !route) continue;
+    if (!served.has(stop.stop_id)) served.set(stop.stop_id, new Map());
+    served.get(stop.stop_id).set(route.route_id, route);
+  }
+
+  return [...served].flatMap(([stopId, stopRoutes]) => {
+    const stop = byId.get(stopId);
+    const lat = parseFloat(stop.stop_lat);
+    const lng = parseFloat(stop.stop_lon);
+    if (!isFinite(lat) || !isFinite(lng)) return [];
+    const list = [...stopRoutes.values()];
+    return [
+      {
+        id: stopId,
+        name: (stop.stop_name || stopId).trim(),
+        lat,
+        lng,
+        kind: list.some((r) => RAIL_ROUTE_TYPES.has(r.route_type)) ? "rail" : "bus",
+        routes: list.map((r) => r.route_short_name || r.route_long_name || r.route_id).sort(),
+      } satisfies TransitStop,
+    ];
+  });
+};
+
+const fetchTable = async (file: string): Promise<GtfsRow[]> => {
+  const res = await fetch(`${GTFS_BASE_URL}/${file}`);
+  if (!res.ok) throw new Error(`${file}: HTTP ${res.status}`);
+  const { data } = Papa.parse<GtfsRow>(await res.text(), {
+    header: true,
+    skipEmptyLines: true,
+  });
+  return data;
+};
+
+export const loadTransitStops = async (): Promise<TransitStop[]> => {
+  const [stops, routes, trips, stopTimes] = await Promise.all(
+    ["stops.txt", "routes.txt", "trips.txt", "stop_times.txt"].map(fetchTable)
+  );
+  return parseGtfs({ stops, routes, trips, stopTimes });
+};
+
+// Rough meters per degree, for a cheap first pass before the real distance.
+const DEG_LAT = 111_320;
+const DEG_LNG = DEG_LAT * Math.cos((38.9 * Math.PI) / 180);
+
+const nearest = (pin: ResourcePin, stops: TransitStop[]): NearestStop | null => {
+  if (stops.length === 0) return null;
+  const rough = stops.map((s) =>
+    Math.hypot((s.lat - pin.lat) * DEG_LAT, (s.lng - pin.lng) * DEG_LNG)
+  );
+  // A river crossing can make a farther stop the quicker walk, but never
+  // one more than twice as far.
+  const cutoff = Math.min(...rough) * 2 + 200;
+  let best: NearestStop | null = null;
+  stops.forEach((stop, i) => {
+    if (rough[i] > cutoff) return;
+    const walkSeconds = estimateSeconds(pin, stop, "walk");
+    if (!best || walkSeconds < best.walkSeconds) {
+      best = {
+        stopId: stop.id,
+        name: stop.name,
+        meters: Math.round(crossingDistance(pin, stop)),
+        walkSeconds,
+      };
+    }
+  });
+  return best;
+};
+
+/** Copies of `pins` with the walk to the nearest Metro and bus stop filled in. */
+export const annotateTransit = (
+  pins: ResourcePin[],
+  stops: TransitStop[]
+): ResourcePin[] => {
+  if (stops.length === 0) return pins;
+  const rail = stops.filter((s) => s.kind === "rail");
+  const bus = stops.filter((s) => s.kind === "bus");
+  return pins.map((pin) => {
+    const transit: TransitAccess = {};
+    const r = nearest(pin, rail);
+    const b = nearest(pin, bus);
+    if (r) transit.rail = r;
+    if (b) transit.bus = b;
+    return { ...pin, transit };
+  });
+};
+
+/** The quickest stop to walk to, of the given kind or any kind. */
+export const closestStop = (
+  access: TransitAccess | undefined,
+  kind: TransitFilter["kind"] = "any"
+): (NearestStop & { kind: StopKind }) | null => {
+  const kinds: StopKind[] = kind === "any" ? ["rail", "bus"] : [kind];
+  let best: (NearestStop & { kind: StopKind }) | null = null;
+  for (const k of kinds) {
+    const stop = access?.[k];
+    if (stop && (!best || stop.walkSeconds < best.walkSeconds)) best = { ...stop, kind: k };
+  }
+  return best;
+};
+
+export const matchesTransitFilter = (pin: ResourcePin, filter: TransitFilter) => {
+  const stop = closestStop(pin.transit, filter.kind);
+  return !!stop && stop.walkSeconds <= filter.minutes * 60;
+};
@@ -0,0 +1,132 @@
+import { LANGUAGES, type LangCode } from "@/hooks/lang-context";
+import type { FilterMode, GroupModes } from "./filters";
+import { DAY_NAMES, type OpenFilter } from "./hours";
+import { TRANSIT_FILTER_MINUTES, type TransitFilter } from "./transit";
+
+export interface SearchLocation {
+  lat: number;
+  lng: number;
+  label: string;
+}
+
+export interface MapView {
+  center: [number, number];
+  zoom: number;
+}
+
+/** Everything about the /map view that survives a reload or a shared link. */
+export interface MapUrlState {
+  search: SearchLocation | null;
+  filters: string[];
+  groupModes: GroupModes;
+  openFilter: OpenFilter | null;
+  transitFilter: TransitFilter | null;
+  pinId: string | null;
+  view: MapView | null;
+  lang: LangCode | null;
+}
+
+// Short keys keep links small enough to text.
+const KEYS = {
+  query: "q",
+  at: "at",
+  filter: "f",
+  mode: "mode",
+  open: "open",
+  transit: "near",
+  pin: "pin",
+  center: "c",
+  zoom: "z",
+  lang: "lang",
+};
+
+const parsePoint = (value: string | null): [number, number] | null => {
+  if (!value) return null;
+  const [lat, lng] = value.split(",").map(Number);
+  if (!isFinite(lat) || !isFinite(lng)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return [lat, lng];
+};
+
+const formatPoint = (lat: number, lng: number) =>
+  `${lat.toFixed(5)},${lng.toFixed(5)}`;
+
+/** "now", or "at:<Monday-first day>:<minutes since midnight>". */
+const parseOpenFilter = (value: string | null): OpenFilter | null => {
+  if (value === "now") return { mode: "now" };
+  const m = value?.match(/^at:(\d):(\d{1,4})$/);
+  if (!m) return null;
+  const day = Number(m[1]);
+  const minutes = Number(m[2]);
+  if (day >= DAY_NAMES.length || minutes >= 24 * 60) return null;
+  return { mode: "at", day, minutes };
+};
+
+const formatOpenFilter = (filter: OpenFilter) =>
+  filter.mode === "now" ? "now" : `at:${filter.day}:${filter.minutes}`;
+
+/** "<any|rail|bus>:<minutes of walking>". */
+const parseTransitFilter = (value: string | null): TransitFilter | null => {
+  const m = value?.match(/^(any|rail|bus):(\d{1,2})$/);
+  if (!m || !TRANSIT_FILTER_MINUTES.includes(Number(m[2]))) return null;
+  return { kind: m[1] as TransitFilter["kind"], minutes: Number(m[2]) };
+};
+
+/**
+ * Reads map state from query parameters. Malformed values are dropped rather
+ * than rejected, so a truncated link still opens as much as it can.
+ */
+export const parseMapUrlState = (params: URLSearchParams): MapUrlState => {
+  const at = parsePoint(params.get(KEYS.at));
+  const center = parsePoint(params.get(KEYS.center));
+  const zoom = Number(params.get(KEYS.zoom));
+  const lang = params.get(KEYS.lang);
+
+  const groupModes: GroupModes = {};
+  for (const entry of params.getAll(KEYS.mode)) {
+    const [group, mode] = entry.split(":");
+    if (group && (mode === "and" || mode === "or")) {
+      groupModes[group] = mode as FilterMode;
+    }
+  }
+
+  return {
+    search: at
+      ? { lat: at[0], lng: at[1], label: params.get(KEYS.query) || "Shared location" }
+      : null,
+    filters: [...new Set(params.getAll(KEYS.filter).filter(Boolean))],
+    groupModes,
+    openFilter: parseOpenFilter(params.get(KEYS.open)),
+    transitFilter: parseTransitFilter(params.get(KEYS.transit)),
+    pinId: params.get(KEYS.pin) || null,
+    view:
+      center && params.has(KEYS.zoom) && zoom >= 0 && zoom <= 20
+        ? { center, zoom }
+        : null,
+    lang: LANGUAGES.some((l) => l.code === lang) ? (lang as LangCode) : null,
+  };
+};
+
+/** Writes map state as query parameters; empty parts are left out. */
+export const serializeMapUrlState = (state: MapUrlState): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (state.search) {
+    params.set(KEYS.query, state.search.label);
+    params.set(KEYS.at, formatPoint(state.search.lat, state.search.lng));
+  }
+  for (const id of state.filters) params.append(KEYS.filter, id);
+  for (const [group, mode] of Object.entries(state.groupModes)) {
+    params.append(KEYS.mode, `${group}:${mode}`);
+  }
+  if (state.openFilter) params.set(KEYS.open, formatOpenFilter(state.openFilter));
+  if (state.transitFilter) {
+    params.set(KEYS.transit, `${state.transitFilter.kind}:${state.transitFilter.minutes}`);
+  }
+  if (state.pinId) params.set(KEYS.pin, state.pinId);
+  if (state.view) {
+    params.set(KEYS.center, formatPoint(...state.view.center));
+    params.set(KEYS.zoom, String(state.view.zoom));
+  }
+  if (state.lang) params.set(KEYS.lang, state.lang);
+  return params;
+};
@@ -0,0 +1,715 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { MapContainer, TileLayer, Circle, CircleMarker, Tooltip } from "react-leaflet";
+import { ArrowLeft, Check, GitMerge, LogOut, RefreshCw, X } from "lucide-react";
+import { toast } from "sonner";
+import "leaflet/dist/leaflet.css";
+import { useResources } from "@/hooks/use-resources";
+import {
+  CAPTCHA_PASS,
+  CATEGORIES,
+  contributionToPin,
+  DUPLICATE_RADII,
+  duplicateCandidates,
+  fetchAuditLog,
+  fetchEvidence,
+  fetchReportQueue,
+  fetchReviewQueue,
+  REPORT_REASONS,
+  reviewContribution,
+  reviewReport,
+  type AuditEntry,
+  type CaptchaScore,
+  type Contribution,
+  type Report,
+  type ReviewAction,
+} from "@/lib/contributions";
+import { MATCH_THRESHOLD, scoreMatch } from "@/lib/entity-resolution";
+import type { ResourcePin, ResourceType } from "@/lib/resources";
+
+const TOKEN_KEY = "eq-admin-token";
+const REVIEWER_KEY = "eq-reviewer";
+const TILE_LIGHT = "https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png";
+
+const MARKER_COLORS: Record<ResourceType, string> = {
+  food: "#22c55e",
+  health: "#ef4444",
+  community: "#0066ff",
+};
+
+const TYPE_DOTS = {
+  food: "bg-pin-food",
+  health: "bg-pin-health",
+  community: "bg-pin-community",
+};
+
+const ACTION_LABELS: Record<ReviewAction, string> = {
+  approve: "Approved",
+  reject: "Rejected",
+  merge: "Merged",
+};
+
+const REPORT_ACTION_LABELS: Partial<Record<ReviewAction, string>> = {
+  approve: "Confirmed",
+  reject: "Dismissed",
+};
+
+type Tab = "submissions" | "reports";
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+const chipClass = (active: boolean) =>
+  `px-2 py-1 rounded-md text-[11px] transition-colors ${
+    active
+      ? "bg-primary/20 text-foreground font-semibold"
+      : "bg-secondary/50 text-muted-foreground hover:bg-secondary"
+  }`;
+
+const TokenForm = ({ onSubmit }: { onSubmit: (token: string) => void }) => {
+  const [value, setValue] = useState("");
+  return (
+    <form
+      className="glass rounded-xl p-5 space-y-3 max-w-sm mx-auto mt-24"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (value.trim()) onSubmit(value.trim());
+      }}
+    >
+      <h1 className="text-lg font-semibold">Review contributions</h1>
+      <p className="text-sm text-muted-foreground">
+        Enter the admin token configured on the server as <code>ADMIN_TOKEN</code>. It's kept
+        for this browser tab only.
+      </p>
+      <input
+        type="password"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        placeholder="Admin token"
+        className="w-full rounded-md border border-border bg-background px-3 py-2 text-sm"
+        autoFocus
+      />
+      <button
+        type="submit"
+        className="w-full rounded-md bg-primary text-primary-foreground py-2 text-sm font-medium disabled:opacity-50"
+        disabled={!value.trim()}
+      >
+        Continue
+      </button>
+    </form>
+  );
+};
+
+const EvidencePhoto = ({ token, id, n, kind }: { token: string; id: string; n: number; kind: string }) => {
+  const [src, setSrc] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let url: string | null = null;
+    let cancelled = false;
+    fetchEvidence(token, id, n)
+      .then((u) => {
+        url = u;
+        if (cancelled) URL.revokeObjectURL(u);
+        else setSrc(u);
+      })
+      .catch(() => !cancelled && setFailed(true));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [token, id, n]);
+
+  if (failed) return <p className="text-xs text-muted-foreground">Couldn't load this {kind}.</p>;
+  if (!src) return <div className="w-28 h-28 rounded-lg bg-secondary animate-pulse" />;
+  return (
+    <a href={src} target="_blank" rel="noopener noreferrer" className="block">
+      <img src={src} alt={kind} className="w-28 h-28 rounded-lg object-cover border border-border" />
+      <span className="text-[11px] text-muted-foreground capitalize">{kind}</span>
+    </a>
+  );
+};
+
+/** What the contributor told us, laid out the way the map will show it. */
+const SubmissionDetails = ({ contribution, token }: { contribution: Contribution; token: string }) => {
+  const { extra } = contributionToPin(contribution);
+  const category = CATEGORIES[contribution.type].find((c) => c.value === contribution.category);
+  const rows = [
+    ["Category", category?.label],
+    ["Services", extra?.services],
+    ["Hours", extra?.hours ?? "Not given"],
+    ["Languages", extra?.languages],
+    ["Phone", contribution.contact?.phone],
+    ["Website", contribution.contact?.website],
+    ["Email", contribution.contact?.email],
+  ].filter(([, value]) => value);
+  return (
+    <div className="space-y-2">
+      <dl className="grid grid-cols-[6rem_1fr] gap-x-3 gap-y-1 text-xs">
+        {rows.map(([label, value]) => (
+          <div key={label} className="contents">
+            <dt className="text-muted-foreground">{label}</dt>
+            <dd className="break-words">{value}</dd>
+          </div>
+        ))}
+      </dl>
+      {contribution.evidence?.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {contribution.evidence.map((item, n) => (
+            <EvidencePhoto key={n} token={token} id={contribution.id} n={n} kind={item.kind} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const CaptchaSummary = ({ captcha }: { captcha?: CaptchaScore }) => {
+  if (!captcha) {
+    return <p className="text-xs text-muted-foreground">No captcha score was sent.</p>;
+  }
+  return (
+    <div className="space-y-1">
+      <p className="text-sm">
+        <span
+          className={`font-semibold ${captcha.total >= CAPTCHA_PASS ? "text-pin-food" : "text-pin-health"}`}
+        >
+          {captcha.total}/100
+        </span>{" "}
+        <span className="text-xs text-muted-foreground">
+          reported by the submitter's browser, so treat it as a hint
+        </span>
+      </p>
+      <ul className="grid grid-cols-2 gap-x-4 text-[11px] text-muted-foreground">
+        {Object.entries(captcha.signals).map(([signal, points]) => (
+          <li key={signal} className="flex justify-between">
+            <span>{signal}</span>
+            <span className="tabular-nums">{points}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+interface ReportReviewProps {
+  token: string;
+  reviewer: string;
+  reports: Report[] | null;
+  pins: ResourcePin[];
+  onDecided: () => Promise<void>;
+}
+
+/** The reports queue: its list and the selected report, as two grid columns. */
+const ReportReview = ({ token, reviewer, reports, pins, onDecided }: ReportReviewProps) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [note, setNote] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const selected = reports?.find((r) => r.id === selectedId) ?? reports?.[0] ?? null;
+  const pin = selected ? pins.find((p) => p.id === selected.pinId) : undefined;
+  const others = selected
+    ? reports.filter((r) => r.pinId === selected.pinId && r.id !== selected.id)
+    : [];
+
+  useEffect(() => {
+    setNote("");
+  }, [selected?.id]);
+
+  const decide = async (action: "approve" | "reject") => {
+    if (!selected) return;
+    setBusy(true);
+    try {
+      await reviewReport(token, selected.id, {
+        action,
+        reviewer: reviewer.trim(),
+        note: note.trim(),
+      });
+      localStorage.setItem(REVIEWER_KEY, reviewer.trim());
+      toast.success(`${REPORT_ACTION_LABELS[action]}: ${selected.pinLabel}`);
+      setSelectedId(null);
+      await onDecided();
+    } catch (err) {
+      toast.error("Couldn't save the decision", {
+        description: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <section className="space-y-2">
+        <h2 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+          Pending reports ({reports?.length ?? "…"})
+        </h2>
+        {reports?.length === 0 && (
+          <p className="text-sm text-muted-foreground">No problem reports waiting.</p>
+        )}
+        <ul className="space-y-1">
+          {reports?.map((r) => (
+            <li key={r.id}>
+              <button
+                onClick={() => setSelectedId(r.id)}
+                className={`w-full text-left rounded-md px-2.5 py-2 text-sm ${
+                  r.id === selected?.id ? "bg-primary/15" : "hover:bg-secondary"
+                }`}
+              >
+                <span className="block truncate">{r.pinLabel || r.pinId}</span>
+                <span className="block text-[11px] text-muted-foreground">
+                  {REPORT_REASONS[r.reason]} · {formatTime(r.submittedAt)}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      {selected ? (
+        <section className="space-y-4 min-w-0">
+          <div>
+            <p className="text-base font-semibold">{selected.pinLabel || selected.pinId}</p>
+            <p className="text-sm">{selected.pinAddress}</p>
+            <p className="text-xs text-muted-foreground">
+              {pin ? pin.detail : "This pin is no longer in the loaded data."}
+            </p>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm">
+              <span className="font-semibold">{REPORT_REASONS[selected.reason]}</span>
+              <span className="text-xs text-muted-foreground">
+                {" "}
+                · reported {formatTime(selected.submittedAt)}
+              </span>
+            </p>
+            {selected.details && <p className="text-sm italic">“{selected.details}”</p>}
+            {others.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {others.length} other pending report{others.length === 1 ? "" : "s"} on this
+                pin: {others.map((r) => REPORT_REASONS[r.reason]).join(", ")}
+              </p>
+            )}
+          </div>
+          <div className="space-y-1">
+            <h2 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+              Captcha score
+            </h2>
+            <CaptchaSummary captcha={selected.captcha} />
+          </div>
+          <div className="space-y-2">
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Note for the audit log (optional)"
+              rows={2}
+              className="w-full rounded-md border border-border bg-background px-3 py-2 text-sm"
+            />
+            {!reviewer.trim() && (
+              <p className="text-xs text-muted-foreground">
+                Enter your name at the top before deciding.
+              </p>
+            )}
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => decide("approve")}
+                disabled={busy || !reviewer.trim()}
+                className="flex items-center gap-1.5 rounded-md bg-primary text-primary-foreground px-3 py-1.5 text-sm disabled:opacity-50"
+              >
+                <Check className="w-4 h-4" /> Confirm
+              </button>
+              <button
+                onClick={() => decide("reject")}
+                disabled={busy || !reviewer.trim()}
+                className="flex items-center gap-1.5 rounded-md bg-destructive/10 text-destructive px-3 py-1.5 text-sm disabled:opacity-50"
+              >
+                <X className="w-4 h-4" /> Dismiss
+              </button>
+            </div>
+          </div>
+        </section>
+      ) : (
+        <section className="text-sm text-muted-foreground">
+          {reports === null ? "Loading…" : "Select a report to review it."}
+        </section>
+      )}
+    </>
+  );
+};
+
+const AdminReview = () => {
+  const { pins } = useResources();
+  const [token, setToken] = useState(() => sessionStorage.getItem(TOKEN_KEY) ?? "");
+  const [reviewer, setReviewer] = useState(() => localStorage.getItem(REVIEWER_KEY) ?? "");
+  const [tab, setTab] = useState<Tab>("submissions");
+  const [queue, setQueue] = useState<Contribution[] | null>(null);
+  const [reports, setReports] = useState<Report[] | null>(null);
+  const [audit, setAudit] = useState<AuditEntry[]>([]);
+  const [loadError, setLoadError] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [radius, setRadius] = useState(DUPLICATE_RADII[1]);
+  const [mergeTarget, setMergeTarget] = useState<string | null>(null);
+  const [note, setNote] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!token) return;
+    try {
+      const [pending, pendingReports, entries] = await Promise.all([
+        fetchReviewQueue(token),
+        fetchReportQueue(token),
+        fetchAuditLog(token),
+      ]);
+      setQueue(pending);
+      setReports(pendingReports);
+      setAudit(entries);
+      setLoadError("");
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : String(err));
+    }
+  }, [token]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const selected = queue?.find((c) => c.id === selectedId) ?? queue?.[0] ?? null;
+
+  // Approved community pins are candidates too; the submission itself isn't on the map yet.
+  // Each is scored the way the map's resolver would, to point out likely duplicates.
+  const candidates = useMemo(() => {
+    if (!selected) return [];
+    const submitted = contributionToPin(selected);
+    return duplicateCandidates(selected, pins, radius).map((c) => ({
+      ...c,
+      match: scoreMatch(submitted, c.pin).score,
+    }));
+  }, [selected, pins, radius]);
+
+  useEffect(() => {
+    setMergeTarget(null);
+    setNote("");
+  }, [selected?.id]);
+
+  const signIn = (value: string) => {
+    sessionStorage.setItem(TOKEN_KEY, value);
+    setToken(value);
+  };
+
+  const signOut = () => {
+    sessionStorage.removeItem(TOKEN_KEY);
+    setToken("");
+    setQueue(null);
+    setReports(null);
+    setAudit([]);
+    setLoadError("");
+  };
+
+  const decide = async (action: ReviewAction) => {
+    if (!selected) return;
+    setBusy(true);
+    try {
+      await reviewContribution(token, selected.id, {
+        action,
+        reviewer: reviewer.trim(),
+        note: note.trim(),
+        ...(action === "merge" && { mergedInto: mergeTarget }),
+      });
+      localStorage.setItem(REVIEWER_KEY, reviewer.trim());
+      toast.success(`${ACTION_LABELS[action]}: ${selected.address}`);
+      setSelectedId(null);
+      await refresh();
+    } catch (err) {
+      toast.error("Couldn't save the decision", {
+        description: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <div className="min-h-screen bg-background px-4">
+        <TokenForm onSubmit={signIn} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="flex items-center gap-3 border-b border-border px-4 py-3">
+        <Link to="/map" className="text-muted-foreground hover:text-foreground" aria-label="Back to map">
+          <ArrowLeft className="w-4 h-4" />
+        </Link>
+        <h1 className="text-base font-semibold flex-1">Review contributions</h1>
+        <input
+          value={reviewer}
+          onChange={(e) => setReviewer(e.target.value)}
+          placeholder="Your name"
+          aria-label="Reviewer name"
+          className="w-40 rounded-md border border-border bg-background px-2 py-1 text-sm"
+        />
+        <button
+          onClick={refresh}
+          className="p-1.5 rounded-md hover:bg-secondary"
+          aria-label="Refresh"
+        >
+          <RefreshCw className="w-4 h-4" />
+        </button>
+        <button
+          onClick={signOut}
+          className="p-1.5 rounded-md hover:bg-secondary"
+          aria-label="Sign out"
+        >
+          <LogOut className="w-4 h-4" />
+        </button>
+      </header>
+
+      {loadError && (
+        <p className="mx-4 mt-3 rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+          {loadError}
+        </p>
+      )}
+
+      <nav className="flex gap-1.5 px-4 pt-3">
+        {(
+          [
+            ["submissions", `New resources (${queue?.length ?? "…"})`],
+            ["reports", `Problem reports (${reports?.length ?? "…"})`],
+          ] as const
+        ).map(([id, label]) => (
+          <button key={id} onClick={() => setTab(id)} className={chipClass(tab === id)}>
+            {label}
+          </button>
+        ))}
+      </nav>
+
+      <main className="grid gap-4 p-4 lg:grid-cols-[18rem_1fr_20rem]">
+        {tab === "reports" ? (
+          <ReportReview
+            token={token}
+            reviewer={reviewer}
+            reports={reports}
+            pins={pins}
+            onDecided={refresh}
+          />
+        ) : (
+          <>
+            <section className="space-y-2">
+              <h2 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                Pending ({queue?.length ?? "…"})
+              </h2>
+              {queue?.length === 0 && (
+                <p className="text-sm text-muted-foreground">Nothing waiting for review.</p>
+              )}
+              <ul className="space-y-1">
+                {queue?.map((c) => (
+                  <li key={c.id}>
+                    <button
+                      onClick={() => setSelectedId(c.id)}
+                      className={`w-full text-left rounded-md px-2.5 py-2 text-sm ${
+                        c.id === selected?.id ? "bg-primary/15" : "hover:bg-secondary"
+                      }`}
+                    >
+                      <span className="flex items-center gap-2">
+                        <span className={`w-2 h-2 rounded-full shrink-0 ${TYPE_DOTS[c.type]}`} />
+                        <span className="truncate">{c.name || c.address}</span>
+                      </span>
+                      <span className="block pl-4 text-[11px] text-muted-foreground">
+                        {formatTime(c.submittedAt)}
+                        {c.captcha && ` · captcha ${c.captcha.total}`}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </section>
+
+            {selected ? (
+              <section className="space-y-4 min-w-0">
+                <div>
+                  {selected.name && <p className="text-base font-semibold">{selected.name}</p>}
+                  <p className="text-sm font-medium">{selected.address}</p>
+                  <p className="text-xs text-muted-foreground capitalize">
+                    {selected.type} · submitted {formatTime(selected.submittedAt)}
+                  </p>
+                </div>
+
+                <SubmissionDetails contribution={selected} token={token} />
+
+                <MapContainer
+                  key={selected.id}
+                  center={[selected.lat, selected.lng]}
+                  zoom={17}
+                  className="h-64 w-full rounded-xl"
+                  scrollWheelZoom={false}
+                >
+                  <TileLayer
+                    url={TILE_LIGHT}
+                    attribution='&copy; <a href="https://carto.com/">CARTO</a>'
+                  />
+                  <Circle
+                    center={[selected.lat, selected.lng]}
+                    radius={radius}
+                    pathOptions={{ color: "#64748b", weight: 1, fillOpacity: 0.05 }}
+                  />
+                  {candidates.map(({ pin }) => (
+                    <CircleMarker
+                      key={pin.id}
+                      center={[pin.lat, pin.lng]}
+                      radius={pin.id === mergeTarget ? 9 : 6}
+                      pathOptions={{ color: "#fff", weight: 1.5, fillColor: MARKER_COLORS[pin.type], fillOpacity: 0.85 }}
+                      eventHandlers={{ click: () => setMergeTarget(pin.id) }}
+                    >
+                      <Tooltip>{pin.label}</Tooltip>
+                    </CircleMarker>
+                  ))}
+                  <CircleMarker
+                    center={[selected.lat, selected.lng]}
+                    radius={8}
+                    pathOptions={{ color: "#111827", weight: 2, fillColor: MARKER_COLORS[selected.type], fillOpacity: 1 }}
+                  >
+                    <Tooltip permanent direction="top">Submission</Tooltip>
+                  </CircleMarker>
+                </MapContainer>
+
+                <div className="space-y-2">
+                  <div className="flex items-center gap-1.5">
+                    <h2 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground flex-1">
+                      Possible duplicates
+                    </h2>
+                    {DUPLICATE_RADII.map((r) => (
+                      <button key={r} onClick={() => setRadius(r)} className={chipClass(r === radius)}>
+                        {r} m
+                      </button>
+                    ))}
+                  </div>
+                  {candidates.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      No resources within {radius} m.
+                    </p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {candidates.map(({ pin, meters, match }) => (
+                        <li key={pin.id}>
+                          <label className="flex items-start gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-secondary cursor-pointer">
+                            <input
+                              type="radio"
+                              name="merge-target"
+                              className="mt-1"
+                              checked={mergeTarget === pin.id}
+                              onChange={() => setMergeTarget(pin.id)}
+                            />
+                            <span className="min-w-0 flex-1">
+                              <span className="flex items-center gap-2">
+                                <span className={`w-2 h-2 rounded-full shrink-0 ${TYPE_DOTS[pin.type]}`} />
+                                <span className="truncate font-medium">{pin.label}</span>
+                              </span>
+                              <span className="block text-xs text-muted-foreground truncate">
+                                {pin.address || pin.detail}
+                              </span>
+                            </span>
+                            <span className="text-right text-xs tabular-nums text-muted-foreground">
+                              {Math.round(meters)} m
+                              {match >= MATCH_THRESHOLD && (
+                                <span className="block font-semibold text-primary">
+                                  {Math.round(match * 100)}% match
+                                </span>
+                              )}
+                            </span>
+                          </label>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                <div className="space-y-1">
+                  <h2 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                    Captcha score
+                  </h2>
+                  <CaptchaSummary captcha={selected.captcha} />
+                </div>
+
+                <div className="space-y-2">
+                  <textarea
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder="Note for the audit log (optional)"
+                    rows={2}
+                    className="w-full rounded-md border border-border bg-background px-3 py-2 text-sm"
+                  />
+                  {!reviewer.trim() && (
+                    <p className="text-xs text-muted-foreground">
+                      Enter your name at the top before deciding.
+                    </p>
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={() => decide("approve")}
+                      disabled={busy || !reviewer.trim()}
+                      className="flex items-center gap-1.5 rounded-md bg-primary text-primary-foreground px-3 py-1.5 text-sm disabled:opacity-50"
+                    >
+                      <Check className="w-4 h-4" /> Approve
+                    </button>
+                    <button
+                      onClick={() => decide("merge")}
+                      disabled={busy || !reviewer.trim() || !mergeTarget}
+                      className="flex items-center gap-1.5 rounded-md bg-secondary px-3 py-1.5 text-sm disabled:opacity-50"
+                    >
+                      <GitMerge className="w-4 h-4" /> Merge into selected
+                    </button>
+                    <button
+                      onClick={() => decide("reject")}
+                      disabled={busy || !reviewer.trim()}
+                      className="flex items-center gap-1.5 rounded-md bg-destructive/10 text-destructive px-3 py-1.5 text-sm disabled:opacity-50"
+                    >
+                      <X className="w-4 h-4" /> Reject
+                    </button>
+                  </div>
+                </div>
+              </section>
+            ) : (
+              <section className="text-sm text-muted-foreground">
+                {queue === null ? "Loading…" : "Select a submission to review it."}
+              </section>
+            )}
+          </>
+        )}
+
+        <section className="space-y-2">
+          <h2 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+            Audit log
+          </h2>
+          {audit.length === 0 && (
+            <p className="text-sm text-muted-foreground">No decisions yet.</p>
+          )}
+          <ul className="space-y-2">
+            {audit.map((entry) => (
+              <li key={`${entry.contributionId ?? entry.reportId}-${entry.at}`} className="text-xs">
+                <p>
+                  <span className="font-semibold">
+                    {entry.reportId
+                      ? `Report ${REPORT_ACTION_LABELS[entry.action]?.toLowerCase()}`
+                      : ACTION_LABELS[entry.action]}
+                  </span>{" "}
+                  by{" "}
+                  {entry.reviewer}
+                  <span className="text-muted-foreground"> · {formatTime(entry.at)}</span>
+                </p>
+                <p className="text-muted-foreground truncate">
+                  {entry.contributionId ?? entry.reportId}
+                  {entry.mergedInto && ` → ${entry.mergedInto}`}
+                </p>
+                {entry.note && <p className="italic">{entry.note}</p>}
+              </li>
+            ))}
+          </ul>
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default AdminReview;
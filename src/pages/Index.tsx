@@ -1,18 +1,78 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useMemo, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
 import AppHeader from "@/components/AppHeader";
 import MapDashboard from "@/components/MapDashboard";
 import FilterSheet from "@/components/FilterSheet";
 import AIChatBot from "@/components/AIChatBot";
 import ContributorForm from "@/components/ContributorForm";
+import type { OpenFilter } from "@/lib/hours";
+import type { TransitFilter } from "@/lib/transit";
+import { buildFilterGroups, type GroupModes } from "@/lib/filters";
+import { useResources } from "@/hooks/use-resources";
+import { useLang } from "@/hooks/lang-context";
+import {
+  parseMapUrlState,
+  serializeMapUrlState,
+  type MapView,
+  type SearchLocation,
+} from "@/lib/url-state";
 
 const Index = () => {
-  const [activeFilters, setActiveFilters] = useState<string[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Read the URL once; after that, state is the source of truth and the URL follows.
+  const [initial] = useState(() => parseMapUrlState(searchParams));
+  const { lang, setLang } = useLang();
+  const { pins, tracts, stops, sources, loading, dataAsOf, fromSnapshot } = useResources();
+  const filterGroups = useMemo(() => buildFilterGroups(pins), [pins]);
+  const [activeFilters, setActiveFilters] = useState<string[]>(initial.filters);
+  const [groupModes, setGroupModes] = useState<GroupModes>(initial.groupModes);
+  const [openFilter, setOpenFilter] = useState<OpenFilter | null>(
+    initial.openFilter
+  );
+  const [transitFilter, setTransitFilter] = useState<TransitFilter | null>(
+    initial.transitFilter
+  );
   const [filtersOpen, setFiltersOpen] = useState(false);
-  const [searchLocation, setSearchLocation] = useState<{
-    lat: number;
-    lng: number;
-    label: string;
-  } | null>(null);
+  const [searchLocation, setSearchLocation] = useState<SearchLocation | null>(
+    initial.search
+  );
+  const [selectedPinId, setSelectedPinId] = useState<string | null>(
+    initial.pinId
+  );
+  const [view, setView] = useState<MapView | null>(initial.view);
+  const [focusPin, setFocusPin] = useState<{ id: string } | null>(null);
+
+  // A shared link's language is the sender's; show it without replacing the
+  // recipient's own choice.
+  useEffect(() => {
+    if (initial.lang) setLang(initial.lang, { persist: false });
+  }, [initial.lang, setLang]);
+
+  useEffect(() => {
+    setSearchParams(
+      serializeMapUrlState({
+        search: searchLocation,
+        filters: activeFilters,
+        groupModes,
+        openFilter,
+        transitFilter,
+        pinId: selectedPinId,
+        view,
+        lang,
+      }),
+      { replace: true }
+    );
+  }, [
+    searchLocation,
+    activeFilters,
+    groupModes,
+    openFilter,
+    transitFilter,
+    selectedPinId,
+    view,
+    lang,
+    setSearchParams,
+  ]);
 
   const handleSearchResult = useCallback(
     (lat: number, lng: number, label: string) => {
@@ -21,6 +81,11 @@ const Index = () => {
     []
   );
 
+  const handleSelectPin = useCallback((id: string) => {
+    setSelectedPinId(id);
+    setFocusPin({ id });
+  }, []);
+
   const handleClearSearch = useCallback(() => {
     setSearchLocation(null);
   }, []);
@@ -28,18 +93,45 @@ const Index = () => {
   return (
     <div className="relative w-full h-screen overflow-hidden bg-background">
       <AppHeader
+        pins={pins}
         onSearchResult={handleSearchResult}
+        onSelectPin={handleSelectPin}
         onClearSearch={handleClearSearch}
         hasActiveSearch={!!searchLocation}
+        searchLocation={searchLocation}
       />
       <MapDashboard
+        pins={pins}
+        tracts={tracts}
+        stops={stops}
+        sources={sources}
+        loading={loading}
+        dataAsOf={dataAsOf}
+        fromSnapshot={fromSnapshot}
+        filterGroups={filterGroups}
         activeFilters={activeFilters}
+        groupModes={groupModes}
+        openFilter={openFilter}
+        transitFilter={transitFilter}
+        selectedPinId={selectedPinId}
+        onSelectedPinChange={setSelectedPinId}
+        initialView={initial.view}
+        onViewChange={setView}
+        focusPin={focusPin}
         searchLocation={searchLocation}
         onClearSearch={handleClearSearch}
       />
       <FilterSheet
+        pins={pins}
+        filterGroups={filterGroups}
         activeFilters={activeFilters}
         onFiltersChange={setActiveFilters}
+        groupModes={groupModes}
+        onGroupModesChange={setGroupModes}
+        openFilter={openFilter}
+        onOpenFilterChange={setOpenFilter}
+        transitFilter={transitFilter}
+        onTransitFilterChange={setTransitFilter}
         onOpenChange={setFiltersOpen}
       />
       <AIChatBot fabOffset={filtersOpen || !!searchLocation} />
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  ACS_INDICATORS,
+  NEED_RAMP,
+  colorFor,
+  parseAcsCsv,
+  quantileBreaks,
+  type AcsTract,
+} from "@/lib/acs";
+
+const ACS_CSV = [
+  "GEOID,NAME,INTPTLAT,INTPTLON,ALAND,DP03_0095E,DP03_0062E,DP03_0128PE,DP03_0009PE,DP03_0051E,DP03_0074E",
+  "11001000100,1,+38.9,-077.0,500000,3000,90000,10.5,4.2,1200,300",
+  // Suppressed and missing values, and no households to divide by.
+  "11001000200,2,38.88,-76.99,,,-666666666,,,0,10",
+  ",3,38.9,-77.0,1,1,1,1,1,1,1",
+  "11001000400,4,,-77.0,1,1,1,1,1,1,1",
+].join("\n");
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("parseAcsCsv", () => {
+  it("reads tracts, treating suppressed and blank values as missing", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(ACS_CSV))
+    );
+
+    const tracts = await parseAcsCsv();
+    expect(tracts).toEqual([
+      {
+        id: "11001000100",
+        name: "Tract 1",
+        lat: 38.9,
+        lng: -77,
+        landArea: 500000,
+        population: 3000,
+        medianIncome: 90000,
+        povertyRate: 10.5,
+        unemploymentRate: 4.2,
+        snapShare: 25,
+      },
+      {
+        id: "11001000200",
+        name: "Tract 2",
+        lat: 38.88,
+        lng: -76.99,
+        landArea: 0,
+        population: 0,
+        medianIncome: null,
+        povertyRate: null,
+        unemploymentRate: null,
+        snapShare: null,
+      },
+    ]);
+  });
+});
+
+const withPoverty = (values: (number | null)[]) =>
+  values.map((povertyRate, i) => ({ id: String(i), povertyRate }) as AcsTract);
+
+describe("quantileBreaks", () => {
+  it("gives each class's upper bound, skipping missing values", () => {
+    const tracts = withPoverty([10, 1, null, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(quantileBreaks(tracts, "povertyRate")).toEqual([2, 4, 6, 8, 10]);
+  });
+
+  it("repeats the value when every tract has the same one", () => {
+    expect(quantileBreaks(withPoverty([5, 5, 5]), "povertyRate")).toEqual([5, 5, 5, 5, 5]);
+  });
+
+  it("has no breaks without any values", () => {
+    expect(quantileBreaks(withPoverty([null, null]), "povertyRate")).toEqual([]);
+  });
+});
+
+describe("colorFor", () => {
+  const poverty = ACS_INDICATORS.find((i) => i.key === "povertyRate");
+  const income = ACS_INDICATORS.find((i) => i.key === "medianIncome");
+  const breaks = [2, 4, 6, 8, 10];
+
+  it("darkens with need, in either direction", () => {
+    expect(colorFor(1, breaks, poverty)).toBe(NEED_RAMP[0]);
+    expect(colorFor(7, breaks, poverty)).toBe(NEED_RAMP[3]);
+    expect(colorFor(1, breaks, income)).toBe(NEED_RAMP[4]);
+  });
+
+  it("puts values past the last break in the top class", () => {
+    expect(colorFor(50, breaks, poverty)).toBe(NEED_RAMP[4]);
+  });
+
+  it("uses one class when all breaks are equal", () => {
+    expect(colorFor(5, [5, 5, 5, 5, 5], poverty)).toBe(NEED_RAMP[0]);
+  });
+
+  it("grays out missing values and empty breaks", () => {
+    expect(colorFor(null, breaks, poverty)).toBe("#9ca3af");
+    expect(colorFor(3, [], poverty)).toBe("#9ca3af");
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import type { AcsTract } from "@/lib/acs";
+import { computeAreaStats } from "@/lib/area-stats";
+import {
+  BOUNDARY_LAYERS,
+  containsPoint,
+  parseBoundaries,
+} from "@/lib/boundaries";
+import type { ResourcePin } from "@/lib/resources";
+
+const WARD_LAYER = BOUNDARY_LAYERS.find((l) => l.id === "ward");
+
+const square = (
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number
+): [number, number][] => [
+  [x0, y0],
+  [x1, y0],
+  [x1, y1],
+  [x0, y1],
+  [x0, y0],
+];
+
+const [WARD_7, WARD_8] = parseBoundaries(WARD_LAYER, {
+  features: [
+    {
+      properties: { WARD: 7, NAME: "Ward 7" },
+      geometry: {
+        type: "Polygon",
+        // A hole in the middle, to check it's excluded.
+        coordinates: [square(-77, 38.8, -76.9, 38.9), square(-76.96, 38.84, -76.94, 38.86)],
+      },
+    },
+    {
+      properties: { WARD: 8 },
+      geometry: {
+        type: "MultiPolygon",
+        coordinates: [[square(-77.1, 38.7, -77, 38.8)], [square(-76.9, 38.7, -76.8, 38.8)]],
+      },
+    },
+    { properties: { WARD: null }, geometry: null },
+  ],
+});
+
+const pin = (id: string, overrides: Partial<ResourcePin>): ResourcePin => ({
+  id,
+  source: "snap",
+  type: "food",
+  label: id,
+  lat: 38.85,
+  lng: -76.98,
+  detail: "",
+  address: "",
+  tags: [],
+  storeType: "",
+  ...overrides,
+});
+
+const tract = (id: string, lat: number, lng: number, population: number) =>
+  ({ id, name: id, lat, lng, population, landArea: 0 }) as AcsTract;
+
+describe("parseBoundaries", () => {
+  it("keys areas by layer and code and skips features without either", () => {
+    expect([WARD_7, WARD_8].map((a) => [a.id, a.name])).toEqual([
+      ["ward-7", "Ward 7"],
+      ["ward-8", "Ward 8"],
+    ]);
+    expect(WARD_8.polygons).toHaveLength(2);
+  });
+
+  it("marks areas approximate only when the collection says so", () => {
+    expect(WARD_7.approximate).toBe(false);
+    const [estimated] = parseBoundaries(WARD_LAYER, {
+      name: "DC_Wards_approximate",
+      features: [{ properties: { WARD: 1 }, geometry: { type: "Polygon", coordinates: [square(0, 0, 1, 1)] } }],
+    });
+    expect(estimated.approximate).toBe(true);
+  });
+});
+
+describe("containsPoint", () => {
+  it("handles holes and multipolygons", () => {
+    expect(containsPoint(WARD_7, 38.82, -76.98)).toBe(true);
+    expect(containsPoint(WARD_7, 38.85, -76.95)).toBe(false);
+    expect(containsPoint(WARD_8, 38.75, -76.85)).toBe(true);
+    expect(containsPoint(WARD_8, 38.75, -76.95)).toBe(false);
+  });
+});
+
+describe("computeAreaStats", () => {
+  const PINS = [
+    pin("store-1", {}),
+    pin("store-2", { lat: 38.81 }),
+    pin("clinic-in", { type: "health", lat: 38.82, facility: { attributes: {} } }),
+    pin("clinic-medicaid", {
+      type: "health",
+      lat: 38.75,
+      lng: -76.85,
+      facility: { attributes: { medicaid: true } },
+    }),
+  ];
+
+  it("counts resources per type and per 1,000 residents", () => {
+    const stats = computeAreaStats(WARD_7, PINS, [
+      tract("t1", 38.82, -76.98, 3000),
+      tract("t2", 38.88, -76.92, 1000),
+      tract("outside", 38.75, -76.85, 5000),
+    ]);
+    expect(stats.counts).toEqual({ food: 2, health: 1, community: 0 });
+    expect(stats.population).toBe(4000);
+    expect(stats.perThousand.food).toBeCloseTo(0.5);
+    expect(stats.perThousand.community).toBe(0);
+  });
+
+  it("places resources by the same lines as residents, not the ward the source lists", () => {
+    const listed = [pin("listed-8", { ward: 8 }), pin("listed-7", { ward: 7, lat: 38.75 })];
+    const stats = computeAreaStats(WARD_7, listed, [tract("t1", 38.82, -76.98, 1000)]);
+    expect(stats.counts.food).toBe(1);
+    expect(stats.perThousand.food).toBe(1);
+  });
+
+  it("finds the nearest Medicaid clinic even outside the area", () => {
+    const stats = computeAreaStats(WARD_7, PINS, []);
+    expect(stats.perThousand.food).toBeNull();
+    expect(stats.nearestMedicaid.pin.id).toBe("clinic-medicaid");
+    expect(stats.nearestMedicaid.inArea).toBe(false);
+  });
+});
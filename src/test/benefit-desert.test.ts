@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import type { AcsTract } from "@/lib/acs";
+import {
+  formatNearest,
+  percentileRanks,
+  scoreBenefitDeserts,
+} from "@/lib/benefit-desert";
+import type { ResourcePin, ResourceType } from "@/lib/resources";
+
+const tract = (id: string, lat: number, lng: number, povertyRate: number | null, snapShare: number | null) =>
+  ({
+    id,
+    name: id,
+    lat,
+    lng,
+    landArea: 1_000_000,
+    population: 1000,
+    medianIncome: null,
+    povertyRate,
+    unemploymentRate: null,
+    snapShare,
+  }) as AcsTract;
+
+const pin = (type: ResourceType, lat: number, lng: number) =>
+  ({ id: `${type}-1`, type, label: type, lat, lng, detail: "", address: "", tags: [], storeType: "" }) as ResourcePin;
+
+// Neediest to least needy; the resources sit in the neediest tract.
+const TRACTS = [
+  tract("needy", 38.9, -77.0, 30, 40),
+  tract("middle", 38.95, -77.05, 20, 20),
+  tract("better-off", 38.8, -76.9, 10, 5),
+  tract("no-data", 38.9, -77.01, null, null),
+];
+const PINS = [pin("food", 38.9, -77.0), pin("health", 38.9, -77.0)];
+
+describe("percentileRanks", () => {
+  it("ranks within the list, with ties sharing a rank and nulls kept", () => {
+    expect(percentileRanks([3, 1, null, 2, 2])).toEqual([1, 0, null, 0.5, 0.5]);
+  });
+
+  it("ranks a missing distance (Infinity) worst, above every real one", () => {
+    expect(percentileRanks([1, Infinity, 2])).toEqual([0, 1, 0.5]);
+    expect(percentileRanks([Infinity, Infinity])).toEqual([1, 1]);
+  });
+
+  it("ranks a lone value 0", () => {
+    expect(percentileRanks([5, null])).toEqual([0, null]);
+  });
+});
+
+describe("scoreBenefitDeserts", () => {
+  it("needs both high need and a long distance to rank high", () => {
+    const scores = scoreBenefitDeserts(TRACTS, PINS);
+    // √(need 0.5 × gap 2/3): the tract without need data still counts for distance.
+    expect(scores.map((s) => [s.tract.id, s.index, s.rank])).toEqual([
+      ["middle", 58, 1],
+      ["needy", 0, 2],
+      ["better-off", 0, 3],
+    ]);
+    expect(scores[1]).toMatchObject({ need: 1, accessGap: 0, nearest: { food: 0, health: 0 } });
+  });
+
+  it("treats a type with no pins loaded as the worst gap for every tract", () => {
+    const scores = scoreBenefitDeserts(TRACTS, [PINS[0]]);
+    const needy = scores.find((s) => s.tract.id === "needy");
+    expect(needy.nearest.health).toBe(Infinity);
+    // Food right there, health missing: half the worst gap.
+    expect(needy).toMatchObject({ accessGap: 0.5, index: 71 });
+
+    const none = scoreBenefitDeserts(TRACTS, []);
+    expect(none.map((s) => s.accessGap)).toEqual([1, 1, 1]);
+    expect(none[0]).toMatchObject({ tract: { id: "needy" }, index: 100 });
+  });
+});
+
+describe("formatNearest", () => {
+  it("says none nearby instead of an infinite distance", () => {
+    expect(formatNearest(0.44)).toBe("0.4 mi");
+    expect(formatNearest(Infinity)).toBe("none nearby");
+  });
+});
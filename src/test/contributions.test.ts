@@ -0,0 +1,489 @@
+import { describe, it, expect } from "vitest";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { Readable } from "node:stream";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import {
+  CONTRIBUTION_FORM_DEFAULTS,
+  contributionFormSchema,
+  contributionToPin,
+  duplicateCandidates,
+  parseReport,
+  parseReviewDecision,
+  parseSubmission,
+  summarizeReports,
+  type AuditEntry,
+  type Contribution,
+  type ContributionInput,
+  type Report,
+  toContributionInput,
+} from "@/lib/contributions";
+import type { ResourcePin } from "@/lib/resources";
+import { contributionsApi, createContributionStore } from "../../server/contributions-api";
+
+const VALID = {
+  type: "community",
+  name: "Galen Street Community Center",
+  category: "community-center",
+  address: "1500 Galen St SE, Washington, DC",
+  lat: 38.8629,
+  lng: -76.9951,
+  programs: [],
+  languages: [],
+  contact: {},
+} satisfies ContributionInput;
+
+const WEEKDAYS = [...Array(5).fill({ open: "09:00", close: "17:00" }), null, null];
+// 1×1 transparent PNG.
+const PNG =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+describe("parseSubmission", () => {
+  it("accepts a DC address of any benefit type", () => {
+    expect(parseSubmission(VALID)).toEqual(VALID);
+    expect(parseSubmission({ ...VALID, address: "  1500 Galen St SE  " })).toMatchObject({
+      address: "1500 Galen St SE",
+    });
+  });
+
+  it("rejects unknown types, missing addresses and places outside DC", () => {
+    expect(parseSubmission({ ...VALID, type: "housing" })).toHaveProperty("error");
+    expect(parseSubmission({ ...VALID, address: "" })).toHaveProperty("error");
+    expect(parseSubmission({ ...VALID, lat: 39.29, lng: -76.61 })).toHaveProperty("error");
+    expect(parseSubmission({ ...VALID, lat: "38.86" })).toHaveProperty("error");
+    expect(parseSubmission(null)).toHaveProperty("error");
+  });
+
+  it("checks the name, category and details", () => {
+    const detailed = {
+      ...VALID,
+      type: "food",
+      category: "pantry",
+      hours: WEEKDAYS,
+      programs: ["ebt", "wic", "ebt"],
+      languages: ["en", "es"],
+      contact: { phone: "(202) 555-0123", website: "https://example.org", email: "" },
+    };
+    expect(parseSubmission(detailed)).toMatchObject({
+      hours: WEEKDAYS,
+      programs: ["ebt", "wic"],
+      contact: { phone: "(202) 555-0123", website: "https://example.org" },
+    });
+    expect(parseSubmission({ ...detailed, name: "" })).toHaveProperty("error");
+    expect(parseSubmission({ ...detailed, category: "shelter" })).toHaveProperty("error");
+    expect(parseSubmission({ ...detailed, hours: WEEKDAYS.slice(0, 5) })).toHaveProperty("error");
+    expect(parseSubmission({ ...detailed, hours: Array(7).fill(null) })).toHaveProperty("error");
+    expect(
+      parseSubmission({ ...detailed, hours: [{ open: "9am", close: "5pm" }, ...WEEKDAYS.slice(1)] })
+    ).toHaveProperty("error");
+    expect(parseSubmission({ ...detailed, programs: ["cash"] })).toHaveProperty("error");
+    expect(parseSubmission({ ...detailed, languages: ["xx"] })).toHaveProperty("error");
+    expect(parseSubmission({ ...detailed, contact: { phone: "555-0123" } })).toHaveProperty("error");
+    expect(parseSubmission({ ...detailed, contact: { website: "javascript:alert(1)" } })).toHaveProperty(
+      "error"
+    );
+  });
+
+  it("accepts up to three image data URLs as evidence", () => {
+    const evidence = [{ kind: "receipt", dataUrl: PNG }];
+    expect(parseSubmission({ ...VALID, evidence })).toMatchObject({ evidence });
+    expect(parseSubmission({ ...VALID, evidence: Array(4).fill(evidence[0]) })).toHaveProperty("error");
+    expect(
+      parseSubmission({ ...VALID, evidence: [{ kind: "photo", dataUrl: "data:text/html;base64,PGI+" }] })
+    ).toHaveProperty("error");
+  });
+
+  it("keeps a well-formed captcha score and drops a malformed one", () => {
+    const captcha = { total: 72, signals: { timingHumanness: 30, bad: "x" } };
+    expect(parseSubmission({ ...VALID, captcha })).toMatchObject({
+      captcha: { total: 72, signals: { timingHumanness: 30 } },
+    });
+    expect(parseSubmission({ ...VALID, captcha: { total: 900 } })).toEqual(VALID);
+  });
+});
+
+describe("parseReviewDecision", () => {
+  it("needs an action and a reviewer, and a target to merge into", () => {
+    expect(parseReviewDecision({ action: "approve", reviewer: " Ana ", note: "" })).toEqual({
+      action: "approve",
+      reviewer: "Ana",
+      note: "",
+    });
+    expect(parseReviewDecision({ action: "publish", reviewer: "Ana" })).toHaveProperty("error");
+    expect(parseReviewDecision({ action: "toString", reviewer: "Ana" })).toHaveProperty("error");
+    expect(parseReviewDecision({ action: "reject", reviewer: "  " })).toHaveProperty("error");
+    expect(parseReviewDecision({ action: "merge", reviewer: "Ana" })).toHaveProperty("error");
+    expect(
+      parseReviewDecision({ action: "merge", reviewer: "Ana", mergedInto: "snap-1" })
+    ).toMatchObject({ mergedInto: "snap-1" });
+  });
+});
+
+const HUMAN = { total: 80, signals: {} };
+
+describe("problem reports", () => {
+  const report = (pinId: string, reason: Report["reason"], status: Report["status"] = "pending"): Report => ({
+    pinId,
+    pinLabel: "",
+    pinAddress: "",
+    reason,
+    details: "",
+    id: Math.random().toString(36),
+    status,
+    submittedAt: "",
+  });
+
+  it("checks the pin and reason", () => {
+    expect(
+      parseReport({ pinId: "snap-1", pinLabel: "Corner Market", reason: "no-ebt", captcha: HUMAN })
+    ).toEqual({
+      pinId: "snap-1",
+      pinLabel: "Corner Market",
+      pinAddress: "",
+      reason: "no-ebt",
+      details: "",
+      captcha: HUMAN,
+    });
+    expect(parseReport({ pinId: "", reason: "closed", captcha: HUMAN })).toHaveProperty("error");
+    expect(parseReport({ pinId: "snap-1", reason: "rude", captcha: HUMAN })).toHaveProperty("error");
+    expect(
+      parseReport({ pinId: "snap-1", reason: "closed", details: "x".repeat(501), captcha: HUMAN })
+    ).toHaveProperty("error");
+  });
+
+  it("keeps the browser's captcha score for reviewers without trusting it", () => {
+    expect(parseReport({ pinId: "snap-1", reason: "closed" })).not.toHaveProperty("captcha");
+    expect(
+      parseReport({ pinId: "snap-1", reason: "closed", captcha: { total: 54, signals: {} } })
+    ).toMatchObject({ captcha: { total: 54 } });
+  });
+
+  it("counts one closure report per reporter", () => {
+    const from = (reporter: string) => ({ ...report("a", "closed"), reporter });
+    expect(summarizeReports([from("x"), from("x"), from("x")])).toEqual({});
+    expect(summarizeReports([from("x"), from("y")])).toEqual({
+      a: { possiblyClosed: true, confirmed: [] },
+    });
+  });
+
+  it("warns about a pin once enough closure reports are pending", () => {
+    expect(summarizeReports([report("a", "closed")])).toEqual({});
+    expect(summarizeReports([report("a", "closed"), report("a", "moved")])).toEqual({
+      a: { possiblyClosed: true, confirmed: [] },
+    });
+    // Other problems don't count towards the closure warning.
+    expect(summarizeReports([report("a", "closed"), report("a", "wrong-hours")])).toEqual({});
+  });
+
+  it("stops warning once reviewed, and shows confirmed problems instead", () => {
+    expect(
+      summarizeReports([
+        report("a", "closed", "dismissed"),
+        report("a", "closed", "dismissed"),
+        report("b", "no-ebt", "confirmed"),
+        report("b", "closed"),
+      ])
+    ).toEqual({ b: { possiblyClosed: false, confirmed: ["no-ebt"] } });
+  });
+});
+
+describe("duplicateCandidates", () => {
+  const pin = (id: string, lat: number, lng: number) =>
+    ({ id, type: "food", label: id, lat, lng, detail: "", tags: [], storeType: "" }) as ResourcePin;
+
+  it("lists pins within the radius, nearest first", () => {
+    const pins = [
+      pin("far", VALID.lat + 0.01, VALID.lng),
+      pin("40m", VALID.lat + 0.00036, VALID.lng),
+      pin("10m", VALID.lat + 0.00009, VALID.lng),
+    ];
+    const found = duplicateCandidates(VALID, pins, 50);
+    expect(found.map((c) => c.pin.id)).toEqual(["10m", "40m"]);
+    expect(found[0].meters).toBeCloseTo(10, 0);
+    expect(duplicateCandidates(VALID, pins, 25).map((c) => c.pin.id)).toEqual(["10m"]);
+  });
+});
+
+describe("contributionToPin", () => {
+  it("marks the pin as community-reported", () => {
+    const c: Contribution = { ...VALID, type: "food", id: "abc", status: "approved", submittedAt: "" };
+    expect(contributionToPin(c)).toMatchObject({
+      id: "community-abc",
+      source: "community",
+      type: "food",
+      label: VALID.name,
+      contributionId: "abc",
+      address: VALID.address,
+    });
+  });
+
+  it("carries hours, programs and contact details onto the pin", () => {
+    const pin = contributionToPin({
+      ...VALID,
+      type: "food",
+      category: "pantry",
+      hours: WEEKDAYS,
+      programs: ["ebt"],
+      languages: ["es"],
+      contact: { phone: "202-555-0123" },
+      id: "abc",
+      status: "approved",
+    });
+    expect(pin.hours[0]).toEqual({ kind: "intervals", intervals: [{ open: 540, close: 1020 }] });
+    expect(pin.hours[6]).toEqual({ kind: "closed" });
+    expect(pin.tags).toEqual(["Community-reported", "Accepts EBT"]);
+    expect(pin.extra).toMatchObject({
+      phone: "202-555-0123",
+      services: "Food pantry, SNAP / EBT",
+      languages: "Spanish",
+    });
+    expect(pin.extra.hours).toMatch(/^Mon 9:00 AM–5:00 PM/);
+  });
+
+  it("links a merged submission to the pin it was merged into", () => {
+    const c: Contribution = {
+      ...VALID,
+      id: "abc",
+      status: "merged",
+      mergedInto: "snap-1",
+      submittedAt: "",
+    };
+    expect(contributionToPin(c).sameAs).toBe("snap-1");
+    expect(contributionToPin({ ...c, status: "approved" }).sameAs).toBeUndefined();
+  });
+
+  it("labels submissions from before names were asked for by type", () => {
+    const { type, address, lat, lng } = VALID;
+    const old = { type, address, lat, lng, id: "old", status: "approved", submittedAt: "" };
+    const pin = contributionToPin(old as Contribution);
+    expect(pin.label).toBe("Community resource");
+    expect(pin.extra).toBeUndefined();
+  });
+});
+
+describe("contribution form", () => {
+  const filled = {
+    ...CONTRIBUTION_FORM_DEFAULTS,
+    type: "food" as const,
+    name: "  Galen Street Pantry ",
+    category: "pantry",
+  };
+
+  it("validates hours only when the contributor knows them", () => {
+    const blank = filled.hours.map((d) => ({ ...d, open: "" }));
+    expect(contributionFormSchema.safeParse({ ...filled, hours: blank }).success).toBe(true);
+    const result = contributionFormSchema.safeParse({ ...filled, hoursKnown: true, hours: blank });
+    expect(result.success).toBe(false);
+    expect(result.error.issues[0].path).toEqual(["hours", 0, "open"]);
+  });
+
+  it("rejects a category from another benefit type", () => {
+    expect(contributionFormSchema.safeParse({ ...filled, category: "shelter" }).success).toBe(false);
+  });
+
+  it("builds a submission the API accepts", () => {
+    const values = contributionFormSchema.parse({ ...filled, hoursKnown: true, website: "example.org" });
+    const input = toContributionInput(values, { address: VALID.address, lat: VALID.lat, lng: VALID.lng });
+    expect(input).toMatchObject({
+      name: "Galen Street Pantry",
+      contact: { website: "https://example.org" },
+      hours: WEEKDAYS,
+    });
+    expect(parseSubmission(input)).toEqual(input);
+  });
+});
+
+/** Runs one request through the handler and returns status and JSON body. */
+const call = async (
+  api: ReturnType<typeof contributionsApi>,
+  method: string,
+  body?: string,
+  {
+    url = "/api/contributions",
+    token,
+    ip = "127.0.0.1",
+  }: { url?: string; token?: string; ip?: string } = {}
+) => {
+  const req = Readable.from(body ? [Buffer.from(body)] : []) as unknown as IncomingMessage;
+  req.method = method;
+  req.url = url;
+  Object.assign(req, { socket: { remoteAddress: ip } });
+  req.headers = token ? { authorization: `Bearer ${token}` } : {};
+  let result: { status: number; body: unknown } | null = null;
+  const res = {
+    statusCode: 200,
+    setHeader: () => {},
+    end(text: string) {
+      result = { status: this.statusCode, body: JSON.parse(text) };
+    },
+  } as unknown as ServerResponse;
+  await api(req, res, () => {});
+  return result;
+};
+
+describe("contributions API", () => {
+  const setup = async (adminToken?: string) => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "eq-contrib-"));
+    const file = path.join(dir, "contributions.json");
+    const store = createContributionStore(file);
+    return { file, store, api: contributionsApi(store, { adminToken }) };
+  };
+
+  it("stores submissions as pending and only lists approved ones", async () => {
+    const { file, store, api } = await setup();
+    const created = await call(api, "POST", JSON.stringify(VALID));
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ status: "pending" });
+    expect(await call(api, "GET")).toEqual({ status: 200, body: { contributions: [] } });
+
+    const saved = await store.list();
+    await fs.writeFile(file, JSON.stringify(saved.map((c) => ({ ...c, status: "approved" }))));
+    const listed = await call(api, "GET");
+    expect((listed.body as { contributions: Contribution[] }).contributions).toEqual([
+      expect.objectContaining({ ...VALID, status: "approved" }),
+    ]);
+  });
+
+  it("stores photos beside the data and serves them only to admins", async () => {
+    const { file, store, api } = await setup("secret");
+    const captcha = { total: 80, signals: {} };
+    const created = await call(api, "POST", JSON.stringify({ ...VALID, captcha, evidence: [{ kind: "photo", dataUrl: PNG }] }));
+    const { id } = created.body as { id: string };
+    const [saved] = await store.list();
+    expect(saved.evidence).toEqual([{ kind: "photo", file: `${id}-0.png`, mime: "image/png" }]);
+    expect(JSON.stringify(saved)).not.toContain("base64");
+    const bytes = await fs.readFile(path.join(path.dirname(file), "evidence", `${id}-0.png`));
+    expect(bytes.subarray(1, 4).toString()).toBe("PNG");
+
+    await fs.writeFile(file, JSON.stringify([{ ...saved, status: "approved" }]));
+    const listed = (await call(api, "GET")).body as { contributions: Contribution[] };
+    expect(listed.contributions[0]).not.toHaveProperty("evidence");
+    expect(listed.contributions[0]).not.toHaveProperty("captcha");
+    expect(await store.evidence(id, 0)).toMatchObject({ mime: "image/png" });
+    expect(await store.evidence(id, 1)).toBeNull();
+  });
+
+  it("never lists reviewer names, notes or the submitter's email publicly", async () => {
+    const { store, api } = await setup("secret");
+    const contact = { phone: "202-555-0100", email: "me@example.com" };
+    const { id } = await store.add({ ...VALID, contact, captcha: { total: 80, signals: {} } });
+    await call(api, "POST", JSON.stringify({ action: "approve", reviewer: "Ana", note: "Called them" }), {
+      token: "secret",
+      url: `/api/admin/contributions/${id}/review`,
+    });
+
+    const listed = (await call(api, "GET")).body as { contributions: Contribution[] };
+    expect(listed.contributions).toEqual([
+      expect.objectContaining({ id, status: "approved", contact: { phone: "202-555-0100" } }),
+    ]);
+    const json = JSON.stringify(listed);
+    for (const leaked of ["Ana", "Called them", "me@example.com", "reviewer", "reviewNote", "submittedAt", "captcha"]) {
+      expect(json).not.toContain(leaked);
+    }
+  });
+
+  it("rejects invalid submissions", async () => {
+    const { store, api } = await setup();
+    expect((await call(api, "POST", "not json")).status).toBe(400);
+    expect((await call(api, "POST", JSON.stringify({ ...VALID, type: "x" }))).status).toBe(400);
+    expect((await call(api, "DELETE")).status).toBe(405);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it("keeps every one of several simultaneous submissions", async () => {
+    const { store } = await setup();
+    await Promise.all([1, 2, 3].map(() => store.add(VALID)));
+    expect(await store.list()).toHaveLength(3);
+  });
+
+  it("keeps the review endpoints closed without the right token", async () => {
+    const queue = { url: "/api/admin/contributions" };
+    expect((await call((await setup()).api, "GET", undefined, queue)).status).toBe(503);
+    const { api } = await setup("secret");
+    expect((await call(api, "GET", undefined, queue)).status).toBe(401);
+    expect((await call(api, "GET", undefined, { ...queue, token: "nope" })).status).toBe(401);
+    expect((await call(api, "GET", undefined, { ...queue, token: "secret" })).status).toBe(200);
+  });
+
+  it("records a review once and appends it to the audit log", async () => {
+    const { store, api } = await setup("secret");
+    const { id } = await store.add(VALID);
+    const admin = { token: "secret" };
+    const reviewUrl = { ...admin, url: `/api/admin/contributions/${id}/review` };
+    const decision = { action: "merge", reviewer: "Ana", note: "Same pantry", mergedInto: "snap-1" };
+
+    const reviewed = await call(api, "POST", JSON.stringify(decision), reviewUrl);
+    expect(reviewed.status).toBe(200);
+    expect(reviewed.body).toMatchObject({
+      contribution: { status: "merged", reviewer: "Ana", mergedInto: "snap-1" },
+    });
+    expect((await call(api, "POST", JSON.stringify(decision), reviewUrl)).status).toBe(409);
+    expect(
+      (await call(api, "POST", JSON.stringify(decision), {
+        ...admin,
+        url: "/api/admin/contributions/missing/review",
+      })).status
+    ).toBe(404);
+
+    const pending = await call(api, "GET", undefined, { ...admin, url: "/api/admin/contributions" });
+    expect(pending.body).toEqual({ contributions: [] });
+    const audit = await call(api, "GET", undefined, { ...admin, url: "/api/admin/audit" });
+    expect((audit.body as { entries: AuditEntry[] }).entries).toEqual([
+      expect.objectContaining({ ...decision, contributionId: id, previousStatus: "pending" }),
+    ]);
+    const listed = (await call(api, "GET")).body as { contributions: Contribution[] };
+    expect(listed.contributions).toEqual([
+      expect.objectContaining({ id, status: "merged", mergedInto: "snap-1" }),
+    ]);
+  });
+
+  it("limits how often one sender can post, whatever the captcha says", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "eq-contrib-"));
+    const store = createContributionStore(path.join(dir, "contributions.json"));
+    const api = contributionsApi(store, { rateLimit: { max: 2, windowMs: 60_000 } });
+    const captcha = { total: 100, signals: {} };
+    const report = JSON.stringify({ pinId: "snap-1", reason: "closed", captcha });
+    const reportsUrl = { url: "/api/reports" };
+    expect((await call(api, "POST", JSON.stringify(VALID))).status).toBe(201);
+    expect((await call(api, "POST", report, reportsUrl)).status).toBe(201);
+    expect((await call(api, "POST", report, reportsUrl)).status).toBe(429);
+    expect((await call(api, "POST", JSON.stringify(VALID))).status).toBe(429);
+    expect((await call(api, "POST", report, { ...reportsUrl, ip: "10.0.0.2" })).status).toBe(201);
+    expect(await store.listReports()).toHaveLength(2);
+  });
+
+  it("takes problem reports and lets a reviewer confirm or dismiss them", async () => {
+    const { store, api } = await setup("secret");
+    const report = { pinId: "snap-1", pinLabel: "Corner Market", reason: "closed" };
+    const body = JSON.stringify({ ...report, captcha: HUMAN });
+    const reportsUrl = { url: "/api/reports" };
+    expect((await call(api, "POST", JSON.stringify({ ...report, reason: "" }), reportsUrl)).status).toBe(400);
+    expect((await call(api, "POST", body, reportsUrl)).status).toBe(201);
+    expect((await call(api, "POST", body, reportsUrl)).status).toBe(201);
+    // The same sender twice doesn't make a warning.
+    expect((await call(api, "GET", undefined, reportsUrl)).body).toEqual({ pins: {} });
+    expect((await call(api, "POST", body, { ...reportsUrl, ip: "10.0.0.2" })).status).toBe(201);
+    expect((await call(api, "GET", undefined, reportsUrl)).body).toEqual({
+      pins: { "snap-1": { possiblyClosed: true, confirmed: [] } },
+    });
+
+    const admin = { token: "secret" };
+    const queue = await call(api, "GET", undefined, { ...admin, url: "/api/admin/reports" });
+    const [first, second] = (queue.body as { reports: Report[] }).reports;
+    const decide = (id: string, action: string) =>
+      call(api, "POST", JSON.stringify({ action, reviewer: "Ana", note: "" }), {
+        ...admin,
+        url: `/api/admin/reports/${id}/review`,
+      });
+    expect((await decide(first.id, "merge")).status).toBe(400);
+    expect((await decide(first.id, "reject")).body).toMatchObject({ report: { status: "dismissed" } });
+    expect((await decide(second.id, "approve")).body).toMatchObject({ report: { status: "confirmed" } });
+    expect((await decide(second.id, "approve")).status).toBe(409);
+
+    expect((await call(api, "GET", undefined, reportsUrl)).body).toEqual({
+      pins: { "snap-1": { possiblyClosed: false, confirmed: ["closed"] } },
+    });
+    expect((await store.auditLog()).map((e) => e.reportId)).toEqual([second.id, first.id]);
+  });
+});
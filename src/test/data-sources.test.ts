@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { loadDataSource } from "@/lib/data-sources";
+
+const SNAP_CSV = [
+  "Record ID,Store Name,Store Type,Street Number,Street Name,Zip Code,Latitude,Longitude,Authorization Date,End Date",
+  "1669540,Corner Market,Convenience Store,100,H St NE,20002,38.9,-77.0,9/4/2025, ",
+  "1669541,No Coords,Convenience Store,1,A St NE,20002,,,1/1/2020,",
+  ",Old Grocery,Grocery Store,5,K St NW,20001,38.9,-77.0,3/15/1988,",
+].join("\n");
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("loadDataSource", () => {
+  it("maps valid rows to pins and reports invalid rows", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(SNAP_CSV))
+    );
+
+    const result = await loadDataSource({
+      id: "snap",
+      adapter: "usda-snap",
+      url: "/snap.csv",
+      label: "SNAP",
+    });
+
+    expect(result.pins).toHaveLength(2);
+    expect(result.pins[0]).toMatchObject({
+      id: "snap-1669540",
+      source: "snap",
+      type: "food",
+      label: "Corner Market",
+      address: "100 H St NE, Washington, DC 20002",
+      tags: ["Accepts EBT"],
+      dates: { verified: "2025-09-04", authorized: "2025-09-04" },
+    });
+    expect(result.pins[0].dates.ends).toBeUndefined();
+    expect(result.errors).toEqual([
+      { row: 1, message: "Missing or invalid coordinates" },
+    ]);
+  });
+
+  it("dates every listed retailer from the extract, not its authorization", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(SNAP_CSV))
+    );
+    const source = { id: "snap", adapter: "usda-snap", url: "/snap.csv", label: "SNAP" };
+
+    const derived = await loadDataSource(source);
+    expect(derived.pins[1].dates).toEqual({ verified: "2025-09-04", authorized: "1988-03-15" });
+
+    const published = await loadDataSource({ ...source, published: "2026-01-31" });
+    expect(published.pins.map((p) => p.dates.verified)).toEqual(["2026-01-31", "2026-01-31"]);
+  });
+
+  it("keeps pin ids when the file is reordered", async () => {
+    const [header, ...rows] = SNAP_CSV.split("\n");
+    const source = { id: "snap", adapter: "usda-snap", url: "/snap.csv", label: "SNAP" };
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(SNAP_CSV))
+    );
+    const before = (await loadDataSource(source)).pins.map((p) => [p.label, p.id]);
+
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response([header, ...rows.reverse()].join("\n")))
+    );
+    const after = (await loadDataSource(source)).pins.map((p) => [p.label, p.id]);
+
+    expect(after).toEqual([...before].reverse());
+    // No Record ID: keyed on name and address instead.
+    expect(before[1][1]).toMatch(/^snap-[0-9a-z]+$/);
+  });
+
+  it("rejects sources with no registered adapter", async () => {
+    await expect(
+      loadDataSource({ id: "x", adapter: "missing", url: "/x.csv", label: "X" })
+    ).rejects.toThrow('No adapter registered for "missing"');
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import {
+  findMatches,
+  mergePins,
+  nameSimilarity,
+  normalizeName,
+  resolveEntities,
+  scoreMatch,
+} from "@/lib/entity-resolution";
+import type { ResourcePin } from "@/lib/resources";
+
+// Fixture ids start with their source: "snap-1", "community-a".
+const pin = (id: string, label: string, address: string, lat: number, lng: number, tags: string[] = []) =>
+  ({ id, source: id.split("-")[0], type: "food", label, address, lat, lng, detail: "", tags, storeType: "" }) as ResourcePin;
+
+// Real rows from the SNAP export.
+const SAFEWAY = pin("snap-1", "SAFEWAY  1177", "322 40th St NE, Washington, DC 20019", 38.8951, -76.9434, [
+  "Accepts EBT",
+]);
+const LIDL = pin("snap-2", "Lidl 1542", "3100 14th St NW, Washington, DC 20010", 38.9289, -77.0327);
+const TARGET = pin("snap-3", "Target 2259", "3100 14th St NW, Washington, DC 20010", 38.9295, -77.0325);
+
+describe("normalizeName", () => {
+  it("drops case, punctuation, store numbers and company suffixes", () => {
+    expect(normalizeName("SAFEWAY  1177")).toBe("safeway");
+    expect(normalizeName("7-eleven 22464e")).toBe("7 eleven");
+    expect(normalizeName("C & F Seafood, Inc.")).toBe("c and f seafood");
+    expect(normalizeName("Café Rosé")).toBe("cafe rose");
+  });
+
+  it("keeps a name that is only a number", () => {
+    expect(normalizeName("1100")).toBe("1100");
+  });
+});
+
+describe("nameSimilarity", () => {
+  it("treats a shorter form of the same name as close", () => {
+    expect(nameSimilarity("Safeway", "SAFEWAY  1177")).toBe(1);
+    expect(nameSimilarity("Safeway", "Safeway Benning Road")).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it("scores unrelated names low", () => {
+    expect(nameSimilarity("Lidl 1542", "Target 2259")).toBeLessThan(0.2);
+  });
+});
+
+describe("scoreMatch", () => {
+  it("matches the same store reported with a different spelling", () => {
+    const reported = pin("community-a", "Safeway", "322 40th Street Northeast", 38.8952, -76.9433);
+    const score = scoreMatch(SAFEWAY, reported);
+    expect(score.address).toBe(1);
+    expect(score.meters).toBeLessThan(25);
+    expect(score.score).toBeGreaterThan(0.9);
+  });
+
+  it("never matches different businesses at one address", () => {
+    expect(scoreMatch(LIDL, TARGET)).toMatchObject({ score: 0, address: 1 });
+  });
+
+  it("needs the address or the location to agree", () => {
+    const elsewhere = pin("community-b", "Safeway", "1747 Columbia Rd NW", 38.9258, -77.0413);
+    expect(scoreMatch(SAFEWAY, elsewhere).score).toBe(0);
+  });
+});
+
+describe("findMatches", () => {
+  it("only pairs records close enough to compare", () => {
+    const reported = pin("community-a", "Safeway", "322 40th St NE", 38.8951, -76.9434);
+    const matches = findMatches([SAFEWAY, LIDL, TARGET, reported]);
+    expect(matches.map((m) => [m.a, m.b])).toEqual([["community-a", "snap-1"]]);
+  });
+});
+
+describe("mergePins", () => {
+  it("keeps the dataset record and adds the others' programs and details", () => {
+    const reported = {
+      ...pin("community-a", "Safeway", "322 40th St NE", 38.8952, -76.9433, [
+        "Community-reported",
+        "Accepts WIC",
+        "Accepts EBT",
+      ]),
+      contributionId: "a",
+      extra: { phone: "202-555-0123", hours: "Mon 6:00 AM–12:00 AM" },
+    };
+    const merged = mergePins([reported, SAFEWAY]);
+    expect(merged).toMatchObject({
+      id: "snap-1",
+      label: "SAFEWAY  1177",
+      lat: SAFEWAY.lat,
+      tags: ["Accepts EBT", "Accepts WIC"],
+      extra: { phone: "202-555-0123" },
+      mergedFrom: [{ id: "community-a", label: "Safeway", source: "community" }],
+    });
+    expect(merged.contributionId).toBeUndefined();
+  });
+
+  it("takes the most recent verification from any record", () => {
+    const dated = { ...SAFEWAY, dates: { verified: "2014-05-01", authorized: "2014-05-01" } };
+    const reviewed = {
+      ...pin("community-a", "Safeway", "322 40th St NE", 38.8952, -76.9433),
+      dates: { verified: "2026-09-30" },
+    };
+    expect(mergePins([dated, reviewed]).dates).toEqual({
+      verified: "2026-09-30",
+      authorized: "2014-05-01",
+    });
+  });
+
+  it("ranks records by their source field, whatever their ids look like", () => {
+    const clinic = { ...pin("dc-health-7", "Safeway Clinic", "322 40th St NE", 38.8951, -76.9434), source: "health" };
+    const vendor = { ...pin("wic-vendors-4", "Safeway", "322 40th St NE", 38.8951, -76.9434), source: "wic-vendors" };
+    expect(mergePins([vendor, SAFEWAY, clinic])).toMatchObject({
+      id: "dc-health-7",
+      mergedFrom: [
+        { id: "snap-1", source: "snap" },
+        { id: "wic-vendors-4", source: "wic-vendors" },
+      ],
+    });
+  });
+
+  it("returns a lone record unchanged", () => {
+    expect(mergePins([LIDL])).toBe(LIDL);
+  });
+});
+
+describe("resolveEntities", () => {
+  it("merges matches and leaves everything else alone", () => {
+    const reported = pin("community-a", "Safeway", "322 40th St NE", 38.8951, -76.9434, ["Accepts WIC"]);
+    const resolved = resolveEntities([SAFEWAY, LIDL, TARGET, reported]);
+    expect(resolved.map((p) => p.id)).toEqual(["snap-1", "snap-2", "snap-3"]);
+    expect(resolved[0].tags).toEqual(["Accepts EBT", "Accepts WIC"]);
+  });
+
+  it("follows a reviewer's merge even when the records don't match", () => {
+    const renamed = {
+      ...pin("community-b", "Corner grocery", "3100 14th St NW", 38.929, -77.0326),
+      sameAs: "snap-2",
+    };
+    const resolved = resolveEntities([LIDL, TARGET, renamed]);
+    expect(resolved).toHaveLength(2);
+    expect(resolved[0]).toMatchObject({ id: "snap-2", mergedFrom: [{ id: "community-b" }] });
+    expect(resolved[0].sameAs).toBeUndefined();
+  });
+
+  it("ignores a merge into a pin that no longer exists", () => {
+    const orphan = { ...pin("community-c", "Pantry", "1 Main St NW", 38.9, -77), sameAs: "snap-99" };
+    expect(resolveEntities([orphan])).toEqual([orphan]);
+  });
+});
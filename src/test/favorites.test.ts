@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import type { ResourcePin } from "@/lib/resources";
+import {
+  EMPTY_FAVORITES,
+  exportFavorites,
+  FAVORITES_KEY,
+  isFavorite,
+  loadFavorites,
+  mergeFavorites,
+  parseFavoritesFile,
+  saveFavorites,
+  setSavedPlace,
+  toggleFavorite,
+} from "@/lib/favorites";
+
+const pin = (id: string): ResourcePin => ({
+  id,
+  source: "health",
+  type: "health",
+  label: `Clinic ${id}`,
+  lat: 38.9,
+  lng: -77.01,
+  detail: "",
+  address: "1 Main St NW",
+  tags: [],
+  storeType: "",
+});
+
+const memoryStorage = (): Storage => {
+  const data = new Map<string, string>();
+  return {
+    get length() {
+      return data.size;
+    },
+    clear: () => data.clear(),
+    getItem: (k) => data.get(k) ?? null,
+    key: (i) => [...data.keys()][i] ?? null,
+    removeItem: (k) => void data.delete(k),
+    setItem: (k, v) => void data.set(k, v),
+  };
+};
+
+const HOME = { lat: 38.86, lng: -76.99, label: "1300 Good Hope Rd SE" };
+
+describe("toggleFavorite", () => {
+  it("stars and unstars a pin", () => {
+    const starred = toggleFavorite(EMPTY_FAVORITES, pin("a"), new Date("2026-01-02T00:00:00Z"));
+    expect(starred.pins).toEqual([
+      expect.objectContaining({ id: "a", label: "Clinic a", savedAt: "2026-01-02T00:00:00.000Z" }),
+    ]);
+    expect(isFavorite(toggleFavorite(starred, pin("a")), "a")).toBe(false);
+  });
+});
+
+describe("loadFavorites", () => {
+  it("round-trips through storage", () => {
+    const storage = memoryStorage();
+    const favorites = setSavedPlace(toggleFavorite(EMPTY_FAVORITES, pin("a")), "home", HOME);
+    saveFavorites(favorites, storage);
+    expect(loadFavorites(storage)).toEqual(favorites);
+  });
+
+  it("drops unusable entries and survives corrupt storage", () => {
+    const storage = memoryStorage();
+    storage.setItem(
+      FAVORITES_KEY,
+      JSON.stringify({ pins: [{ id: "a", lat: 38.9, lng: -77 }, { id: "b" }], places: { work: { lat: "x" } } })
+    );
+    expect(loadFavorites(storage)).toMatchObject({ pins: [{ id: "a" }], places: {} });
+    storage.setItem(FAVORITES_KEY, "{not json");
+    expect(loadFavorites(storage)).toEqual(EMPTY_FAVORITES);
+  });
+});
+
+describe("parseFavoritesFile", () => {
+  it("reads back an export", () => {
+    const favorites = setSavedPlace(toggleFavorite(EMPTY_FAVORITES, pin("a")), "work", HOME);
+    expect(parseFavoritesFile(exportFavorites(favorites))).toEqual(favorites);
+  });
+
+  it("rejects other files", () => {
+    expect(parseFavoritesFile("nope")).toHaveProperty("error");
+    expect(parseFavoritesFile(JSON.stringify({ pins: [] }))).toHaveProperty("error");
+    expect(
+      parseFavoritesFile(JSON.stringify({ format: "equitymap-places", version: 99 }))
+    ).toHaveProperty("error");
+  });
+});
+
+describe("mergeFavorites", () => {
+  it("adds new pins and only fills in missing home or work", () => {
+    const mine = setSavedPlace(toggleFavorite(EMPTY_FAVORITES, pin("a")), "home", HOME);
+    const theirs = setSavedPlace(
+      setSavedPlace(toggleFavorite(toggleFavorite(EMPTY_FAVORITES, pin("a")), pin("b")), "home", {
+        lat: 38.95,
+        lng: -77.05,
+        label: "Elsewhere",
+      }),
+      "work",
+      HOME
+    );
+    const merged = mergeFavorites(mine, theirs);
+    expect(merged.pins.map((p) => p.id)).toEqual(["a", "b"]);
+    expect(merged.places).toEqual({ home: HOME, work: HOME });
+  });
+});
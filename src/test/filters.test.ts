@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { applyFilters, buildFilterGroups, countOptions } from "@/lib/filters";
+import type { ResourcePin } from "@/lib/resources";
+
+const pin = (id: string, overrides: Partial<ResourcePin>): ResourcePin => ({
+  id,
+  source: "health",
+  type: "health",
+  label: id,
+  lat: 38.9,
+  lng: -77,
+  detail: "",
+  address: "",
+  tags: [],
+  storeType: "",
+  ...overrides,
+});
+
+const PINS: ResourcePin[] = [
+  pin("clinic-both", { tags: ["Accepts Medicaid", "Walk-ins OK"] }),
+  pin("clinic-medicaid", { tags: ["Accepts Medicaid"] }),
+  pin("clinic-walkin", { tags: ["Walk-ins OK"] }),
+  pin("store-super", { type: "food", tags: ["Accepts EBT"], storeType: "Supermarket" }),
+  pin("store-corner", { type: "food", tags: ["Accepts EBT"], storeType: "Convenience Store" }),
+];
+
+const groups = buildFilterGroups(PINS);
+const ids = (pins: ResourcePin[]) => pins.map((p) => p.id);
+
+describe("buildFilterGroups", () => {
+  it("builds store-type facets from the loaded data", () => {
+    const store = groups.find((g) => g.id === "storeType");
+    expect(store.options.map((o) => o.id)).toEqual([
+      "store:Convenience Store",
+      "store:Supermarket",
+    ]);
+  });
+});
+
+describe("applyFilters", () => {
+  it("requires every access option by default", () => {
+    expect(
+      ids(applyFilters(PINS, groups, ["Accepts Medicaid", "Walk-ins OK"]))
+    ).toEqual(["clinic-both"]);
+  });
+
+  it("matches any access option when the group is switched to OR", () => {
+    expect(
+      ids(
+        applyFilters(PINS, groups, ["Accepts Medicaid", "Walk-ins OK"], {
+          access: "or",
+        })
+      )
+    ).toEqual(["clinic-both", "clinic-medicaid", "clinic-walkin"]);
+  });
+
+  it("always ORs facets and ANDs across groups", () => {
+    expect(
+      ids(
+        applyFilters(
+          PINS,
+          groups,
+          ["type:food", "type:health", "store:Supermarket"],
+          { type: "and" }
+        )
+      )
+    ).toEqual(["store-super"]);
+  });
+});
+
+describe("countOptions", () => {
+  it("counts AND options as added to the current selection", () => {
+    const counts = countOptions(PINS, groups, ["Accepts Medicaid"]);
+    expect(counts["Walk-ins OK"]).toBe(1);
+    expect(counts["Accepts EBT"]).toBe(0);
+    expect(counts["Accepts Medicaid"]).toBe(2);
+  });
+
+  it("counts facet options on their own within the other selections", () => {
+    const counts = countOptions(PINS, groups, ["type:food", "Accepts EBT"]);
+    expect(counts["type:food"]).toBe(2);
+    expect(counts["type:health"]).toBe(0);
+    expect(counts["store:Supermarket"]).toBe(1);
+  });
+});
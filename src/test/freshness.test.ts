@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatSourceDate,
+  isCurrent,
+  isVerified,
+  latestDate,
+  oldestLoad,
+  parseSourceDate,
+  pinFreshness,
+} from "@/lib/freshness";
+import type { ResourcePin } from "@/lib/resources";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+const pin = (dates?: ResourcePin["dates"]) =>
+  ({ id: "snap-0", type: "food", label: "", lat: 0, lng: 0, detail: "", address: "", tags: [], storeType: "", dates }) as ResourcePin;
+
+describe("parseSourceDate", () => {
+  it("reads USDA and DC GIS date formats", () => {
+    expect(parseSourceDate("9/4/2025")).toBe("2025-09-04");
+    expect(parseSourceDate("2020/03/13 00:00:00+00")).toBe("2020-03-13");
+    expect(parseSourceDate("2024-01-31T08:00:00.000Z")).toBe("2024-01-31");
+  });
+
+  it("ignores blanks and impossible dates", () => {
+    expect(parseSourceDate(" ")).toBeUndefined();
+    expect(parseSourceDate(undefined)).toBeUndefined();
+    expect(parseSourceDate("2/30/2025")).toBeUndefined();
+    expect(parseSourceDate("soon")).toBeUndefined();
+  });
+});
+
+describe("latestDate", () => {
+  it("picks the later date, tolerating gaps", () => {
+    expect(latestDate("2020-03-13", "2022-09-01")).toBe("2022-09-01");
+    expect(latestDate(undefined, "2016-02-12")).toBe("2016-02-12");
+    expect(latestDate(undefined, undefined)).toBeUndefined();
+  });
+});
+
+describe("isCurrent", () => {
+  it("drops records whose authorization has ended", () => {
+    expect(isCurrent(pin({ ends: "2026-10-01" }), NOW)).toBe(false);
+    expect(isCurrent(pin({ ends: "2026-10-19" }), NOW)).toBe(true);
+    expect(isCurrent(pin({ ends: "2027-01-01" }), NOW)).toBe(true);
+    expect(isCurrent(pin(), NOW)).toBe(true);
+  });
+});
+
+describe("pinFreshness", () => {
+  it("flags records not confirmed for over five years", () => {
+    expect(pinFreshness(pin({ verified: "2016-02-12" }), NOW)).toMatchObject({
+      verified: "2016-02-12",
+      stale: true,
+    });
+    expect(pinFreshness(pin({ verified: "2022-09-01" }), NOW).stale).toBe(false);
+  });
+
+  it("marks recent authorizations as new", () => {
+    expect(pinFreshness(pin({ authorized: "2026-08-01" }), NOW).newlyAuthorized).toBe(true);
+    expect(pinFreshness(pin({ authorized: "2025-09-04" }), NOW).newlyAuthorized).toBe(false);
+  });
+
+  it("makes no claim about undated records", () => {
+    expect(pinFreshness(pin(), NOW)).toEqual({ verified: null, stale: false, newlyAuthorized: false });
+    expect(isVerified(pin(), NOW)).toBe(false);
+    expect(isVerified(pin({ verified: "2025-09-04" }), NOW)).toBe(true);
+  });
+});
+
+describe("formatSourceDate", () => {
+  it("shows month and year without shifting across time zones", () => {
+    expect(formatSourceDate("2020-03-01", "en-US")).toBe("Mar 2020");
+  });
+});
+
+describe("oldestLoad", () => {
+  it("takes the earliest load, and has no date when nothing loaded", () => {
+    const at = (iso: string) => ({ loadedAt: new Date(iso) });
+    expect(oldestLoad([at("2026-10-19T12:00:00Z"), at("2026-10-18T08:00:00Z")])).toEqual(
+      new Date("2026-10-18T08:00:00Z")
+    );
+    // Only the community list loaded: still a real date, never Invalid Date.
+    expect(oldestLoad([at("2026-10-19T12:00:00Z")])?.getTime()).toBe(NOW.getTime());
+    expect(oldestLoad([])).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { GEOCODING_PROVIDERS, geocode, type GeocodeResult, type GeocodingProvider } from "@/lib/geocoding";
+import { parseAddress } from "@/lib/geocoding/address";
+import {
+  buildAddressIndex,
+  searchAddressIndex,
+} from "@/lib/geocoding/address-index";
+
+describe("parseAddress", () => {
+  it.each([
+    ["1600 Pennsylvania Ave NW", 1600, "PENNSYLVANIA AVE", "NW"],
+    ["3220 17th Street, N.W.", 3220, "17TH ST", "NW"],
+    ["490 L Street Northwest", 490, "L ST", "NW"],
+    ["2100 new york avenue north east, Washington DC 20002", 2100, "NEW YORK AVE", "NE"],
+    ["1901 MLK Jr Ave SE Suite 200", 1901, "MARTIN LUTHER KING JR AVE", "SE"],
+    ["14 St NW", null, "14TH ST", "NW"],
+    ["625 Eleventh St", 625, "11TH ST", null],
+  ])("parses %j", (text, number, street, quadrant) => {
+    expect(parseAddress(text)).toMatchObject({ number, street, quadrant });
+  });
+
+  it("pulls out the ZIP code", () => {
+    expect(parseAddress("100 H St NE 20002").zip).toBe("20002");
+  });
+});
+
+const INDEX = buildAddressIndex([
+  { address: "600 H ST NE", zip: "20002", lat: 38.9, lng: -76.998 },
+  { address: "1000 H ST NE", zip: "20002", lat: 38.9, lng: -76.992 },
+  { address: "600 H ST NW", zip: "20001", lat: 38.9, lng: -77.02 },
+  // No quadrant in the source row; inferred from the location.
+  { address: "3642 GEORGIA AVE", zip: "20010", lat: 38.935, lng: -77.024 },
+]);
+
+describe("searchAddressIndex", () => {
+  it("finds an exact address point", () => {
+    const [hit] = searchAddressIndex(INDEX, "600 H Street N.E.");
+    expect(hit).toMatchObject({ label: "600 H St NE", precision: "address", lat: 38.9, lng: -76.998 });
+  });
+
+  it("interpolates house numbers between known points", () => {
+    const [hit] = searchAddressIndex(INDEX, "800 H St NE");
+    expect(hit.precision).toBe("interpolated");
+    expect(hit.lng).toBeCloseTo(-76.995, 6);
+  });
+
+  it("returns every quadrant when none is given", () => {
+    const quadrants = searchAddressIndex(INDEX, "600 H St").map((r) => r.quadrant);
+    expect(quadrants.sort()).toEqual(["NE", "NW"]);
+  });
+
+  it("infers missing quadrants and tolerates typos", () => {
+    const [hit] = searchAddressIndex(INDEX, "3642 Georgai Ave NW");
+    expect(hit).toMatchObject({ quadrant: "NW", precision: "address" });
+  });
+
+  it("falls back to a ZIP centroid", () => {
+    const [hit] = searchAddressIndex(INDEX, "20002");
+    expect(hit).toMatchObject({ precision: "zip", lat: 38.9, lng: -76.995 });
+  });
+});
+
+describe("geocode", () => {
+  it("stays on the device unless the Nominatim fallback is opted into", () => {
+    expect(GEOCODING_PROVIDERS.map((p) => p.id)).toEqual(["dc-address-index"]);
+  });
+
+  const result = (precision: GeocodeResult["precision"], provider: string): GeocodeResult => ({
+    lat: 38.9,
+    lng: -77,
+    label: provider,
+    precision,
+    quadrant: null,
+    zip: null,
+    score: 0.8,
+    provider,
+  });
+  const provider = (id: string, results: GeocodeResult[]): GeocodingProvider => ({
+    id,
+    offline: true,
+    geocode: async () => results,
+  });
+
+  it("asks the next provider when a house number only matched a street", async () => {
+    const results = await geocode("700 Quincy St NW", {
+      providers: [
+        provider("local", [result("street", "local")]),
+        provider("remote", [result("address", "remote")]),
+      ],
+    });
+    expect(results.map((r) => r.provider)).toEqual(["remote"]);
+  });
+
+  it("keeps the street match when nothing places the address", async () => {
+    const results = await geocode("700 Quincy St NW", {
+      providers: [provider("local", [result("street", "local")]), provider("remote", [])],
+    });
+    expect(results.map((r) => r.provider)).toEqual(["local"]);
+  });
+
+  it("takes a street match for a query without a house number", async () => {
+    const results = await geocode("Quincy St NW", {
+      providers: [
+        provider("local", [result("street", "local")]),
+        provider("remote", [result("address", "remote")]),
+      ],
+    });
+    expect(results.map((r) => r.provider)).toEqual(["local"]);
+  });
+});
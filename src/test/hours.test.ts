@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseDayHours,
+  parseWeeklyHours,
+  isOpenAt,
+  openStatus,
+  formatDuration,
+} from "@/lib/hours";
+
+const WEEKDAYS = "8:30 AM - 5:00 PM";
+
+describe("parseDayHours", () => {
+  it.each([
+    ["8:00 AM - 5:00 PM", [{ open: 480, close: 1020 }]],
+    ["9:00 AM -12:00 PM", [{ open: 540, close: 720 }]],
+    ["8:00 AM - 5:30PM ", [{ open: 480, close: 1050 }]],
+    ["7:00 AM - 3:30 PM 5PM - 9:00 PM", [{ open: 420, close: 930 }, { open: 1020, close: 1260 }]],
+    ["1:30 PM - 12:00 AM", [{ open: 810, close: 1440 }]],
+  ])("parses %j", (text, intervals) => {
+    expect(parseDayHours(text)).toEqual({ kind: "intervals", intervals });
+  });
+
+  it("merges the repeated ranges found in the DC data", () => {
+    expect(
+      parseDayHours("8:30 AM - 12:30 PM 1:30PM - 5:30 PM 1:30 PM - 5:00 PM")
+    ).toEqual({
+      kind: "intervals",
+      intervals: [
+        { open: 510, close: 750 },
+        { open: 810, close: 1050 },
+      ],
+    });
+  });
+
+  it("recognizes 24-hour, closed, blank and free-text days", () => {
+    expect(parseDayHours("24 hours")).toEqual({ kind: "open24" });
+    expect(parseDayHours("Closed")).toEqual({ kind: "closed" });
+    expect(parseDayHours("  ")).toBeNull();
+    expect(parseDayHours("Please call")).toEqual({
+      kind: "unknown",
+      text: "Please call",
+    });
+  });
+});
+
+describe("parseWeeklyHours", () => {
+  it("returns null when no day is listed", () => {
+    expect(parseWeeklyHours(["", "", "", "", "", "", ""])).toBeNull();
+  });
+
+  it("treats blank days as closed once any day is listed", () => {
+    const week = parseWeeklyHours([WEEKDAYS, "", "", "", "", "", ""]);
+    expect(week[1]).toEqual({ kind: "closed" });
+  });
+});
+
+describe("isOpenAt", () => {
+  const week = parseWeeklyHours([
+    WEEKDAYS,
+    WEEKDAYS,
+    WEEKDAYS,
+    WEEKDAYS,
+    WEEKDAYS,
+    "1:30 PM - 12:00 AM",
+    "Please call",
+  ]);
+
+  it("checks the given day and time", () => {
+    expect(isOpenAt(week, 0, 9 * 60)).toBe(true);
+    expect(isOpenAt(week, 1, 17 * 60)).toBe(false);
+    expect(isOpenAt(week, 5, 23 * 60 + 59)).toBe(true);
+  });
+
+  it("returns null when a free-text day could cover the time", () => {
+    expect(isOpenAt(week, 6, 12 * 60)).toBeNull();
+    // Sunday's hours are unknown and could run past midnight into Monday.
+    expect(isOpenAt(week, 0, 7 * 60)).toBeNull();
+    expect(isOpenAt(null, 0, 0)).toBeNull();
+  });
+});
+
+describe("openStatus", () => {
+  const week = parseWeeklyHours([WEEKDAYS, WEEKDAYS, WEEKDAYS, WEEKDAYS, WEEKDAYS, "", ""]);
+
+  it("reports time until closing", () => {
+    // Wednesday 2026-10-21, 3:00 PM local
+    const now = new Date(2026, 9, 21, 15, 0);
+    const status = openStatus(week, now);
+    expect(status.open).toBe(true);
+    expect(status.nextChange).toEqual(new Date(2026, 9, 21, 17, 0));
+  });
+
+  it("skips closed weekend days to the next opening", () => {
+    // Friday 2026-10-23, 6:00 PM local → Monday 8:30 AM
+    const now = new Date(2026, 9, 23, 18, 0);
+    const status = openStatus(week, now);
+    expect(status.open).toBe(false);
+    expect(status.nextChange).toEqual(new Date(2026, 9, 26, 8, 30));
+  });
+
+  it("never changes for a 24/7 facility", () => {
+    const always = parseWeeklyHours(Array(7).fill("24 hours"));
+    expect(openStatus(always, new Date())).toEqual({
+      open: true,
+      nextChange: null,
+    });
+  });
+});
+
+describe("formatDuration", () => {
+  it("formats hours and minutes", () => {
+    expect(formatDuration(40 * 60000)).toBe("40m");
+    expect(formatDuration(135 * 60000)).toBe("2h 15m");
+  });
+});
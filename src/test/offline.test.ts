@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { DC_BOUNDS, OFFLINE_TILE_ZOOMS, tileUrls } from "@/lib/offline";
+
+const TEMPLATE = "https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png";
+
+describe("tileUrls", () => {
+  it("covers DC with the tiles Leaflet would request", () => {
+    const urls = tileUrls(TEMPLATE, DC_BOUNDS, [12]);
+    // The White House (38.8977, -77.0365) sits in tile 12/1171/1567.
+    expect(urls).toContain("https://a.basemaps.cartocdn.com/light_all/12/1171/1567.png");
+    expect(urls.every((u) => u.includes("/12/"))).toBe(true);
+  });
+
+  it("fills in the retina suffix", () => {
+    expect(tileUrls(TEMPLATE, DC_BOUNDS, [10], true)[0]).toMatch(/@2x\.png$/);
+  });
+
+  it("keeps the offline set to a few hundred tiles", () => {
+    const count = tileUrls(TEMPLATE, DC_BOUNDS, OFFLINE_TILE_ZOOMS).length;
+    expect(count).toBeGreaterThan(50);
+    expect(count).toBeLessThan(400);
+  });
+});
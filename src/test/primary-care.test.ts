@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { primaryCareAdapter } from "@/lib/data-sources/primary-care";
+import type { RawRow } from "@/lib/data-sources/types";
+
+const PT = "DCGISPrimaryCarePt";
+const INFO = "DCGISPRIMARY_CARE_INFO";
+
+// Values as they appear in the DC GIS export: "Yes", "No", blanks, stray
+// spaces, and free text in place of a yes.
+const row = (pt: Record<string, string>, info: Record<string, string> = {}): RawRow => ({
+  X: "-8575000",
+  Y: "4707000",
+  [`${PT}NAME`]: "Unity Health Care",
+  [`${PT}ADDRESS`]: "1500 Galen St SE",
+  ...Object.fromEntries(Object.entries(pt).map(([k, v]) => [`${PT}${k}`, v])),
+  ...Object.fromEntries(Object.entries(info).map(([k, v]) => [`${INFO}${k}`, v])),
+});
+
+const parse = (r: RawRow) => {
+  const result = primaryCareAdapter.parseRow(r);
+  if (!("pin" in result)) throw new Error(result.error);
+  return result.pin;
+};
+
+describe("primaryCareAdapter", () => {
+  it("sets an attribute only for a yes, never for no or blank", () => {
+    const { facility, tags } = parse(
+      row(
+        { MEDICAID: "Yes", MEDICARE: "No", PUBLIC_INSURANCE: " ", WALKIN_UNSCHEDULED: "" },
+        { ACCEPT_NEW_PT: "Yes - few per day", PEDIATRICS: "No" }
+      )
+    );
+    expect(facility.attributes).toEqual({ medicaid: true, acceptsNewPatients: true });
+    expect(tags).toEqual(["Accepts Medicaid"]);
+  });
+
+  it("reads either table's column for the same attribute", () => {
+    const { facility } = parse(row({ SEE_PATIENTS_WHO_CANT_PAY: " " }, { ABILITY_TO_PAY: "Yes" }));
+    expect(facility.attributes.seesUninsured).toBe(true);
+  });
+
+  it("counts insurance columns that describe coverage instead of saying yes", () => {
+    const { facility } = parse(
+      row(
+        { PRIVATE_INSURANCE: "Private insurance is also accepted", SLIDING_SCALE: "No fees" },
+        { INSURANCE_ALLIANCE: "Alliance" }
+      )
+    );
+    expect(facility.attributes).toMatchObject({
+      privateInsurance: true,
+      slidingScale: true,
+      alliance: true,
+    });
+  });
+
+  it("treats refusals in free-text columns as no", () => {
+    for (const value of ["NONE", "N/A", "No", "Please call"]) {
+      const { facility } = parse(row({ PRIVATE_INSURANCE: value }));
+      expect(facility.attributes.privateInsurance).toBeUndefined();
+    }
+  });
+
+  it("lists languages marked yes or by name, with other languages kept as text", () => {
+    const pin = parse(
+      row(
+        {},
+        {
+          ENGLISH: "English",
+          SPANISH: "Yes",
+          FRENCH: "",
+          AMHARIC: "No",
+          OTHER_LANGUAGE: " Haitian Creole, Hindi ",
+        }
+      )
+    );
+    expect(pin.extra.languages).toBe("English, Spanish");
+    expect(pin.facility.otherLanguages).toBe("Haitian Creole, Hindi");
+  });
+
+  it("leaves blank text fields out", () => {
+    const pin = parse(row({ INSURANCE_ACCEPTED: " ", FACILITY_TYPE: "FQHC" }, { OTHER_LANGUAGE: "" }));
+    expect(pin.extra.insurance).toBeUndefined();
+    expect(pin.extra.languages).toBeUndefined();
+    expect(pin.facility).toMatchObject({ facilityType: "FQHC", otherLanguages: undefined });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { fromWgs84, toWgs84, SUPPORTED_CRS, type Coordinate } from "@/lib/projection";
+import { haversine } from "@/lib/resources";
+
+const meters = (a: { lat: number; lng: number }, b: { lat: number; lng: number }) =>
+  haversine(a.lat, a.lng, b.lat, b.lng) * 1609.344;
+
+// The DC GIS Primary Care export stores every facility twice: Web Mercator
+// (X/Y) and Maryland State Plane (XCOORD/YCOORD), which gives independent
+// control points for both projections. The two encodings differ by a few
+// meters in the source data itself, so the tolerance is 10 m; a wrong
+// projection parameter is off by hundreds.
+const CONTROL_POINTS: { name: string; mercator: Coordinate; statePlane: Coordinate }[] = [
+  {
+    name: "Mary's Center - Adams Morgan",
+    mercator: [-8576032.24200029, 4710358.97134914],
+    statePlane: [396548.08, 139234.16],
+  },
+  {
+    name: "Children's Health Center - Shaw",
+    mercator: [-8574643.67900153, 4710203.43487477],
+    statePlane: [397629.74, 139113.09],
+  },
+  {
+    name: "Community of Hope - Marie Reed",
+    mercator: [-8576106.61827727, 4710124.73020697],
+    statePlane: [396489.2, 139058.25],
+  },
+];
+
+describe("toWgs84", () => {
+  it("reads EPSG:4326 as [lng, lat]", () => {
+    expect(toWgs84([-77.0369, 38.9072], "EPSG:4326")).toEqual({
+      lat: 38.9072,
+      lng: -77.0369,
+    });
+  });
+
+  it("maps the Maryland State Plane false origin to its defining lat/lng", () => {
+    const origin = toWgs84([400000, 0], "EPSG:26985");
+    expect(origin.lat).toBeCloseTo(37 + 40 / 60, 9);
+    expect(origin.lng).toBeCloseTo(-77, 9);
+  });
+
+  it.each(CONTROL_POINTS)(
+    "agrees between EPSG:3857 and EPSG:26985 for $name",
+    ({ mercator, statePlane }) => {
+      const a = toWgs84(mercator, "EPSG:3857");
+      const b = toWgs84(statePlane, "EPSG:26985");
+      expect(a.lat).toBeGreaterThan(38.79);
+      expect(a.lat).toBeLessThan(38.996);
+      expect(meters(a, b)).toBeLessThan(10);
+    }
+  );
+
+  it("throws for unsupported CRS codes", () => {
+    expect(() => toWgs84([0, 0], "EPSG:2248" as never)).toThrow(
+      "Unsupported CRS"
+    );
+  });
+});
+
+describe("fromWgs84", () => {
+  it.each(SUPPORTED_CRS)("round-trips a DC point through %s", (crs) => {
+    const point = { lat: 38.8895, lng: -77.0353 };
+    const back = toWgs84(fromWgs84(point, crs), crs);
+    expect(meters(point, back)).toBeLessThan(0.001);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import Papa from "papaparse";
+import type { ResourcePin } from "@/lib/resources";
+import {
+  exportResources,
+  pinsInBounds,
+  toCsv,
+  toGeoJson,
+  toKml,
+  type ExportProvenance,
+} from "@/lib/resource-export";
+
+const PINS: ResourcePin[] = [
+  {
+    id: "health-0",
+    source: "health",
+    type: "health",
+    label: "Unity Health Care, \"Anacostia\"",
+    lat: 38.8629,
+    lng: -76.9951,
+    detail: "Community health center",
+    address: "1500 Galen St SE",
+    tags: ["Medicaid", "Walk-ins OK"],
+    storeType: "",
+    ward: 8,
+    zip: "20020",
+    extra: { phone: "202-555-0100", languages: "Spanish, Amharic" },
+    transit: { rail: { stopId: "STN_ANACOSTIA", name: "Anacostia", meters: 80, walkSeconds: 75 } },
+  },
+  {
+    id: "snap-3",
+    source: "snap",
+    type: "food",
+    label: "Corner Market",
+    lat: 38.95,
+    lng: -77.03,
+    detail: "",
+    address: "5000 Georgia Ave NW",
+    tags: ["Accepts EBT"],
+    storeType: "Convenience Store",
+  },
+];
+
+const PROVENANCE: ExportProvenance = {
+  sources: [
+    {
+      id: "health",
+      label: "Primary Care Facilities (DC GIS)",
+      url: "/Primary_Care_Facilities.csv",
+      loadedAt: new Date("2026-03-01T10:00:00Z"),
+    },
+  ],
+  exportedAt: new Date("2026-03-02T09:30:00Z"),
+  view: "https://example.org/map?f=type:health",
+  bounds: null,
+};
+
+describe("pinsInBounds", () => {
+  it("keeps pins inside the box", () => {
+    const bounds = { south: 38.8, west: -77.0, north: 38.9, east: -76.9 };
+    expect(pinsInBounds(PINS, bounds).map((p) => p.id)).toEqual(["health-0"]);
+  });
+});
+
+describe("toCsv", () => {
+  const csv = toCsv(PINS, PROVENANCE);
+
+  it("starts with the provenance as comment lines", () => {
+    const lines = csv.split("\r\n");
+    expect(lines[0]).toBe("# EquityMap export of 2 resource(s)");
+    expect(lines).toContain(
+      "# Source: Primary Care Facilities (DC GIS) (/Primary_Care_Facilities.csv), loaded 2026-03-01T10:00:00.000Z"
+    );
+  });
+
+  it("round-trips every field, extra included", () => {
+    const { data } = Papa.parse<Record<string, string>>(csv, {
+      header: true,
+      comments: "#",
+      skipEmptyLines: true,
+    });
+    expect(data).toHaveLength(2);
+    expect(data[0]).toMatchObject({
+      id: "health-0",
+      name: 'Unity Health Care, "Anacostia"',
+      ward: "8",
+      tags: "Medicaid; Walk-ins OK",
+      phone: "202-555-0100",
+      languages: "Spanish, Amharic",
+      nearest_metro: "Anacostia",
+      nearest_metro_walk_min: "1",
+    });
+    expect(data[1]).toMatchObject({ store_type: "Convenience Store", phone: "", ward: "" });
+  });
+});
+
+describe("toCsv formulas", () => {
+  it("keeps spreadsheets from running submitted text as a formula", () => {
+    const reported = {
+      ...PINS[1],
+      label: '=HYPERLINK("http://evil.example","Click")',
+      address: "@SUM(A1)",
+      detail: "-2+3",
+    };
+    const { data } = Papa.parse<Record<string, string>>(toCsv([reported], PROVENANCE), {
+      header: true,
+      comments: "#",
+    });
+    expect(data[0].name).toBe(`'=HYPERLINK("http://evil.example","Click")`);
+    expect(data[0].address).toBe("'@SUM(A1)");
+    expect(data[0].detail).toBe("'-2+3");
+    expect(data[0].longitude).toBe("-77.030000");
+  });
+});
+
+describe("toGeoJson", () => {
+  it("writes point features with the pin as properties", () => {
+    const geojson = JSON.parse(toGeoJson(PINS, { ...PROVENANCE, bounds: { south: 1, west: 2, north: 3, east: 4 } }));
+    expect(geojson.type).toBe("FeatureCollection");
+    expect(geojson.metadata.sources[0].loadedAt).toBe("2026-03-01T10:00:00.000Z");
+    expect(geojson.metadata.bounds).toEqual({ south: 1, west: 2, north: 3, east: 4 });
+    expect(geojson.features[0].geometry).toEqual({ type: "Point", coordinates: [-76.9951, 38.8629] });
+    expect(geojson.features[0].properties.extra.phone).toBe("202-555-0100");
+  });
+});
+
+describe("toKml", () => {
+  it("escapes text and puts coordinates in lng,lat order", () => {
+    const kml = toKml(PINS, PROVENANCE);
+    expect(kml).toContain("<name>Unity Health Care, &quot;Anacostia&quot;</name>");
+    expect(kml).toContain("<coordinates>-76.9951,38.8629</coordinates>");
+    expect(kml).toContain('<Data name="phone"><value>202-555-0100</value></Data>');
+    expect(kml).toContain("Map view: https://example.org/map?f=type:health");
+  });
+});
+
+describe("exportResources", () => {
+  it("names the file after the export date", () => {
+    expect(exportResources("kml", PINS, PROVENANCE)).toMatchObject({
+      filename: "equitymap-resources-2026-03-02.kml",
+      mime: "application/vnd.google-earth.kml+xml",
+    });
+  });
+});
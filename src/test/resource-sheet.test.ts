@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import type { ResourcePin } from "@/lib/resources";
+import { fitZoom, renderResourceSheet, staticMap, type ResourceSheet } from "@/lib/resource-sheet";
+
+const pin = (id: string, lat: number, lng: number, extra?: ResourcePin["extra"]): ResourcePin => ({
+  id,
+  source: "health",
+  type: "health",
+  label: id,
+  lat,
+  lng,
+  detail: "",
+  address: "1 Main St NW",
+  tags: [],
+  storeType: "",
+  extra,
+});
+
+const HOME = { lat: 38.9, lng: -77.03, label: "14th & U St NW" };
+
+describe("fitZoom", () => {
+  it("zooms out until every point fits", () => {
+    const near = fitZoom(HOME, [{ lat: 38.901, lng: -77.031 }]);
+    const far = fitZoom(HOME, [{ lat: 38.95, lng: -76.95 }]);
+    expect(near).toBe(16);
+    expect(far).toBeLessThan(near);
+  });
+});
+
+describe("staticMap", () => {
+  it("centers the origin and covers the map with tiles", () => {
+    const map = staticMap(HOME, [{ lat: 38.905, lng: -77.02 }], 600, 300);
+    expect(map.origin).toEqual({ x: 300, y: 150 });
+    const [marker] = map.markers;
+    expect(marker.x).toBeGreaterThan(300);
+    expect(marker.y).toBeLessThan(150);
+    expect(map.tiles.some((t) => t.x <= 0 && t.y <= 0)).toBe(true);
+    expect(map.tiles.every((t) => t.x < 600 && t.y < 300)).toBe(true);
+  });
+});
+
+describe("renderResourceSheet", () => {
+  const sheet: ResourceSheet = {
+    location: HOME,
+    entries: [
+      {
+        pin: pin("Unity <Health>", 38.91, -77.03, { phone: "202-555-0100", languages: "Spanish" }),
+        distance: 0.7,
+        walkSeconds: 900,
+      },
+    ],
+    link: "https://example.org/map?q=x",
+    lang: "es",
+    generatedAt: new Date("2026-03-01T12:00:00Z"),
+  };
+  const t = (key: string) => `[${key}]`;
+
+  it("lists each resource with its details and walk time", () => {
+    const html = renderResourceSheet(sheet, t, "<svg></svg>");
+    expect(html).toContain("Unity &lt;Health&gt;");
+    expect(html).toContain("<b>[sheet.phone]:</b> 202-555-0100");
+    expect(html).toContain("15 [sheet.walk]");
+    expect(html).toContain("0.7 mi");
+    expect(html).not.toContain("[sheet.hours]");
+  });
+
+  it("uses the active language throughout", () => {
+    const html = renderResourceSheet(sheet, t, "<svg></svg>");
+    expect(html).toContain('<html lang="es">');
+    expect(html).toContain("[sheet.title] 14th &amp; U St NW");
+    expect(html).toContain("marzo");
+  });
+
+  it("says so when nothing is nearby", () => {
+    const html = renderResourceSheet({ ...sheet, entries: [] }, t, "");
+    expect(html).toContain("[sheet.none]");
+  });
+});
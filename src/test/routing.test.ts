@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { haversine } from "@/lib/resources";
+import {
+  formatTravelTime,
+  isEastOfAnacostia,
+  isochrones,
+  sampleIsochrones,
+  travelTimes,
+  type RoutingProvider,
+} from "@/lib/routing";
+import { crossingDistance, estimateSeconds } from "@/lib/routing/local";
+import { OSRM_MAX_TABLE_SIZE, osrmProvider } from "@/lib/routing/osrm";
+
+const ANACOSTIA = { lat: 38.8627, lng: -76.9853 };
+const NAVY_YARD = { lat: 38.876, lng: -77.003 };
+const CAPITOL_HILL = { lat: 38.888, lng: -76.998 };
+const CONGRESS_HEIGHTS = { lat: 38.842, lng: -76.996 };
+
+const meters = (a: typeof ANACOSTIA, b: typeof ANACOSTIA) =>
+  haversine(a.lat, a.lng, b.lat, b.lng) * 1609.34;
+
+describe("local routing", () => {
+  it("knows which bank of the Anacostia a point is on", () => {
+    expect(isEastOfAnacostia(ANACOSTIA)).toBe(true);
+    expect(isEastOfAnacostia(CONGRESS_HEIGHTS)).toBe(true);
+    expect(isEastOfAnacostia(NAVY_YARD)).toBe(false);
+    expect(isEastOfAnacostia(CAPITOL_HILL)).toBe(false);
+  });
+
+  it("routes across the river through a bridge", () => {
+    expect(crossingDistance(ANACOSTIA, NAVY_YARD)).toBeGreaterThan(
+      meters(ANACOSTIA, NAVY_YARD)
+    );
+    expect(crossingDistance(ANACOSTIA, CONGRESS_HEIGHTS)).toBeCloseTo(
+      meters(ANACOSTIA, CONGRESS_HEIGHTS),
+      6
+    );
+  });
+
+  it("only takes transit when it beats walking", () => {
+    const near = { lat: 38.889, lng: -76.998 };
+    expect(estimateSeconds(CAPITOL_HILL, near, "transit")).toBe(
+      estimateSeconds(CAPITOL_HILL, near, "walk")
+    );
+    expect(estimateSeconds(CAPITOL_HILL, CONGRESS_HEIGHTS, "transit")).toBeLessThan(
+      estimateSeconds(CAPITOL_HILL, CONGRESS_HEIGHTS, "walk")
+    );
+  });
+});
+
+// 1 m/s in every direction.
+const steady: RoutingProvider = {
+  id: "steady",
+  offline: true,
+  estimated: true,
+  travelTimes: async (origin, destinations) =>
+    destinations.map((d) => meters(origin, d)),
+};
+
+describe("sampleIsochrones", () => {
+  it("draws one closed ring per contour at the reachable radius", async () => {
+    const [ten, twenty] = await sampleIsochrones(steady, CAPITOL_HILL, [10, 20], "walk");
+    expect(ten.ring[0]).toEqual(ten.ring[ten.ring.length - 1]);
+    const radius = (ring: [number, number][]) =>
+      meters(CAPITOL_HILL, { lat: ring[0][0], lng: ring[0][1] });
+    expect(radius(ten.ring)).toBeLessThanOrEqual(600);
+    expect(radius(ten.ring)).toBeGreaterThan(500);
+    expect(radius(twenty.ring)).toBeGreaterThan(radius(ten.ring));
+  });
+});
+
+describe("travelTimes", () => {
+  it("falls back to the next provider when one fails", async () => {
+    const broken: RoutingProvider = {
+      ...steady,
+      id: "broken",
+      travelTimes: async () => {
+        throw new Error("down");
+      },
+    };
+    const result = await travelTimes(CAPITOL_HILL, [NAVY_YARD], "walk", [broken, steady]);
+    expect(result.provider).toBe("steady");
+    expect(result.seconds[0]).toBeCloseTo(meters(CAPITOL_HILL, NAVY_YARD));
+  });
+});
+
+describe("isochrones", () => {
+  it("names the provider that drew them", async () => {
+    const broken: RoutingProvider = {
+      ...steady,
+      id: "broken",
+      travelTimes: async () => {
+        throw new Error("down");
+      },
+    };
+    const result = await isochrones(CAPITOL_HILL, "walk", [10], [broken, steady]);
+    expect(result.provider).toBe("steady");
+    expect(result.contours).toHaveLength(1);
+    expect(await isochrones(CAPITOL_HILL, "walk", [10], [broken])).toEqual({
+      contours: [],
+      provider: "none",
+    });
+  });
+});
+
+describe("osrmProvider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("splits destinations into tables OSRM accepts by default, one at a time", async () => {
+    const inFlight = { now: 0, max: 0 };
+    const fetch = vi.fn(async (url: string) => {
+      inFlight.max = Math.max(inFlight.max, ++inFlight.now);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      inFlight.now--;
+      const coords = url.split("/foot/")[1].split("?")[0].split(";");
+      // Echo each destination's index (its longitude) back as its duration.
+      const row = coords.map((c) => Number(c.split(",")[0]));
+      return new Response(JSON.stringify({ code: "Ok", durations: [row] }));
+    });
+    vi.stubGlobal("fetch", fetch);
+
+    const destinations = Array.from({ length: 250 }, (_, i) => ({ lat: 0, lng: i }));
+    const seconds = await osrmProvider("http://osrm").travelTimes(
+      { lat: 0, lng: -1 },
+      destinations,
+      "walk"
+    );
+    expect(seconds).toEqual(destinations.map((d) => d.lng));
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(inFlight.max).toBe(1);
+    for (const [url] of fetch.mock.calls) {
+      expect(url.split(";").length).toBeLessThanOrEqual(OSRM_MAX_TABLE_SIZE);
+    }
+  });
+});
+
+describe("formatTravelTime", () => {
+  it.each([
+    [30, "1 min"],
+    [14 * 60, "14 min"],
+    [65 * 60, "1 h 5 min"],
+    [120 * 60, "2 h"],
+    [Infinity, "—"],
+  ])("formats %d seconds", (seconds, text) => {
+    expect(formatTravelTime(seconds)).toBe(text);
+  });
+});
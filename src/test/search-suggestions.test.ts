@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import {
+  rankSuggestions,
+  suggestLocal,
+  zipCenters,
+} from "@/lib/search-suggestions";
+import type { ResourcePin } from "@/lib/resources";
+
+const pin = (id: string, label: string, address: string, lat: number, lng: number): ResourcePin => ({
+  id,
+  source: "health",
+  type: "health",
+  label,
+  lat,
+  lng,
+  detail: "",
+  address,
+  tags: [],
+  storeType: "",
+});
+
+const PINS = [
+  pin("health-0", "Unity Health Care - Anacostia", "1500 Galen St SE, Washington, DC 20020", 38.86, -76.98),
+  pin("health-1", "Unity Health Care - Parkside", "765 Kenilworth Ter NE, Washington, DC 20019", 38.9, -76.94),
+  pin("snap-0", "Corner Market", "100 H St NE, Washington, DC 20002", 38.9, -77.0),
+];
+const ZIPS = zipCenters(PINS);
+
+describe("suggestLocal", () => {
+  it("matches resource names and carries the pin id", () => {
+    const results = suggestLocal("unity", PINS, ZIPS);
+    expect(results.filter((s) => s.kind === "resource").map((s) => s.pinId)).toEqual([
+      "health-0",
+      "health-1",
+    ]);
+  });
+
+  it("matches neighborhoods and resources by word", () => {
+    const kinds = rankSuggestions(suggestLocal("anacostia", PINS, ZIPS)).map((s) => s.kind);
+    expect(kinds).toEqual(["neighborhood", "resource"]);
+  });
+
+  it("suggests ZIP codes from loaded addresses", () => {
+    expect(suggestLocal("2002", PINS, ZIPS).filter((s) => s.kind === "zip").map((s) => s.label)).toEqual([
+      "20020",
+    ]);
+  });
+
+  it("matches wards by name and ignores one-letter queries", () => {
+    expect(suggestLocal("w", PINS, ZIPS)).toEqual([]);
+    const wards = suggestLocal("ward 7", PINS, ZIPS).filter((s) => s.kind === "ward");
+    expect(wards.map((s) => s.label)).toEqual(["Ward 7"]);
+  });
+});
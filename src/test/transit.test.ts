@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import type { ResourcePin } from "@/lib/resources";
+import {
+  annotateTransit,
+  matchesTransitFilter,
+  parseGtfs,
+  type TransitStop,
+} from "@/lib/transit";
+
+const FEED = {
+  stops: [
+    { stop_id: "STN_ANACOSTIA", stop_name: "Anacostia", stop_lat: "38.8629", stop_lon: "-76.9951", location_type: "1" },
+    { stop_id: "PF_ANACOSTIA_1", stop_name: "Anacostia Platform", stop_lat: "38.863", stop_lon: "-76.995", location_type: "0", parent_station: "STN_ANACOSTIA" },
+    { stop_id: "PF_ANACOSTIA_2", stop_name: "Anacostia Platform", stop_lat: "38.863", stop_lon: "-76.995", location_type: "0", parent_station: "STN_ANACOSTIA" },
+    { stop_id: "1001", stop_name: "Good Hope Rd + 14th St SE", stop_lat: "38.8667", stop_lon: "-76.9856" },
+    { stop_id: "9999", stop_name: "Unserved stop", stop_lat: "38.9", stop_lon: "-77" },
+  ],
+  routes: [
+    { route_id: "GR", route_short_name: "GR", route_type: "1" },
+    { route_id: "W2", route_short_name: "W2", route_type: "3" },
+    { route_id: "A8", route_short_name: "A8", route_type: "3" },
+  ],
+  trips: [
+    { trip_id: "gr-1", route_id: "GR" },
+    { trip_id: "w2-1", route_id: "W2" },
+    { trip_id: "a8-1", route_id: "A8" },
+  ],
+  stopTimes: [
+    { trip_id: "gr-1", stop_id: "PF_ANACOSTIA_1" },
+    { trip_id: "gr-1", stop_id: "PF_ANACOSTIA_2" },
+    { trip_id: "w2-1", stop_id: "1001" },
+    { trip_id: "a8-1", stop_id: "1001" },
+    { trip_id: "a8-1", stop_id: "STN_ANACOSTIA" },
+  ],
+};
+
+describe("parseGtfs", () => {
+  const stops = parseGtfs(FEED);
+
+  it("folds platforms into their station and drops unserved stops", () => {
+    expect(stops.map((s) => s.id).sort()).toEqual(["1001", "STN_ANACOSTIA"]);
+  });
+
+  it("marks stops with any rail route as rail", () => {
+    const station = stops.find((s) => s.id === "STN_ANACOSTIA");
+    expect(station).toMatchObject({ kind: "rail", routes: ["A8", "GR"], lat: 38.8629 });
+    expect(stops.find((s) => s.id === "1001")).toMatchObject({ kind: "bus", routes: ["A8", "W2"] });
+  });
+});
+
+const pin = (id: string, lat: number, lng: number): ResourcePin => ({
+  id,
+  source: "snap",
+  type: "food",
+  label: id,
+  lat,
+  lng,
+  detail: "",
+  address: "",
+  tags: [],
+  storeType: "",
+});
+
+const STOPS: TransitStop[] = [
+  { id: "navy-yard", name: "Navy Yard", lat: 38.8765, lng: -77.0051, kind: "rail", routes: ["GR"] },
+  { id: "anacostia", name: "Anacostia", lat: 38.8629, lng: -76.9951, kind: "rail", routes: ["GR"] },
+  { id: "bus", name: "Good Hope Rd", lat: 38.8667, lng: -76.9856, kind: "bus", routes: ["W2"] },
+];
+
+describe("annotateTransit", () => {
+  it("finds the quickest walk, not the closest point across the river", () => {
+    // On the east bank, nearer to Navy Yard as the crow flies than to Anacostia station.
+    const [annotated] = annotateTransit([pin("east-bank", 38.8705, -77.0005)], STOPS);
+    expect(annotated.transit.rail.stopId).toBe("anacostia");
+    expect(annotated.transit.bus.stopId).toBe("bus");
+  });
+
+  it("leaves pins alone when there are no stops", () => {
+    const pins = [pin("a", 38.9, -77)];
+    expect(annotateTransit(pins, [])).toBe(pins);
+  });
+});
+
+describe("matchesTransitFilter", () => {
+  const [near, far] = annotateTransit(
+    [pin("near", 38.8632, -76.9951), pin("far", 38.95, -76.95)],
+    STOPS
+  );
+
+  it("keeps pins within the walking time of the chosen kind of stop", () => {
+    expect(matchesTransitFilter(near, { kind: "rail", minutes: 5 })).toBe(true);
+    expect(matchesTransitFilter(far, { kind: "any", minutes: 15 })).toBe(false);
+  });
+
+  it("never matches pins without transit data", () => {
+    expect(matchesTransitFilter(pin("x", 38.8629, -76.9951), { kind: "any", minutes: 15 })).toBe(false);
+  });
+});
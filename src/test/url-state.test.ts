@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseMapUrlState,
+  serializeMapUrlState,
+  type MapUrlState,
+} from "@/lib/url-state";
+
+const STATE: MapUrlState = {
+  search: { lat: 38.86523, lng: -76.98877, label: "2100 MLK Jr Ave SE" },
+  filters: ["type:health", "Accepts Medicaid", "store:Combination Grocery/Other"],
+  groupModes: { access: "or" },
+  openFilter: { mode: "at", day: 5, minutes: 600 },
+  transitFilter: { kind: "rail", minutes: 10 },
+  pinId: "health-12",
+  view: { center: [38.87, -76.99], zoom: 15 },
+  lang: "es",
+};
+
+describe("map URL state", () => {
+  it("round-trips through query parameters", () => {
+    const params = serializeMapUrlState(STATE);
+    expect(parseMapUrlState(new URLSearchParams(params.toString()))).toEqual(STATE);
+  });
+
+  it("leaves empty state out of the URL", () => {
+    const params = serializeMapUrlState({
+      search: null,
+      filters: [],
+      groupModes: {},
+      openFilter: null,
+      transitFilter: null,
+      pinId: null,
+      view: null,
+      lang: null,
+    });
+    expect(params.toString()).toBe("");
+  });
+
+  it("drops malformed values instead of failing", () => {
+    const state = parseMapUrlState(
+      new URLSearchParams("at=abc&open=at:9:60&near=tram:5&z=15&lang=xx&mode=access:maybe&f=Walk-ins%20OK")
+    );
+    expect(state).toMatchObject({
+      search: null,
+      openFilter: null,
+      transitFilter: null,
+      view: null,
+      lang: null,
+      groupModes: {},
+      filters: ["Walk-ins OK"],
+    });
+  });
+});